@@ -1,13 +1,30 @@
 import { createCliRenderer, type CliRenderer, type KeyEvent } from "@opentui/core";
-import { stateManager, type AppState } from "./state.js";
+import { stateManager, type AppState, type QueuePauseAction } from "./state.js";
 import { pollingManager } from "./polling.js";
-import { getJobDetail, deleteJob, type JobListView } from "./data/jobs.js";
+import {
+  getJobDetail,
+  deleteJob,
+  retryFailedJobs,
+  type JobDetail,
+  type JobListView,
+} from "./data/jobs.js";
+import { flattenFlowTree, getFlowTree } from "./data/flows.js";
+import { getFailureGroups } from "./data/failures.js";
+import { getQueueLatency } from "./data/latency.js";
+import { findJob, type JobFindResult } from "./data/job-find.js";
+import { getJob as getCachedJob } from "./data/queue-store.js";
 import type { QueueSortBy } from "./data/queue-sort.js";
 import { getJobSchedulerDetail } from "./data/schedulers.js";
+import { setQueuePaused } from "./data/queues.js";
 import { closeContext, type Context } from "./context.js";
 
 // UI imports
-import { createLayout, updateHeaderStatus, type LayoutElements } from "./ui/layout.js";
+import {
+  createLayout,
+  updateAlertBanner,
+  updateHeaderStatus,
+  type LayoutElements,
+} from "./ui/layout.js";
 import { createQueueList, updateQueueList, type QueueListElements } from "./ui/queue-list.js";
 import { createQueueStats, updateQueueStats, type QueueStatsElements } from "./ui/queue-stats.js";
 import {
@@ -41,11 +58,22 @@ import {
   updateGlobalMetrics,
   type GlobalMetricsElements,
 } from "./ui/global-metrics.js";
+import {
+  createFailureGroups,
+  updateFailureGroups,
+  type FailureGroupsElements,
+} from "./ui/failure-groups.js";
+import {
+  createQueueLatency,
+  updateQueueLatency,
+  type QueueLatencyElements,
+} from "./ui/queue-latency.js";
 import { createPageJump, updatePageJump, type PageJumpElements } from "./ui/page-jump.js";
 import {
   clampPaletteIndex,
   createCommandPalette,
   filterPaletteActions,
+  looksLikeJobId,
   updateCommandPalette,
   type CommandPaletteElements,
   type PaletteAction,
@@ -66,6 +94,8 @@ interface AppElements {
   jobDetail: JobDetailElements;
   schedulerList: SchedulerListElements;
   schedulerDetail: SchedulerDetailElements;
+  failureGroups: FailureGroupsElements;
+  queueLatency: QueueLatencyElements;
   confirmDialog: ConfirmDialogElements;
   pageJump: PageJumpElements;
   commandPalette: CommandPaletteElements;
@@ -138,6 +168,8 @@ export class App {
     const schedulerList = createSchedulerList(this.renderer, layout.rightPane);
     const jobDetail = createJobDetail(this.renderer);
     const schedulerDetail = createSchedulerDetail(this.renderer);
+    const failureGroups = createFailureGroups(this.renderer);
+    const queueLatency = createQueueLatency(this.renderer);
     const confirmDialog = createConfirmDialog(this.renderer);
     const pageJump = createPageJump(this.renderer);
     const commandPalette = createCommandPalette(this.renderer);
@@ -152,6 +184,8 @@ export class App {
       jobDetail,
       schedulerList,
       schedulerDetail,
+      failureGroups,
+      queueLatency,
       confirmDialog,
       pageJump,
       commandPalette,
@@ -186,7 +220,7 @@ export class App {
 
     // Command palette input mode
     if (state.showCommandPalette) {
-      const available = filterPaletteActions(this.buildPaletteActions(state), state.paletteQuery);
+      const available = this.paletteActions(state);
       if (key.name === "escape") {
         stateManager.closeCommandPalette();
       } else if (key.name === "return" || key.name === "enter") {
@@ -209,6 +243,26 @@ export class App {
       return;
     }
 
+    // Queue pause/resume confirmation
+    if (state.confirmQueuePause) {
+      if (key.name === "y") {
+        await this.confirmQueuePause(state.confirmQueuePause);
+      } else if (key.name === "n" || key.name === "escape") {
+        stateManager.hideQueuePauseConfirm();
+      }
+      return;
+    }
+
+    // Failure group retry confirmation
+    if (state.confirmFailureGroupRetry) {
+      if (key.name === "y") {
+        await this.confirmFailureGroupRetry(state.confirmFailureGroupRetry);
+      } else if (key.name === "n" || key.name === "escape") {
+        stateManager.hideFailureGroupRetryConfirm();
+      }
+      return;
+    }
+
     // Confirm dialog handling
     if (state.showConfirmDelete) {
       if (key.name === "y") {
@@ -239,6 +293,37 @@ export class App {
         stateManager.closeJobDetail();
       } else if (key.name === "d") {
         stateManager.showDeleteConfirm();
+      } else if (key.name === "j" || key.name === "down") {
+        stateManager.moveFlowSelection(1);
+      } else if (key.name === "k" || key.name === "up") {
+        stateManager.moveFlowSelection(-1);
+      } else if ((key.name === "return" || key.name === "enter") && state.jobFlowTree) {
+        await this.openFlowNode();
+      }
+      return;
+    }
+
+    // Failure groups view handling
+    if (state.showFailureGroups) {
+      if (key.name === "escape") {
+        stateManager.closeFailureGroups();
+      } else if (key.name === "j" || key.name === "down") {
+        stateManager.moveFailureGroupSelection(1);
+      } else if (key.name === "k" || key.name === "up") {
+        stateManager.moveFailureGroupSelection(-1);
+      } else if (key.name === "r") {
+        const group = state.failureGroups?.groups[state.selectedFailureGroupIndex];
+        if (group) stateManager.showFailureGroupRetryConfirm(group.id);
+      }
+      return;
+    }
+
+    // Latency view handling
+    if (state.showQueueLatency) {
+      if (key.name === "escape") {
+        stateManager.closeQueueLatency();
+      } else if (key.name === "r") {
+        await this.openQueueLatency();
       }
       return;
     }
@@ -349,6 +434,18 @@ export class App {
         }
         break;
 
+      case "p":
+        this.requestQueuePauseToggle();
+        break;
+
+      case "f":
+        await this.openFailureGroups();
+        break;
+
+      case "l":
+        await this.openQueueLatency();
+        break;
+
       case "r":
         await pollingManager.refresh();
         break;
@@ -399,6 +496,18 @@ export class App {
     await pollingManager.refreshJobs();
   }
 
+  /**
+   * Palette entries for the typed query. Job-find entries follow the matching
+   * actions, and only when the query looks like a job ID or matches nothing
+   * else, so typing an action's name never runs a lookup instead.
+   */
+  private paletteActions(state: AppState): RunnablePaletteAction[] {
+    const matching = filterPaletteActions(this.buildPaletteActions(state), state.paletteQuery);
+    const jobId = state.paletteQuery.trim();
+    if (!jobId || (matching.length > 0 && !looksLikeJobId(jobId))) return matching;
+    return [...matching, ...this.jobFindActions(state.jobFindResult, jobId)];
+  }
+
   /**
    * The command-palette action registry. Rebuilt per keystroke/render from
    * live state so titles and availability stay current (e.g. "Clear queue
@@ -462,6 +571,32 @@ export class App {
       });
     }
 
+    const selectedQueue = stateManager.getSelectedQueue();
+    if (selectedQueue) {
+      const action = selectedQueue.isPaused ? "resume" : "pause";
+      actions.push({
+        id: "toggle-queue-pause",
+        title: `${action === "pause" ? "Pause" : "Resume"} queue ${selectedQueue.name}`,
+        hint: "p",
+        run: () => stateManager.showQueuePauseConfirm(action),
+      });
+    }
+
+    if (selectedQueue) {
+      actions.push({
+        id: "failure-groups",
+        title: `Show failure groups for ${selectedQueue.name}`,
+        hint: "f",
+        run: () => this.openFailureGroups(),
+      });
+      actions.push({
+        id: "queue-latency",
+        title: `Show latency stats for ${selectedQueue.name}`,
+        hint: "l",
+        run: () => this.openQueueLatency(),
+      });
+    }
+
     actions.push({
       id: "toggle-pane",
       title: "Switch pane",
@@ -486,6 +621,76 @@ export class App {
     return actions;
   }
 
+  /**
+   * Palette entries for looking the typed text up as a job ID: a "find"
+   * entry until the lookup has run, then one entry per match.
+   */
+  private jobFindActions(result: JobFindResult | null, jobId: string): RunnablePaletteAction[] {
+    if (result?.jobId !== jobId) {
+      return [
+        {
+          id: "find-job",
+          title: `Find job ${jobId} in all queues`,
+          run: () => this.findJobById(jobId),
+        },
+      ];
+    }
+
+    const cached = result.source === "cache" ? " (cached)" : "";
+    if (result.matches.length === 0) {
+      return [
+        {
+          id: "find-job-none",
+          title: `No job ${jobId} in ${result.queuesSearched} queues${cached}`,
+          run: () => {},
+        },
+      ];
+    }
+    return result.matches.map((match) => ({
+      id: `find-job-${match.queue}`,
+      title: `Open job ${jobId} in ${match.queue} (${match.state})${cached}`,
+      run: () => this.openFoundJob(match.queue, jobId, result.source),
+    }));
+  }
+
+  private async findJobById(jobId: string): Promise<void> {
+    try {
+      stateManager.showJobFindResult(await findJob(this.requireCtx(), jobId));
+    } catch {
+      // Polling surfaces connection errors in the header; nothing else to show.
+    }
+  }
+
+  /**
+   * Select the match's queue and open the job. Cache matches open the cached
+   * detail, since the lookup only fell back to the cache because Redis was down.
+   */
+  private async openFoundJob(
+    queueName: string,
+    jobId: string,
+    source: JobFindResult["source"],
+  ): Promise<void> {
+    // Job actions target the selected queue, so never open a detail for a
+    // queue the list can't select.
+    if (!stateManager.selectQueueByName(queueName)) return;
+    stateManager.setState({ focusedPane: "jobs" });
+    await pollingManager.refreshJobs();
+
+    try {
+      const ctx = this.requireCtx();
+      const detail =
+        source === "cache"
+          ? getCachedJob(ctx, queueName, jobId)
+          : await getJobDetail(ctx, queueName, jobId);
+      if (detail) {
+        stateManager.openJobDetail(detail);
+        if (source === "redis") await this.loadJobFlowTree(queueName, detail);
+      }
+    } catch {
+      // Handle error silently for now
+    }
+  }
+
   private async openJobDetail(): Promise<void> {
     const selectedJob = stateManager.getSelectedJob();
     const selectedQueue = stateManager.getSelectedQueue();
@@ -496,12 +701,91 @@ export class App {
       const detail = await getJobDetail(this.requireCtx(), selectedQueue.name, selectedJob.id);
       if (detail) {
         stateManager.openJobDetail(detail);
+        await this.loadJobFlowTree(selectedQueue.name, detail);
+      }
+    } catch {
+      // Handle error silently for now
+    }
+  }
+
+  /** Load the flow panel for an open job that has a parent or children. */
+  private async loadJobFlowTree(queueName: string, detail: JobDetail): Promise<void> {
+    if (!detail.parentKey && !detail.dependencies) return;
+    const tree = await getFlowTree(this.requireCtx(), queueName, detail.id);
+    // The overlay may have moved on to another job while the tree loaded.
+    if (tree && stateManager.getState().jobDetail === detail) {
+      stateManager.setJobFlowTree(tree);
+    }
+  }
+
+  /**
+   * Open the job selected in the flow panel. Its queue is selected first,
+   * since delete in the detail overlay acts on the selected queue.
+   */
+  private async openFlowNode(): Promise<void> {
+    const { jobFlowTree, selectedFlowNodeIndex } = stateManager.getState();
+    const node = jobFlowTree && flattenFlowTree(jobFlowTree.root)[selectedFlowNodeIndex]?.node;
+    if (!node || !node.queue || node.state === "missing" || node.key === jobFlowTree.jobKey) {
+      return;
+    }
+    if (!stateManager.selectQueueByName(node.queue)) return;
+    stateManager.setState({ focusedPane: "jobs" });
+    await pollingManager.refreshJobs();
+
+    try {
+      const detail = await getJobDetail(this.requireCtx(), node.queue, node.id);
+      if (detail) {
+        stateManager.openJobDetail(detail);
+        await this.loadJobFlowTree(node.queue, detail);
       }
     } catch {
       // Handle error silently for now
     }
   }
 
+  private async openFailureGroups(): Promise<void> {
+    const selectedQueue = stateManager.getSelectedQueue();
+    if (!selectedQueue) return;
+
+    try {
+      const result = await getFailureGroups(this.requireCtx(), selectedQueue.name);
+      stateManager.openFailureGroups(result);
+    } catch {
+      // Polling surfaces connection errors in the header; nothing else to show.
+    }
+  }
+
+  private async openQueueLatency(): Promise<void> {
+    const selectedQueue = stateManager.getSelectedQueue();
+    if (!selectedQueue) return;
+
+    try {
+      const result = await getQueueLatency(this.requireCtx(), selectedQueue.name);
+      stateManager.openQueueLatency(result);
+    } catch {
+      // Polling surfaces connection errors in the header; nothing else to show.
+    }
+  }
+
+  /** Retry every scanned failed job in one group, then regroup what's left. */
+  private async confirmFailureGroupRetry(groupId: string): Promise<void> {
+    const selectedQueue = stateManager.getSelectedQueue();
+    stateManager.hideFailureGroupRetryConfirm();
+    if (!selectedQueue) return;
+
+    try {
+      const ctx = this.requireCtx();
+      await retryFailedJobs(ctx, selectedQueue.name, {
+        jobState: "failed",
+        failureGroup: groupId,
+      });
+      stateManager.updateFailureGroups(await getFailureGroups(ctx, selectedQueue.name));
+      await pollingManager.refresh();
+    } catch {
+      // Polling surfaces connection errors in the header; nothing else to show.
+    }
+  }
+
   private async openSchedulerDetail(): Promise<void> {
     const selectedScheduler = stateManager.getSelectedScheduler();
     const selectedQueue = stateManager.getSelectedQueue();
@@ -539,6 +823,7 @@ export class App {
         // Close scheduler detail and open job detail
         stateManager.closeSchedulerDetail();
         stateManager.openJobDetail(jobDetail);
+        await this.loadJobFlowTree(selectedQueue.name, jobDetail);
       }
     } catch {
       // Handle error silently for now
@@ -573,6 +858,29 @@ export class App {
     }
   }
 
+  /** Ask to pause the selected queue, or resume it if it is already paused. */
+  private requestQueuePauseToggle(): void {
+    const selectedQueue = stateManager.getSelectedQueue();
+    if (!selectedQueue) return;
+    stateManager.showQueuePauseConfirm(selectedQueue.isPaused ? "resume" : "pause");
+  }
+
+  private async confirmQueuePause(action: QueuePauseAction): Promise<void> {
+    const selectedQueue = stateManager.getSelectedQueue();
+    stateManager.hideQueuePauseConfirm();
+    if (!selectedQueue) return;
+
+    try {
+      await setQueuePaused(this.requireCtx(), selectedQueue.name, action === "pause");
+      await pollingManager.refresh();
+    } catch (error) {
+      // Shown in the header until the next successful poll clears it.
+      stateManager.setState({
+        error: `Could not ${action} '${selectedQueue.name}': ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+
   private async confirmPageJump(): Promise<void> {
     const state = stateManager.getState();
     const pageInput = state.pageJumpInput;
@@ -607,6 +915,8 @@ export class App {
       jobDetail,
       schedulerList,
       schedulerDetail,
+      failureGroups,
+      queueLatency,
       confirmDialog,
       pageJump,
       commandPalette,
@@ -623,6 +933,7 @@ export class App {
 
     // Update global metrics
     updateGlobalMetrics(globalMetrics, state.globalMetrics);
+    updateAlertBanner(layout.alertBanner, state.firingAlerts);
 
     // Update queue list. While the `/` search or command palette input is
     // active the select is deliberately unfocused so typed characters don't
@@ -636,6 +947,7 @@ export class App {
       state.queueSortOrder,
       state.queueFilter,
       state.queueSearchActive,
+      state.queueTrends,
     );
 
     // Update queue stats
@@ -677,15 +989,51 @@ export class App {
     }
 
     // Update job detail
-    updateJobDetail(jobDetail, state.jobDetail, state.showJobDetail);
+    updateJobDetail(
+      jobDetail,
+      state.jobDetail,
+      state.showJobDetail,
+      state.jobFlowTree,
+      state.selectedFlowNodeIndex,
+    );
 
     // Update scheduler detail
     updateSchedulerDetail(schedulerDetail, state.schedulerDetail, state.showSchedulerDetail);
 
+    // Update failure groups
+    updateFailureGroups(
+      failureGroups,
+      selectedQueue?.name ?? null,
+      state.failureGroups,
+      state.selectedFailureGroupIndex,
+      state.showFailureGroups,
+    );
+
+    // Update latency view
+    updateQueueLatency(
+      queueLatency,
+      selectedQueue?.name ?? null,
+      state.queueLatency,
+      state.showQueueLatency,
+    );
+
     // Update confirm dialog
-    if (state.showConfirmDelete) {
+    if (state.confirmFailureGroupRetry) {
+      showConfirmDialog(
+        confirmDialog,
+        `Retry failed jobs in group ${state.confirmFailureGroupRetry}?`,
+      );
+    } else if (state.confirmQueuePause) {
+      const queueName = selectedQueue?.name ?? "unknown";
+      showConfirmDialog(
+        confirmDialog,
+        state.confirmQueuePause === "pause"
+          ? `Pause queue ${queueName}?`
+          : `Resume queue ${queueName}?`,
+      );
+    } else if (state.showConfirmDelete) {
       const jobId = state.jobDetail?.id || stateManager.getSelectedJob()?.id || "unknown";
-      showConfirmDialog(confirmDialog, jobId);
+      showConfirmDialog(confirmDialog, `Delete job ${jobId}?`);
     } else {
       hideConfirmDialog(confirmDialog);
     }
@@ -700,9 +1048,7 @@ export class App {
     );
 
     // Update command palette
-    const paletteActions = state.showCommandPalette
-      ? filterPaletteActions(this.buildPaletteActions(state), state.paletteQuery)
-      : [];
+    const paletteActions = state.showCommandPalette ? this.paletteActions(state) : [];
     updateCommandPalette(
       commandPalette,
       state.showCommandPalette,
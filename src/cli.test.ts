@@ -1,5 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
-import { readFileSync } from "node:fs";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
   extractSubcommand,
   getVersionText,
@@ -9,6 +11,8 @@ import {
   parseQueueNames,
   shouldLoadProfile,
 } from "./cli.js";
+import { encodeResumeToken, initialExportCursor } from "./data/job-export.js";
+import { encodeListCursor } from "./data/list-cursor.js";
 
 const packageJson = JSON.parse(
   readFileSync(new URL("../package.json", import.meta.url), "utf-8"),
@@ -289,6 +293,25 @@ describe("parseCliArgs", () => {
     });
   });
 
+  it("parses queues list throughput sorting", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "queues",
+      "list",
+      "--redis-url",
+      "redis://localhost",
+      "--sort-by",
+      "throughput",
+    ];
+
+    expect(parseCliArgs().subcommand).toEqual({
+      kind: "queues-list",
+      sortBy: "throughput",
+      sortOrder: "desc",
+    });
+  });
+
   it("exits with code 2 when --sort-by is used outside queues list", () => {
     process.argv = [
       "bun",
@@ -395,6 +418,28 @@ describe("parseCliArgs", () => {
     exitSpy.mockRestore();
     stderrSpy.mockRestore();
   });
+
+  it("parses --web-metrics-only and requires --web for it", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "--web",
+      "--redis-url",
+      "redis://localhost",
+      "--web-metrics-only",
+    ];
+    expect(parseCliArgs()).toMatchObject({ web: true, webMetricsOnly: true });
+
+    process.argv = ["bun", "index.ts", "--redis-url", "redis://localhost", "--web-metrics-only"];
+    const exitSpy = spyOn(process, "exit").mockImplementation((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    });
+    const stderrSpy = spyOn(process.stderr, "write").mockImplementation(() => true);
+
+    expect(() => parseCliArgs()).toThrow("process.exit(2)");
+    exitSpy.mockRestore();
+    stderrSpy.mockRestore();
+  });
 });
 
 describe("parseCliArgs — jobs retry", () => {
@@ -566,7 +611,7 @@ describe("parseCliArgs — jobs retry", () => {
     stderrSpy.mockRestore();
   });
 
-  it("exits with code 2 when --job-state is not 'failed'", () => {
+  it("parses a completed-jobs retry", () => {
     process.argv = [
       "bun",
       "index.ts",
@@ -577,6 +622,30 @@ describe("parseCliArgs — jobs retry", () => {
       "redis://localhost",
       "--job-state",
       "completed",
+      "--since",
+      "24h",
+      "--dry-run",
+    ];
+    const args = parseCliArgs();
+    expect(args.subcommand).toMatchObject({
+      kind: "jobs-retry",
+      jobState: "completed",
+      since: "24h",
+      dryRun: true,
+    });
+  });
+
+  it("exits with code 2 when --job-state is not failed or completed", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "retry",
+      "payments",
+      "--redis-url",
+      "redis://localhost",
+      "--job-state",
+      "delayed",
     ];
     const exitSpy = spyOn(process, "exit").mockImplementation((code?: number) => {
       throw new Error(`process.exit(${code})`);
@@ -719,3 +788,1415 @@ describe("parseCliArgs — jobs retry", () => {
     stderrSpy.mockRestore();
   });
 });
+
+describe("parseCliArgs — jobs promote", () => {
+  let originalArgv: string[];
+  let exitSafetySpy: ReturnType<typeof spyOn>;
+  let stderrSafetySpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+    exitSafetySpy = spyOn(process, "exit").mockImplementation((code?: number) => {
+      throw new Error(`unexpected process.exit(${code})`);
+    });
+    stderrSafetySpy = spyOn(process.stderr, "write").mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+    exitSafetySpy.mockRestore();
+    stderrSafetySpy.mockRestore();
+  });
+
+  it("parses a bulk dry-run promote with filters", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "promote",
+      "digests",
+      "--redis-url",
+      "redis://localhost",
+      "--job-state",
+      "delayed",
+      "--name",
+      "nightly",
+      "--since",
+      "1h",
+      "--dry-run",
+    ];
+    const args = parseCliArgs();
+    expect(args.subcommand).toEqual({
+      kind: "jobs-promote",
+      queue: "digests",
+      jobId: undefined,
+      since: "1h",
+      name: "nightly",
+      pageSize: undefined,
+      dryRun: true,
+    });
+  });
+
+  it("parses single-job promote by id with --yes", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "promote",
+      "digests",
+      "--redis-url",
+      "redis://localhost",
+      "--job-id",
+      "42",
+      "--yes",
+    ];
+    const args = parseCliArgs();
+    expect(args.yes).toBe(true);
+    expect(args.subcommand).toEqual({
+      kind: "jobs-promote",
+      queue: "digests",
+      jobId: "42",
+      since: undefined,
+      name: undefined,
+      pageSize: undefined,
+      dryRun: false,
+    });
+  });
+
+  it("exits with code 2 when neither --job-id nor --job-state is given", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "promote",
+      "digests",
+      "--redis-url",
+      "redis://localhost",
+    ];
+    const exitSpy = spyOn(process, "exit").mockImplementation((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    });
+    const stderrSpy = spyOn(process.stderr, "write").mockImplementation(() => true);
+
+    expect(() => parseCliArgs()).toThrow("process.exit(2)");
+    exitSpy.mockRestore();
+    stderrSpy.mockRestore();
+  });
+
+  it("exits with code 2 when --job-state is not 'delayed'", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "promote",
+      "digests",
+      "--redis-url",
+      "redis://localhost",
+      "--job-state",
+      "failed",
+    ];
+    const exitSpy = spyOn(process, "exit").mockImplementation((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    });
+    const stderrSpy = spyOn(process.stderr, "write").mockImplementation(() => true);
+
+    expect(() => parseCliArgs()).toThrow("process.exit(2)");
+    exitSpy.mockRestore();
+    stderrSpy.mockRestore();
+  });
+});
+
+describe("parseCliArgs — jobs remove", () => {
+  let originalArgv: string[];
+  let exitSafetySpy: ReturnType<typeof spyOn>;
+  let stderrSafetySpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+    exitSafetySpy = spyOn(process, "exit").mockImplementation((code?: number) => {
+      throw new Error(`unexpected process.exit(${code})`);
+    });
+    stderrSafetySpy = spyOn(process.stderr, "write").mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+    exitSafetySpy.mockRestore();
+    stderrSafetySpy.mockRestore();
+  });
+
+  it("parses a filtered dry-run removal", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "remove",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--job-state",
+      "completed",
+      "--since",
+      "24h",
+      "--name",
+      "poison",
+      "--dry-run",
+    ];
+    const args = parseCliArgs();
+    expect(args.subcommand).toEqual({
+      kind: "jobs-remove",
+      queue: "email",
+      jobState: "completed",
+      jobId: undefined,
+      since: "24h",
+      name: "poison",
+      pageSize: undefined,
+      dryRun: true,
+    });
+  });
+
+  it("parses single-job removal by id", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "remove",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--job-id",
+      "42",
+      "--yes",
+    ];
+    const args = parseCliArgs();
+    expect(args.yes).toBe(true);
+    expect(args.subcommand).toMatchObject({ kind: "jobs-remove", jobId: "42", dryRun: false });
+  });
+
+  it("exits with code 2 when --job-state is active", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "remove",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--job-state",
+      "active",
+    ];
+    const exitSpy = spyOn(process, "exit").mockImplementation((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    });
+    const stderrSpy = spyOn(process.stderr, "write").mockImplementation(() => true);
+
+    expect(() => parseCliArgs()).toThrow("process.exit(2)");
+    exitSpy.mockRestore();
+    stderrSpy.mockRestore();
+  });
+
+  it("exits with code 2 when neither --job-id nor --job-state is given", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "remove",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+    ];
+    const exitSpy = spyOn(process, "exit").mockImplementation((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    });
+    const stderrSpy = spyOn(process.stderr, "write").mockImplementation(() => true);
+
+    expect(() => parseCliArgs()).toThrow("process.exit(2)");
+    exitSpy.mockRestore();
+    stderrSpy.mockRestore();
+  });
+});
+
+describe("parseCliArgs — queues pause/resume", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("parses queues pause with --dry-run", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "queues",
+      "pause",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--dry-run",
+    ];
+    expect(parseCliArgs().subcommand).toEqual({
+      kind: "queues-pause",
+      queue: "email",
+      dryRun: true,
+    });
+  });
+
+  it("parses queues resume with --yes", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "queues",
+      "resume",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--yes",
+    ];
+    const args = parseCliArgs();
+    expect(args.yes).toBe(true);
+    expect(args.subcommand).toEqual({ kind: "queues-resume", queue: "email", dryRun: false });
+  });
+
+  it("exits with code 2 when the queue positional is missing", () => {
+    process.argv = ["bun", "index.ts", "queues", "pause", "--redis-url", "redis://localhost"];
+    const exitSpy = spyOn(process, "exit").mockImplementation((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    });
+    const stderrSpy = spyOn(process.stderr, "write").mockImplementation(() => true);
+
+    expect(() => parseCliArgs()).toThrow("process.exit(2)");
+    exitSpy.mockRestore();
+    stderrSpy.mockRestore();
+  });
+});
+
+function expectConfigExit(argv: string[]): void {
+  process.argv = ["bun", "index.ts", ...argv, "--redis-url", "redis://localhost"];
+  const exitSpy = spyOn(process, "exit").mockImplementation((code?: number) => {
+    throw new Error(`process.exit(${code})`);
+  });
+  const stderrSpy = spyOn(process.stderr, "write").mockImplementation(() => true);
+
+  expect(() => parseCliArgs()).toThrow("process.exit(2)");
+  exitSpy.mockRestore();
+  stderrSpy.mockRestore();
+}
+
+describe("parseCliArgs — queues clean", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("parses state, grace period and limit", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "queues",
+      "clean",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--job-state",
+      "completed",
+      "--older-than",
+      "7d",
+      "--limit",
+      "500",
+      "--dry-run",
+    ];
+    expect(parseCliArgs().subcommand).toEqual({
+      kind: "queues-clean",
+      queue: "email",
+      jobState: "completed",
+      olderThan: "7d",
+      limit: 500,
+      dryRun: true,
+    });
+  });
+
+  it("exits with code 2 without --older-than", () => {
+    expectConfigExit(["queues", "clean", "email", "--job-state", "completed"]);
+  });
+
+  it("exits with code 2 for an invalid --older-than", () => {
+    expectConfigExit([
+      "queues",
+      "clean",
+      "email",
+      "--job-state",
+      "completed",
+      "--older-than",
+      "7w",
+    ]);
+  });
+
+  it("exits with code 2 for --job-state active", () => {
+    expectConfigExit(["queues", "clean", "email", "--job-state", "active", "--older-than", "7d"]);
+  });
+
+  it("exits with code 2 when --limit is used outside 'queues clean'", () => {
+    expectConfigExit(["jobs", "list", "email", "--limit", "5"]);
+  });
+});
+
+describe("parseCliArgs — queues stats", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("parses the queue and sample size", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "queues",
+      "stats",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--page-size",
+      "5000",
+    ];
+    expect(parseCliArgs().subcommand).toEqual({
+      kind: "queues-stats",
+      queue: "email",
+      pageSize: 5000,
+    });
+  });
+
+  it("requires a queue and caps the sample size", () => {
+    expectConfigExit(["queues", "stats"]);
+    expectConfigExit(["queues", "stats", "email", "--page-size", "10001"]);
+  });
+});
+
+describe("parseCliArgs — queues history", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("defaults the window to one hour", () => {
+    process.argv = ["bun", "index.ts", "queues", "history", "email", "--redis-url", "redis://x"];
+    expect(parseCliArgs().subcommand).toEqual({
+      kind: "queues-history",
+      queue: "email",
+      window: 3_600_000,
+    });
+  });
+
+  it("parses --window as a duration", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "queues",
+      "history",
+      "email",
+      "--redis-url",
+      "redis://x",
+      "--window",
+      "6h",
+    ];
+    expect(parseCliArgs().subcommand).toMatchObject({ window: 6 * 3_600_000 });
+  });
+
+  it("rejects a bad window, a missing queue, and --window elsewhere", () => {
+    expectConfigExit(["queues", "history", "email", "--window", "soon"]);
+    expectConfigExit(["queues", "history"]);
+    expectConfigExit(["queues", "list", "--window", "1h"]);
+  });
+});
+
+describe("parseCliArgs — --output", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("defaults to json and treats --human-friendly as table", () => {
+    process.argv = ["bun", "index.ts", "queues", "list", "--redis-url", "redis://localhost"];
+    expect(parseCliArgs().output).toBe("json");
+
+    process.argv.push("--human-friendly");
+    expect(parseCliArgs()).toMatchObject({ output: "table", humanFriendly: true });
+  });
+
+  it("accepts every format", () => {
+    for (const format of ["json", "ndjson", "csv", "yaml", "table"]) {
+      process.argv = [
+        "bun",
+        "index.ts",
+        "jobs",
+        "list",
+        "email",
+        "--redis-url",
+        "redis://localhost",
+        "--output",
+        format,
+      ];
+      expect(parseCliArgs()).toMatchObject({ output: format, humanFriendly: format === "table" });
+    }
+  });
+
+  it("rejects unknown formats, conflicts with --human-friendly and use without a subcommand", () => {
+    expectConfigExit(["queues", "list", "--output", "xml"]);
+    expectConfigExit(["queues", "list", "--output", "csv", "--human-friendly"]);
+    expectConfigExit(["--tui", "--output", "csv"]);
+  });
+});
+
+describe("parseCliArgs — --fields", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("splits, trims and dedupes the field list", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "get",
+      "email",
+      "1",
+      "--redis-url",
+      "redis://localhost",
+      "--fields",
+      "id, state,data.userId,id",
+    ];
+    expect(parseCliArgs().fields).toEqual(["id", "state", "data.userId"]);
+  });
+
+  it("passes --include-data to jobs list", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "list",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--include-data",
+      "--fields",
+      "id,data.userId",
+    ];
+    expect(parseCliArgs().subcommand).toMatchObject({ kind: "jobs-list", includeData: true });
+  });
+
+  it("rejects empty paths, tables and commands without reported objects", () => {
+    expectConfigExit(["jobs", "get", "email", "1", "--fields", "id,,name"]);
+    expectConfigExit(["jobs", "get", "email", "1", "--fields", "data."]);
+    expectConfigExit(["jobs", "get", "email", "1", "--fields", "id", "--human-friendly"]);
+    expectConfigExit(["queues", "pause", "email", "--fields", "id"]);
+    expectConfigExit(["jobs", "failures", "email", "--include-data"]);
+  });
+});
+
+describe("parseCliArgs — jobs add", () => {
+  let originalArgv: string[];
+  let tmpDir: string;
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+    tmpDir = mkdtempSync(join(tmpdir(), "bullmq-dash-jobs-add-"));
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("reads the payload from @file and parses job options", () => {
+    const payloadPath = join(tmpDir, "payload.json");
+    writeFileSync(payloadPath, JSON.stringify({ to: "a@example.com" }));
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "add",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--name",
+      "welcome",
+      "--data",
+      `@${payloadPath}`,
+      "--delay",
+      "5m",
+      "--priority",
+      "2",
+      "--attempts",
+      "3",
+      "--job-id",
+      "repro-1",
+    ];
+
+    expect(parseCliArgs().subcommand).toEqual({
+      kind: "jobs-add",
+      queue: "email",
+      name: "welcome",
+      data: { to: "a@example.com" },
+      delay: 5 * 60 * 1000,
+      priority: 2,
+      attempts: 3,
+      jobId: "repro-1",
+    });
+  });
+
+  it("defaults the payload to an empty object without --data", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "add",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--name",
+      "welcome",
+    ];
+
+    expect(parseCliArgs().subcommand).toMatchObject({ kind: "jobs-add", data: {} });
+  });
+
+  it("exits with code 2 without --name", () => {
+    expectConfigExit(["jobs", "add", "email"]);
+  });
+
+  it("exits with code 2 for a --data value that is neither @file nor -", () => {
+    expectConfigExit(["jobs", "add", "email", "--name", "welcome", "--data", '{"a":1}']);
+  });
+
+  it("exits with code 2 when the payload file is not valid JSON", () => {
+    const payloadPath = join(tmpDir, "payload.json");
+    writeFileSync(payloadPath, "{not json");
+    expectConfigExit(["jobs", "add", "email", "--name", "welcome", "--data", `@${payloadPath}`]);
+  });
+
+  it("exits with code 2 when the payload file does not exist", () => {
+    const payloadPath = join(tmpDir, "missing.json");
+    expectConfigExit(["jobs", "add", "email", "--name", "welcome", "--data", `@${payloadPath}`]);
+  });
+
+  it("exits with code 2 for an invalid --delay", () => {
+    expectConfigExit(["jobs", "add", "email", "--name", "welcome", "--delay", "soon"]);
+  });
+
+  it("exits with code 2 for --attempts 0", () => {
+    expectConfigExit(["jobs", "add", "email", "--name", "welcome", "--attempts", "0"]);
+  });
+
+  it("exits with code 2 when --priority is used outside 'jobs add'", () => {
+    expectConfigExit(["jobs", "list", "email", "--priority", "1"]);
+  });
+
+  it("exits with code 2 for --dry-run since adding a job is not destructive", () => {
+    expectConfigExit(["jobs", "add", "email", "--name", "welcome", "--dry-run"]);
+  });
+});
+
+function exportArgv(...flags: string[]): string[] {
+  return [
+    "bun",
+    "index.ts",
+    "jobs",
+    "export",
+    "email",
+    "--redis-url",
+    "redis://localhost",
+    ...flags,
+  ];
+}
+
+describe("parseCliArgs — jobs export", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("parses state, payload and output flags", () => {
+    process.argv = exportArgv("--job-state", "failed", "--include-data", "--out", "failed.ndjson");
+
+    expect(parseCliArgs().subcommand).toEqual({
+      kind: "jobs-export",
+      queue: "email",
+      jobState: "failed",
+      includeData: true,
+      out: "failed.ndjson",
+      resume: undefined,
+    });
+  });
+
+  it("takes the state and payload setting from a resume token", () => {
+    const cursor = { ...initialExportCursor("email", "failed", true), offset: 10, lastId: "9" };
+    process.argv = exportArgv("--resume", encodeResumeToken(cursor));
+
+    expect(parseCliArgs().subcommand).toEqual({
+      kind: "jobs-export",
+      queue: "email",
+      jobState: "failed",
+      includeData: true,
+      out: undefined,
+      resume: cursor,
+    });
+  });
+
+  it("exits with code 2 for an invalid --job-state", () => {
+    expectConfigExit(["jobs", "export", "email", "--job-state", "stuck"]);
+  });
+
+  it("exits with code 2 for a malformed resume token", () => {
+    expectConfigExit(["jobs", "export", "email", "--resume", "garbage"]);
+  });
+
+  it("exits with code 2 when the resume token belongs to another queue", () => {
+    const token = encodeResumeToken(initialExportCursor("billing", undefined, false));
+    expectConfigExit(["jobs", "export", "email", "--resume", token]);
+  });
+
+  it("exits with code 2 when --job-state contradicts the resume token", () => {
+    const token = encodeResumeToken(initialExportCursor("email", "failed", false));
+    expectConfigExit(["jobs", "export", "email", "--resume", token, "--job-state", "completed"]);
+  });
+
+  it("exits with code 2 when --out is used outside 'jobs export'", () => {
+    expectConfigExit(["jobs", "list", "email", "--out", "jobs.ndjson"]);
+  });
+});
+
+describe("parseCliArgs — jobs import", () => {
+  let originalArgv: string[];
+  let tmpDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+    tmpDir = mkdtempSync(join(tmpdir(), "bullmq-dash-jobs-import-"));
+    file = join(tmpDir, "failed.ndjson");
+    writeFileSync(file, "");
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("imports into the named queue with new IDs by default", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "import",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--file",
+      file,
+      "--dry-run",
+    ];
+
+    expect(parseCliArgs().subcommand).toEqual({
+      kind: "jobs-import",
+      queue: "email",
+      file,
+      targetQueue: "email",
+      ids: "new",
+      dryRun: true,
+    });
+  });
+
+  it("parses --rename-queue and --preserve-ids", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "import",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--file",
+      file,
+      "--rename-queue",
+      "email-replay",
+      "--preserve-ids",
+      "--yes",
+    ];
+
+    const args = parseCliArgs();
+    expect(args.yes).toBe(true);
+    expect(args.subcommand).toMatchObject({
+      kind: "jobs-import",
+      queue: "email",
+      targetQueue: "email-replay",
+      ids: "preserve",
+      dryRun: false,
+    });
+  });
+
+  it("exits with code 2 without --file", () => {
+    expectConfigExit(["jobs", "import", "email"]);
+  });
+
+  it("exits with code 2 when the file does not exist", () => {
+    expectConfigExit(["jobs", "import", "email", "--file", join(tmpDir, "missing.ndjson")]);
+  });
+
+  it("exits with code 2 for --preserve-ids with --new-ids", () => {
+    expectConfigExit(["jobs", "import", "email", "--file", file, "--preserve-ids", "--new-ids"]);
+  });
+
+  it("exits with code 2 when the file is a directory", () => {
+    expectConfigExit(["jobs", "import", "email", "--file", tmpDir]);
+  });
+
+  it("exits with code 2 for an empty --rename-queue", () => {
+    expectConfigExit(["jobs", "import", "email", "--file", file, "--rename-queue", " "]);
+  });
+
+  it("exits with code 2 when --file is used outside 'jobs import'", () => {
+    expectConfigExit(["jobs", "list", "email", "--file", file]);
+  });
+
+  it("exits with code 2 when --rename-queue is used outside 'jobs import'", () => {
+    expectConfigExit(["jobs", "list", "email", "--rename-queue", "other"]);
+  });
+});
+
+describe("parseCliArgs — jobs move", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("parses a filtered dry-run move", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "move",
+      "email-dlq",
+      "--to",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--job-state",
+      "failed",
+      "--since",
+      "24h",
+      "--name",
+      "send",
+      "--dry-run",
+    ];
+
+    expect(parseCliArgs().subcommand).toEqual({
+      kind: "jobs-move",
+      queue: "email-dlq",
+      targetQueue: "email",
+      jobState: "failed",
+      jobId: undefined,
+      since: "24h",
+      name: "send",
+      pageSize: undefined,
+      dryRun: true,
+    });
+  });
+
+  it("parses a single-job move by id", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "move",
+      "email-dlq",
+      "--to",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--job-id",
+      "42",
+      "--yes",
+    ];
+
+    const args = parseCliArgs();
+    expect(args.yes).toBe(true);
+    expect(args.subcommand).toMatchObject({ kind: "jobs-move", jobId: "42", dryRun: false });
+  });
+
+  it("requires --to", () => {
+    expectConfigExit(["jobs", "move", "email-dlq", "--job-state", "failed"]);
+  });
+
+  it("rejects moving a queue into itself", () => {
+    expectConfigExit(["jobs", "move", "email", "--to", "email", "--job-state", "failed"]);
+  });
+
+  it("requires --job-id or --job-state", () => {
+    expectConfigExit(["jobs", "move", "email-dlq", "--to", "email"]);
+  });
+
+  it("rejects active jobs", () => {
+    expectConfigExit(["jobs", "move", "email-dlq", "--to", "email", "--job-state", "active"]);
+  });
+
+  it("rejects --to on other commands", () => {
+    expectConfigExit(["jobs", "remove", "email", "--to", "other", "--job-state", "failed"]);
+  });
+});
+
+describe("parseCliArgs — jobs logs", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("parses a paged read", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "logs",
+      "email",
+      "42",
+      "--redis-url",
+      "redis://localhost",
+      "--offset",
+      "100",
+      "--limit",
+      "50",
+    ];
+
+    expect(parseCliArgs().subcommand).toEqual({
+      kind: "jobs-logs",
+      queue: "email",
+      jobId: "42",
+      offset: 100,
+      limit: 50,
+      follow: false,
+    });
+  });
+
+  it("defaults to the first line and parses --follow", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "logs",
+      "email",
+      "42",
+      "--redis-url",
+      "redis://localhost",
+      "--follow",
+    ];
+
+    expect(parseCliArgs().subcommand).toMatchObject({ offset: 0, limit: undefined, follow: true });
+  });
+
+  it("requires a job id", () => {
+    expectConfigExit(["jobs", "logs", "email"]);
+  });
+
+  it("rejects --limit with --follow", () => {
+    expectConfigExit(["jobs", "logs", "email", "42", "--follow", "--limit", "10"]);
+  });
+
+  it("rejects a negative --offset", () => {
+    expectConfigExit(["jobs", "logs", "email", "42", "--offset", "-1"]);
+  });
+
+  it("rejects --follow on other commands", () => {
+    expectConfigExit(["jobs", "get", "email", "42", "--follow"]);
+  });
+});
+
+describe("parseCliArgs — jobs search", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("parses a single-queue search with filters and paging", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "search",
+      "email",
+      "ada@example.com",
+      "--redis-url",
+      "redis://localhost",
+      "--job-state",
+      "failed",
+      "--page",
+      "2",
+      "--page-size",
+      "10",
+    ];
+
+    expect(parseCliArgs().subcommand).toEqual({
+      kind: "jobs-search",
+      queue: "email",
+      query: "ada@example.com",
+      jobState: "failed",
+      page: 2,
+      pageSize: 10,
+      observe: false,
+    });
+  });
+
+  it("takes only the query with --all-queues", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "search",
+      "invoice 2024",
+      "--redis-url",
+      "redis://localhost",
+      "--all-queues",
+      "--observe",
+    ];
+
+    expect(parseCliArgs().subcommand).toMatchObject({
+      kind: "jobs-search",
+      queue: null,
+      query: "invoice 2024",
+      page: 1,
+      observe: true,
+    });
+  });
+
+  it("requires a query", () => {
+    expectConfigExit(["jobs", "search", "email"]);
+  });
+
+  it("rejects a blank query", () => {
+    expectConfigExit(["jobs", "search", "email", "  "]);
+  });
+
+  it("rejects an unknown --job-state", () => {
+    expectConfigExit(["jobs", "search", "email", "ada", "--job-state", "paused"]);
+  });
+
+  it("rejects --observe on other commands", () => {
+    expectConfigExit(["jobs", "list", "email", "--observe"]);
+  });
+});
+
+describe("parseCliArgs — --where", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("passes the expression to jobs list and jobs retry", () => {
+    const where = "data.tenantId == 42 && attemptsMade > 2";
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "failed",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--where",
+      where,
+    ];
+    expect(parseCliArgs().subcommand).toMatchObject({
+      kind: "jobs-list",
+      jobState: "failed",
+      where,
+    });
+
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "retry",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--job-state",
+      "failed",
+      "--where",
+      where,
+      "--dry-run",
+    ];
+    expect(parseCliArgs().subcommand).toMatchObject({ kind: "jobs-retry", where });
+  });
+
+  it("rejects a malformed expression", () => {
+    expectConfigExit(["jobs", "list", "email", "--where", "data.tenantId =="]);
+  });
+
+  it("rejects an unknown field", () => {
+    expectConfigExit(["jobs", "list", "email", "--where", "tenant == 42"]);
+  });
+
+  it("rejects --where on commands without it", () => {
+    expectConfigExit([
+      "jobs",
+      "promote",
+      "email",
+      "--job-state",
+      "delayed",
+      "--where",
+      "attemptsMade > 1",
+    ]);
+  });
+});
+
+describe("parseCliArgs — jobs failures", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("parses the queue and page size", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "failures",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--page-size",
+      "500",
+    ];
+    expect(parseCliArgs().subcommand).toEqual({
+      kind: "jobs-failures",
+      queue: "email",
+      pageSize: 500,
+    });
+  });
+
+  it("passes --failure-group to jobs retry and jobs remove", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "retry",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--job-state",
+      "failed",
+      "--failure-group",
+      "3fa9c0d2e1",
+      "--dry-run",
+    ];
+    expect(parseCliArgs().subcommand).toMatchObject({
+      kind: "jobs-retry",
+      failureGroup: "3fa9c0d2e1",
+    });
+
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "remove",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--job-state",
+      "failed",
+      "--failure-group",
+      "3fa9c0d2e1",
+      "--dry-run",
+    ];
+    expect(parseCliArgs().subcommand).toMatchObject({
+      kind: "jobs-remove",
+      failureGroup: "3fa9c0d2e1",
+    });
+  });
+
+  it("rejects a malformed group id", () => {
+    expectConfigExit(["jobs", "retry", "email", "--job-state", "failed", "--failure-group", "x"]);
+  });
+
+  it("requires failed jobs", () => {
+    expectConfigExit([
+      "jobs",
+      "retry",
+      "email",
+      "--job-state",
+      "completed",
+      "--failure-group",
+      "3fa9c0d2e1",
+    ]);
+    expectConfigExit([
+      "jobs",
+      "remove",
+      "email",
+      "--job-state",
+      "wait",
+      "--failure-group",
+      "3fa9c0d2e1",
+    ]);
+  });
+
+  it("rejects --failure-group on other commands", () => {
+    expectConfigExit([
+      "jobs",
+      "move",
+      "email",
+      "--to",
+      "other",
+      "--job-state",
+      "failed",
+      "--failure-group",
+      "3fa9c0d2e1",
+    ]);
+  });
+
+  it("caps --page-size like the bulk actions", () => {
+    expectConfigExit(["jobs", "failures", "email", "--page-size", "10001"]);
+  });
+});
+
+describe("parseCliArgs — list paging", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("parses --offset and --all for jobs list and schedulers list", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "list",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--offset",
+      "1000",
+      "--all",
+    ];
+    expect(parseCliArgs().subcommand).toMatchObject({ kind: "jobs-list", offset: 1000, all: true });
+
+    process.argv = [
+      "bun",
+      "index.ts",
+      "schedulers",
+      "list",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--offset",
+      "50",
+    ];
+    expect(parseCliArgs().subcommand).toMatchObject({ kind: "schedulers-list", offset: 50 });
+  });
+
+  it("decodes a cursor issued for the same listing", () => {
+    const cursor = { queue: "email", list: "failed", offsets: { failed: 1000 } };
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "failed",
+      "email",
+      "--redis-url",
+      "redis://localhost",
+      "--cursor",
+      encodeListCursor(cursor),
+    ];
+    expect(parseCliArgs().subcommand).toMatchObject({ kind: "jobs-list", cursor });
+  });
+
+  it("rejects unusable cursors and paging flags on other commands", () => {
+    const failedCursor = encodeListCursor({ queue: "email", list: "failed", offsets: {} });
+    expectConfigExit(["jobs", "list", "email", "--cursor", "garbage"]);
+    expectConfigExit(["jobs", "list", "email", "--cursor", failedCursor]);
+    expectConfigExit(["jobs", "failed", "sms", "--cursor", failedCursor]);
+    expectConfigExit(["jobs", "failed", "email", "--cursor", failedCursor, "--offset", "5"]);
+    expectConfigExit(["jobs", "failures", "email", "--all"]);
+    expectConfigExit(["jobs", "get", "email", "1", "--offset", "5"]);
+  });
+});
+
+describe("parseCliArgs — jobs find", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("parses the job ID without a queue", () => {
+    process.argv = ["bun", "index.ts", "jobs", "find", "123", "--redis-url", "redis://localhost"];
+    expect(parseCliArgs().subcommand).toEqual({ kind: "jobs-find", jobId: "123" });
+  });
+
+  it("requires exactly one job ID", () => {
+    expectConfigExit(["jobs", "find"]);
+    expectConfigExit(["jobs", "find", "email", "123"]);
+  });
+
+  it("rejects queue-scoped flags", () => {
+    expectConfigExit(["jobs", "find", "123", "--job-state", "failed"]);
+  });
+});
+
+describe("parseCliArgs — jobs tree", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("parses the queue and job ID", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "jobs",
+      "tree",
+      "orders",
+      "123",
+      "--redis-url",
+      "redis://localhost",
+    ];
+    expect(parseCliArgs().subcommand).toEqual({ kind: "jobs-tree", queue: "orders", jobId: "123" });
+  });
+
+  it("requires a queue and exactly one job ID", () => {
+    expectConfigExit(["jobs", "tree", "orders"]);
+    expectConfigExit(["jobs", "tree", "orders", "1", "2"]);
+  });
+});
+
+describe("parseCliArgs — watch", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("parses --duration and the shared --poll-interval", () => {
+    process.argv = [
+      "bun",
+      "index.ts",
+      "watch",
+      "--redis-url",
+      "redis://localhost",
+      "--poll-interval",
+      "1000",
+      "--duration",
+      "10m",
+    ];
+    expect(parseCliArgs()).toMatchObject({
+      pollInterval: 1000,
+      subcommand: { kind: "watch", duration: 600_000 },
+    });
+  });
+
+  it("watches until interrupted without --duration", () => {
+    process.argv = ["bun", "index.ts", "watch", "--redis-url", "redis://localhost"];
+    expect(parseCliArgs().subcommand).toEqual({ kind: "watch", duration: undefined });
+  });
+
+  it("rejects a bad --duration, extra positionals and --duration elsewhere", () => {
+    expectConfigExit(["watch", "--duration", "soon"]);
+    expectConfigExit(["watch", "email"]);
+    expectConfigExit(["queues", "list", "--duration", "5m"]);
+  });
+});
+
+describe("parseCliArgs — alerts check", () => {
+  let originalArgv: string[];
+
+  beforeEach(() => {
+    originalArgv = process.argv;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it("parses alerts check", () => {
+    process.argv = ["bun", "index.ts", "alerts", "check", "--redis-url", "redis://localhost"];
+    expect(parseCliArgs().subcommand).toEqual({ kind: "alerts-check" });
+  });
+
+  it("rejects unknown actions and extra positionals", () => {
+    expectConfigExit(["alerts", "list"]);
+    expectConfigExit(["alerts", "check", "email"]);
+  });
+});
@@ -1,6 +1,28 @@
+import { existsSync, readFileSync, statSync } from "node:fs";
 import { parseArgs } from "util";
 import { writeError } from "./errors.js";
 import { parseDuration, MAX_RETRY_PAGE_SIZE } from "./data/duration.js";
+import { DEFAULT_HISTORY_WINDOW_MS } from "./data/history.js";
+import {
+  CLEANABLE_JOB_STATES,
+  DEFAULT_LOG_PAGE_SIZE,
+  DETAIL_LOG_LIMIT,
+  REMOVABLE_JOB_STATES,
+  RETRYABLE_JOB_STATES,
+  VALID_JOB_STATUSES,
+  type CleanableJobState,
+  type JsonJobStatus,
+  type RemovableJobState,
+  type RetryableJobState,
+} from "./data/jobs.js";
+import { decodeResumeToken, type ExportCursor } from "./data/job-export.js";
+import { decodeListCursor, type ListCursor } from "./data/list-cursor.js";
+import { compileWhere, WHERE_FIELDS, WhereSyntaxError } from "./data/where.js";
+import { isFailureGroupId } from "./data/failures.js";
+import { DEPENDENCY_KEY_LIMIT, MAX_FLOW_NODES } from "./data/flows.js";
+import { FIELD_TARGETS, OUTPUT_FORMATS, type OutputFormat } from "./output-format.js";
+import type { ImportIdMode } from "./data/job-import.js";
+
 import {
   QUEUE_SORT_FIELDS,
   defaultSortOrder,
@@ -15,21 +37,132 @@ import packageJson from "../package.json" with { type: "json" };
 export type Subcommand =
   | { kind: "queues-list"; sortBy?: QueueSortBy; sortOrder?: SortOrder }
   | { kind: "queues-delete"; queue: string; dryRun?: boolean; yes?: boolean }
-  | { kind: "jobs-list"; queue: string; jobState?: string; pageSize?: number }
+  | { kind: "queues-pause"; queue: string; dryRun: boolean }
+  | { kind: "queues-resume"; queue: string; dryRun: boolean }
+  | {
+      kind: "queues-clean";
+      queue: string;
+      jobState: CleanableJobState;
+      olderThan: string;
+      limit?: number;
+      dryRun: boolean;
+    }
+  | { kind: "queues-stats"; queue: string; pageSize?: number }
+  | { kind: "queues-history"; queue: string; window: number }
+  | {
+      kind: "jobs-list";
+      queue: string;
+      jobState?: string;
+      pageSize?: number;
+      where?: string;
+      offset?: number;
+      cursor?: ListCursor;
+      all?: boolean;
+      includeData?: boolean;
+    }
   | { kind: "jobs-get"; queue: string; jobId: string }
+  | { kind: "jobs-find"; jobId: string }
+  | { kind: "jobs-tree"; queue: string; jobId: string }
+  | { kind: "jobs-failures"; queue: string; pageSize?: number }
+  | {
+      kind: "jobs-search";
+      /** null with --all-queues. */
+      queue: string | null;
+      query: string;
+      jobState?: JsonJobStatus;
+      page: number;
+      pageSize?: number;
+      observe: boolean;
+    }
+  | {
+      kind: "jobs-logs";
+      queue: string;
+      jobId: string;
+      offset: number;
+      limit?: number;
+      follow: boolean;
+    }
+  | {
+      kind: "jobs-export";
+      queue: string;
+      jobState?: JsonJobStatus;
+      includeData: boolean;
+      out?: string;
+      resume?: ExportCursor;
+    }
+  | {
+      kind: "jobs-import";
+      queue: string;
+      file: string;
+      targetQueue: string;
+      ids: ImportIdMode;
+      dryRun: boolean;
+    }
+  | {
+      kind: "jobs-add";
+      queue: string;
+      name: string;
+      data: unknown;
+      delay?: number;
+      priority?: number;
+      attempts?: number;
+      jobId?: string;
+    }
   | {
       kind: "jobs-retry";
       queue: string;
-      jobState: string;
+      jobState: RetryableJobState;
+      jobId?: string;
+      since?: string;
+      name?: string;
+      where?: string;
+      failureGroup?: string;
+      pageSize?: number;
+      dryRun: boolean;
+    }
+  | {
+      kind: "jobs-promote";
+      queue: string;
+      jobId?: string;
+      since?: string;
+      name?: string;
+      pageSize?: number;
+      dryRun: boolean;
+    }
+  | {
+      kind: "jobs-remove";
+      queue: string;
+      jobState?: RemovableJobState;
+      jobId?: string;
+      since?: string;
+      name?: string;
+      failureGroup?: string;
+      pageSize?: number;
+      dryRun: boolean;
+    }
+  | {
+      kind: "jobs-move";
+      queue: string;
+      targetQueue: string;
+      jobState?: RemovableJobState;
       jobId?: string;
       since?: string;
       name?: string;
       pageSize?: number;
       dryRun: boolean;
     }
-  | { kind: "schedulers-list"; queue: string; pageSize?: number }
+  | {
+      kind: "schedulers-list";
+      queue: string;
+      pageSize?: number;
+      offset?: number;
+      cursor?: ListCursor;
+      all?: boolean;
+    }
   | { kind: "schedulers-get"; queue: string; schedulerId: string }
-  | { kind: "doctor" };
+  | { kind: "doctor" }
+  | { kind: "alerts-check" }
+  | { kind: "watch"; duration?: number };
 
 export interface CliArgs {
   redisUrl?: string;
@@ -43,8 +176,13 @@ export interface CliArgs {
   webHost?: string;
   webPort?: number;
   webReadOnly?: boolean;
+  webMetricsOnly?: boolean;
   subcommand?: Subcommand;
   humanFriendly?: boolean;
+  /** Output format for subcommands; "table" when --human-friendly is set. */
+  output?: OutputFormat;
+  /** --fields: dotted paths to keep in each object a subcommand reports on. */
+  fields?: string[];
   dryRun?: boolean;
   yes?: boolean;
   profile?: string;
@@ -66,12 +204,30 @@ Usage:
 Commands:
   queues list                            List all queues with job counts
   queues delete <queue>                  Delete a queue and all its jobs
+  queues pause <queue>                   Pause a queue so workers stop picking up jobs
+  queues resume <queue>                  Resume a paused queue
+  queues clean <queue>                   Remove jobs older than a grace period from one state
+  queues stats <queue>                   Wait and processing time percentiles per job name
+  queues history <queue>                 Queue counts recorded over a window (--window 1h)
   jobs list <queue>                      List jobs in a queue
   jobs failed <queue>                    List failed jobs in a queue
+  jobs failures <queue>                  Group failed jobs by error signature
   jobs get <queue> <job-id>              Get full detail for a single job
+  jobs find <job-id>                     Find a job ID in every queue (cache fallback when offline)
+  jobs tree <queue> <job-id>             Print the flow tree a job belongs to, across queues
+  jobs logs <queue> <job-id>             Show a job's log lines (--follow to tail them)
+  jobs search <queue> <query>            Full-text search over cached jobs (--all-queues for every queue)
+  jobs add <queue>                       Enqueue a new job with a JSON payload
+  jobs export <queue>                    Stream every job as NDJSON (resumable)
+  jobs import <queue>                    Re-create jobs from an NDJSON export (supports --dry-run/--yes)
   jobs retry <queue>                     Retry failed jobs (supports --dry-run/--yes)
+  jobs promote <queue>                   Promote delayed jobs to run now (supports --dry-run/--yes)
+  jobs remove <queue>                    Permanently remove jobs (supports --dry-run/--yes)
+  jobs move <queue> --to <queue>         Move jobs to another queue (supports --dry-run/--yes)
   schedulers list <queue>                List schedulers in a queue
   schedulers get <queue> <scheduler-id>  Get detail for a single scheduler
+  alerts check                           Evaluate the profile's alert rules (exit 1 when any fire)
+  watch                                  Stream queue changes as NDJSON until interrupted
   doctor                                 Diagnose config, connection, and queue discovery
 
 Run 'bullmq-dash <command> --help' for command-specific help.
@@ -85,7 +241,10 @@ Connection Options (all commands):
   --prefix <prefix>        BullMQ key prefix (default: bull)
 
 Output Options:
-  --human-friendly         Human-readable table output (default: JSON)
+  --output <format>        json | ndjson | csv | yaml | table (default: json)
+                           ndjson and csv print one record per row of list
+                           commands, with a fixed column set per command
+  --human-friendly         Same as --output table
 
 TUI Options:
   --tui                    Launch interactive terminal dashboard
@@ -95,9 +254,10 @@ Web Options:
   --web-host <host>        Bind host (default: 127.0.0.1)
   --web-port <port>        Bind port (default: 3000)
   --web-read-only          Disable live retry actions in the browser/API
+  --web-metrics-only       Serve only the Prometheus /metrics endpoint
 
 Shared Live Options:
-  --poll-interval <ms>     Polling interval in ms (default: 3000)
+  --poll-interval <ms>     Polling interval in ms (default: 3000; also used by watch)
   --queues <names>         Comma-separated queue names to monitor
 
 General:
@@ -113,11 +273,25 @@ Examples:
   bullmq-dash queues list --redis-url redis://localhost:6379
   bullmq-dash queues list --profile prod
   bullmq-dash queues list --redis-url redis://localhost --human-friendly
+  bullmq-dash queues pause email --redis-url redis://localhost --dry-run
+  bullmq-dash queues clean email --redis-url redis://localhost --job-state completed --older-than 7d --dry-run
+  bullmq-dash queues stats email --redis-url redis://localhost --human-friendly
   bullmq-dash jobs failed email --redis-url redis://localhost
+  bullmq-dash jobs failures email --redis-url redis://localhost --human-friendly
   bullmq-dash jobs list email --redis-url redis://localhost --job-state failed
   bullmq-dash jobs get email 123 --redis-url redis://localhost
+  bullmq-dash jobs find 123 --redis-url redis://localhost
+  bullmq-dash jobs tree orders 123 --redis-url redis://localhost --human-friendly
+  bullmq-dash jobs search email ada@example.com --redis-url redis://localhost --observe
+  bullmq-dash jobs add email --redis-url redis://localhost --name welcome --data @payload.json
+  bullmq-dash jobs export email --redis-url redis://localhost --job-state failed --out failed.ndjson
+  bullmq-dash jobs import email --redis-url redis://staging --file failed.ndjson --dry-run
   bullmq-dash jobs retry email --redis-url redis://localhost --job-id 123 --dry-run
   bullmq-dash jobs retry email --redis-url redis://localhost --job-state failed --since 1h --dry-run
+  bullmq-dash jobs promote email --redis-url redis://localhost --job-state delayed --name digest --dry-run
+  bullmq-dash jobs remove email --redis-url redis://localhost --job-state failed --name poison --dry-run
+  bullmq-dash watch --redis-url redis://localhost --poll-interval 1000 --duration 10m
+  bullmq-dash alerts check --profile prod
 `;
 
 // ── Per-subcommand help text ────────────────────────────────────────────
@@ -133,7 +307,20 @@ Connection Options:
   --prefix <prefix>        BullMQ key prefix (default: bull)
 
 Output Options:
-  --human-friendly         Human-readable table output (default: JSON)`;
+  --output <format>        json | ndjson | csv | yaml | table (default: json)
+                           ndjson and csv print one record per row of list
+                           commands, with a fixed column set per command
+  --human-friendly         Same as --output table`;
+
+const WHERE_HELP = `Where expressions:
+  Fields:     id, name, data.<path>, opts.<path>, failedReason, stacktrace,
+              returnvalue, progress, attemptsMade, timestamp, processedOn,
+              finishedOn, delay (times are epoch ms)
+  Operators:  == != > >= < <=, contains (substring or array item), && || !, ( )
+  Values:     numbers, 'text' or "text", true, false, null
+  A numeric string compares as a number; a missing field equals null.
+  e.g. 'data.tenantId == 42 && attemptsMade > 2'
+       'failedReason contains "timeout" || data.items[0].sku == "A1"'`;
 
 const QUEUES_HELP = `
 Usage: bullmq-dash queues <action> [options]
@@ -141,6 +328,11 @@ Usage: bullmq-dash queues <action> [options]
 Actions:
   list                       List all queues with job counts
   delete <queue>              Permanently delete a queue and all its jobs
+  pause <queue>               Pause a queue so workers stop picking up jobs
+  resume <queue>              Resume a paused queue
+  clean <queue>               Remove jobs older than a grace period from one state
+  stats <queue>               Wait and processing time percentiles per job name
+  history <queue>             Queue counts recorded over a window
 
 Run 'bullmq-dash queues <action> --help' for action-specific help.
 `;
@@ -151,10 +343,12 @@ Usage: bullmq-dash queues list [options]
 List all discovered queues with their job counts per state.
 
 Options:
-  --sort-by <field>       Sort queues by: name | task-size | waiting | active | completed | failed | delayed
+  --sort-by <field>       Sort queues by: name | task-size | waiting | active | completed | failed | delayed | throughput
                            Aliases: size, total, wait
   --sort-order <order>    Sort order: asc | desc
                            Defaults to asc for name, desc for metrics.
+  --fields <list>          Keep only these comma-separated fields of each queue:
+                           name, counts.<state>, isPaused, total, rates.<rate>
 ${CONNECTION_OPTIONS_HELP}
 
 Examples:
@@ -162,6 +356,7 @@ Examples:
   bullmq-dash queues list --redis-url redis://localhost:6380
   bullmq-dash queues list --redis-url redis://localhost --sort-by task-size
   bullmq-dash queues list --redis-url redis://localhost --sort-by failed
+  bullmq-dash queues list --redis-url redis://localhost --sort-by throughput
   bullmq-dash queues list --redis-url redis://localhost | jq '.queues[] | select(.counts.failed > 0)'
 `;
 
@@ -181,18 +376,132 @@ Examples:
   bullmq-dash queues delete email --redis-url redis://localhost --yes
 `;
 
+const QUEUES_PAUSE_HELP = `
+Usage: bullmq-dash queues pause <queue> [options]
+
+Pause a queue. Producers can still add jobs, but workers stop picking up new
+ones until the queue is resumed. Jobs already active keep running.
+Pausing an already-paused queue is a no-op. A queue that doesn't exist
+exits 1 with QUEUE_NOT_FOUND instead of being created.
+
+Options:
+  --dry-run               Show the current paused state without changing it
+  --yes                   Skip confirmation prompt (for scripting)
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  bullmq-dash queues pause email --redis-url redis://localhost --dry-run
+  bullmq-dash queues pause email --redis-url redis://localhost --yes
+  bullmq-dash queues resume email --redis-url redis://localhost --yes
+`;
+
+const QUEUES_RESUME_HELP = `
+Usage: bullmq-dash queues resume <queue> [options]
+
+Resume a paused queue so workers pick up waiting jobs again.
+Resuming a queue that is not paused is a no-op.
+
+Options:
+  --dry-run               Show the current paused state without changing it
+  --yes                   Skip confirmation prompt (for scripting)
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  bullmq-dash queues resume email --redis-url redis://localhost --dry-run
+  bullmq-dash queues resume email --redis-url redis://localhost --yes
+`;
+
+const QUEUES_CLEAN_HELP = `
+Usage: bullmq-dash queues clean <queue> --job-state <state> --older-than <duration> [options]
+
+Remove jobs older than a grace period from one job state, using BullMQ's
+Queue.clean. Unlike 'queues delete', the queue itself and all newer jobs stay.
+
+Required:
+  --job-state <state>      State to clean: completed | failed | delayed | wait
+  --older-than <duration>  Grace period; only older jobs are removed.
+                           Formats: 30s | 5m | 1h | 24h | 7d
+                           Age is finish time for completed/failed jobs and
+                           last-processed or creation time otherwise.
+
+Options:
+  --limit <n>              Remove at most n jobs (default: no limit)
+  --dry-run                Count what WOULD be removed without deleting anything.
+                           Scans at most 10000 jobs; the output says when it stopped early.
+  --yes                   Skip confirmation prompt (required in non-interactive scripts).
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  bullmq-dash queues clean email --redis-url redis://localhost --job-state completed --older-than 7d --dry-run
+  bullmq-dash queues clean email --redis-url redis://localhost --job-state completed --older-than 7d --yes
+  bullmq-dash queues clean email --redis-url redis://localhost --job-state failed --older-than 30d --limit 5000 --yes
+`;
+
+const QUEUES_STATS_HELP = `
+Usage: bullmq-dash queues stats <queue> [options]
+
+Report wait time (processedOn minus when the job became runnable) and
+processing time (finishedOn minus processedOn) as p50/p90/p99, overall and
+per job name. The sample is the newest completed jobs plus the newest failed
+jobs; active and waiting jobs have not finished and are left out.
+
+Options:
+  --page-size <n>          Jobs sampled from each of completed and failed (default: 1000, max: 10000)
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  bullmq-dash queues stats email --redis-url redis://localhost --human-friendly
+  bullmq-dash queues stats email --redis-url redis://localhost --page-size 5000
+  bullmq-dash queues stats email --redis-url redis://localhost | jq '.byName[] | {name, p99: .waitMs.p99}'
+`;
+
+const QUEUES_HISTORY_HELP = `
+Usage: bullmq-dash queues history <queue> [options]
+
+Print the queue's counts as recorded over a window, oldest first, with
+waiting/failed sparklines in --human-friendly output. Reads only the SQLite
+cache, so it works while Redis is unreachable. Samples are recorded on every
+TUI or web refresh and every 'queues list' or 'alerts check' run; those older
+than an hour are thinned to one per minute (one per 10 minutes past six
+hours) and all of them expire with the cache TTL.
+
+Options:
+  --window <duration>      How far back to look: 30m, 1h, 24h (default: 1h)
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  bullmq-dash queues history email --redis-url redis://localhost --human-friendly
+  bullmq-dash queues history email --redis-url redis://localhost --window 6h
+  bullmq-dash queues history email --redis-url redis://localhost | jq '.samples[] | [.observedAt, .counts.wait]'
+`;
+
 const JOBS_HELP = `
 Usage: bullmq-dash jobs <action> <queue> [options]
 
 Actions:
   list <queue>             List jobs in a queue
   failed <queue>           List failed jobs in a queue
+  failures <queue>         Group failed jobs by error signature
   get <queue> <job-id>     Get full detail for a single job
+  find <job-id>            Find a job ID in every queue
+  tree <queue> <job-id>    Print the flow tree a job belongs to
+  logs <queue> <job-id>    Show a job's log lines (--follow to tail them)
+  search <queue> <query>   Full-text search over cached jobs (--all-queues for every queue)
+  add <queue>              Enqueue a new job with a JSON payload
+  export <queue>           Stream every job as NDJSON (resumable)
+  import <queue>           Re-create jobs from an NDJSON export (supports --dry-run/--yes)
   retry <queue>            Retry failed jobs (supports --dry-run/--yes)
+  promote <queue>          Promote delayed jobs to run now (supports --dry-run/--yes)
+  remove <queue>           Permanently remove jobs (supports --dry-run/--yes)
+  move <queue>             Move jobs to another queue (supports --dry-run/--yes)
 
 Run 'bullmq-dash jobs <action> --help' for action-specific help.
 `;
 
+const PAGING_OPTIONS_HELP = `  --offset <n>             Skip the first n results
+  --cursor <token>         Continue from a previous page's nextCursor
+  --all                    Read every page (--page-size sets the batch size)`;
+
 const JOBS_FAILED_HELP = `
 Usage: bullmq-dash jobs failed <queue> [options]
 
@@ -201,57 +510,282 @@ List failed jobs in a queue. This is equivalent to:
 
 Options:
   --page-size <n>          Max results to return (default: 1000)
+  --where <expr>           Keep only fetched jobs matching an expression (see below)
+${PAGING_OPTIONS_HELP}
+  --include-data           Include each job's data payload (off by default)
+  --fields <list>          Keep only these comma-separated fields of each job:
+                           id, name, state, timestamp, data.<path> (with --include-data)
 ${CONNECTION_OPTIONS_HELP}
+${WHERE_HELP}
 
 Examples:
   bullmq-dash jobs failed email --redis-url redis://localhost
   bullmq-dash jobs failed email --redis-url redis://localhost | jq '.jobs[] | {id, name, timestamp}'
+  bullmq-dash jobs failed email --redis-url redis://localhost --where 'failedReason contains "timeout"'
+  bullmq-dash jobs failed email --redis-url redis://localhost --all | jq '.jobs | length'
   bullmq-dash jobs retry email --redis-url redis://localhost --job-id 42 --dry-run
 `;
 
+const JOBS_FAILURES_HELP = `
+Usage: bullmq-dash jobs failures <queue> [options]
+
+Group the newest failed jobs by failure signature: the first line of
+failedReason plus the top 3 frames of the latest stacktrace, with IDs,
+numbers and paths replaced by placeholders. Each group reports its count,
+first/last failure time, sample job IDs and job names, and an ID that
+'jobs retry' and 'jobs remove' accept as --failure-group.
+
+Options:
+  --page-size <n>          Failed jobs to scan, newest first (default: 1000, max: 10000)
+  --fields <list>          Keep only these comma-separated fields of each group:
+                           id, count, reason, frames, firstSeen, lastSeen,
+                           sampleJobIds, names, exampleReason
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  bullmq-dash jobs failures email --redis-url redis://localhost --human-friendly
+  bullmq-dash jobs failures email --redis-url redis://localhost | jq '.groups[] | {id, count, reason}'
+  bullmq-dash jobs retry email --redis-url redis://localhost --job-state failed --failure-group 3fa9c0d2e1 --dry-run
+  bullmq-dash jobs remove email --redis-url redis://localhost --job-state failed --failure-group 3fa9c0d2e1 --dry-run
+`;
+
 const JOBS_LIST_HELP = `
 Usage: bullmq-dash jobs list <queue> [options]
 
 List jobs in a queue. Returns up to 1000 jobs by default, sorted by timestamp.
+The output carries a nextCursor while more jobs remain; pass it to --cursor
+for the next page, or use --all to read every page.
 
 Options:
   --job-state <state>      Filter by state: wait | active | completed | failed | delayed
   --page-size <n>          Max results to return (default: 1000)
+  --where <expr>           Keep only fetched jobs matching an expression (see below)
+${PAGING_OPTIONS_HELP}
+  --include-data           Include each job's data payload (off by default)
+  --fields <list>          Keep only these comma-separated fields of each job:
+                           id, name, state, timestamp, data.<path> (with --include-data)
 ${CONNECTION_OPTIONS_HELP}
+${WHERE_HELP}
 
 Examples:
   bullmq-dash jobs list email --redis-url redis://localhost
   bullmq-dash jobs list email --redis-url redis://localhost --job-state failed
   bullmq-dash jobs list email --redis-url redis://localhost --page-size 50
   bullmq-dash jobs list email --redis-url redis://localhost --job-state failed | jq '.jobs[] | {id, name}'
+  bullmq-dash jobs list email --redis-url redis://localhost --job-state failed --where 'data.tenantId == 42'
+  bullmq-dash jobs list email --redis-url redis://localhost --page-size 500 --cursor <nextCursor>
+  bullmq-dash jobs list email --redis-url redis://localhost --job-state completed --all
+  bullmq-dash jobs list email --redis-url redis://localhost --include-data --fields id,state,data.userId
 `;
 
 const JOBS_GET_HELP = `
 Usage: bullmq-dash jobs get <queue> <job-id> [options]
 
 Get full detail for a single job including data, options, stacktrace, and timing.
+
+Options:
+  --fields <list>          Keep only these comma-separated fields of the job:
+                           id, name, state, timestamp, data.<path>, opts.<path>,
+                           attemptsMade, failedReason, stacktrace, returnvalue,
+                           processedOn, finishedOn, progress, delay, repeatJobKey,
+                           logs, logCount, parentKey, dependencies.<path>
 ${CONNECTION_OPTIONS_HELP}
 
 Examples:
   bullmq-dash jobs get email 123 --redis-url redis://localhost
   bullmq-dash jobs get email 123 --redis-url redis://localhost | jq '.job.stacktrace'
   bullmq-dash jobs get email 123 --redis-url redis://localhost | jq '.job.data'
+  bullmq-dash jobs get email 123 --redis-url redis://localhost --fields id,state,data.userId,failedReason
+`;
+
+const JOBS_FIND_HELP = `
+Usage: bullmq-dash jobs find <job-id> [options]
+
+Look a job ID up in every discovered queue and list each match with its
+queue and state. Job IDs are only unique within a queue, so there can be
+more than one match. If Redis is unreachable, the lookup falls back to the
+local SQLite cache: the output says "source": "cache" and each match
+carries lastObservedAt. Exits 1 when no queue has the job.
+
+Options:
+  --fields <list>          Keep only these comma-separated fields of each match:
+                           queue, id, name, state, timestamp, lastObservedAt (cache)
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  bullmq-dash jobs find 123 --redis-url redis://localhost
+  bullmq-dash jobs find 123 --redis-url redis://localhost --human-friendly
+  bullmq-dash jobs find 123 --redis-url redis://localhost | jq -r '.matches[] | "\\(.queue) \\(.state)"'
+`;
+
+const JOBS_TREE_HELP = `
+Usage: bullmq-dash jobs tree <queue> <job-id> [options]
+
+Print the whole FlowProducer tree a job belongs to: its parents up to the
+root, then every child in processed, unprocessed, failed and ignored state,
+following children into other queues. Children that no longer exist show as
+"missing". Each parent reads at most ${DEPENDENCY_KEY_LIMIT} children per state and the walk
+stops after ${MAX_FLOW_NODES} jobs; skipped children are counted in omittedChildren.
+Exits 1 when the job doesn't exist.
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  bullmq-dash jobs tree orders 123 --redis-url redis://localhost
+  bullmq-dash jobs tree orders 123 --redis-url redis://localhost --human-friendly
+  bullmq-dash jobs tree orders 123 --redis-url redis://localhost | jq '.root.children[] | {queue, id, state}'
+`;
+
+const JOBS_LOGS_HELP = `
+Usage: bullmq-dash jobs logs <queue> <job-id> [options]
+
+Show the lines a worker wrote with job.log(), oldest first. 'jobs get' only
+includes the latest ${DETAIL_LOG_LIMIT}; use --offset/--limit to page through the rest.
+
+Options:
+  --offset <n>             Index of the first line to show (default: 0)
+  --limit <n>              Max lines to show (default: ${DEFAULT_LOG_PAGE_SIZE}; not with --follow)
+  --follow                 Keep printing new lines as they are logged, one JSON
+                           object per line ({"index", "log"}), until the job
+                           completes or fails, or Ctrl+C. The summary goes to stderr.
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  bullmq-dash jobs logs email 123 --redis-url redis://localhost
+  bullmq-dash jobs logs email 123 --redis-url redis://localhost --offset 1000 --limit 500
+  bullmq-dash jobs logs email 123 --redis-url redis://localhost --follow | jq -r .log
+`;
+
+const JOBS_SEARCH_HELP = `
+Usage: bullmq-dash jobs search <queue> <query> [options]
+       bullmq-dash jobs search <query> --all-queues [options]
+
+Search jobs by ID, name and payload in the local SQLite cache. The cache only
+holds jobs this machine has seen (via 'jobs list', the TUI, the web dashboard
+or --observe), so each hit carries lastObservedAt: the time it was last read
+from Redis. Words must all match; the last one matches as a prefix.
+
+Options:
+  --all-queues             Search every cached queue instead of one
+  --observe                First fetch up to 1000 jobs per queue from Redis
+                           (with payloads) into the cache, so hits are fresh
+  --job-state <state>      Filter by state: wait | active | completed | failed | delayed
+  --page <n>               Page of results to return (default: 1)
+  --page-size <n>          Results per page (default: 25)
+  --fields <list>          Keep only these comma-separated fields of each hit:
+                           queue, id, name, state, timestamp, lastObservedAt
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  bullmq-dash jobs search email ada@example.com --redis-url redis://localhost
+  bullmq-dash jobs search email "invoice 2024" --redis-url redis://localhost --job-state failed
+  bullmq-dash jobs search ada@example.com --all-queues --observe --redis-url redis://localhost
+  bullmq-dash jobs search email welcome --redis-url redis://localhost --page 2 --page-size 50
+`;
+
+const JOBS_ADD_HELP = `
+Usage: bullmq-dash jobs add <queue> --name <name> [--data @file.json|-] [options]
+
+Enqueue a new job. Prints the created job in the same envelope as 'jobs get'.
+The payload is read from a JSON file (--data @payload.json) or from stdin
+(--data -). Without --data the job is added with an empty object payload.
+
+Options:
+  --name <name>            Job name (required)
+  --data <@file|->         JSON payload source: @path/to/file.json or - for stdin
+  --delay <duration>       Delay before the job becomes runnable: 30s, 5m, 1h, 7d
+  --priority <n>           Job priority (0 = none; lower numbers run first)
+  --attempts <n>           Total attempts before the job is marked failed
+  --job-id <id>            Custom job ID (fails if the ID already exists)
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  bullmq-dash jobs add email --redis-url redis://localhost --name welcome --data @payload.json
+  echo '{"to":"a@example.com"}' | bullmq-dash jobs add email --redis-url redis://localhost --name welcome --data -
+  bullmq-dash jobs add email --redis-url redis://localhost --name digest --delay 10m --attempts 3
+  bullmq-dash jobs add email --redis-url redis://localhost --name welcome --job-id repro-1 --data @payload.json
+`;
+
+const JOBS_EXPORT_HELP = `
+Usage: bullmq-dash jobs export <queue> [options]
+
+Stream every job in a queue as NDJSON: one JSON object per line with the full
+job detail (options, attempts, stacktrace, return value, timing). Unlike
+'jobs list' there is no result cap; jobs are read from Redis in batches,
+oldest first, and written as they arrive.
+
+When the export finishes or is interrupted (Ctrl+C, lost Redis connection), a
+JSON summary is printed: on stderr when jobs go to stdout, on stdout with
+--out. An interrupted export includes a resumeToken; pass it to --resume to
+continue where it stopped. Resuming with --out appends to the file.
+
+Options:
+  --job-state <state>      Only export one state: wait | active | completed | failed | delayed
+  --include-data           Include each job's data payload (off by default)
+  --out <file>             Write jobs to a file instead of stdout
+  --resume <token>         Continue an interrupted export
+${CONNECTION_OPTIONS_HELP}
+
+Exit codes:
+  0  Export complete
+  1  Export interrupted or failed; the summary carries a resumeToken
+
+Examples:
+  bullmq-dash jobs export email --redis-url redis://localhost --job-state failed > failed.ndjson
+  bullmq-dash jobs export email --redis-url redis://localhost --include-data --out email.ndjson
+  bullmq-dash jobs export email --redis-url redis://localhost --out email.ndjson --resume <token>
+`;
+
+const JOBS_IMPORT_HELP = `
+Usage: bullmq-dash jobs import <queue> --file <jobs.ndjson> [options]
+
+Re-create jobs from a 'jobs export' file (one JSON object per line) in <queue>,
+or in another queue with --rename-queue. Each job keeps its name, data and
+retry-related options (attempts, backoff, priority, lifo, removeOnComplete,
+removeOnFail, keepLogs, stackTraceLimit); delays, timestamps, repeat and
+parent links are dropped, so imported jobs run as fresh enqueues.
+
+Lines without a data payload (exports made without --include-data) are
+skipped. Malformed lines and failed adds are reported in errors[] with their
+line number, and the import keeps going.
+
+Options:
+  --file <path>            NDJSON file written by 'jobs export' (required)
+  --rename-queue <name>    Import into this queue instead of <queue>
+  --new-ids                Let BullMQ assign fresh job IDs (default)
+  --preserve-ids           Reuse the exported job IDs; IDs that already exist are skipped
+  --dry-run                Validate the file and count what would be created
+  --yes                    Skip confirmation prompt (required in non-interactive mode)
+${CONNECTION_OPTIONS_HELP}
+
+Exit codes:
+  0  Success (or dry-run)
+  2  Invalid flags or arguments
+  3  Live run finished with at least one error (see errors[])
+
+Examples:
+  bullmq-dash jobs import email --redis-url redis://staging --file failed.ndjson --dry-run
+  bullmq-dash jobs import email --redis-url redis://staging --file failed.ndjson --rename-queue email-replay --yes
+  bullmq-dash jobs import email --redis-url redis://staging --file failed.ndjson --preserve-ids --yes
 `;
 
 const JOBS_RETRY_HELP = `
-Usage: bullmq-dash jobs retry <queue> (--job-id <id> | --job-state failed) [options]
+Usage: bullmq-dash jobs retry <queue> (--job-id <id> | --job-state <state>) [options]
 
-Retry one failed job by ID, or bulk-retry failed jobs in a queue.
+Retry one failed job by ID, or bulk-retry failed jobs in a queue. With
+--job-state completed, completed jobs are moved back to wait and run again
+(e.g. after fixing a downstream bug).
 Always use --dry-run first to see what would be retried.
 
 Required, choose one:
-  --job-id <id>            Retry one failed job by ID
-  --job-state failed       Bulk-retry failed jobs (other states not supported)
+  --job-id <id>            Retry one job by ID (failed unless --job-state completed)
+  --job-state <state>      Bulk-retry jobs in this state: failed | completed
 
 Filters:
-  --since <duration>       Only jobs that failed within this window.
+  --since <duration>       Only jobs that failed (or completed) within this window.
                            Formats: 30s | 5m | 1h | 24h | 7d
   --name <exact>           Only jobs whose name exactly matches this string
+  --where <expr>           Only jobs matching an expression (see below)
+  --failure-group <id>     Only failed jobs in this group (see 'jobs failures')
   --page-size <n>          Max jobs to consider (default: 1000, max: 10000)
 
 Safety:
@@ -267,6 +801,8 @@ Exit codes:
 
 ${CONNECTION_OPTIONS_HELP}
 
+${WHERE_HELP}
+
 Examples:
   # Always start with a dry-run
   bullmq-dash jobs retry payments --redis-url redis://localhost --job-id 42 --dry-run
@@ -279,10 +815,150 @@ Examples:
   # Filter by job name
   bullmq-dash jobs retry email --redis-url redis://localhost --job-state failed --name welcome-email --dry-run
 
+  # Retry one tenant's jobs that have been attempted more than twice
+  bullmq-dash jobs retry email --redis-url redis://localhost --job-state failed --where 'data.tenantId == 42 && attemptsMade > 2' --dry-run
+
+  # Retry one failure group reported by 'jobs failures'
+  bullmq-dash jobs retry email --redis-url redis://localhost --job-state failed --failure-group 3fa9c0d2e1 --dry-run
+
+  # Re-run jobs that completed in the last day
+  bullmq-dash jobs retry email --redis-url redis://localhost --job-state completed --since 24h --dry-run
+
   # Pipe dry-run output through jq to extract sample IDs
   bullmq-dash jobs retry payments --redis-url redis://localhost --job-state failed --since 24h --dry-run | jq '.sampleJobIds'
 `;
 
+const JOBS_PROMOTE_HELP = `
+Usage: bullmq-dash jobs promote <queue> (--job-id <id> | --job-state delayed) [options]
+
+Promote one delayed job by ID, or bulk-promote delayed jobs so they run now.
+Always use --dry-run first to see what would be promoted.
+
+Required, choose one:
+  --job-id <id>            Promote one delayed job by ID
+  --job-state delayed      Bulk-promote delayed jobs (other states not supported)
+
+Filters:
+  --since <duration>       Only jobs added within this window.
+                           Formats: 30s | 5m | 1h | 24h | 7d
+  --name <exact>           Only jobs whose name exactly matches this string
+  --page-size <n>          Max jobs to consider (default: 1000, max: 10000)
+
+Safety:
+  --dry-run                Show what WOULD be promoted without moving anything.
+                           Prints matched count and sample job IDs.
+  --yes                   Skip confirmation prompt (required in non-interactive scripts).
+
+Exit codes:
+  0  Success (dry-run complete, or all matched jobs promoted). Includes empty-match.
+  1  Runtime / fetch error (e.g. Redis connection failed)
+  2  Config error (invalid flags, missing --job-id/--job-state, --page-size > 10000)
+  3  Partial failure — some jobs promoted, some errored (see errors[])
+
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  # Always start with a dry-run
+  bullmq-dash jobs promote digests --redis-url redis://localhost --job-id 42 --dry-run
+  bullmq-dash jobs promote digests --redis-url redis://localhost --job-state delayed --name nightly --dry-run
+
+  # Then promote for real
+  bullmq-dash jobs promote digests --redis-url redis://localhost --job-id 42 --yes
+  bullmq-dash jobs promote digests --redis-url redis://localhost --job-state delayed --since 1h --yes
+`;
+
+const JOBS_REMOVE_HELP = `
+Usage: bullmq-dash jobs remove <queue> (--job-id <id> | --job-state <state>) [options]
+
+Permanently remove one job by ID, or bulk-remove jobs in one state.
+Removed jobs cannot be recovered. Always use --dry-run first.
+
+Required, choose one:
+  --job-id <id>            Remove one job by ID (add --job-state to require that state)
+  --job-state <state>      Bulk-remove jobs in this state: wait | completed | failed | delayed
+                           Active jobs are locked by their worker and cannot be removed.
+
+Filters:
+  --since <duration>       Only jobs that finished (completed/failed) or were added
+                           (wait/delayed) within this window.
+                           Formats: 30s | 5m | 1h | 24h | 7d
+  --name <exact>           Only jobs whose name exactly matches this string
+  --failure-group <id>     Only failed jobs in this group (needs --job-state failed;
+                           see 'jobs failures')
+  --page-size <n>          Max jobs to consider (default: 1000, max: 10000)
+
+Safety:
+  --dry-run                Show what WOULD be removed without deleting anything.
+                           Prints matched count and sample job IDs.
+  --yes                   Skip confirmation prompt (required in non-interactive scripts).
+
+Exit codes:
+  0  Success (dry-run complete, or all matched jobs removed). Includes empty-match.
+  1  Runtime / fetch error (e.g. Redis connection failed)
+  2  Config error (invalid flags, missing --job-id/--job-state, --page-size > 10000)
+  3  Partial failure — some jobs removed, some errored (see errors[])
+
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  # Always start with a dry-run
+  bullmq-dash jobs remove email --redis-url redis://localhost --job-state failed --name poison --dry-run
+  bullmq-dash jobs remove email --redis-url redis://localhost --job-id 42 --dry-run
+  bullmq-dash jobs remove email --redis-url redis://localhost --job-state failed --failure-group 3fa9c0d2e1 --dry-run
+
+  # Then remove for real
+  bullmq-dash jobs remove email --redis-url redis://localhost --job-state failed --name poison --yes
+  bullmq-dash jobs remove email --redis-url redis://localhost --job-state completed --since 24h --yes
+`;
+
+const JOBS_MOVE_HELP = `
+Usage: bullmq-dash jobs move <queue> --to <target-queue> (--job-id <id> | --job-state <state>) [options]
+
+Move one job by ID, or a filtered batch of jobs in one state, to another
+queue. Each job is re-created in the target with its name, data and retry
+options (attempts, backoff, priority, removal settings) under a new job ID
+and removed from <queue> in one Redis transaction, so it is never left in
+both queues or in neither. A job a worker holds, or one that changes during
+the move, stays in <queue> and is reported in errors[]. Flow children are
+not moved. Use it to replay a dead-letter queue into its main queue.
+
+Required:
+  --to <queue>             Queue to move jobs into (must differ from <queue>)
+
+Required, choose one:
+  --job-id <id>            Move one job by ID (add --job-state to require that state)
+  --job-state <state>      Bulk-move jobs in this state: wait | completed | failed | delayed
+                           Active jobs are locked by their worker and cannot be moved.
+
+Filters:
+  --since <duration>       Only jobs that finished (completed/failed) or were added
+                           (wait/delayed) within this window.
+                           Formats: 30s | 5m | 1h | 24h | 7d
+  --name <exact>           Only jobs whose name exactly matches this string
+  --page-size <n>          Max jobs to consider (default: 1000, max: 10000)
+
+Safety:
+  --dry-run                Show what WOULD be moved without changing either queue.
+                           Prints matched count and sample job IDs.
+  --yes                   Skip confirmation prompt (required in non-interactive scripts).
+
+Exit codes:
+  0  Success (dry-run complete, or all matched jobs moved). Includes empty-match.
+  1  Runtime / fetch error (e.g. Redis connection failed)
+  2  Config error (invalid flags, missing --to or --job-id/--job-state, --page-size > 10000)
+  3  Partial failure — some jobs moved, some errored (see errors[])
+
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  # Always start with a dry-run
+  bullmq-dash jobs move email-dlq --to email --redis-url redis://localhost --job-state failed --dry-run
+
+  # Then replay the dead-letter queue for real
+  bullmq-dash jobs move email-dlq --to email --redis-url redis://localhost --job-state failed --since 24h --yes
+  bullmq-dash jobs move email-dlq --to email --redis-url redis://localhost --job-id 42 --yes
+`;
+
 const SCHEDULERS_HELP = `
 Usage: bullmq-dash schedulers <action> <queue> [options]
 
@@ -297,25 +973,67 @@ const SCHEDULERS_LIST_HELP = `
 Usage: bullmq-dash schedulers list <queue> [options]
 
 List all job schedulers in a queue with their cron patterns and next run times.
+The output carries a nextCursor while more schedulers remain.
 
 Options:
   --page-size <n>          Max results to return (default: 1000)
+${PAGING_OPTIONS_HELP}
+  --fields <list>          Keep only these comma-separated fields of each scheduler:
+                           key, name, pattern, every, next, iterationCount, tz
 ${CONNECTION_OPTIONS_HELP}
 
 Examples:
   bullmq-dash schedulers list email --redis-url redis://localhost
   bullmq-dash schedulers list email --redis-url redis://localhost --page-size 50
+  bullmq-dash schedulers list email --redis-url redis://localhost --page-size 50 --offset 50
   bullmq-dash schedulers list email --redis-url redis://localhost | jq '.schedulers[] | {key, pattern, next}'
 `;
 
-const DOCTOR_HELP = `
-Usage: bullmq-dash doctor [options]
+const ALERTS_HELP = `
+Usage: bullmq-dash alerts <action> [options]
 
-Diagnose your bullmq-dash setup in one pass. Checks, in order:
+Actions:
+  check                    Evaluate the profile's alert rules against every queue
 
-  config-file       Config file resolution and schema
-  profile           Profile selection and env-var expansion
-  connection        Redis connection source and URL shape
+Run 'bullmq-dash alerts <action> --help' for action-specific help.
+`;
+
+const ALERTS_CHECK_HELP = `
+Usage: bullmq-dash alerts check [options]
+
+Evaluate the alert rules in the selected profile against every queue and
+print the rules that fire. Rules live under "alerts" in the profile:
+
+  { "queue": "payments", "state": "failed", "above": 100 }
+  { "state": "wait", "growth": 5, "window": "10m", "minCount": 50 }
+
+state is one of wait, active, completed, failed, delayed, schedulers; a
+rule without "queue" applies to every queue. Threshold rules fire while the
+count is above "above". Growth rules fire when the count is at least
+"growth" times the oldest sample recorded within "window"; each check
+records a sample, so run it on a schedule (e.g. cron every minute).
+
+Exit codes:
+  0  No rule fired
+  1  At least one rule fired (or the check failed)
+
+Options:
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  bullmq-dash alerts check --profile prod
+  bullmq-dash alerts check --profile prod --human-friendly
+  bullmq-dash alerts check --profile prod | jq -r '.firing[].message'
+`;
+
+const DOCTOR_HELP = `
+Usage: bullmq-dash doctor [options]
+
+Diagnose your bullmq-dash setup in one pass. Checks, in order:
+
+  config-file       Config file resolution and schema
+  profile           Profile selection and env-var expansion
+  connection        Redis connection source and URL shape
   redis-ping        Connectivity and round-trip latency
   redis-server      Server version and mode (from INFO)
   queue-discovery   BullMQ queues visible under the key prefix
@@ -334,7 +1052,9 @@ Options:
                            (default: ~/.config/bullmq-dash/config.json)
   --redis-url <url>        Full connection URL: redis://host[:port][/db]
   --prefix <prefix>        BullMQ key prefix (default: bull)
-  --human-friendly         Human-readable checklist output (default: JSON)
+  --output <format>        json | ndjson | csv | yaml | table (default: json);
+                           ndjson and csv print one record per check
+  --human-friendly         Human-readable checklist output (same as --output table)
 
 Examples:
   bullmq-dash doctor
@@ -343,10 +1063,44 @@ Examples:
   bullmq-dash doctor --profile prod --human-friendly
 `;
 
+const WATCH_HELP = `
+Usage: bullmq-dash watch [options]
+
+Poll every queue at --poll-interval and print one NDJSON event per change
+to stdout until interrupted (Ctrl-C) or --duration elapses. The first
+event is a snapshot of every queue; after that:
+
+  count           A queue's count for one state changed (with the delta)
+  queue-added     A queue appeared
+  queue-removed   A queue disappeared
+  pause           A queue was paused or resumed
+  rates           Global enqueue/dequeue rates moved
+  error           A poll failed (e.g. Redis unreachable); watching continues
+
+Every event carries a timestamp. A summary is printed to stderr on exit.
+
+Options:
+  --duration <duration>    Stop after this long: 30s, 5m, 1h, 7d
+  --poll-interval <ms>     Polling interval in ms (default: 3000)
+  --queues <names>         Comma-separated queue names to watch
+${CONNECTION_OPTIONS_HELP}
+
+Examples:
+  bullmq-dash watch --redis-url redis://localhost
+  bullmq-dash watch --redis-url redis://localhost --poll-interval 1000 --duration 10m
+  bullmq-dash watch --redis-url redis://localhost | jq -c 'select(.type == "count" and .state == "failed")'
+`;
+
 const SCHEDULERS_GET_HELP = `
 Usage: bullmq-dash schedulers get <queue> <scheduler-id> [options]
 
 Get full detail for a single scheduler including next job, recent history, and template.
+
+Options:
+  --fields <list>          Keep only these comma-separated fields of the scheduler:
+                           key, name, pattern, every, next, iterationCount, tz, id,
+                           limit, startDate, endDate, template.<path>,
+                           nextJob.<path>, recentJobs
 ${CONNECTION_OPTIONS_HELP}
 
 Examples:
@@ -356,8 +1110,31 @@ Examples:
 
 // ── Known subcommands ───────────────────────────────────────────────────
 
-const RESOURCE_COMMANDS = new Set(["queues", "jobs", "schedulers"]);
-const ACTIONS = new Set(["list", "failed", "get", "retry", "delete"]);
+const RESOURCE_COMMANDS = new Set(["queues", "jobs", "schedulers", "alerts"]);
+const ACTIONS = new Set([
+  "list",
+  "failed",
+  "failures",
+  "get",
+  "find",
+  "tree",
+  "logs",
+  "search",
+  "add",
+  "export",
+  "import",
+  "retry",
+  "promote",
+  "remove",
+  "move",
+  "delete",
+  "pause",
+  "resume",
+  "clean",
+  "stats",
+  "history",
+  "check",
+]);
 
 /**
  * Separate subcommand tokens (positional args) from flag tokens.
@@ -419,6 +1196,7 @@ export function parseQueueSortBy(rawValue: string | undefined): QueueSortBy | un
     case "completed":
     case "failed":
     case "delayed":
+    case "throughput":
       return rawValue;
     default:
       writeError(
@@ -430,6 +1208,47 @@ export function parseQueueSortBy(rawValue: string | undefined): QueueSortBy | un
   }
 }
 
+/** Split a --fields list into dotted paths, rejecting empty names and path segments. */
+export function parseFieldList(rawValue: string | undefined): string[] | undefined {
+  if (rawValue === undefined) return undefined;
+  const fields = rawValue.split(",").map((field) => field.trim());
+  const invalid = fields.find((field) => field.split(".").some((segment) => segment === ""));
+  if (invalid !== undefined) {
+    writeError(
+      `Invalid --fields value: '${rawValue}'`,
+      "CONFIG_ERROR",
+      "Use comma-separated field names or dotted paths, e.g. --fields id,name,data.userId",
+    );
+    process.exit(2);
+  }
+  return [...new Set(fields)];
+}
+
+/** Resolve --output, treating --human-friendly as --output table. */
+export function parseOutputFormat(
+  rawValue: string | undefined,
+  humanFriendly: boolean,
+): OutputFormat {
+  if (rawValue === undefined) return humanFriendly ? "table" : "json";
+  if (!OUTPUT_FORMATS.includes(rawValue as OutputFormat)) {
+    writeError(
+      `Invalid --output value: '${rawValue}'`,
+      "CONFIG_ERROR",
+      `Valid formats: ${OUTPUT_FORMATS.join(", ")}.`,
+    );
+    process.exit(2);
+  }
+  if (humanFriendly && rawValue !== "table") {
+    writeError(
+      `--human-friendly conflicts with --output ${rawValue}`,
+      "CONFIG_ERROR",
+      "--human-friendly is the same as --output table; pass only one of them.",
+    );
+    process.exit(2);
+  }
+  return rawValue as OutputFormat;
+}
+
 export function parseSortOrder(rawValue: string | undefined): SortOrder | undefined {
   if (rawValue === undefined) return undefined;
   if (rawValue === "asc" || rawValue === "desc") return rawValue;
@@ -441,21 +1260,84 @@ export function parseSortOrder(rawValue: string | undefined): SortOrder | undefi
   process.exit(2);
 }
 
-function parseSubcommand(
-  positionals: string[],
-  help: boolean,
-  jobState: string | undefined,
-  pageSize: number | undefined,
-  since: string | undefined,
-  name: string | undefined,
-  retryJobId: string | undefined,
-  dryRun: boolean,
-  yes: boolean = false,
-  sortBy: string | undefined,
-  sortOrder: string | undefined,
-): Subcommand | undefined {
+/** Command-specific flag values, already parsed, handed to parseSubcommand. */
+interface SubcommandFlags {
+  help: boolean;
+  jobState?: string;
+  pageSize?: number;
+  since?: string;
+  name?: string;
+  where?: string;
+  failureGroup?: string;
+  jobId?: string;
+  olderThan?: string;
+  limit?: number;
+  offset?: number;
+  cursorToken?: string;
+  all: boolean;
+  follow: boolean;
+  page?: number;
+  allQueues: boolean;
+  observe: boolean;
+  data?: string;
+  includeData: boolean;
+  out?: string;
+  resume?: string;
+  file?: string;
+  renameQueue?: string;
+  ids: ImportIdMode;
+  to?: string;
+  delay?: number;
+  priority?: number;
+  attempts?: number;
+  dryRun: boolean;
+  yes: boolean;
+  sortBy?: string;
+  sortOrder?: string;
+  duration?: number;
+  window?: number;
+}
+
+function parseSubcommand(positionals: string[], flags: SubcommandFlags): Subcommand | undefined {
   if (positionals.length === 0) return undefined;
 
+  const {
+    help,
+    jobState,
+    pageSize,
+    since,
+    name,
+    where,
+    failureGroup,
+    jobId,
+    olderThan,
+    limit,
+    offset,
+    cursorToken,
+    all,
+    follow,
+    page,
+    allQueues,
+    observe,
+    data,
+    includeData,
+    out,
+    resume,
+    file,
+    renameQueue,
+    ids,
+    to,
+    delay,
+    priority,
+    attempts,
+    dryRun,
+    yes,
+    sortBy,
+    sortOrder,
+    duration,
+    window,
+  } = flags;
+
   const resource = positionals[0]!;
   const action = positionals[1];
 
@@ -466,11 +1348,17 @@ function parseSubcommand(
     return { kind: "doctor" };
   }
 
+  if (resource === "watch") {
+    if (help) showSubcommandHelp(WATCH_HELP);
+    assertArgCount(positionals, 1, "watch [options]");
+    return { kind: "watch", duration };
+  }
+
   if (!RESOURCE_COMMANDS.has(resource)) {
     writeError(
       `Unknown command: '${resource}'`,
       "CONFIG_ERROR",
-      `Available commands: queues, jobs, schedulers, doctor. Use --help for usage.`,
+      `Available commands: queues, jobs, schedulers, alerts, watch, doctor. Use --help for usage.`,
     );
     process.exit(2);
   }
@@ -487,6 +1375,9 @@ function parseSubcommand(
       case "schedulers":
         showSubcommandHelp(SCHEDULERS_HELP);
         break;
+      case "alerts":
+        showSubcommandHelp(ALERTS_HELP);
+        break;
     }
   }
 
@@ -519,10 +1410,67 @@ function parseSubcommand(
         assertArgCount(positionals, 3, usage);
         return { kind: "queues-delete", queue, dryRun, yes };
       }
+      if (action === "pause" || action === "resume") {
+        if (help) showSubcommandHelp(action === "pause" ? QUEUES_PAUSE_HELP : QUEUES_RESUME_HELP);
+        const usage = `queues ${action} <queue> [--dry-run] [--yes]`;
+        const queue = getRequiredArg(positionals, 2, "queue", usage);
+        assertArgCount(positionals, 3, usage);
+        return { kind: action === "pause" ? "queues-pause" : "queues-resume", queue, dryRun };
+      }
+      if (action === "clean") {
+        if (help) showSubcommandHelp(QUEUES_CLEAN_HELP);
+        const usage =
+          "queues clean <queue> --job-state <state> --older-than <duration> [--limit <n>] [--dry-run|--yes]";
+        const queue = getRequiredArg(positionals, 2, "queue", usage);
+        assertArgCount(positionals, 3, usage);
+
+        if (!jobState || !CLEANABLE_JOB_STATES.includes(jobState as CleanableJobState)) {
+          writeError(
+            jobState
+              ? `Unsupported --job-state '${jobState}' for 'queues clean'`
+              : "--job-state is required for 'queues clean'",
+            "CONFIG_ERROR",
+            `Valid values: ${CLEANABLE_JOB_STATES.join(", ")}.`,
+          );
+          process.exit(2);
+        }
+        // No default grace period: cleaning "everything older than now" is
+        // too easy to run by accident.
+        if (!olderThan) {
+          writeError(
+            "--older-than is required for 'queues clean'",
+            "CONFIG_ERROR",
+            `Usage: ${usage}`,
+          );
+          process.exit(2);
+        }
+        return {
+          kind: "queues-clean",
+          queue,
+          jobState: jobState as CleanableJobState,
+          olderThan,
+          limit,
+          dryRun,
+        };
+      }
+      if (action === "stats") {
+        if (help) showSubcommandHelp(QUEUES_STATS_HELP);
+        const usage = "queues stats <queue> [--page-size <n>]";
+        const queue = getRequiredArg(positionals, 2, "queue", usage);
+        assertArgCount(positionals, 3, usage);
+        return { kind: "queues-stats", queue, pageSize };
+      }
+      if (action === "history") {
+        if (help) showSubcommandHelp(QUEUES_HISTORY_HELP);
+        const usage = "queues history <queue> [--window <duration>]";
+        const queue = getRequiredArg(positionals, 2, "queue", usage);
+        assertArgCount(positionals, 3, usage);
+        return { kind: "queues-history", queue, window: window ?? DEFAULT_HISTORY_WINDOW_MS };
+      }
       writeError(
         `Invalid action '${action}' for queues`,
         "CONFIG_ERROR",
-        "Available actions: list, delete. Use --help for usage.",
+        "Available actions: list, delete, pause, resume, clean, stats, history. Use --help for usage.",
       );
       process.exit(2);
     }
@@ -530,14 +1478,27 @@ function parseSubcommand(
     case "jobs": {
       if (action === "list") {
         if (help) showSubcommandHelp(JOBS_LIST_HELP);
-        const usage = "jobs list <queue> [--job-state <state>] [--page-size <n>]";
+        const usage =
+          "jobs list <queue> [--job-state <state>] [--page-size <n>] [--where <expr>] [--offset <n>|--cursor <token>] [--all] [--include-data]";
         const queue = getRequiredArg(positionals, 2, "queue", usage);
         assertArgCount(positionals, 3, usage);
-        return { kind: "jobs-list", queue, jobState, pageSize };
+        const listCursor = parseListCursor(cursorToken, offset, queue, jobState ?? "all", usage);
+        return {
+          kind: "jobs-list",
+          queue,
+          jobState,
+          pageSize,
+          where,
+          offset,
+          cursor: listCursor,
+          all: all || undefined,
+          includeData: includeData || undefined,
+        };
       }
       if (action === "failed") {
         if (help) showSubcommandHelp(JOBS_FAILED_HELP);
-        const usage = "jobs failed <queue> [--page-size <n>]";
+        const usage =
+          "jobs failed <queue> [--page-size <n>] [--where <expr>] [--offset <n>|--cursor <token>] [--all] [--include-data]";
         const queue = getRequiredArg(positionals, 2, "queue", usage);
         assertArgCount(positionals, 3, usage);
         if (jobState && jobState !== "failed") {
@@ -548,45 +1509,360 @@ function parseSubcommand(
           );
           process.exit(2);
         }
-        return { kind: "jobs-list", queue, jobState: "failed", pageSize };
+        const listCursor = parseListCursor(cursorToken, offset, queue, "failed", usage);
+        return {
+          kind: "jobs-list",
+          queue,
+          jobState: "failed",
+          pageSize,
+          where,
+          offset,
+          cursor: listCursor,
+          all: all || undefined,
+          includeData: includeData || undefined,
+        };
+      }
+      if (action === "failures") {
+        if (help) showSubcommandHelp(JOBS_FAILURES_HELP);
+        const usage = "jobs failures <queue> [--page-size <n>]";
+        const queue = getRequiredArg(positionals, 2, "queue", usage);
+        assertArgCount(positionals, 3, usage);
+        return { kind: "jobs-failures", queue, pageSize };
       }
       if (action === "get") {
         if (help) showSubcommandHelp(JOBS_GET_HELP);
         const usage = "jobs get <queue> <job-id>";
         const queue = getRequiredArg(positionals, 2, "queue", usage);
-        const jobId = getRequiredArg(positionals, 3, "job-id", usage);
+        const id = getRequiredArg(positionals, 3, "job-id", usage);
+        assertArgCount(positionals, 4, usage);
+        return { kind: "jobs-get", queue, jobId: id };
+      }
+      if (action === "find") {
+        if (help) showSubcommandHelp(JOBS_FIND_HELP);
+        const usage = "jobs find <job-id>";
+        const id = getRequiredArg(positionals, 2, "job-id", usage);
+        assertArgCount(positionals, 3, usage);
+        return { kind: "jobs-find", jobId: id };
+      }
+      if (action === "tree") {
+        if (help) showSubcommandHelp(JOBS_TREE_HELP);
+        const usage = "jobs tree <queue> <job-id>";
+        const queue = getRequiredArg(positionals, 2, "queue", usage);
+        const id = getRequiredArg(positionals, 3, "job-id", usage);
         assertArgCount(positionals, 4, usage);
-        return { kind: "jobs-get", queue, jobId };
+        return { kind: "jobs-tree", queue, jobId: id };
+      }
+      if (action === "logs") {
+        if (help) showSubcommandHelp(JOBS_LOGS_HELP);
+        const usage = "jobs logs <queue> <job-id> [--offset <n>] [--limit <n>] [--follow]";
+        const queue = getRequiredArg(positionals, 2, "queue", usage);
+        const id = getRequiredArg(positionals, 3, "job-id", usage);
+        assertArgCount(positionals, 4, usage);
+        if (follow && limit !== undefined) {
+          writeError(
+            "--limit cannot be used with --follow",
+            "CONFIG_ERROR",
+            "--follow prints every line from --offset until the job finishes.",
+          );
+          process.exit(2);
+        }
+        return { kind: "jobs-logs", queue, jobId: id, offset: offset ?? 0, limit, follow };
+      }
+      if (action === "search") {
+        if (help) showSubcommandHelp(JOBS_SEARCH_HELP);
+        const usage =
+          "jobs search (<queue> <query> | <query> --all-queues) [--observe] [--job-state <state>] [--page <n>] [--page-size <n>]";
+        // With --all-queues there is no queue positional, only the query.
+        const queue = allQueues ? null : getRequiredArg(positionals, 2, "queue", usage);
+        const queryIndex = allQueues ? 2 : 3;
+        const query = getRequiredArg(positionals, queryIndex, "query", usage);
+        assertArgCount(positionals, queryIndex + 1, usage);
+
+        if (query.trim() === "") {
+          writeError("Search query is empty", "CONFIG_ERROR", `Usage: ${usage}`);
+          process.exit(2);
+        }
+        if (jobState && !VALID_JOB_STATUSES.includes(jobState as JsonJobStatus)) {
+          writeError(
+            `Invalid --job-state value: '${jobState}'`,
+            "CONFIG_ERROR",
+            `Valid values: ${VALID_JOB_STATUSES.join(", ")}.`,
+          );
+          process.exit(2);
+        }
+        return {
+          kind: "jobs-search",
+          queue,
+          query,
+          jobState: jobState as JsonJobStatus | undefined,
+          page: page ?? 1,
+          pageSize,
+          observe,
+        };
+      }
+      if (action === "export") {
+        if (help) showSubcommandHelp(JOBS_EXPORT_HELP);
+        const usage =
+          "jobs export <queue> [--job-state <state>] [--include-data] [--out <file>] [--resume <token>]";
+        const queue = getRequiredArg(positionals, 2, "queue", usage);
+        assertArgCount(positionals, 3, usage);
+
+        if (jobState && !VALID_JOB_STATUSES.includes(jobState as JsonJobStatus)) {
+          writeError(
+            `Invalid --job-state value: '${jobState}'`,
+            "CONFIG_ERROR",
+            `Valid values: ${VALID_JOB_STATUSES.join(", ")}.`,
+          );
+          process.exit(2);
+        }
+        const cursor = resume === undefined ? undefined : parseResumeToken(resume, queue);
+        // A resumed export keeps the filters it started with; conflicting
+        // flags would silently produce a mixed file.
+        if (cursor && jobState && jobState !== cursor.jobState) {
+          writeError(
+            `--job-state '${jobState}' does not match the resumed export (${cursor.jobState ?? "all"})`,
+            "CONFIG_ERROR",
+            "Drop --job-state when using --resume; the token remembers the original filter.",
+          );
+          process.exit(2);
+        }
+        if (cursor && includeData && !cursor.includeData) {
+          writeError(
+            "--include-data does not match the resumed export",
+            "CONFIG_ERROR",
+            "The interrupted export ran without --include-data. Start a new export to include payloads.",
+          );
+          process.exit(2);
+        }
+        return {
+          kind: "jobs-export",
+          queue,
+          jobState: (cursor ? (cursor.jobState ?? undefined) : jobState) as
+            | JsonJobStatus
+            | undefined,
+          includeData: cursor ? cursor.includeData : includeData,
+          out,
+          resume: cursor,
+        };
+      }
+      if (action === "import") {
+        if (help) showSubcommandHelp(JOBS_IMPORT_HELP);
+        const usage =
+          "jobs import <queue> --file <jobs.ndjson> [--rename-queue <name>] [--preserve-ids|--new-ids] [--dry-run|--yes]";
+        const queue = getRequiredArg(positionals, 2, "queue", usage);
+        assertArgCount(positionals, 3, usage);
+
+        if (!file) {
+          writeError("--file is required for 'jobs import'", "CONFIG_ERROR", `Usage: ${usage}`);
+          process.exit(2);
+        }
+        if (!existsSync(file)) {
+          writeError(
+            `Import file not found: ${file}`,
+            "CONFIG_ERROR",
+            "Pass the path of an NDJSON file written by 'jobs export'.",
+          );
+          process.exit(2);
+        }
+        if (!statSync(file).isFile()) {
+          writeError(
+            `Import path is not a file: ${file}`,
+            "CONFIG_ERROR",
+            "Pass the path of an NDJSON file written by 'jobs export'.",
+          );
+          process.exit(2);
+        }
+        if (renameQueue !== undefined && renameQueue.trim() === "") {
+          writeError("--rename-queue cannot be empty", "CONFIG_ERROR", `Usage: ${usage}`);
+          process.exit(2);
+        }
+        return {
+          kind: "jobs-import",
+          queue,
+          file,
+          targetQueue: renameQueue ?? queue,
+          ids,
+          dryRun,
+        };
+      }
+      if (action === "add") {
+        if (help) showSubcommandHelp(JOBS_ADD_HELP);
+        const usage = "jobs add <queue> --name <name> [--data @file.json|-] [options]";
+        const queue = getRequiredArg(positionals, 2, "queue", usage);
+        assertArgCount(positionals, 3, usage);
+
+        if (!name) {
+          writeError("--name is required for 'jobs add'", "CONFIG_ERROR", `Usage: ${usage}`);
+          process.exit(2);
+        }
+        return {
+          kind: "jobs-add",
+          queue,
+          name,
+          data: data === undefined ? {} : readJobPayload(data),
+          delay,
+          priority,
+          attempts,
+          jobId,
+        };
       }
       if (action === "retry") {
         if (help) showSubcommandHelp(JOBS_RETRY_HELP);
         const usage =
-          "jobs retry <queue> (--job-id <id> | --job-state failed) [--since <duration>] [--name <pattern>] [--dry-run|--yes]";
+          "jobs retry <queue> (--job-id <id> | --job-state failed|completed) [--since <duration>] [--name <pattern>] [--where <expr>] [--dry-run|--yes]";
         const queue = getRequiredArg(positionals, 2, "queue", usage);
         assertArgCount(positionals, 3, usage);
 
-        // Retry only operates on failed jobs. Guard against footguns.
-        if (!jobState && !retryJobId) {
+        // Retry only operates on failed or completed jobs. Guard against footguns.
+        if (!jobState && !jobId) {
           writeError(
             "--job-id or --job-state is required for 'jobs retry'",
             "CONFIG_ERROR",
-            "Use --job-id <id> for one failed job or --job-state failed for a filtered batch.",
+            "Use --job-id <id> for one failed job or --job-state failed|completed for a filtered batch.",
           );
           process.exit(2);
         }
-        if (jobState && jobState !== "failed") {
+        if (jobState && !RETRYABLE_JOB_STATES.includes(jobState as RetryableJobState)) {
           writeError(
             `Unsupported --job-state '${jobState}' for 'jobs retry'`,
             "CONFIG_ERROR",
-            "Only --job-state failed is currently supported.",
+            `Use one of: ${RETRYABLE_JOB_STATES.join(", ")}.`,
+          );
+          process.exit(2);
+        }
+        // Signatures are built from failedReason and stacktrace, which only
+        // failed jobs carry.
+        if (failureGroup !== undefined && jobState === "completed") {
+          writeError(
+            "--failure-group can only select failed jobs",
+            "CONFIG_ERROR",
+            "Use --job-state failed (the default) with --failure-group.",
           );
           process.exit(2);
         }
         return {
           kind: "jobs-retry",
           queue,
-          jobState: "failed",
-          jobId: retryJobId,
+          jobState: (jobState ?? "failed") as RetryableJobState,
+          jobId,
+          since,
+          name,
+          where,
+          failureGroup,
+          pageSize,
+          dryRun,
+        };
+      }
+      if (action === "promote") {
+        if (help) showSubcommandHelp(JOBS_PROMOTE_HELP);
+        const usage =
+          "jobs promote <queue> (--job-id <id> | --job-state delayed) [--since <duration>] [--name <exact>] [--dry-run|--yes]";
+        const queue = getRequiredArg(positionals, 2, "queue", usage);
+        assertArgCount(positionals, 3, usage);
+
+        // Promote only operates on delayed jobs. Same footgun guard as retry.
+        if (!jobState && !jobId) {
+          writeError(
+            "--job-id or --job-state is required for 'jobs promote'",
+            "CONFIG_ERROR",
+            "Use --job-id <id> for one delayed job or --job-state delayed for a filtered batch.",
+          );
+          process.exit(2);
+        }
+        if (jobState && jobState !== "delayed") {
+          writeError(
+            `Unsupported --job-state '${jobState}' for 'jobs promote'`,
+            "CONFIG_ERROR",
+            "Only --job-state delayed can be promoted.",
+          );
+          process.exit(2);
+        }
+        return { kind: "jobs-promote", queue, jobId, since, name, pageSize, dryRun };
+      }
+      if (action === "remove") {
+        if (help) showSubcommandHelp(JOBS_REMOVE_HELP);
+        const usage =
+          "jobs remove <queue> (--job-id <id> | --job-state <state>) [--since <duration>] [--name <exact>] [--dry-run|--yes]";
+        const queue = getRequiredArg(positionals, 2, "queue", usage);
+        assertArgCount(positionals, 3, usage);
+
+        if (!jobState && !jobId) {
+          writeError(
+            "--job-id or --job-state is required for 'jobs remove'",
+            "CONFIG_ERROR",
+            "Use --job-id <id> for one job or --job-state <state> for a filtered batch.",
+          );
+          process.exit(2);
+        }
+        if (jobState && !REMOVABLE_JOB_STATES.includes(jobState as RemovableJobState)) {
+          writeError(
+            `Unsupported --job-state '${jobState}' for 'jobs remove'`,
+            "CONFIG_ERROR",
+            `Valid values: ${REMOVABLE_JOB_STATES.join(", ")}. Active jobs are locked by their worker.`,
+          );
+          process.exit(2);
+        }
+        if (failureGroup !== undefined && jobState !== "failed") {
+          writeError(
+            "--failure-group requires --job-state failed for 'jobs remove'",
+            "CONFIG_ERROR",
+            "Usage: jobs remove <queue> --job-state failed --failure-group <id> --dry-run",
+          );
+          process.exit(2);
+        }
+        return {
+          kind: "jobs-remove",
+          queue,
+          jobState: jobState as RemovableJobState | undefined,
+          jobId,
+          since,
+          name,
+          failureGroup,
+          pageSize,
+          dryRun,
+        };
+      }
+      if (action === "move") {
+        if (help) showSubcommandHelp(JOBS_MOVE_HELP);
+        const usage =
+          "jobs move <queue> --to <target-queue> (--job-id <id> | --job-state <state>) [--since <duration>] [--name <exact>] [--dry-run|--yes]";
+        const queue = getRequiredArg(positionals, 2, "queue", usage);
+        assertArgCount(positionals, 3, usage);
+
+        if (to === undefined || to.trim() === "") {
+          writeError("--to is required for 'jobs move'", "CONFIG_ERROR", `Usage: ${usage}`);
+          process.exit(2);
+        }
+        if (to === queue) {
+          writeError(
+            "--to must name a different queue than the source",
+            "CONFIG_ERROR",
+            `Usage: ${usage}`,
+          );
+          process.exit(2);
+        }
+        if (!jobState && !jobId) {
+          writeError(
+            "--job-id or --job-state is required for 'jobs move'",
+            "CONFIG_ERROR",
+            "Use --job-id <id> for one job or --job-state <state> for a filtered batch.",
+          );
+          process.exit(2);
+        }
+        if (jobState && !REMOVABLE_JOB_STATES.includes(jobState as RemovableJobState)) {
+          writeError(
+            `Unsupported --job-state '${jobState}' for 'jobs move'`,
+            "CONFIG_ERROR",
+            `Valid values: ${REMOVABLE_JOB_STATES.join(", ")}. Active jobs are locked by their worker.`,
+          );
+          process.exit(2);
+        }
+        return {
+          kind: "jobs-move",
+          queue,
+          targetQueue: to,
+          jobState: jobState as RemovableJobState | undefined,
+          jobId,
           since,
           name,
           pageSize,
@@ -596,7 +1872,7 @@ function parseSubcommand(
       writeError(
         `Invalid action '${action}' for jobs`,
         "CONFIG_ERROR",
-        "Available actions: list, failed, get, retry. Use --help for usage.",
+        "Available actions: list, failed, failures, get, find, tree, add, export, import, retry, promote, remove, move. Use --help for usage.",
       );
       process.exit(2);
     }
@@ -604,10 +1880,19 @@ function parseSubcommand(
     case "schedulers": {
       if (action === "list") {
         if (help) showSubcommandHelp(SCHEDULERS_LIST_HELP);
-        const usage = "schedulers list <queue> [--page-size <n>]";
+        const usage =
+          "schedulers list <queue> [--page-size <n>] [--offset <n>|--cursor <token>] [--all]";
         const queue = getRequiredArg(positionals, 2, "queue", usage);
         assertArgCount(positionals, 3, usage);
-        return { kind: "schedulers-list", queue, pageSize };
+        const listCursor = parseListCursor(cursorToken, offset, queue, "schedulers", usage);
+        return {
+          kind: "schedulers-list",
+          queue,
+          pageSize,
+          offset,
+          cursor: listCursor,
+          all: all || undefined,
+        };
       }
       if (action === "get") {
         if (help) showSubcommandHelp(SCHEDULERS_GET_HELP);
@@ -624,13 +1909,172 @@ function parseSubcommand(
       );
       process.exit(2);
     }
+
+    case "alerts": {
+      if (action === "check") {
+        if (help) showSubcommandHelp(ALERTS_CHECK_HELP);
+        assertArgCount(positionals, 2, "alerts check [options]");
+        return { kind: "alerts-check" };
+      }
+      writeError(
+        `Invalid action '${action}' for alerts`,
+        "CONFIG_ERROR",
+        "Available actions: check. Use --help for usage.",
+      );
+      process.exit(2);
+    }
   }
 
   return undefined;
 }
 
+/**
+ * Decode a listing's --cursor token, exiting with CONFIG_ERROR if it is
+ * unusable, belongs to another listing, or is combined with --offset.
+ */
+function parseListCursor(
+  token: string | undefined,
+  offset: number | undefined,
+  queue: string,
+  list: string,
+  usage: string,
+): ListCursor | undefined {
+  if (token === undefined) return undefined;
+  if (offset !== undefined) {
+    writeError("--offset and --cursor cannot be used together", "CONFIG_ERROR", `Usage: ${usage}`);
+    process.exit(2);
+  }
+  const cursor = decodeListCursor(token);
+  if (!cursor) {
+    writeError(
+      "Invalid --cursor token",
+      "CONFIG_ERROR",
+      "Pass the nextCursor value from the previous page unchanged.",
+    );
+    process.exit(2);
+  }
+  if (cursor.queue !== queue || cursor.list !== list) {
+    writeError(
+      `--cursor token belongs to another listing (queue '${cursor.queue}', ${cursor.list})`,
+      "CONFIG_ERROR",
+      "Repeat the command that returned the cursor with the same queue and --job-state.",
+    );
+    process.exit(2);
+  }
+  return cursor;
+}
+
+/** Decode a `jobs export --resume` token, exiting with CONFIG_ERROR if it is unusable. */
+function parseResumeToken(token: string, queue: string): ExportCursor {
+  const cursor = decodeResumeToken(token);
+  if (!cursor) {
+    writeError(
+      "Invalid --resume token",
+      "CONFIG_ERROR",
+      "Pass the resumeToken value from an interrupted 'jobs export' summary unchanged.",
+    );
+    process.exit(2);
+  }
+  if (cursor.queue !== queue) {
+    writeError(
+      `--resume token belongs to queue '${cursor.queue}', not '${queue}'`,
+      "CONFIG_ERROR",
+      `Usage: jobs export ${cursor.queue} --resume <token>`,
+    );
+    process.exit(2);
+  }
+  return cursor;
+}
+
+/**
+ * Read a `jobs add` payload from `@path` or `-` (stdin) and parse it as JSON.
+ * Exits with CONFIG_ERROR on an unknown source, unreadable file or bad JSON.
+ */
+function readJobPayload(source: string): unknown {
+  let label: string;
+  let raw: string;
+  try {
+    if (source === "-") {
+      label = "stdin";
+      raw = readFileSync(0, "utf-8");
+    } else if (source.startsWith("@") && source.length > 1) {
+      label = source.slice(1);
+      raw = readFileSync(label, "utf-8");
+    } else {
+      writeError(
+        `Invalid --data value '${source}'`,
+        "CONFIG_ERROR",
+        "Use --data @path/to/payload.json to read a file or --data - to read stdin.",
+      );
+      process.exit(2);
+    }
+  } catch (error) {
+    writeError(
+      `Failed to read job payload from ${source === "-" ? "stdin" : source.slice(1)}`,
+      "CONFIG_ERROR",
+      error instanceof Error ? error.message : String(error),
+    );
+    process.exit(2);
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    writeError(
+      `Invalid JSON job payload in ${label}`,
+      "CONFIG_ERROR",
+      error instanceof Error ? error.message : String(error),
+    );
+    process.exit(2);
+  }
+}
+
 // ── Parse CLI flags ─────────────────────────────────────────────────────
 
+/** Commands that mutate Redis and therefore take --dry-run / --yes. */
+const DESTRUCTIVE_COMMANDS: Subcommand["kind"][] = [
+  "queues-delete",
+  "queues-pause",
+  "queues-resume",
+  "queues-clean",
+  "jobs-retry",
+  "jobs-promote",
+  "jobs-remove",
+  "jobs-move",
+  "jobs-import",
+];
+
+/** Bulk job actions: share --job-id/--since/--name and the --page-size cap. */
+const BULK_JOB_COMMANDS: Subcommand["kind"][] = [
+  "jobs-retry",
+  "jobs-promote",
+  "jobs-remove",
+  "jobs-move",
+];
+
+/** "jobs-retry" → "jobs retry", as the user typed it. */
+function commandLabel(kind: Subcommand["kind"]): string {
+  return kind.replace("-", " ");
+}
+
+/**
+ * Exit with CONFIG_ERROR when a command-specific flag is used outside the
+ * commands that accept it.
+ */
+function assertFlagScope(
+  flag: string,
+  subcommand: Subcommand | undefined,
+  kinds: Subcommand["kind"][],
+  usage: string,
+): void {
+  if (subcommand && kinds.includes(subcommand.kind)) return;
+  const labels = kinds.map((kind) => `'${commandLabel(kind)}'`);
+  const allowed =
+    labels.length > 1 ? `${labels.slice(0, -1).join(", ")} or ${labels.at(-1)}` : labels[0];
+  writeError(`--${flag} can only be used with ${allowed}`, "CONFIG_ERROR", `Usage: ${usage}`);
+  process.exit(2);
+}
+
 export function parseNumericFlag(
   flagName: string,
   rawValue: string | undefined,
@@ -676,16 +2120,54 @@ export function parseCliArgs(): CliArgs {
         "web-host": { type: "string" },
         "web-port": { type: "string" },
         "web-read-only": { type: "boolean" },
+        "web-metrics-only": { type: "boolean" },
         // Command-specific flags
         "job-state": { type: "string" },
         "page-size": { type: "string" },
         "human-friendly": { type: "boolean" },
+        output: { type: "string" },
+        fields: { type: "string" },
         "sort-by": { type: "string" },
         "sort-order": { type: "string" },
         // jobs retry flags
         since: { type: "string" },
         name: { type: "string" },
+        where: { type: "string" },
+        "failure-group": { type: "string" },
         "job-id": { type: "string" },
+        // jobs export flags
+        "include-data": { type: "boolean" },
+        out: { type: "string" },
+        resume: { type: "string" },
+        // jobs import flags
+        file: { type: "string" },
+        "rename-queue": { type: "string" },
+        "preserve-ids": { type: "boolean" },
+        "new-ids": { type: "boolean" },
+        // jobs move flags
+        to: { type: "string" },
+        // jobs add flags
+        data: { type: "string" },
+        delay: { type: "string" },
+        priority: { type: "string" },
+        attempts: { type: "string" },
+        // queues clean flags
+        "older-than": { type: "string" },
+        limit: { type: "string" },
+        // jobs logs flags
+        offset: { type: "string" },
+        follow: { type: "boolean" },
+        // watch flags
+        duration: { type: "string" },
+        // queues history flags
+        window: { type: "string" },
+        // jobs list / schedulers list paging flags
+        cursor: { type: "string" },
+        all: { type: "boolean" },
+        // jobs search flags
+        page: { type: "string" },
+        "all-queues": { type: "boolean" },
+        observe: { type: "boolean" },
         "dry-run": { type: "boolean" },
         yes: { type: "boolean" },
         // Profiles / config file
@@ -699,8 +2181,15 @@ export function parseCliArgs(): CliArgs {
     const pollInterval = parseNumericFlag("poll-interval", values["poll-interval"]);
     const pageSize = parseNumericFlag("page-size", values["page-size"], { min: 1 });
     const webPort = parseNumericFlag("web-port", values["web-port"], { min: 1 });
-
-    const humanFriendly = values["human-friendly"] ?? false;
+    const limit = parseNumericFlag("limit", values.limit, { min: 1 });
+    const offset = parseNumericFlag("offset", values.offset, { min: 0 });
+    const page = parseNumericFlag("page", values.page, { min: 1 });
+    const priority = parseNumericFlag("priority", values.priority, { min: 0 });
+    const attempts = parseNumericFlag("attempts", values.attempts, { min: 1 });
+
+    const output = parseOutputFormat(values.output, values["human-friendly"] ?? false);
+    const humanFriendly = output === "table";
+    const fields = parseFieldList(values.fields);
     const since = values.since;
     const nameFilter = values.name;
     const dryRun = values["dry-run"] ?? false;
@@ -732,20 +2221,119 @@ export function parseCliArgs(): CliArgs {
       process.exit(2);
     }
 
+    if (values.where !== undefined) {
+      try {
+        compileWhere(values.where);
+      } catch (error) {
+        if (!(error instanceof WhereSyntaxError)) throw error;
+        writeError(
+          `Invalid --where expression: ${error.message}`,
+          "CONFIG_ERROR",
+          `Fields: ${WHERE_FIELDS.join(", ")}. Example: --where 'data.tenantId == 42 && attemptsMade > 2'`,
+        );
+        process.exit(2);
+      }
+    }
+
+    const failureGroup = values["failure-group"];
+    if (failureGroup !== undefined && !isFailureGroupId(failureGroup)) {
+      writeError(
+        `Invalid --failure-group value '${failureGroup}'`,
+        "CONFIG_ERROR",
+        "Pass a group id from 'jobs failures <queue>' (10 hex characters).",
+      );
+      process.exit(2);
+    }
+
+    const olderThan = values["older-than"];
+    if (olderThan !== undefined && parseDuration(olderThan) === null) {
+      writeError(
+        `Invalid --older-than value '${olderThan}'`,
+        "CONFIG_ERROR",
+        "Expected format: 30s, 5m, 1h, 24h, 7d. Must be a positive integer followed by s/m/h/d.",
+      );
+      process.exit(2);
+    }
+
+    const rawDelay = values.delay;
+    const delay = rawDelay === undefined ? undefined : parseDuration(rawDelay);
+    if (delay === null) {
+      writeError(
+        `Invalid --delay value '${rawDelay}'`,
+        "CONFIG_ERROR",
+        "Expected format: 30s, 5m, 1h, 24h, 7d. Must be a positive integer followed by s/m/h/d.",
+      );
+      process.exit(2);
+    }
+
+    const rawDuration = values.duration;
+    const duration = rawDuration === undefined ? undefined : parseDuration(rawDuration);
+    if (duration === null) {
+      writeError(
+        `Invalid --duration value '${rawDuration}'`,
+        "CONFIG_ERROR",
+        "Expected format: 30s, 5m, 1h, 24h, 7d. Must be a positive integer followed by s/m/h/d.",
+      );
+      process.exit(2);
+    }
+
+    const rawWindow = values.window;
+    const window = rawWindow === undefined ? undefined : parseDuration(rawWindow);
+    if (window === null) {
+      writeError(
+        `Invalid --window value '${rawWindow}'`,
+        "CONFIG_ERROR",
+        "Expected format: 30s, 5m, 1h, 24h, 7d. Must be a positive integer followed by s/m/h/d.",
+      );
+      process.exit(2);
+    }
+
+    if (values["preserve-ids"] && values["new-ids"]) {
+      writeError(
+        "--preserve-ids and --new-ids cannot be used together",
+        "CONFIG_ERROR",
+        "Usage: jobs import <queue> --file <jobs.ndjson> [--preserve-ids|--new-ids]",
+      );
+      process.exit(2);
+    }
+
     // Parse subcommand from positionals FIRST, then validate pageSize cap
-    const subcommand = parseSubcommand(
-      positionals,
-      !!values.help,
-      values["job-state"],
+    const subcommand = parseSubcommand(positionals, {
+      help: !!values.help,
+      jobState: values["job-state"],
       pageSize,
       since,
-      nameFilter,
-      values["job-id"],
+      name: nameFilter,
+      where: values.where,
+      failureGroup,
+      jobId: values["job-id"],
+      olderThan,
+      limit,
+      offset,
+      cursorToken: values.cursor,
+      all: values.all ?? false,
+      follow: values.follow ?? false,
+      page,
+      allQueues: values["all-queues"] ?? false,
+      observe: values.observe ?? false,
+      data: values.data,
+      includeData: values["include-data"] ?? false,
+      out: values.out,
+      resume: values.resume,
+      file: values.file,
+      renameQueue: values["rename-queue"],
+      ids: values["preserve-ids"] ? "preserve" : "new",
+      to: values.to,
+      delay,
+      priority,
+      attempts,
       dryRun,
-      yes ?? false,
-      values["sort-by"],
-      values["sort-order"],
-    );
+      yes,
+      sortBy: values["sort-by"],
+      sortOrder: values["sort-order"],
+      duration,
+      window,
+    });
 
     if (values["sort-by"] && (!subcommand || subcommand.kind !== "queues-list")) {
       writeError(
@@ -765,10 +2353,11 @@ export function parseCliArgs(): CliArgs {
       process.exit(2);
     }
 
-    // Safety rail against accidental multi-million-job retries. Only applies to
-    // jobs-retry — queues-delete doesn't accept --page-size (gated below).
+    // Safety rail against accidental multi-million-job bulk actions.
+    // queues-delete doesn't accept --page-size (gated below).
     if (
-      subcommand?.kind === "jobs-retry" &&
+      subcommand &&
+      [...BULK_JOB_COMMANDS, "jobs-failures", "queues-stats"].includes(subcommand.kind) &&
       pageSize !== undefined &&
       pageSize > MAX_RETRY_PAGE_SIZE
     ) {
@@ -781,58 +2370,198 @@ export function parseCliArgs(): CliArgs {
     }
 
     // Validate that command-specific flags are only used with the right commands
-    if (
-      values["job-state"] &&
-      (!subcommand || (subcommand.kind !== "jobs-list" && subcommand.kind !== "jobs-retry"))
-    ) {
-      writeError(
-        "--job-state can only be used with 'jobs list' or 'jobs retry'",
-        "CONFIG_ERROR",
-        "Usage: jobs list <queue> --job-state <state>  or  jobs retry <queue> --job-state failed",
+    if (values["job-state"]) {
+      assertFlagScope(
+        "job-state",
+        subcommand,
+        ["jobs-list", "jobs-search", "jobs-export", ...BULK_JOB_COMMANDS, "queues-clean"],
+        "jobs list <queue> --job-state <state>  or  jobs retry <queue> --job-state failed",
       );
-      process.exit(2);
     }
 
-    if (
-      values["page-size"] &&
-      (!subcommand ||
-        (subcommand.kind !== "jobs-list" &&
-          subcommand.kind !== "jobs-retry" &&
-          subcommand.kind !== "schedulers-list"))
-    ) {
-      writeError(
-        "--page-size can only be used with 'jobs list', 'jobs retry', or 'schedulers list'",
-        "CONFIG_ERROR",
-        "Usage: jobs list <queue> --page-size <n>",
+    if (olderThan) {
+      assertFlagScope(
+        "older-than",
+        subcommand,
+        ["queues-clean"],
+        "queues clean <queue> --job-state completed --older-than 7d",
       );
-      process.exit(2);
     }
 
-    if (values.since && (!subcommand || subcommand.kind !== "jobs-retry")) {
-      writeError(
-        "--since can only be used with 'jobs retry'",
-        "CONFIG_ERROR",
-        "Usage: jobs retry <queue> --job-state failed --since 1h",
+    if (values.limit) {
+      assertFlagScope(
+        "limit",
+        subcommand,
+        ["queues-clean", "jobs-logs"],
+        "queues clean <queue> --job-state completed --older-than 7d --limit 1000",
       );
-      process.exit(2);
     }
 
-    if (values.name && (!subcommand || subcommand.kind !== "jobs-retry")) {
-      writeError(
-        "--name can only be used with 'jobs retry'",
-        "CONFIG_ERROR",
-        "Usage: jobs retry <queue> --job-state failed --name <pattern>",
+    if (values.offset !== undefined) {
+      assertFlagScope(
+        "offset",
+        subcommand,
+        ["jobs-logs", "jobs-list", "schedulers-list"],
+        "jobs list <queue> --offset 1000  or  jobs logs <queue> <job-id> --offset 1000",
       );
-      process.exit(2);
     }
 
-    if (values["job-id"] && (!subcommand || subcommand.kind !== "jobs-retry")) {
-      writeError(
-        "--job-id can only be used with 'jobs retry'",
-        "CONFIG_ERROR",
-        "Usage: jobs retry <queue> --job-id <id> --dry-run",
+    if (values.follow !== undefined) {
+      assertFlagScope("follow", subcommand, ["jobs-logs"], "jobs logs <queue> <job-id> --follow");
+    }
+
+    if (values.duration !== undefined) {
+      assertFlagScope("duration", subcommand, ["watch"], "watch --duration 10m");
+    }
+
+    if (values.window !== undefined) {
+      assertFlagScope(
+        "window",
+        subcommand,
+        ["queues-history"],
+        "queues history <queue> --window 1h",
       );
-      process.exit(2);
+    }
+
+    for (const flag of ["cursor", "all"] as const) {
+      if (values[flag] !== undefined) {
+        assertFlagScope(
+          flag,
+          subcommand,
+          ["jobs-list", "schedulers-list"],
+          "jobs list <queue> --cursor <token>  or  jobs list <queue> --all",
+        );
+      }
+    }
+
+    for (const flag of ["page", "all-queues", "observe"] as const) {
+      if (values[flag] !== undefined) {
+        assertFlagScope(flag, subcommand, ["jobs-search"], "jobs search <queue> <query> --observe");
+      }
+    }
+
+    if (values["page-size"]) {
+      assertFlagScope(
+        "page-size",
+        subcommand,
+        [
+          "jobs-list",
+          "jobs-failures",
+          "jobs-search",
+          ...BULK_JOB_COMMANDS,
+          "schedulers-list",
+          "queues-stats",
+        ],
+        "jobs list <queue> --page-size <n>",
+      );
+    }
+
+    if (values.since) {
+      assertFlagScope(
+        "since",
+        subcommand,
+        BULK_JOB_COMMANDS,
+        "jobs retry <queue> --job-state failed --since 1h",
+      );
+    }
+
+    if (values.name) {
+      assertFlagScope(
+        "name",
+        subcommand,
+        [...BULK_JOB_COMMANDS, "jobs-add"],
+        "jobs retry <queue> --job-state failed --name <pattern>",
+      );
+    }
+
+    if (values.where !== undefined) {
+      assertFlagScope(
+        "where",
+        subcommand,
+        ["jobs-list", "jobs-retry"],
+        "jobs list <queue> --job-state failed --where 'data.tenantId == 42'",
+      );
+    }
+
+    if (values["failure-group"] !== undefined) {
+      assertFlagScope(
+        "failure-group",
+        subcommand,
+        ["jobs-retry", "jobs-remove"],
+        "jobs retry <queue> --job-state failed --failure-group <id> --dry-run",
+      );
+    }
+
+    if (values["job-id"]) {
+      assertFlagScope(
+        "job-id",
+        subcommand,
+        [...BULK_JOB_COMMANDS, "jobs-add"],
+        "jobs retry <queue> --job-id <id> --dry-run",
+      );
+    }
+
+    for (const flag of ["out", "resume"] as const) {
+      if (values[flag] !== undefined) {
+        assertFlagScope(
+          flag,
+          subcommand,
+          ["jobs-export"],
+          "jobs export <queue> --job-state failed --out failed.ndjson",
+        );
+      }
+    }
+
+    if (values["include-data"] !== undefined) {
+      assertFlagScope(
+        "include-data",
+        subcommand,
+        ["jobs-export", "jobs-list"],
+        "jobs list <queue> --include-data --fields id,data.userId",
+      );
+    }
+
+    if (fields) {
+      assertFlagScope(
+        "fields",
+        subcommand,
+        Object.keys(FIELD_TARGETS) as Subcommand["kind"][],
+        "jobs get <queue> <job-id> --fields id,state,data.userId",
+      );
+      if (output === "table") {
+        writeError(
+          "--fields cannot be used with --human-friendly or --output table",
+          "CONFIG_ERROR",
+          "Tables have fixed columns. Use --output json, ndjson, csv or yaml with --fields.",
+        );
+        process.exit(2);
+      }
+    }
+
+    for (const flag of ["file", "rename-queue", "preserve-ids", "new-ids"] as const) {
+      if (values[flag] !== undefined) {
+        assertFlagScope(
+          flag,
+          subcommand,
+          ["jobs-import"],
+          "jobs import <queue> --file jobs.ndjson --dry-run",
+        );
+      }
+    }
+
+    if (values.to !== undefined) {
+      assertFlagScope("to", subcommand, ["jobs-move"], "jobs move <queue> --to <target-queue>");
+    }
+
+    for (const flag of ["data", "delay", "priority", "attempts"] as const) {
+      if (values[flag] !== undefined) {
+        assertFlagScope(
+          flag,
+          subcommand,
+          ["jobs-add"],
+          "jobs add <queue> --name <name> --data @payload.json",
+        );
+      }
     }
 
     if (humanFriendly && !subcommand) {
@@ -844,6 +2573,15 @@ export function parseCliArgs(): CliArgs {
       process.exit(2);
     }
 
+    if (values.output !== undefined && !subcommand) {
+      writeError(
+        "--output can only be used with subcommands",
+        "CONFIG_ERROR",
+        "Usage: bullmq-dash <command> --output csv. Use --help for usage.",
+      );
+      process.exit(2);
+    }
+
     if (values.tui && subcommand) {
       writeError(
         "--tui cannot be used with subcommands",
@@ -871,9 +2609,15 @@ export function parseCliArgs(): CliArgs {
       process.exit(2);
     }
 
-    if ((values["web-host"] || values["web-port"] || values["web-read-only"]) && !values.web) {
+    if (
+      (values["web-host"] ||
+        values["web-port"] ||
+        values["web-read-only"] ||
+        values["web-metrics-only"]) &&
+      !values.web
+    ) {
       writeError(
-        "--web-host, --web-port, and --web-read-only require --web",
+        "--web-host, --web-port, --web-read-only, and --web-metrics-only require --web",
         "CONFIG_ERROR",
         "Usage: bullmq-dash --web --web-host 127.0.0.1 --web-port 3000 --web-read-only",
       );
@@ -890,35 +2634,29 @@ export function parseCliArgs(): CliArgs {
       process.exit(2);
     }
 
-    if (
-      dryRun &&
-      (!subcommand || (subcommand.kind !== "jobs-retry" && subcommand.kind !== "queues-delete"))
-    ) {
-      writeError(
-        "--dry-run can only be used with 'jobs retry' or 'queues delete'",
-        "CONFIG_ERROR",
-        "Usage: jobs retry <queue> --job-state failed --dry-run  or  queues delete <queue> --dry-run",
+    if (dryRun) {
+      assertFlagScope(
+        "dry-run",
+        subcommand,
+        DESTRUCTIVE_COMMANDS,
+        "jobs retry <queue> --job-state failed --dry-run  or  queues delete <queue> --dry-run",
       );
-      process.exit(2);
     }
 
-    if (
-      yes &&
-      (!subcommand || (subcommand.kind !== "queues-delete" && subcommand.kind !== "jobs-retry"))
-    ) {
-      writeError(
-        "--yes can only be used with 'queues delete' or 'jobs retry'",
-        "CONFIG_ERROR",
-        "Usage: queues delete <queue> --yes  or  jobs retry <queue> --job-state failed --yes",
+    if (yes) {
+      assertFlagScope(
+        "yes",
+        subcommand,
+        DESTRUCTIVE_COMMANDS,
+        "queues delete <queue> --yes  or  jobs retry <queue> --job-state failed --yes",
       );
-      process.exit(2);
     }
 
     if (dryRun && yes) {
       writeError(
         "--dry-run and --yes cannot be used together",
         "CONFIG_ERROR",
-        "Usage: queues delete <queue> [--dry-run|--yes] or jobs retry <queue> [--dry-run|--yes]",
+        "Usage: queues delete <queue> [--dry-run|--yes] or jobs retry|promote|remove|move <queue> [--dry-run|--yes]",
       );
       process.exit(2);
     }
@@ -944,8 +2682,11 @@ export function parseCliArgs(): CliArgs {
       webHost: values["web-host"],
       webPort,
       webReadOnly: values["web-read-only"],
+      webMetricsOnly: values["web-metrics-only"],
       subcommand,
       humanFriendly,
+      output,
+      fields,
       dryRun,
       yes,
       profile: values.profile,
@@ -1,5 +1,10 @@
 import { writeError } from "./errors.js";
-import { parseRedisUrl, type ParsedRedisUrl, type ResolvedProfile } from "./profiles.js";
+import {
+  parseRedisUrl,
+  type AlertRule,
+  type ParsedRedisUrl,
+  type ResolvedProfile,
+} from "./profiles.js";
 import type { CliArgs } from "./cli.js";
 
 /**
@@ -21,6 +26,8 @@ export interface Config {
   prefix: string;
   queueNames?: string[];
   cacheTtlMs: number;
+  /** Alert rules from the profile, already validated by profiles.ts. */
+  alerts?: AlertRule[];
 }
 
 function coercePositiveInt(value: unknown, fallback: number): number | null {
@@ -47,7 +54,14 @@ function coerceOptionalString(value: unknown): string | undefined | null {
   return typeof value === "string" ? value : null;
 }
 
-const CONFIG_ALLOWED_KEYS = ["redis", "pollInterval", "prefix", "queueNames", "cacheTtlMs"];
+const CONFIG_ALLOWED_KEYS = [
+  "redis",
+  "pollInterval",
+  "prefix",
+  "queueNames",
+  "cacheTtlMs",
+  "alerts",
+];
 const CONFIG_REDIS_ALLOWED_KEYS = ["host", "port", "username", "password", "db", "tls"];
 
 function validateConfig(raw: {
@@ -56,6 +70,7 @@ function validateConfig(raw: {
   prefix?: unknown;
   queueNames?: unknown;
   cacheTtlMs?: unknown;
+  alerts?: AlertRule[];
 }): { success: true; data: Config } | { success: false; errors: string[] } {
   const errors: string[] = [];
 
@@ -135,6 +150,7 @@ function validateConfig(raw: {
   if (password !== undefined && password !== null) config.redis.password = password;
   if (tls !== undefined) config.redis.tls = tls as boolean;
   if (queueNames !== undefined) config.queueNames = queueNames as string[];
+  if (raw.alerts !== undefined) config.alerts = raw.alerts;
 
   return { success: true, data: config };
 }
@@ -178,6 +194,7 @@ export function loadConfig(cliArgs: CliArgs, profile?: ResolvedProfile | null):
     prefix: cliArgs.prefix ?? p?.prefix,
     queueNames: cliArgs.queues ?? p?.queues,
     cacheTtlMs: p?.cacheTtlMs,
+    alerts: p?.alerts,
   };
 
   const result = validateConfig(raw);
@@ -1,6 +1,7 @@
 import { Database } from "bun:sqlite";
 import { RedisConnection, type Queue, type RedisClient } from "bullmq";
 import type { Config } from "./config.js";
+import { createMetricsState, type MetricsContextState } from "./data/metrics.js";
 import { closeAllQueues } from "./data/queues.js";
 import { createSqliteDb } from "./data/sqlite.js";
 import { redisConnectionOptions } from "./redis-options.js";
@@ -24,6 +25,8 @@ export interface Context {
   queueNamesCache: { names: string[]; timestamp: number } | null;
   /** Per-context queue-store lifecycle state. */
   readonly queueStore: QueueStoreContextState;
+  /** Enqueue/dequeue rate trackers, overall and per queue. */
+  readonly metrics: MetricsContextState;
 }
 
 export interface QueueStoreContextState {
@@ -63,6 +66,7 @@ export interface CreateContextOptions {
 function createRedisClient(config: Config): ContextRedisClient {
   let connection: RedisConnection | null = null;
   let clientPromise: Promise<FullRedisClient> | null = null;
+  let readyClient: FullRedisClient | null = null;
 
   const getClient = (): Promise<FullRedisClient> => {
     if (!clientPromise) {
@@ -82,18 +86,26 @@ function createRedisClient(config: Config): ContextRedisClient {
       connection.on("error", () => {
         // Callers observe connection failures through the returned promises.
       });
-      clientPromise = (connection.client as Promise<FullRedisClient>).catch((err) => {
-        clientPromise = null;
-        connection = null;
-        throw err;
-      });
+      clientPromise = (connection.client as Promise<FullRedisClient>).then(
+        (connected) => {
+          readyClient = connected;
+          return connected;
+        },
+        (err) => {
+          clientPromise = null;
+          connection = null;
+          throw err;
+        },
+      );
     }
     return clientPromise;
   };
 
   return {
     get status(): string {
-      return connection?.status ?? "wait";
+      // BullMQ's connection stays "ready" once its handshake is done; the
+      // ioredis client is what notices the socket dropping afterwards.
+      return readyClient?.status ?? connection?.status ?? "wait";
     },
     async connect(): Promise<void> {
       await getClient();
@@ -103,6 +115,7 @@ function createRedisClient(config: Config): ContextRedisClient {
       await connection.close();
       connection = null;
       clientPromise = null;
+      readyClient = null;
     },
     async scan(cursor: string, ...args: Array<string | number>): Promise<[string, string[]]> {
       const client = await getClient();
@@ -134,6 +147,7 @@ export function createContext(config: Config, opts: CreateContextOptions = {}):
     queueCache: new Map(),
     queueNamesCache: null,
     queueStore: { lastCleanupAt: null },
+    metrics: createMetricsState(),
   };
 }
 
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { unlinkSync } from "node:fs";
+import { createContext, type Context } from "../context.js";
+import type { Config } from "../config.js";
+import type { AlertRule } from "../profiles.js";
+import { checkAlerts, describeAlertRule, evaluateAlertRules } from "./alerts.js";
+import { recordObservedQueues } from "./queue-store.js";
+import type { QueueStats } from "./queues.js";
+
+const TEST_DB_PATH = `${import.meta.dirname}/test-alerts.db`;
+const MINUTE = 60_000;
+
+function stats(name: string, counts: Partial<QueueStats["counts"]>): QueueStats {
+  const full = Object.assign(
+    { wait: 0, active: 0, completed: 0, failed: 0, delayed: 0, schedulers: 0 },
+    counts,
+  );
+  return { name, counts: full, isPaused: false, total: full.wait + full.failed };
+}
+
+function noBaseline() {
+  return null;
+}
+
+describe("evaluateAlertRules", () => {
+  const rules: AlertRule[] = [
+    { queue: "payments", state: "failed", above: 100 },
+    { name: "backlog", state: "wait", growth: 5, window: "10m", minCount: 20 },
+  ];
+
+  it("fires threshold rules while the count is above the limit", () => {
+    const firing = evaluateAlertRules(
+      rules.slice(0, 1),
+      [stats("payments", { failed: 142 }), stats("email", { failed: 500 })],
+      noBaseline,
+    );
+    expect(firing).toHaveLength(1);
+    expect(firing[0]).toMatchObject({
+      rule: "failed > 100 in payments",
+      queue: "payments",
+      kind: "threshold",
+      count: 142,
+      threshold: 100,
+      message: "payments: failed is 142 (above 100)",
+    });
+
+    expect(
+      evaluateAlertRules(rules.slice(0, 1), [stats("payments", { failed: 100 })], noBaseline),
+    ).toEqual([]);
+  });
+
+  it("fires growth rules against the baseline for every queue", () => {
+    const counts = { wait: 10, active: 0, completed: 0, failed: 0, delayed: 0, schedulers: 0 };
+    const firing = evaluateAlertRules(
+      rules.slice(1),
+      [stats("email", { wait: 60 }), stats("reports", { wait: 40 })],
+      () => ({ observedAt: 1000, counts, isPaused: false }),
+    );
+    expect(firing.map((alert) => alert.queue)).toEqual(["email"]);
+    expect(firing[0]).toMatchObject({
+      rule: "backlog",
+      kind: "growth",
+      baseline: 10,
+      baselineAt: 1000,
+      growth: 6,
+      window: "10m",
+      message: "email: wait grew 6.0x in 10m (10 → 60)",
+    });
+  });
+
+  it("treats a zero baseline as 1 and respects minCount", () => {
+    const counts = { wait: 0, active: 0, completed: 0, failed: 0, delayed: 0, schedulers: 0 };
+    const baseline = () => ({ observedAt: 0, counts, isPaused: false });
+    expect(evaluateAlertRules(rules.slice(1), [stats("email", { wait: 19 })], baseline)).toEqual(
+      [],
+    );
+    expect(
+      evaluateAlertRules(rules.slice(1), [stats("email", { wait: 20 })], baseline),
+    ).toHaveLength(1);
+  });
+
+  it("stays quiet for growth rules without history", () => {
+    expect(evaluateAlertRules(rules.slice(1), [stats("email", { wait: 900 })], noBaseline)).toEqual(
+      [],
+    );
+  });
+
+  it("describes unnamed rules", () => {
+    expect(describeAlertRule({ state: "wait", growth: 5, window: "10m" })).toBe(
+      "wait grew 5x in 10m in any queue",
+    );
+  });
+});
+
+describe("checkAlerts", () => {
+  let ctx: Context;
+
+  beforeEach(() => {
+    const config: Config = {
+      redis: { host: "localhost", port: 6379, db: 0 },
+      pollInterval: 3000,
+      prefix: "bull",
+      cacheTtlMs: 24 * 60 * 60 * 1000,
+      alerts: [{ queue: "email", state: "wait", growth: 5, window: "10m" }],
+    };
+    ctx = createContext(config, { dbPath: TEST_DB_PATH });
+  });
+
+  afterEach(async () => {
+    ctx.db.close();
+    await ctx.redis.quit().catch(() => {});
+    for (const suffix of ["", "-wal", "-shm"]) {
+      try {
+        unlinkSync(`${TEST_DB_PATH}${suffix}`);
+      } catch {
+        // ignore
+      }
+    }
+  });
+
+  function observeAndCheck(queues: QueueStats[], observedAt: number) {
+    recordObservedQueues(ctx, queues, { observedAt });
+    return checkAlerts(ctx, queues, observedAt);
+  }
+
+  it("compares against queue samples recorded inside the window", () => {
+    const start = 1_000_000_000;
+    expect(observeAndCheck([stats("email", { wait: 10 })], start)).toEqual([]);
+    expect(observeAndCheck([stats("email", { wait: 30 })], start + 5 * MINUTE)).toEqual([]);
+
+    const firing = observeAndCheck([stats("email", { wait: 50 })], start + 9 * MINUTE);
+    expect(firing).toHaveLength(1);
+    expect(firing[0]).toMatchObject({ baseline: 10, baselineAt: start, count: 50 });
+
+    // The first sample has aged out of the window; 30 → 60 is only 2x.
+    expect(observeAndCheck([stats("email", { wait: 60 })], start + 12 * MINUTE)).toEqual([]);
+  });
+
+  it("does nothing without rules", () => {
+    const bare = Object.assign({}, ctx, { config: Object.assign({}, ctx.config, { alerts: [] }) });
+    expect(checkAlerts(bare, [stats("email", { wait: 10 })])).toEqual([]);
+  });
+});
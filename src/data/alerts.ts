@@ -0,0 +1,122 @@
+import type { Context } from "../context.js";
+import type { AlertRule, AlertState } from "../profiles.js";
+import { parseDuration } from "./duration.js";
+import type { QueueStats } from "./queues.js";
+import { queryQueueBaseline, type QueueSample } from "./sqlite.js";
+
+export interface FiringAlert {
+  /** The rule's name, or a description of it when unnamed. */
+  rule: string;
+  queue: string;
+  state: AlertState;
+  kind: "threshold" | "growth";
+  count: number;
+  /** Threshold rules: the `above` limit that was crossed. */
+  threshold: number | null;
+  /** Growth rules: the count the growth is measured from, and when it was seen. */
+  baseline: number | null;
+  baselineAt: number | null;
+  /** Growth rules: current count over the baseline. */
+  growth: number | null;
+  window: string | null;
+  message: string;
+}
+
+/** Looks up the oldest recorded count for a queue within the last `windowMs`. */
+export type BaselineLookup = (queue: string, windowMs: number) => QueueSample | null;
+
+export function describeAlertRule(rule: AlertRule): string {
+  if (rule.name) return rule.name;
+  const scope = rule.queue ?? "any queue";
+  return rule.growth !== undefined
+    ? `${rule.state} grew ${rule.growth}x in ${rule.window} in ${scope}`
+    : `${rule.state} > ${rule.above} in ${scope}`;
+}
+
+/**
+ * Evaluate rules against one observation of every queue. Threshold rules
+ * fire while the count is above the limit. Growth rules compare the count
+ * with the oldest sample inside their window; a baseline of 0 counts as 1,
+ * so going from 0 to 5 jobs is 5x growth.
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  queues: QueueStats[],
+  baselineFor: BaselineLookup,
+): FiringAlert[] {
+  const firing: FiringAlert[] = [];
+
+  for (const rule of rules) {
+    const targets = rule.queue ? queues.filter((queue) => queue.name === rule.queue) : queues;
+    for (const queue of targets) {
+      const count = queue.counts[rule.state];
+      const base = {
+        rule: describeAlertRule(rule),
+        queue: queue.name,
+        state: rule.state,
+        count,
+        threshold: null,
+        baseline: null,
+        baselineAt: null,
+        growth: null,
+        window: null,
+      };
+
+      if (rule.above !== undefined) {
+        if (count > rule.above) {
+          firing.push(
+            Object.assign(base, {
+              kind: "threshold" as const,
+              threshold: rule.above,
+              message: `${queue.name}: ${rule.state} is ${count} (above ${rule.above})`,
+            }),
+          );
+        }
+        continue;
+      }
+
+      const windowMs = parseDuration(rule.window ?? "") ?? 0;
+      const sample = baselineFor(queue.name, windowMs);
+      if (!sample || count < (rule.minCount ?? 1)) continue;
+      const baseline = sample.counts[rule.state];
+      const growth = count / Math.max(baseline, 1);
+      if (growth < rule.growth!) continue;
+      firing.push(
+        Object.assign(base, {
+          kind: "growth" as const,
+          baseline,
+          baselineAt: sample.observedAt,
+          growth: Number(growth.toFixed(2)),
+          window: rule.window ?? null,
+          message: `${queue.name}: ${rule.state} grew ${growth.toFixed(1)}x in ${rule.window} (${baseline} → ${count})`,
+        }),
+      );
+    }
+  }
+
+  return firing;
+}
+
+/**
+ * Evaluate the configured rules against `queues`. Growth baselines come from
+ * the queue samples that `recordObservedQueues` writes, so callers record the
+ * observation first; samples live in SQLite, so growth rules work across
+ * separate `alerts check` runs (e.g. from cron). Cache failures only cost
+ * growth rules their baseline.
+ */
+export function checkAlerts(
+  ctx: Context,
+  queues: QueueStats[],
+  observedAt: number = Date.now(),
+): FiringAlert[] {
+  const rules = ctx.config.alerts ?? [];
+  if (rules.length === 0) return [];
+
+  return evaluateAlertRules(rules, queues, (queue, windowMs) => {
+    try {
+      return queryQueueBaseline(ctx, queue, observedAt - windowMs);
+    } catch {
+      return null;
+    }
+  });
+}
@@ -0,0 +1,171 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+
+// Shape of the fake failed Job objects the mocked queue returns.
+interface FakeJob {
+  id: string;
+  name: string;
+  failedReason?: string;
+  stacktrace: string[];
+  timestamp: number;
+  finishedOn?: number;
+  retried: boolean;
+  retry: () => Promise<void>;
+}
+
+const mockState: { failed: FakeJob[] } = { failed: [] };
+
+mock.module("./queues.js", () => ({
+  getQueue: (_ctx: unknown, _name: string) => ({
+    getFailed: async (start: number, end: number) => mockState.failed.slice(start, end + 1),
+    getJobCounts: async () => ({ failed: mockState.failed.length }),
+  }),
+}));
+
+// Import AFTER mocks are registered.
+import { failureSignature, getFailureGroups, normalizeFailureText } from "./failures.js";
+import { retryFailedJobs } from "./jobs.js";
+import type { Context } from "../context.js";
+
+const ctx = {} as Context;
+
+function stack(message: string, file: string): string {
+  return [
+    `Error: ${message}`,
+    `    at sendMail (/srv/app/releases/${file}/src/mailer.ts:42:13)`,
+    "    at processJob (/srv/app/node_modules/bullmq/dist/cjs/classes/worker.js:350:28)",
+    "    at async Worker.run (node:internal/process/task_queues:95:5)",
+    "    at async main (/srv/app/src/index.ts:9:1)",
+  ].join("\n");
+}
+
+function makeJob(
+  id: string,
+  failedReason: string,
+  overrides: Partial<Pick<FakeJob, "name" | "stacktrace" | "finishedOn">> = {},
+): FakeJob {
+  const job: FakeJob = {
+    id,
+    name: overrides.name ?? "send",
+    failedReason,
+    stacktrace: overrides.stacktrace ?? [stack(failedReason, id)],
+    timestamp: 1000,
+    finishedOn: overrides.finishedOn,
+    retried: false,
+    retry: async () => {
+      job.retried = true;
+    },
+  };
+  return job;
+}
+
+beforeEach(() => {
+  mockState.failed = [];
+});
+
+// `mock.module` is process-global in Bun; restore so the `./queues.js` stub
+// doesn't leak into later test files.
+afterAll(() => {
+  mock.restore();
+});
+
+describe("normalizeFailureText", () => {
+  it("strips IDs, numbers and paths", () => {
+    expect(
+      normalizeFailureText(
+        "User 8f14e45f-ceea-467f-a0e2-4d9f1b2c3a4b not found in /var/data/users.json:12 after 3 tries (order 5f2b9c0e1a7d)",
+      ),
+    ).toBe("User <uuid> not found in users.json after <n> tries (order <id>)");
+  });
+});
+
+describe("failureSignature", () => {
+  it("matches failures that differ only in IDs, numbers and paths", () => {
+    const a = failureSignature({
+      failedReason: "Timeout after 3000ms for job 17",
+      stacktrace: [stack("Timeout", "v1")],
+    });
+    const b = failureSignature({
+      failedReason: "Timeout after 4500ms for job 902\nextra detail",
+      stacktrace: [stack("Timeout", "v2")],
+    });
+
+    expect(a.id).toBe(b.id);
+    expect(a.id).toMatch(/^[0-9a-f]{10}$/);
+    expect(a.reason).toBe("Timeout after <n>ms for job <n>");
+    expect(a.frames).toEqual([
+      "at sendMail (mailer.ts)",
+      "at processJob (worker.js)",
+      "at async Worker.run (node:task_queues)",
+    ]);
+  });
+
+  it("uses the latest attempt's stacktrace", () => {
+    const older = "Error: x\n    at first (/a.ts:1:1)";
+    const latest = "Error: x\n    at second (/b.ts:1:1)";
+
+    expect(failureSignature({ failedReason: "x", stacktrace: [older, latest] }).frames).toEqual([
+      "at second (b.ts)",
+    ]);
+  });
+
+  it("separates failures with different frames", () => {
+    const a = failureSignature({ failedReason: "boom", stacktrace: ["at a (/x.ts:1:1)"] });
+    const b = failureSignature({ failedReason: "boom", stacktrace: ["at b (/x.ts:1:1)"] });
+
+    expect(a.id).not.toBe(b.id);
+  });
+});
+
+describe("getFailureGroups", () => {
+  it("groups failures with counts, first/last seen, samples and names", async () => {
+    mockState.failed = [
+      makeJob("3", "Timeout after 3000ms", { finishedOn: 3000 }),
+      makeJob("2", "Invalid address bob@", { name: "welcome", finishedOn: 2500 }),
+      makeJob("1", "Timeout after 100ms", { name: "digest", finishedOn: 1000 }),
+      makeJob("0", "Timeout after 5ms", { finishedOn: 2000 }),
+    ];
+
+    const result = await getFailureGroups(ctx, "email");
+
+    expect(result).toMatchObject({ scanned: 4, totalFailed: 4, truncated: false });
+    expect(result.groups).toHaveLength(2);
+    expect(result.groups[0]).toMatchObject({
+      reason: "Timeout after <n>ms",
+      count: 3,
+      firstSeen: 1000,
+      lastSeen: 3000,
+      sampleJobIds: ["3", "1", "0"],
+      names: [
+        { name: "send", count: 2 },
+        { name: "digest", count: 1 },
+      ],
+      exampleReason: "Timeout after 3000ms",
+    });
+    expect(result.groups[1]).toMatchObject({ count: 1, sampleJobIds: ["2"] });
+  });
+
+  it("reports a truncated scan", async () => {
+    mockState.failed = [makeJob("1", "a"), makeJob("2", "b"), makeJob("3", "c")];
+
+    const result = await getFailureGroups(ctx, "email", { pageSize: 2 });
+
+    expect(result).toMatchObject({ scanned: 2, totalFailed: 3, truncated: true });
+  });
+});
+
+describe("retryFailedJobs with a failure group", () => {
+  it("retries only the jobs in that group", async () => {
+    mockState.failed = [
+      makeJob("1", "Timeout after 3000ms"),
+      makeJob("2", "Invalid address"),
+      makeJob("3", "Timeout after 10ms"),
+    ];
+    const { groups } = await getFailureGroups(ctx, "email");
+    const timeouts = groups.find((group) => group.count === 2)!;
+
+    const result = await retryFailedJobs(ctx, "email", { failureGroup: timeouts.id });
+
+    expect(result.retried).toBe(2);
+    expect(mockState.failed.filter((job) => job.retried).map((job) => job.id)).toEqual(["1", "3"]);
+  });
+});
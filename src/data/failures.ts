@@ -0,0 +1,170 @@
+import { createHash } from "node:crypto";
+import type { Job } from "bullmq";
+import type { Context } from "../context.js";
+import { getQueue } from "./queues.js";
+import { DEFAULT_RETRY_PAGE_SIZE, MAX_RETRY_PAGE_SIZE } from "./duration.js";
+
+/** Stack frames (from the top) that take part in a signature. */
+const SIGNATURE_FRAME_COUNT = 3;
+const SAMPLE_ID_COUNT = 5;
+
+/**
+ * What makes two failures "the same": the first line of failedReason plus the
+ * top frames of the latest stacktrace, with the parts that vary per job
+ * (IDs, numbers, paths) replaced by placeholders.
+ */
+export interface FailureSignature {
+  /** Short stable hash of reason + frames; what `--failure-group` takes. */
+  id: string;
+  reason: string;
+  frames: string[];
+}
+
+export interface FailureGroupName {
+  name: string;
+  count: number;
+}
+
+export interface FailureGroup extends FailureSignature {
+  count: number;
+  /** Earliest and latest failure time (finishedOn) among the scanned jobs. */
+  firstSeen: number;
+  lastSeen: number;
+  sampleJobIds: string[];
+  /** Job names in the group, most frequent first. */
+  names: FailureGroupName[];
+  /** The un-normalized first line of the most recent failure. */
+  exampleReason: string;
+}
+
+export interface FailureGroupsResult {
+  /** Failed jobs read and grouped (newest first, capped by pageSize). */
+  scanned: number;
+  totalFailed: number;
+  truncated: boolean;
+  /** Largest group first. */
+  groups: FailureGroup[];
+}
+
+const UUID_PATTERN = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+// Hex runs that contain a digit, so ordinary words like "deadbeef" in prose
+// are less likely to be swallowed than object IDs and hashes.
+const HEX_ID_PATTERN = /\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi;
+// Unix, Windows and file:// paths (at least one separator), with an optional
+// :line:column suffix. Only the basename survives.
+const PATH_PATTERN = /(?:file:\/\/)?(?:\b[A-Za-z]:)?(?:[\w.@~-]*[\\/])+([\w.@-]+)(?::\d+){0,2}/g;
+// Numbers that start a token, so "3000ms" normalizes but "v2" and "utf8" don't.
+const NUMBER_PATTERN = /(?<![\w.])\d+(?:\.\d+)?/g;
+
+/** Replace the per-job parts of an error line with placeholders. */
+export function normalizeFailureText(text: string): string {
+  return text
+    .replace(UUID_PATTERN, "<uuid>")
+    .replace(PATH_PATTERN, "$1")
+    .replace(HEX_ID_PATTERN, "<id>")
+    .replace(NUMBER_PATTERN, "<n>")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function firstLine(text: string | undefined): string {
+  return (text ?? "").trim().split("\n", 1)[0]!.trim();
+}
+
+/**
+ * Compute a job's failure signature. The stacktrace array holds one entry per
+ * failed attempt; the last entry is the most recent one.
+ */
+export function failureSignature(job: Pick<Job, "failedReason" | "stacktrace">): FailureSignature {
+  const reason = normalizeFailureText(firstLine(job.failedReason)) || "(no reason)";
+  const latestStack = job.stacktrace?.at(-1) ?? "";
+  const frames = latestStack
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith("at "))
+    .slice(0, SIGNATURE_FRAME_COUNT)
+    .map(normalizeFailureText);
+  const id = createHash("sha256")
+    .update([reason, ...frames].join("\n"))
+    .digest("hex")
+    .slice(0, 10);
+  return { id, reason, frames };
+}
+
+/** True for strings shaped like a FailureSignature id. */
+export function isFailureGroupId(value: string): boolean {
+  return /^[0-9a-f]{10}$/.test(value);
+}
+
+/** When a job failed; falls back to creation time if finishedOn isn't set. */
+function failedAt(job: Job): number {
+  return job.finishedOn ?? job.timestamp ?? 0;
+}
+
+/** Group failed jobs by signature, largest group first. */
+export function groupFailures(jobs: Job[]): FailureGroup[] {
+  const groups = new Map<string, FailureGroup & { nameCounts: Map<string, number> }>();
+
+  for (const job of jobs) {
+    const signature = failureSignature(job);
+    const at = failedAt(job);
+    let group = groups.get(signature.id);
+    if (!group) {
+      group = {
+        ...signature,
+        count: 0,
+        firstSeen: at,
+        lastSeen: at,
+        sampleJobIds: [],
+        names: [],
+        exampleReason: firstLine(job.failedReason),
+        nameCounts: new Map(),
+      };
+      groups.set(signature.id, group);
+    }
+
+    group.count += 1;
+    group.firstSeen = Math.min(group.firstSeen, at);
+    if (at > group.lastSeen) {
+      group.lastSeen = at;
+      group.exampleReason = firstLine(job.failedReason);
+    }
+    if (job.id && group.sampleJobIds.length < SAMPLE_ID_COUNT) group.sampleJobIds.push(job.id);
+    group.nameCounts.set(job.name, (group.nameCounts.get(job.name) ?? 0) + 1);
+  }
+
+  const result: FailureGroup[] = [];
+  for (const { nameCounts, ...group } of groups.values()) {
+    group.names = [...nameCounts]
+      .map(([name, count]) => ({ name, count }))
+      .toSorted((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+    result.push(group);
+  }
+  return result.toSorted((a, b) => b.count - a.count || b.lastSeen - a.lastSeen);
+}
+
+/**
+ * Read the newest failed jobs in a queue (up to `pageSize`) and group them by
+ * failure signature. Groups only describe the scanned window; `truncated`
+ * says whether older failures were left out.
+ */
+export async function getFailureGroups(
+  ctx: Context,
+  queueName: string,
+  options: { pageSize?: number } = {},
+): Promise<FailureGroupsResult> {
+  const pageSize = Math.min(options.pageSize ?? DEFAULT_RETRY_PAGE_SIZE, MAX_RETRY_PAGE_SIZE);
+  const queue = getQueue(ctx, queueName);
+  const [jobs, counts] = await Promise.all([
+    queue.getFailed(0, pageSize - 1),
+    queue.getJobCounts("failed"),
+  ]);
+  const totalFailed = counts.failed || 0;
+
+  return {
+    scanned: jobs.length,
+    totalFailed,
+    truncated: totalFailed > jobs.length,
+    groups: groupFailures(jobs),
+  };
+}
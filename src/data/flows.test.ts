@@ -0,0 +1,125 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+
+// Shape of the fake jobs the mocked queues return; children are job keys.
+interface FakeJob {
+  name: string;
+  state: string;
+  parentKey?: string;
+  children?: Partial<Record<"processed" | "unprocessed" | "failed" | "ignored", string[]>>;
+}
+
+const mockState: { jobs: Record<string, FakeJob> } = { jobs: {} };
+
+function toRecord(keys: string[] | undefined): Record<string, string> {
+  return Object.fromEntries((keys ?? []).map((key) => [key, "null"]));
+}
+
+mock.module("./queues.js", () => ({
+  getQueue: (_ctx: unknown, queueName: string) => ({
+    getJob: async (jobId: string) => {
+      const job = mockState.jobs[`bull:${queueName}:${jobId}`];
+      if (!job) return undefined;
+      const children = job.children ?? {};
+      return {
+        id: jobId,
+        name: job.name,
+        parentKey: job.parentKey,
+        getState: async () => job.state,
+        getDependenciesCount: async () => ({
+          processed: children.processed?.length ?? 0,
+          unprocessed: children.unprocessed?.length ?? 0,
+          failed: children.failed?.length ?? 0,
+          ignored: children.ignored?.length ?? 0,
+        }),
+        getDependencies: async () => ({
+          processed: toRecord(children.processed),
+          unprocessed: children.unprocessed ?? [],
+          failed: children.failed ?? [],
+          ignored: toRecord(children.ignored),
+        }),
+      };
+    },
+  }),
+}));
+
+// Import AFTER mocks are registered.
+import { flattenFlowTree, getFlowTree, parseJobKey } from "./flows.js";
+import type { Context } from "../context.js";
+
+const ctx = { config: { prefix: "bull" } } as Context;
+
+beforeEach(() => {
+  mockState.jobs = {
+    "bull:orders:1": {
+      name: "checkout",
+      state: "waiting-children",
+      children: {
+        processed: ["bull:payments:10"],
+        unprocessed: ["bull:shipping:20"],
+        failed: ["bull:emails:30"],
+      },
+    },
+    "bull:payments:10": {
+      name: "charge",
+      state: "completed",
+      parentKey: "bull:orders:1",
+    },
+    "bull:shipping:20": {
+      name: "ship",
+      state: "waiting-children",
+      parentKey: "bull:orders:1",
+      children: { unprocessed: ["bull:labels:40", "bull:labels:41"] },
+    },
+    "bull:labels:40": { name: "label", state: "active", parentKey: "bull:shipping:20" },
+    // bull:labels:41 was removed; bull:emails:30 too.
+  };
+});
+
+// `mock.module` is process-global in Bun; restore so the `./queues.js` stub
+// doesn't leak into later test files.
+afterAll(() => {
+  mock.restore();
+});
+
+describe("parseJobKey", () => {
+  it("splits a job key at the first separator after the prefix", () => {
+    expect(parseJobKey("bull", "bull:orders:repeat:abc")).toEqual({
+      queue: "orders",
+      id: "repeat:abc",
+    });
+    expect(parseJobKey("bull", "other:orders:1")).toBeNull();
+    expect(parseJobKey("bull", "bull:orders")).toBeNull();
+  });
+});
+
+describe("getFlowTree", () => {
+  it("walks up to the root and down through every child, across queues", async () => {
+    const result = await getFlowTree(ctx, "labels", "40");
+
+    expect(result).toMatchObject({ jobKey: "bull:labels:40", nodeCount: 6, truncated: false });
+    const rows = flattenFlowTree(result!.root).map(
+      ({ node, guide }) =>
+        `${guide}${node.queue}:${node.id} ${node.state} ${node.dependency ?? ""}`,
+    );
+    expect(rows).toEqual([
+      "orders:1 waiting-children ",
+      "├─ shipping:20 waiting-children unprocessed",
+      "│  ├─ labels:40 active unprocessed",
+      "│  └─ labels:41 missing unprocessed",
+      "├─ payments:10 completed processed",
+      "└─ emails:30 missing failed",
+    ]);
+  });
+
+  it("returns null when the job doesn't exist", async () => {
+    expect(await getFlowTree(ctx, "orders", "nope")).toBeNull();
+  });
+
+  it("stops at the node cap and counts what it skipped", async () => {
+    const result = await getFlowTree(ctx, "orders", "1", { maxNodes: 3 });
+
+    expect(result).toMatchObject({ nodeCount: 3, truncated: true });
+    expect(result!.root.children).toHaveLength(2);
+    expect(result!.root.omittedChildren).toBe(1);
+  });
+});
@@ -0,0 +1,218 @@
+import type { Job } from "bullmq";
+import type { Context } from "../context.js";
+import { getQueue } from "./queues.js";
+
+/** The sets a FlowProducer parent tracks its children in. */
+export const DEPENDENCY_STATES = ["unprocessed", "processed", "failed", "ignored"] as const;
+export type DependencyState = (typeof DEPENDENCY_STATES)[number];
+
+/** Child keys read per dependency state for one job. */
+export const DEPENDENCY_KEY_LIMIT = 100;
+/** Jobs loaded for one flow tree before the walk stops. */
+export const MAX_FLOW_NODES = 500;
+/** Parent hops followed when looking for the root of a flow. */
+const MAX_PARENT_DEPTH = 50;
+
+/**
+ * A parent's view of its children. Keys are fully qualified
+ * (`<prefix>:<queue>:<id>`); lists stop at DEPENDENCY_KEY_LIMIT, counts don't.
+ */
+export interface JobDependencies {
+  counts: Record<DependencyState, number>;
+  unprocessed: string[];
+  processed: string[];
+  failed: string[];
+  ignored: string[];
+}
+
+export interface FlowNode {
+  key: string;
+  queue: string;
+  id: string;
+  /** null when the job no longer exists (e.g. removed on completion). */
+  name: string | null;
+  /** BullMQ state; "missing" when the job is gone, "unknown" for keys outside the configured prefix. */
+  state: string;
+  /** Which of its parent's dependency sets this job is in; absent on the root. */
+  dependency?: DependencyState;
+  children: FlowNode[];
+  /** Children not loaded: beyond DEPENDENCY_KEY_LIMIT or the node cap. */
+  omittedChildren: number;
+}
+
+export interface FlowTreeResult {
+  /** Key of the job the tree was requested for; the root may be an ancestor. */
+  jobKey: string;
+  root: FlowNode;
+  nodeCount: number;
+  /** True when MAX_FLOW_NODES stopped the walk. */
+  truncated: boolean;
+}
+
+export function toJobKey(prefix: string, queue: string, id: string): string {
+  return `${prefix}:${queue}:${id}`;
+}
+
+/**
+ * Split a fully qualified job key into queue and ID. BullMQ rejects `:` in
+ * queue names and custom job IDs, so the first separator after the prefix
+ * is the boundary. Returns null for keys under another prefix.
+ */
+export function parseJobKey(prefix: string, key: string): { queue: string; id: string } | null {
+  if (!key.startsWith(`${prefix}:`)) return null;
+  const rest = key.slice(prefix.length + 1);
+  const separator = rest.indexOf(":");
+  if (separator <= 0 || separator === rest.length - 1) return null;
+  return { queue: rest.slice(0, separator), id: rest.slice(separator + 1) };
+}
+
+/**
+ * Read a job's flow children. Returns undefined for jobs without children,
+ * which is most jobs, so the common case costs one counting round trip.
+ */
+export async function getJobDependencies(job: Job): Promise<JobDependencies | undefined> {
+  const raw = await job.getDependenciesCount();
+  const counts = {
+    unprocessed: raw.unprocessed ?? 0,
+    processed: raw.processed ?? 0,
+    failed: raw.failed ?? 0,
+    ignored: raw.ignored ?? 0,
+  };
+  if (DEPENDENCY_STATES.every((state) => counts[state] === 0)) return undefined;
+
+  const page = { cursor: 0, count: DEPENDENCY_KEY_LIMIT };
+  const dependencies = await job.getDependencies({
+    unprocessed: page,
+    processed: page,
+    failed: page,
+    ignored: page,
+  });
+  // SCAN's count is only a hint, so cap the pages ourselves.
+  return {
+    counts,
+    unprocessed: (dependencies.unprocessed ?? []).slice(0, DEPENDENCY_KEY_LIMIT),
+    processed: Object.keys(dependencies.processed ?? {}).slice(0, DEPENDENCY_KEY_LIMIT),
+    failed: (dependencies.failed ?? []).slice(0, DEPENDENCY_KEY_LIMIT),
+    ignored: Object.keys(dependencies.ignored ?? {}).slice(0, DEPENDENCY_KEY_LIMIT),
+  };
+}
+
+/** Load one tree node and the child keys it still has to expand. */
+async function loadFlowNode(
+  ctx: Context,
+  key: string,
+  dependency: DependencyState | undefined,
+): Promise<{ node: FlowNode; dependencies?: JobDependencies }> {
+  const parsed = parseJobKey(ctx.config.prefix, key);
+  const base = { key, dependency, children: [], omittedChildren: 0 };
+  if (!parsed) {
+    return { node: { ...base, queue: "", id: key, name: null, state: "unknown" } };
+  }
+
+  const job = await getQueue(ctx, parsed.queue).getJob(parsed.id);
+  if (!job) {
+    return { node: { ...base, ...parsed, name: null, state: "missing" } };
+  }
+  const [state, dependencies] = await Promise.all([job.getState(), getJobDependencies(job)]);
+  return { node: { ...base, ...parsed, name: job.name, state }, dependencies };
+}
+
+/** Follow parentKey links from a job up to the root of its flow. */
+async function findFlowRoot(ctx: Context, job: Job, key: string): Promise<string> {
+  let rootKey = key;
+  let current = job;
+  const seen = new Set([key]);
+
+  for (let depth = 0; depth < MAX_PARENT_DEPTH && current.parentKey; depth++) {
+    const parentKey = current.parentKey;
+    const parent = parseJobKey(ctx.config.prefix, parentKey);
+    if (!parent || seen.has(parentKey)) break;
+    // Sequential by necessity: each hop needs the previous job's parentKey.
+    // eslint-disable-next-line no-await-in-loop
+    const parentJob = await getQueue(ctx, parent.queue).getJob(parent.id);
+    if (!parentJob) break;
+    seen.add(parentKey);
+    rootKey = parentKey;
+    current = parentJob;
+  }
+  return rootKey;
+}
+
+/**
+ * Load the whole flow a job belongs to: up to its root through parentKey,
+ * then down through every dependency set, across queues. The walk is
+ * breadth-first, one level per round of parallel reads, and stops after
+ * `maxNodes` jobs. Returns null when the job itself doesn't exist.
+ */
+export async function getFlowTree(
+  ctx: Context,
+  queueName: string,
+  jobId: string,
+  options: { maxNodes?: number } = {},
+): Promise<FlowTreeResult | null> {
+  const maxNodes = options.maxNodes ?? MAX_FLOW_NODES;
+  const job = await getQueue(ctx, queueName).getJob(jobId);
+  if (!job) return null;
+
+  const jobKey = toJobKey(ctx.config.prefix, queueName, jobId);
+  const rootKey = await findFlowRoot(ctx, job, jobKey);
+  const root = await loadFlowNode(ctx, rootKey, undefined);
+  const seen = new Set([rootKey]);
+  let nodeCount = 1;
+  let truncated = false;
+  let level = [root];
+
+  while (level.length > 0) {
+    const pending: Array<{ parent: FlowNode; key: string; dependency: DependencyState }> = [];
+    for (const { node, dependencies } of level) {
+      if (!dependencies) continue;
+      for (const state of DEPENDENCY_STATES) {
+        const keys = dependencies[state];
+        node.omittedChildren += dependencies.counts[state] - keys.length;
+        for (const key of keys) {
+          if (seen.has(key)) continue;
+          if (nodeCount >= maxNodes) {
+            truncated = true;
+            node.omittedChildren += 1;
+            continue;
+          }
+          seen.add(key);
+          nodeCount += 1;
+          pending.push({ parent: node, key, dependency: state });
+        }
+      }
+    }
+
+    // Sequential by design: each level's keys come from the previous level.
+    // eslint-disable-next-line no-await-in-loop
+    level = await Promise.all(
+      pending.map(({ key, dependency }) => loadFlowNode(ctx, key, dependency)),
+    );
+    // Attach in request order so children list by state, not by load time.
+    level.forEach(({ node }, index) => pending[index]!.parent.children.push(node));
+  }
+
+  return { jobKey, root: root.node, nodeCount, truncated };
+}
+
+/** One line of a flattened flow tree, with box-drawing guides for its depth. */
+export interface FlowTreeRow {
+  node: FlowNode;
+  depth: number;
+  /** e.g. "│  ├─ "; empty for the root. */
+  guide: string;
+}
+
+/** Flatten a flow tree in display order (parents before their children). */
+export function flattenFlowTree(root: FlowNode): FlowTreeRow[] {
+  const rows: FlowTreeRow[] = [];
+  const visit = (node: FlowNode, depth: number, indent: string, isLast: boolean): void => {
+    rows.push({ node, depth, guide: depth === 0 ? "" : `${indent}${isLast ? "└─ " : "├─ "}` });
+    const childIndent = depth === 0 ? "" : `${indent}${isLast ? "   " : "│  "}`;
+    node.children.forEach((child, index) => {
+      visit(child, depth + 1, childIndent, index === node.children.length - 1);
+    });
+  };
+  visit(root, 0, "", true);
+  return rows;
+}
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { unlinkSync } from "node:fs";
+import { createContext, type Context } from "../context.js";
+import type { Config } from "../config.js";
+import {
+  bucketSamples,
+  formatSparkline,
+  getQueueHistory,
+  getQueueTrends,
+  TREND_POINTS,
+} from "./history.js";
+import { downsampleQueueHistory, expireStaleRecords, recordObservedQueues } from "./queue-store.js";
+import type { QueueStats } from "./queues.js";
+import type { QueueSample } from "./sqlite.js";
+
+const TEST_DB_PATH = `${import.meta.dirname}/test-history.db`;
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const NOW = 1_000 * HOUR;
+
+function stats(name: string, wait: number, failed = 0): QueueStats {
+  return {
+    name,
+    counts: { wait, active: 0, completed: 0, failed, delayed: 0, schedulers: 0 },
+    isPaused: false,
+    total: wait + failed,
+  };
+}
+
+function sample(observedAt: number, wait: number): QueueSample {
+  return { observedAt, counts: stats("q", wait).counts, isPaused: false };
+}
+
+describe("formatSparkline", () => {
+  it("scales between the smallest and largest value", () => {
+    expect(formatSparkline([0, 7, 14])).toBe("▁▅█");
+    expect(formatSparkline([3, 3])).toBe("▁▁");
+    expect(formatSparkline([])).toBe("");
+  });
+});
+
+describe("bucketSamples", () => {
+  it("keeps the newest sample per slot and carries values across gaps", () => {
+    const samples = [sample(10, 1), sample(20, 2), sample(65, 6)];
+    expect(bucketSamples(samples, 0, 100, 4).map((s) => s.counts.wait)).toEqual([2, 2, 6, 6]);
+  });
+
+  it("drops slots before the first sample", () => {
+    expect(bucketSamples([sample(80, 8)], 0, 100, 4).map((s) => s.counts.wait)).toEqual([8]);
+  });
+});
+
+describe("queue history in SQLite", () => {
+  let ctx: Context;
+
+  beforeEach(() => {
+    const config: Config = {
+      redis: { host: "localhost", port: 6379, db: 0 },
+      pollInterval: 3000,
+      prefix: "bull",
+      cacheTtlMs: 24 * HOUR,
+    };
+    ctx = createContext(config, { dbPath: TEST_DB_PATH });
+  });
+
+  afterEach(async () => {
+    ctx.db.close();
+    await ctx.redis.quit().catch(() => {});
+    for (const suffix of ["", "-wal", "-shm"]) {
+      try {
+        unlinkSync(`${TEST_DB_PATH}${suffix}`);
+      } catch {
+        // ignore
+      }
+    }
+  });
+
+  function observeEvery(stepMs: number, from: number, to: number): void {
+    for (let at = from, wait = 0; at <= to; at += stepMs, wait += 1) {
+      recordObservedQueues(ctx, [stats("email", wait), stats("reports", 1)], { observedAt: at });
+    }
+  }
+
+  it("records one sample per queue per observation", () => {
+    observeEvery(MINUTE, NOW - 10 * MINUTE, NOW);
+
+    const history = getQueueHistory(ctx, "email", 5 * MINUTE, NOW);
+    expect(history.from).toBe(NOW - 5 * MINUTE);
+    expect(history.samples.map((s) => s.counts.wait)).toEqual([5, 6, 7, 8, 9, 10]);
+    expect(getQueueHistory(ctx, "missing", HOUR, NOW).samples).toEqual([]);
+  });
+
+  it("thins samples older than an hour to one per minute and expires them with the TTL", () => {
+    // Every 15s for the last two hours, plus one sample past the TTL.
+    observeEvery(15_000, NOW - 2 * HOUR, NOW);
+    recordObservedQueues(ctx, [stats("email", 1)], { observedAt: NOW - 25 * HOUR });
+
+    expect(downsampleQueueHistory(ctx, { now: NOW })).toBeGreaterThan(0);
+    const older = getQueueHistory(ctx, "email", 2 * HOUR, NOW).samples.filter(
+      (s) => s.observedAt < NOW - HOUR,
+    );
+    expect(older).toHaveLength(60);
+    expect(new Set(older.map((s) => Math.floor(s.observedAt / MINUTE))).size).toBe(60);
+    // The last hour keeps full resolution.
+    expect(getQueueHistory(ctx, "email", HOUR, NOW).samples).toHaveLength(241);
+
+    expect(expireStaleRecords(ctx, { now: NOW }).samplesDeleted).toBe(1);
+  });
+
+  it("builds waiting/failed sparkline series per queue", () => {
+    observeEvery(MINUTE, NOW - 2 * HOUR, NOW);
+
+    const trends = getQueueTrends(ctx, ["email", "reports", "missing"], NOW);
+    expect(trends.get("email")!.wait).toHaveLength(TREND_POINTS);
+    expect(trends.get("email")!.wait.at(-1)).toBe(120);
+    expect(trends.get("reports")!.failed).toEqual(Array.from({ length: TREND_POINTS }, () => 0));
+    expect(trends.get("missing")).toEqual({ wait: [], failed: [] });
+  });
+});
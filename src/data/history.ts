@@ -0,0 +1,116 @@
+import type { Context } from "../context.js";
+import { listQueueSamples } from "./queue-store.js";
+import type { QueueSample } from "./sqlite.js";
+
+/** Points in the TUI and web sparklines. */
+export const TREND_POINTS = 20;
+
+/** `queues history` without --window, and the span of the TUI and web sparklines. */
+export const DEFAULT_HISTORY_WINDOW_MS = 60 * 60_000;
+
+export interface QueueHistoryResult {
+  queue: string;
+  /** Window length in ms, and the range it covered. */
+  windowMs: number;
+  from: number;
+  to: number;
+  /** Oldest first. */
+  samples: QueueSample[];
+}
+
+/** Waiting and failed counts over a window, for sparklines. */
+export interface QueueTrend {
+  wait: number[];
+  failed: number[];
+}
+
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+
+/**
+ * Render values as a block sparkline scaled between their min and max.
+ * A flat series draws as a baseline; no values draw as nothing.
+ */
+export function formatSparkline(values: number[]): string {
+  if (values.length === 0) return "";
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min;
+  return values
+    .map((value) =>
+      range === 0
+        ? SPARK_CHARS[0]
+        : SPARK_CHARS[Math.round(((value - min) / range) * (SPARK_CHARS.length - 1))],
+    )
+    .join("");
+}
+
+/**
+ * Spread samples over `points` equal slots between `from` and `to`, taking
+ * the newest sample in each slot. Empty slots repeat the previous value;
+ * slots before the first sample are dropped, so a queue first seen ten
+ * minutes ago gets a shorter line rather than a run of made-up zeros.
+ */
+export function bucketSamples(
+  samples: QueueSample[],
+  from: number,
+  to: number,
+  points: number,
+): QueueSample[] {
+  const slotMs = Math.max(1, (to - from) / points);
+  const slots: Array<QueueSample | undefined> = Array.from({ length: points });
+  for (const sample of samples) {
+    const index = Math.min(points - 1, Math.floor((sample.observedAt - from) / slotMs));
+    if (index >= 0) slots[index] = sample;
+  }
+
+  const result: QueueSample[] = [];
+  let previous: QueueSample | undefined;
+  for (const slot of slots) {
+    previous = slot ?? previous;
+    if (previous) result.push(previous);
+  }
+  return result;
+}
+
+/** Every recorded sample for `queue` within the last `windowMs`. */
+export function getQueueHistory(
+  ctx: Context,
+  queue: string,
+  windowMs: number,
+  now: number = Date.now(),
+): QueueHistoryResult {
+  const from = now - windowMs;
+  return {
+    queue,
+    windowMs,
+    from,
+    to: now,
+    samples: listQueueSamples(ctx, queue, from),
+  };
+}
+
+/**
+ * Sparkline series for each queue over the last hour. Best-effort like the
+ * rest of the cache: a queue without history (or an unreadable cache) gets
+ * empty series.
+ */
+export function getQueueTrends(
+  ctx: Context,
+  queues: string[],
+  now: number = Date.now(),
+): Map<string, QueueTrend> {
+  const from = now - DEFAULT_HISTORY_WINDOW_MS;
+  const trends = new Map<string, QueueTrend>();
+  for (const queue of queues) {
+    let samples: QueueSample[] = [];
+    try {
+      samples = bucketSamples(listQueueSamples(ctx, queue, from), from, now, TREND_POINTS);
+    } catch {
+      // Sparklines are decoration; render the queue without one.
+    }
+    trends.set(queue, {
+      wait: samples.map((sample) => sample.counts.wait),
+      failed: samples.map((sample) => sample.counts.failed),
+    });
+  }
+  return trends;
+}
@@ -0,0 +1,213 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+
+interface FakeJob {
+  id: string;
+  name: string;
+  data: unknown;
+  opts: Record<string, unknown>;
+  timestamp: number;
+  attemptsMade: number;
+}
+
+interface MockState {
+  /** Job IDs per BullMQ type, oldest first. */
+  sets: Record<string, string[]>;
+  jobs: Map<string, FakeJob>;
+  rangeCalls: number;
+}
+
+const mockState: MockState = {
+  sets: {},
+  jobs: new Map(),
+  rangeCalls: 0,
+};
+
+mock.module("./queues.js", () => ({
+  getQueue: (_ctx: unknown, _name: string) => ({
+    getRanges: async (types: string[], start: number, end: number, _asc: boolean) => {
+      mockState.rangeCalls += 1;
+      return (mockState.sets[types[0]!] ?? []).slice(start, end + 1);
+    },
+    getJob: async (id: string) => mockState.jobs.get(id),
+  }),
+}));
+
+// Import AFTER mocks are registered.
+import {
+  decodeResumeToken,
+  encodeResumeToken,
+  exportJobs,
+  initialExportCursor,
+  type ExportCursor,
+  type ExportOptions,
+} from "./job-export.js";
+import type { Context } from "../context.js";
+
+const ctx = {} as Context;
+
+function seed(type: string, ids: string[]): void {
+  mockState.sets[type] = ids;
+  for (const id of ids) {
+    mockState.jobs.set(id, {
+      id,
+      name: `job-${id}`,
+      data: { id },
+      opts: { attempts: 1 },
+      timestamp: Number(id),
+      attemptsMade: 0,
+    });
+  }
+}
+
+async function collect(options: ExportOptions, stopAfter?: number) {
+  const jobs: { id: string; state: string; data?: unknown }[] = [];
+  let cursor: ExportCursor | undefined;
+  for await (const item of exportJobs(ctx, "email", options)) {
+    jobs.push(item.job);
+    cursor = item.cursor;
+    if (stopAfter !== undefined && jobs.length >= stopAfter) break;
+  }
+  return { jobs, cursor };
+}
+
+beforeEach(() => {
+  mockState.sets = {};
+  mockState.jobs = new Map();
+  mockState.rangeCalls = 0;
+});
+
+// `mock.module` is process-global in Bun; restore so the `./queues.js` stub
+// doesn't leak into later test files.
+afterAll(() => {
+  mock.restore();
+});
+
+describe("exportJobs", () => {
+  it("pages through one state in batches and omits payloads by default", async () => {
+    seed("failed", ["1", "2", "3", "4", "5"]);
+
+    const { jobs, cursor } = await collect({
+      jobState: "failed",
+      includeData: false,
+      batchSize: 2,
+    });
+
+    expect(jobs.map((job) => job.id)).toEqual(["1", "2", "3", "4", "5"]);
+    expect(jobs[0]).toMatchObject({
+      id: "1",
+      name: "job-1",
+      state: "failed",
+      opts: { attempts: 1 },
+    });
+    expect(jobs[0]).not.toHaveProperty("data");
+    expect(mockState.rangeCalls).toBe(3);
+    expect(cursor).toMatchObject({ type: "failed", offset: 5, lastId: "5", exported: 5 });
+  });
+
+  it("includes payloads with includeData", async () => {
+    seed("failed", ["1"]);
+
+    const { jobs } = await collect({ jobState: "failed", includeData: true });
+
+    expect(jobs[0]!.data).toEqual({ id: "1" });
+  });
+
+  it("covers prioritized jobs for the wait state and every set without a state", async () => {
+    seed("waiting", ["1"]);
+    seed("prioritized", ["2"]);
+    seed("failed", ["3"]);
+
+    const wait = await collect({ jobState: "wait", includeData: false });
+    const all = await collect({ includeData: false });
+
+    expect(wait.jobs.map((job) => [job.id, job.state])).toEqual([
+      ["1", "waiting"],
+      ["2", "prioritized"],
+    ]);
+    expect(all.jobs.map((job) => job.id)).toEqual(["1", "2", "3"]);
+  });
+
+  it("skips IDs whose job hash disappeared mid-export", async () => {
+    seed("failed", ["1", "2", "3"]);
+    mockState.jobs.delete("2");
+
+    const { jobs, cursor } = await collect({ jobState: "failed", includeData: false });
+
+    expect(jobs.map((job) => job.id)).toEqual(["1", "3"]);
+    expect(cursor).toMatchObject({ offset: 3, exported: 2 });
+  });
+
+  it("resumes right after the last exported job", async () => {
+    seed("failed", ["1", "2", "3", "4"]);
+    const first = await collect({ jobState: "failed", includeData: false, batchSize: 2 }, 3);
+
+    const rest = await collect({ includeData: false, resume: first.cursor, batchSize: 2 });
+
+    expect(rest.jobs.map((job) => job.id)).toEqual(["4"]);
+    expect(rest.cursor!.exported).toBe(4);
+  });
+
+  it("re-anchors on the last exported job when earlier jobs were removed", async () => {
+    seed("failed", ["1", "2", "3", "4", "5"]);
+    const first = await collect({ jobState: "failed", includeData: false }, 3);
+    mockState.sets.failed = ["2", "3", "4", "5"];
+
+    const rest = await collect({ includeData: false, resume: first.cursor });
+
+    expect(rest.jobs.map((job) => job.id)).toEqual(["4", "5"]);
+  });
+
+  it("resumes with the filters the export started with", async () => {
+    seed("failed", ["1", "2"]);
+    seed("completed", ["3"]);
+    const first = await collect({ jobState: "failed", includeData: true }, 1);
+
+    const rest = await collect({ includeData: false, resume: first.cursor });
+
+    expect(rest.jobs.map((job) => [job.id, job.data])).toEqual([["2", { id: "2" }]]);
+  });
+});
+
+describe("resume tokens", () => {
+  it("round-trips a cursor", () => {
+    const cursor: ExportCursor = {
+      ...initialExportCursor("email", "wait", true),
+      type: "prioritized",
+      offset: 12,
+      lastId: "42",
+      exported: 30,
+    };
+
+    expect(decodeResumeToken(encodeResumeToken(cursor))).toEqual(cursor);
+  });
+
+  it("starts an unfiltered export at the first set", () => {
+    expect(initialExportCursor("email", undefined, false)).toEqual({
+      queue: "email",
+      jobState: null,
+      includeData: false,
+      type: "active",
+      offset: 0,
+      lastId: null,
+      exported: 0,
+    });
+  });
+
+  it("rejects garbage and tokens whose set doesn't match the state", () => {
+    const mismatched = Buffer.from(
+      JSON.stringify({
+        v: 1,
+        queue: "email",
+        jobState: "failed",
+        includeData: false,
+        type: "completed",
+        offset: 0,
+        lastId: null,
+        exported: 0,
+      }),
+    ).toString("base64url");
+
+    expect(decodeResumeToken("not-a-token")).toBeNull();
+    expect(decodeResumeToken(mismatched)).toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+import type { JobType, Queue } from "bullmq";
+import type { Context } from "../context.js";
+import { getQueue } from "./queues.js";
+import { toJobDetail, type JobDetail, type JsonJobStatus } from "./jobs.js";
+
+const EXPORT_BATCH_SIZE = 500;
+const RESUME_TOKEN_VERSION = 1;
+
+/**
+ * BullMQ sets read for each --job-state value. `wait` covers prioritized jobs
+ * too, matching `jobs list`. Each set is read oldest-first so jobs that arrive
+ * during an export land after the cursor instead of shifting it.
+ */
+const EXPORT_TYPES: Record<JsonJobStatus, JobType[]> = {
+  wait: ["waiting", "prioritized"],
+  active: ["active"],
+  completed: ["completed"],
+  failed: ["failed"],
+  delayed: ["delayed"],
+};
+const ALL_EXPORT_TYPES: JobType[] = [
+  "active",
+  "waiting",
+  "prioritized",
+  "delayed",
+  "completed",
+  "failed",
+];
+
+/** Position of an export: the set being read and how far into it we got. */
+export interface ExportCursor {
+  queue: string;
+  jobState: JsonJobStatus | null;
+  includeData: boolean;
+  type: JobType;
+  offset: number;
+  /** Last job ID read at `offset - 1`, used to re-anchor if the set shifted. */
+  lastId: string | null;
+  exported: number;
+}
+
+export type ExportedJob = Omit<JobDetail, "data"> & { data?: unknown };
+
+export interface ExportOptions {
+  jobState?: JsonJobStatus;
+  includeData: boolean;
+  resume?: ExportCursor;
+  batchSize?: number;
+}
+
+function exportTypes(jobState: JsonJobStatus | null | undefined): JobType[] {
+  return jobState ? EXPORT_TYPES[jobState] : ALL_EXPORT_TYPES;
+}
+
+/** Cursor for an export that hasn't read anything yet. */
+export function initialExportCursor(
+  queue: string,
+  jobState: JsonJobStatus | undefined,
+  includeData: boolean,
+): ExportCursor {
+  return {
+    queue,
+    jobState: jobState ?? null,
+    includeData,
+    type: exportTypes(jobState)[0]!,
+    offset: 0,
+    lastId: null,
+    exported: 0,
+  };
+}
+
+export function encodeResumeToken(cursor: ExportCursor): string {
+  return Buffer.from(JSON.stringify({ v: RESUME_TOKEN_VERSION, ...cursor })).toString("base64url");
+}
+
+/** Decode a resume token. Returns null if it is malformed or from another version. */
+export function decodeResumeToken(token: string): ExportCursor | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(Buffer.from(token, "base64url").toString("utf-8"));
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== "object") return null;
+
+  const value = raw as Record<string, unknown>;
+  const jobState = value.jobState as JsonJobStatus | null;
+  if (
+    value.v !== RESUME_TOKEN_VERSION ||
+    typeof value.queue !== "string" ||
+    (jobState !== null && !Object.hasOwn(EXPORT_TYPES, jobState)) ||
+    typeof value.includeData !== "boolean" ||
+    !exportTypes(jobState).includes(value.type as JobType) ||
+    !Number.isInteger(value.offset) ||
+    (value.offset as number) < 0 ||
+    (value.lastId !== null && typeof value.lastId !== "string") ||
+    !Number.isInteger(value.exported)
+  ) {
+    return null;
+  }
+
+  return {
+    queue: value.queue,
+    jobState,
+    includeData: value.includeData,
+    type: value.type as JobType,
+    offset: value.offset as number,
+    lastId: value.lastId as string | null,
+    exported: value.exported as number,
+  };
+}
+
+/**
+ * Find where to continue reading `type` after an interruption. If jobs before
+ * the cursor were removed or consumed in the meantime, the last exported job
+ * has moved; look it up by ID so the export neither skips nor repeats jobs.
+ * When that job is gone too, the recorded offset is the best remaining guess.
+ */
+async function resumeOffset(queue: Queue, cursor: ExportCursor, batchSize: number) {
+  if (cursor.lastId === null || cursor.offset === 0) return cursor.offset;
+
+  const [idAtCursor] = await queue.getRanges(
+    [cursor.type],
+    cursor.offset - 1,
+    cursor.offset - 1,
+    true,
+  );
+  if (idAtCursor === cursor.lastId) return cursor.offset;
+
+  for (let start = 0; ; start += batchSize) {
+    // eslint-disable-next-line no-await-in-loop
+    const ids = await queue.getRanges([cursor.type], start, start + batchSize - 1, true);
+    const index = ids.indexOf(cursor.lastId);
+    if (index !== -1) return start + index + 1;
+    if (ids.length < batchSize) return cursor.offset;
+  }
+}
+
+/**
+ * Stream every job in the selected states, oldest first, one batch of Redis
+ * reads at a time. Each yielded job carries the cursor to resume right after
+ * it, so callers can stop at any point and hand out a resume token.
+ */
+export async function* exportJobs(
+  ctx: Context,
+  queueName: string,
+  options: ExportOptions,
+): AsyncGenerator<{ job: ExportedJob; cursor: ExportCursor }> {
+  const queue = getQueue(ctx, queueName);
+  const batchSize = options.batchSize ?? EXPORT_BATCH_SIZE;
+  const resume = options.resume;
+  const jobState = resume ? resume.jobState : (options.jobState ?? null);
+  const includeData = resume ? resume.includeData : options.includeData;
+  const types = exportTypes(jobState);
+
+  let exported = resume?.exported ?? 0;
+  const firstType = resume ? types.indexOf(resume.type) : 0;
+
+  for (const type of types.slice(Math.max(firstType, 0))) {
+    const resuming = resume !== undefined && type === resume.type;
+    // Sequential by design: batches are streamed in order, and the consumer
+    // controls the pace through the generator.
+    // eslint-disable-next-line no-await-in-loop
+    let offset = resuming ? await resumeOffset(queue, resume, batchSize) : 0;
+
+    for (;;) {
+      // eslint-disable-next-line no-await-in-loop
+      const ids = await queue.getRanges([type], offset, offset + batchSize - 1, true);
+      if (ids.length === 0) break;
+
+      // eslint-disable-next-line no-await-in-loop
+      const jobs = await Promise.all(ids.map((id) => queue.getJob(id)));
+      for (const [index, job] of jobs.entries()) {
+        offset += 1;
+        const lastId = ids[index]!;
+        // The job was removed between reading its ID and loading its hash.
+        if (!job) continue;
+
+        exported += 1;
+        const { data, ...detail } = toJobDetail(job, type);
+        yield {
+          job: includeData ? { ...detail, data } : detail,
+          cursor: { queue: queueName, jobState, includeData, type, offset, lastId, exported },
+        };
+      }
+
+      if (ids.length < batchSize) break;
+    }
+  }
+}
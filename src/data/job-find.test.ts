@@ -0,0 +1,190 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import type { Config } from "../config.js";
+
+interface FakeJob {
+  id: string;
+  name: string;
+  timestamp: number;
+  state: string;
+}
+
+const mockState: {
+  queues: Record<string, FakeJob[]>;
+  getJobCalls: string[];
+  probeError: Error | null;
+} = {
+  queues: {},
+  getJobCalls: [],
+  probeError: null,
+};
+
+mock.module("./queues.js", () => ({
+  discoverQueueNames: async () => Object.keys(mockState.queues),
+  getQueue: (_ctx: unknown, queueName: string) => ({
+    getJob: async (jobId: string) => {
+      mockState.getJobCalls.push(queueName);
+      if (mockState.probeError) throw mockState.probeError;
+      const job = mockState.queues[queueName]?.find((candidate) => candidate.id === jobId);
+      return job ? { ...job, getState: async () => job.state } : undefined;
+    },
+  }),
+}));
+
+// Import AFTER mocks are registered.
+import { findJob } from "./job-find.js";
+import { createSqliteDb } from "./sqlite.js";
+import { recordObservedJobs, recordObservedQueues } from "./queue-store.js";
+import type { Context } from "../context.js";
+
+const config: Config = {
+  redis: { host: "localhost", port: 6379, db: 0 },
+  pollInterval: 3000,
+  prefix: "bull",
+  cacheTtlMs: 86_400_000,
+};
+
+let ctx: Context;
+let connectError: Error | null;
+let redisStatus: string;
+
+beforeEach(() => {
+  mockState.queues = {};
+  mockState.getJobCalls = [];
+  mockState.probeError = null;
+  connectError = null;
+  redisStatus = "ready";
+  ctx = {
+    config,
+    redis: {
+      get status() {
+        return redisStatus;
+      },
+      connect: async () => {
+        if (connectError) throw connectError;
+      },
+    },
+    db: createSqliteDb(config, ":memory:"),
+  } as unknown as Context;
+});
+
+afterEach(() => {
+  ctx.db.close();
+});
+
+// `mock.module` is process-global in Bun; restore so the `./queues.js` stub
+// doesn't leak into later test files.
+afterAll(() => {
+  mock.restore();
+});
+
+describe("findJob", () => {
+  it("probes every queue and returns all matches with their state", async () => {
+    mockState.queues = {
+      sms: [{ id: "42", name: "reminder", timestamp: 2000, state: "completed" }],
+      email: [{ id: "42", name: "welcome", timestamp: 1000, state: "failed" }],
+      reports: [{ id: "7", name: "digest", timestamp: 500, state: "waiting" }],
+    };
+
+    const result = await findJob(ctx, "42");
+
+    expect(mockState.getJobCalls.toSorted()).toEqual(["email", "reports", "sms"]);
+    expect(result).toEqual({
+      jobId: "42",
+      source: "redis",
+      queuesSearched: 3,
+      matches: [
+        { queue: "email", id: "42", name: "welcome", state: "failed", timestamp: 1000 },
+        { queue: "sms", id: "42", name: "reminder", state: "completed", timestamp: 2000 },
+      ],
+    });
+  });
+
+  it("returns no matches when no queue has the job", async () => {
+    mockState.queues = { email: [] };
+
+    const result = await findJob(ctx, "missing");
+
+    expect(result).toMatchObject({ source: "redis", queuesSearched: 1, matches: [] });
+  });
+
+  it("falls back to the SQLite cache when Redis is unreachable", async () => {
+    recordCachedJobs();
+    connectError = new Error("connect ECONNREFUSED 127.0.0.1:6379");
+
+    const result = await findJob(ctx, "42");
+
+    expect(mockState.getJobCalls).toEqual([]);
+    expect(result).toEqual({
+      jobId: "42",
+      source: "cache",
+      queuesSearched: 2,
+      matches: [
+        {
+          queue: "email",
+          id: "42",
+          name: "welcome",
+          state: "failed",
+          timestamp: 1000,
+          lastObservedAt: 5678,
+        },
+      ],
+      redisError: "connect ECONNREFUSED 127.0.0.1:6379",
+    });
+  });
+
+  it("falls back to the cache when a probe fails after connecting", async () => {
+    recordCachedJobs();
+    mockState.queues = { email: [] };
+    mockState.probeError = new Error("Connection is closed.");
+
+    const result = await findJob(ctx, "42");
+
+    expect(mockState.getJobCalls).toEqual(["email"]);
+    expect(result).toMatchObject({
+      source: "cache",
+      matches: [{ queue: "email", id: "42", lastObservedAt: 5678 }],
+      redisError: "Connection is closed.",
+    });
+  });
+
+  it("falls back to the cache when the connected client is no longer ready", async () => {
+    recordCachedJobs();
+    redisStatus = "reconnecting";
+
+    const result = await findJob(ctx, "42");
+
+    expect(mockState.getJobCalls).toEqual([]);
+    expect(result).toMatchObject({
+      source: "cache",
+      matches: [{ queue: "email", id: "42" }],
+      redisError: "Redis connection is reconnecting",
+    });
+  });
+
+  it("rethrows probe errors that are not connection failures", async () => {
+    mockState.queues = { email: [] };
+    mockState.probeError = new Error("WRONGTYPE Operation against a key");
+
+    await expect(findJob(ctx, "42")).rejects.toThrow("WRONGTYPE");
+  });
+});
+
+function recordCachedJobs(): void {
+  recordObservedQueues(
+    ctx,
+    ["email", "sms"].map((name) => ({
+      name,
+      counts: { wait: 0, active: 0, completed: 0, failed: 0, delayed: 0, schedulers: 0 },
+      isPaused: false,
+      total: 0,
+    })),
+    { observedAt: 1234 },
+  );
+  recordObservedJobs(
+    ctx,
+    "email",
+    [{ id: "42", name: "welcome", state: "failed", timestamp: 1000 }],
+    { observedAt: 5678 },
+  );
+  recordObservedJobs(ctx, "sms", [{ id: "43", name: "other", state: "waiting", timestamp: 1 }]);
+}
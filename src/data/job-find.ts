@@ -0,0 +1,108 @@
+import type { Context } from "../context.js";
+import { discoverQueueNames, getQueue } from "./queues.js";
+import { findCachedJobs, listQueues } from "./queue-store.js";
+import type { JobSummary } from "./jobs.js";
+
+/** A job with the requested ID, and the queue it was found in. */
+export interface FoundJob extends JobSummary {
+  queue: string;
+}
+
+export interface JobFindResult {
+  jobId: string;
+  /**
+   * `redis` when every discovered queue was probed live; `cache` when Redis
+   * was unreachable and the matches come from the SQLite cache, in which
+   * case each match carries `lastObservedAt`.
+   */
+  source: "redis" | "cache";
+  queuesSearched: number;
+  /** Ordered by queue name. Empty when no queue has the job. */
+  matches: FoundJob[];
+  /** The connection error that forced the cache fallback. */
+  redisError?: string;
+}
+
+/**
+ * Probe every discovered queue for a job ID. Job IDs are only unique within
+ * a queue, so several queues can match.
+ */
+async function findJobInQueues(
+  ctx: Context,
+  jobId: string,
+): Promise<Pick<JobFindResult, "queuesSearched" | "matches">> {
+  const queueNames = await discoverQueueNames(ctx);
+  const found = await Promise.all(
+    queueNames.map(async (queueName): Promise<FoundJob | null> => {
+      const job = await getQueue(ctx, queueName).getJob(jobId);
+      if (!job) return null;
+      return {
+        queue: queueName,
+        id: job.id || jobId,
+        name: job.name,
+        state: await job.getState(),
+        timestamp: job.timestamp || 0,
+      };
+    }),
+  );
+
+  return {
+    queuesSearched: queueNames.length,
+    matches: found
+      .filter((match): match is FoundJob => match !== null)
+      .toSorted((a, b) => a.queue.localeCompare(b.queue)),
+  };
+}
+
+const CONNECTION_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "EHOSTUNREACH",
+  "ENOTFOUND",
+  "EPIPE",
+]);
+
+/** Socket failures, and the errors ioredis raises once it gives up on a connection. */
+function isConnectionError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const code = (error as NodeJS.ErrnoException).code;
+  if (code && CONNECTION_ERROR_CODES.has(code)) return true;
+  return /Connection is closed|max retries per request|Stream isn't writeable/i.test(error.message);
+}
+
+function findCachedJob(ctx: Context, jobId: string, error: unknown): JobFindResult {
+  return {
+    jobId,
+    source: "cache",
+    queuesSearched: listQueues(ctx).length,
+    matches: findCachedJobs(ctx, jobId),
+    redisError: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Find a job by ID in every queue. When Redis can't be reached the lookup
+ * falls back to the last-known rows in the SQLite cache, so a support
+ * ticket can still be traced to a queue during an outage. That covers a
+ * failed connect, a client that connected earlier but is no longer `ready`
+ * (web mode and the TUI connect once at startup), and probes that fail with
+ * a connection error. Other errors are not swallowed.
+ */
+export async function findJob(ctx: Context, jobId: string): Promise<JobFindResult> {
+  try {
+    await ctx.redis.connect();
+  } catch (error) {
+    return findCachedJob(ctx, jobId, error);
+  }
+  if (ctx.redis.status !== "ready") {
+    return findCachedJob(ctx, jobId, new Error(`Redis connection is ${ctx.redis.status}`));
+  }
+
+  try {
+    return { jobId, source: "redis", ...(await findJobInQueues(ctx, jobId)) };
+  } catch (error) {
+    if (!isConnectionError(error)) throw error;
+    return findCachedJob(ctx, jobId, error);
+  }
+}
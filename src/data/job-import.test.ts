@@ -0,0 +1,160 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+
+interface MockState {
+  existing: Set<string>;
+  added: { name: string; data: unknown; opts: Record<string, unknown> }[];
+  failNames: Set<string>;
+  /** Names whose add resolves only after a delay. */
+  slowNames: Set<string>;
+}
+
+const mockState: MockState = {
+  existing: new Set(),
+  added: [],
+  failNames: new Set(),
+  slowNames: new Set(),
+};
+
+mock.module("./queues.js", () => ({
+  getQueue: (_ctx: unknown, _name: string) => ({
+    getJob: async (id: string) => (mockState.existing.has(id) ? { id } : undefined),
+    add: async (name: string, data: unknown, opts: Record<string, unknown>) => {
+      if (mockState.failNames.has(name)) throw new Error("OOM command not allowed");
+      if (mockState.slowNames.has(name)) await Bun.sleep(20);
+      mockState.added.push({ name, data, opts });
+      return { id: (opts.jobId as string | undefined) ?? `new-${mockState.added.length}` };
+    },
+  }),
+}));
+
+// Import AFTER mocks are registered.
+import { importJobs } from "./job-import.js";
+import type { Context } from "../context.js";
+
+const ctx = {} as Context;
+
+async function* linesOf(...lines: string[]): AsyncGenerator<string> {
+  for (const line of lines) yield line;
+}
+
+function exported(id: string, overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    id,
+    name: "send",
+    state: "failed",
+    data: { id },
+    opts: { attempts: 3, backoff: { type: "fixed", delay: 1000 }, delay: 5000, jobId: id },
+    ...overrides,
+  });
+}
+
+beforeEach(() => {
+  mockState.existing = new Set();
+  mockState.added = [];
+  mockState.failNames = new Set();
+  mockState.slowNames = new Set();
+});
+
+// `mock.module` is process-global in Bun; restore so the `./queues.js` stub
+// doesn't leak into later test files.
+afterAll(() => {
+  mock.restore();
+});
+
+describe("importJobs", () => {
+  it("re-creates jobs with new IDs, keeping name, data and retry options", async () => {
+    const result = await importJobs(ctx, "staging", linesOf(exported("1"), exported("2")), {
+      ids: "new",
+      dryRun: false,
+    });
+
+    expect(result).toEqual({
+      read: 2,
+      created: 2,
+      skipped: 0,
+      errors: [],
+      sampleJobIds: ["new-1", "new-2"],
+    });
+    expect(mockState.added[0]).toEqual({
+      name: "send",
+      data: { id: "1" },
+      opts: { attempts: 3, backoff: { type: "fixed", delay: 1000 } },
+    });
+  });
+
+  it("skips payload-less lines and reports malformed ones by line number", async () => {
+    const result = await importJobs(
+      ctx,
+      "staging",
+      linesOf(
+        exported("1"),
+        "",
+        "{not json",
+        JSON.stringify({ id: "3", name: "send", state: "failed" }),
+        JSON.stringify({ id: "4", data: {} }),
+      ),
+      { ids: "new", dryRun: false },
+    );
+
+    expect(result.read).toBe(4);
+    expect(result.created).toBe(1);
+    expect(result.skipped).toBe(1);
+    expect(result.errors.map((e) => [e.line, e.jobId])).toEqual([
+      [3, null],
+      [5, "4"],
+    ]);
+    expect(result.errors[1]!.error).toBe("Missing job name");
+  });
+
+  it("preserves IDs and skips ones that exist or repeat in the file", async () => {
+    mockState.existing.add("1");
+
+    const result = await importJobs(
+      ctx,
+      "staging",
+      linesOf(exported("1"), exported("2"), exported("2"), exported("3")),
+      { ids: "preserve", dryRun: false, batchSize: 2 },
+    );
+
+    expect(result).toMatchObject({ read: 4, created: 2, skipped: 2, errors: [] });
+    expect(mockState.added.map((job) => job.opts.jobId)).toEqual(["2", "3"]);
+  });
+
+  it("counts what would be created on dry-run without adding anything", async () => {
+    mockState.existing.add("1");
+
+    const result = await importJobs(ctx, "staging", linesOf(exported("1"), exported("2")), {
+      ids: "preserve",
+      dryRun: true,
+    });
+
+    expect(result).toMatchObject({ created: 1, skipped: 1, sampleJobIds: ["2"] });
+    expect(mockState.added).toEqual([]);
+  });
+
+  it("adds jobs in file order even when an earlier add is slow", async () => {
+    mockState.slowNames.add("first");
+    await importJobs(
+      ctx,
+      "staging",
+      linesOf(exported("1", { name: "first" }), exported("2", { name: "second" })),
+      { ids: "new", dryRun: false },
+    );
+
+    expect(mockState.added.map((job) => job.name)).toEqual(["first", "second"]);
+  });
+
+  it("collects per-job add failures and keeps going", async () => {
+    mockState.failNames.add("poison");
+
+    const result = await importJobs(
+      ctx,
+      "staging",
+      linesOf(exported("1", { name: "poison" }), exported("2")),
+      { ids: "new", dryRun: false },
+    );
+
+    expect(result.created).toBe(1);
+    expect(result.errors).toEqual([{ line: 1, jobId: "1", error: "OOM command not allowed" }]);
+  });
+});
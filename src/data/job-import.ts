@@ -0,0 +1,187 @@
+import type { JobsOptions } from "bullmq";
+import type { Context } from "../context.js";
+import { getQueue } from "./queues.js";
+import { portableJobOptions } from "./jobs.js";
+
+const IMPORT_BATCH_SIZE = 100;
+const SAMPLE_ID_COUNT = 5;
+
+/** `preserve` reuses the exported job IDs; `new` lets BullMQ assign fresh ones. */
+export type ImportIdMode = "preserve" | "new";
+
+export interface ImportOptions {
+  ids: ImportIdMode;
+  dryRun: boolean;
+  batchSize?: number;
+}
+
+/** A line that could not be imported. `jobId` is the exported ID when known. */
+export interface ImportLineError {
+  line: number;
+  jobId: string | null;
+  error: string;
+}
+
+export interface ImportResult {
+  read: number;
+  created: number;
+  skipped: number;
+  errors: ImportLineError[];
+  sampleJobIds: string[];
+}
+
+interface ImportCandidate {
+  line: number;
+  sourceId: string | null;
+  name: string;
+  data: unknown;
+  opts: JobsOptions;
+}
+
+type ParsedLine = { candidate: ImportCandidate } | { skip: true } | { error: ImportLineError };
+
+function parseImportLine(text: string, line: number): ParsedLine {
+  let record: unknown;
+  try {
+    record = JSON.parse(text);
+  } catch (error) {
+    return {
+      error: {
+        line,
+        jobId: null,
+        error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    };
+  }
+  if (!record || typeof record !== "object" || Array.isArray(record)) {
+    return { error: { line, jobId: null, error: "Expected a JSON object" } };
+  }
+
+  const value = record as Record<string, unknown>;
+  const sourceId = typeof value.id === "string" ? value.id : null;
+  if (typeof value.name !== "string" || value.name === "") {
+    return { error: { line, jobId: sourceId, error: "Missing job name" } };
+  }
+  // Exports made without --include-data have no payload. Re-creating those
+  // jobs with an empty payload would look like success but do the wrong thing.
+  if (!("data" in value)) return { skip: true };
+
+  return {
+    candidate: {
+      line,
+      sourceId,
+      name: value.name,
+      data: value.data,
+      opts: portableJobOptions(value.opts),
+    },
+  };
+}
+
+/**
+ * Re-create exported jobs (one JSON object per line, as written by
+ * `jobs export`) in a queue, in file order. Lines are processed in batches so
+ * large files stream instead of loading into memory. With `preserve` IDs, jobs whose ID
+ * already exists in the queue (or appeared earlier in the file) are skipped
+ * rather than silently merged into the existing job by BullMQ.
+ */
+export async function importJobs(
+  ctx: Context,
+  queueName: string,
+  lines: AsyncIterable<string>,
+  options: ImportOptions,
+): Promise<ImportResult> {
+  const queue = getQueue(ctx, queueName);
+  const batchSize = options.batchSize ?? IMPORT_BATCH_SIZE;
+  const preserve = options.ids === "preserve";
+  const seenIds = new Set<string>();
+  const result: ImportResult = { read: 0, created: 0, skipped: 0, errors: [], sampleJobIds: [] };
+
+  const flush = async (batch: ImportCandidate[]) => {
+    let pending = batch;
+    if (preserve) {
+      const existing = await Promise.all(batch.map((c) => queue.getJob(c.sourceId!)));
+      pending = batch.filter((_, index) => !existing[index]);
+      result.skipped += batch.length - pending.length;
+    }
+
+    if (options.dryRun) {
+      result.created += pending.length;
+      for (const candidate of pending) {
+        if (result.sampleJobIds.length < SAMPLE_ID_COUNT && candidate.sourceId) {
+          result.sampleJobIds.push(candidate.sourceId);
+        }
+      }
+      return;
+    }
+
+    // One add at a time, in file order, so the target queue keeps the
+    // export's FIFO order; concurrent adds would land in whatever order Redis
+    // received them.
+    for (const candidate of pending) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const job = await queue.add(
+          candidate.name,
+          candidate.data,
+          preserve ? { ...candidate.opts, jobId: candidate.sourceId! } : candidate.opts,
+        );
+        result.created += 1;
+        if (result.sampleJobIds.length < SAMPLE_ID_COUNT && job.id) {
+          result.sampleJobIds.push(job.id);
+        }
+      } catch (error) {
+        result.errors.push({
+          line: candidate.line,
+          jobId: candidate.sourceId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  };
+
+  let batch: ImportCandidate[] = [];
+  let lineNumber = 0;
+  for await (const text of lines) {
+    lineNumber += 1;
+    if (text.trim() === "") continue;
+    result.read += 1;
+
+    const parsed = parseImportLine(text, lineNumber);
+    if ("error" in parsed) {
+      result.errors.push(parsed.error);
+      continue;
+    }
+    if ("skip" in parsed) {
+      result.skipped += 1;
+      continue;
+    }
+
+    const { candidate } = parsed;
+    if (preserve) {
+      if (!candidate.sourceId) {
+        result.errors.push({
+          line: lineNumber,
+          jobId: null,
+          error: "Missing job id (required with --preserve-ids)",
+        });
+        continue;
+      }
+      if (seenIds.has(candidate.sourceId)) {
+        result.skipped += 1;
+        continue;
+      }
+      seenIds.add(candidate.sourceId);
+    }
+
+    batch.push(candidate);
+    if (batch.length >= batchSize) {
+      // Sequential by design: bounded memory and Redis load for huge files.
+      // eslint-disable-next-line no-await-in-loop
+      await flush(batch);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) await flush(batch);
+
+  return result;
+}
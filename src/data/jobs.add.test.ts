@@ -0,0 +1,112 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+
+interface FakeJob {
+  id: string;
+  name: string;
+  data: unknown;
+  opts: Record<string, unknown>;
+  timestamp: number;
+  attemptsMade: number;
+  delay: number;
+  getState: () => Promise<string>;
+}
+
+interface MockState {
+  existing: Map<string, FakeJob>;
+  added: { name: string; data: unknown; opts: Record<string, unknown> }[];
+}
+
+const mockState: MockState = {
+  existing: new Map(),
+  added: [],
+};
+
+mock.module("./queues.js", () => ({
+  getQueue: (_ctx: unknown, _name: string) => ({
+    getJob: async (id: string) => mockState.existing.get(id) ?? null,
+    add: async (name: string, data: unknown, opts: Record<string, unknown>) => {
+      mockState.added.push({ name, data, opts });
+      const delay = (opts.delay as number | undefined) ?? 0;
+      return {
+        id: (opts.jobId as string | undefined) ?? String(mockState.added.length),
+        name,
+        data,
+        opts,
+        timestamp: 1_700_000_000_000,
+        attemptsMade: 0,
+        delay,
+        getState: async () => (delay > 0 ? "delayed" : "waiting"),
+      } satisfies FakeJob;
+    },
+  }),
+}));
+
+// Import AFTER mocks are registered.
+import { addJob, DuplicateJobIdError } from "./jobs.js";
+import type { Context } from "../context.js";
+
+const ctx = {} as Context;
+
+beforeEach(() => {
+  mockState.existing = new Map();
+  mockState.added = [];
+});
+
+// `mock.module` is process-global in Bun; restore so the `./queues.js` stub
+// doesn't leak into later test files.
+afterAll(() => {
+  mock.restore();
+});
+
+describe("addJob", () => {
+  it("enqueues the payload with job options and returns the job detail", async () => {
+    const job = await addJob(ctx, "email", {
+      name: "welcome",
+      data: { to: "a@example.com" },
+      delay: 60_000,
+      priority: 5,
+      attempts: 3,
+    });
+
+    expect(mockState.added).toEqual([
+      {
+        name: "welcome",
+        data: { to: "a@example.com" },
+        opts: { jobId: undefined, delay: 60_000, priority: 5, attempts: 3 },
+      },
+    ]);
+    expect(job).toMatchObject({
+      id: "1",
+      name: "welcome",
+      state: "delayed",
+      data: { to: "a@example.com" },
+      attemptsMade: 0,
+      delay: 60_000,
+    });
+  });
+
+  it("uses a custom job ID when it is free", async () => {
+    const job = await addJob(ctx, "email", { name: "welcome", data: {}, jobId: "repro-1" });
+
+    expect(job.id).toBe("repro-1");
+    expect(job.state).toBe("waiting");
+  });
+
+  it("rejects a custom job ID that already exists instead of returning the old job", async () => {
+    mockState.existing.set("repro-1", {
+      id: "repro-1",
+      name: "welcome",
+      data: {},
+      opts: {},
+      timestamp: 1,
+      attemptsMade: 0,
+      delay: 0,
+      getState: async () => "completed",
+    });
+
+    await expect(
+      addJob(ctx, "email", { name: "welcome", data: {}, jobId: "repro-1" }),
+    ).rejects.toBeInstanceOf(DuplicateJobIdError);
+    expect(mockState.added).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+
+interface FakeJob {
+  id: string;
+  timestamp?: number;
+  processedOn?: number;
+  finishedOn?: number;
+  repeatJobKey?: string;
+}
+
+interface MockState {
+  jobs: FakeJob[];
+  cleaned: string[];
+  cleanCalls: unknown[][];
+}
+
+const mockState: MockState = {
+  jobs: [],
+  cleaned: [],
+  cleanCalls: [],
+};
+
+mock.module("./queues.js", () => ({
+  getQueue: (_ctx: unknown, _name: string) => ({
+    getJobs: async (_types: string[], start: number, end: number, _asc: boolean) =>
+      mockState.jobs.slice(start, end + 1),
+    clean: async (...args: unknown[]) => {
+      mockState.cleanCalls.push(args);
+      return mockState.cleaned;
+    },
+  }),
+}));
+
+// Import AFTER mocks are registered.
+import { CLEAN_DRY_RUN_SCAN_LIMIT, cleanQueue } from "./jobs.js";
+import type { Context } from "../context.js";
+
+const ctx = {} as Context;
+const NOW = Date.now();
+const DAY = 24 * 60 * 60 * 1000;
+
+beforeEach(() => {
+  mockState.jobs = [];
+  mockState.cleaned = [];
+  mockState.cleanCalls = [];
+});
+
+// `mock.module` is process-global in Bun; restore so the `./queues.js` stub
+// doesn't leak into later test files.
+afterAll(() => {
+  mock.restore();
+});
+
+describe("cleanQueue — dry-run", () => {
+  it("counts finished jobs past the grace period without calling Queue.clean", async () => {
+    mockState.jobs = [
+      { id: "1", finishedOn: NOW - 10 * DAY },
+      { id: "2", finishedOn: NOW - 8 * DAY },
+      { id: "3", finishedOn: NOW - 1 * DAY },
+    ];
+
+    const result = await cleanQueue(ctx, "email", {
+      jobState: "completed",
+      graceMs: 7 * DAY,
+      dryRun: true,
+    });
+
+    expect(result).toEqual({ matched: 2, removed: 0, sampleJobIds: ["1", "2"], truncated: false });
+    expect(mockState.cleanCalls).toEqual([]);
+  });
+
+  it("stops at --limit", async () => {
+    mockState.jobs = [
+      { id: "1", finishedOn: NOW - 10 * DAY },
+      { id: "2", finishedOn: NOW - 9 * DAY },
+      { id: "3", finishedOn: NOW - 8 * DAY },
+    ];
+
+    const result = await cleanQueue(ctx, "email", {
+      jobState: "failed",
+      graceMs: DAY,
+      limit: 2,
+      dryRun: true,
+    });
+
+    expect(result.matched).toBe(2);
+  });
+
+  it("skips scheduler-owned delayed jobs and uses creation time when unprocessed", async () => {
+    mockState.jobs = [
+      { id: "1", timestamp: NOW - 10 * DAY },
+      { id: "2", timestamp: NOW - 10 * DAY, repeatJobKey: "nightly" },
+      { id: "3", timestamp: NOW - 10 * DAY, processedOn: NOW - 1_000 },
+    ];
+
+    const result = await cleanQueue(ctx, "email", {
+      jobState: "delayed",
+      graceMs: DAY,
+      dryRun: true,
+    });
+
+    expect(result.sampleJobIds).toEqual(["1"]);
+  });
+
+  it("flags truncation once the scan cap is reached", async () => {
+    mockState.jobs = Array.from({ length: CLEAN_DRY_RUN_SCAN_LIMIT + 1 }, (_, i) => ({
+      id: String(i),
+      timestamp: NOW,
+    }));
+
+    const result = await cleanQueue(ctx, "email", { jobState: "wait", graceMs: DAY, dryRun: true });
+
+    expect(result.matched).toBe(0);
+    expect(result.truncated).toBe(true);
+  });
+});
+
+describe("cleanQueue — live", () => {
+  it("delegates to Queue.clean with grace, limit and state", async () => {
+    mockState.cleaned = ["7", "8"];
+
+    const result = await cleanQueue(ctx, "email", {
+      jobState: "completed",
+      graceMs: 7 * DAY,
+      limit: 500,
+    });
+
+    expect(mockState.cleanCalls).toEqual([[7 * DAY, 500, "completed"]]);
+    expect(result).toEqual({ matched: 2, removed: 2, sampleJobIds: ["7", "8"], truncated: false });
+  });
+
+  it("passes 0 to Queue.clean when no limit is given", async () => {
+    await cleanQueue(ctx, "email", { jobState: "failed", graceMs: DAY });
+
+    expect(mockState.cleanCalls).toEqual([[DAY, 0, "failed"]]);
+  });
+});
@@ -0,0 +1,122 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+
+// Each BullMQ set the listing reads, newest first, as [id, timestamp] pairs.
+const mockState: { sets: Record<string, Array<[string, number]>> } = { sets: {} };
+
+function reader(set: string) {
+  return async (start: number, end: number) =>
+    (mockState.sets[set] ?? [])
+      .slice(start, end + 1)
+      .map(([id, timestamp]) => ({ id, name: set, timestamp, data: {} }));
+}
+
+mock.module("./queues.js", () => ({
+  getQueue: (_ctx: unknown, _name: string) => ({
+    getActive: reader("active"),
+    getWaiting: reader("waiting"),
+    getCompleted: reader("completed"),
+    getFailed: reader("failed"),
+    getDelayed: reader("delayed"),
+    getPrioritized: reader("prioritized"),
+    getJobCounts: async (...types: string[]) =>
+      Object.fromEntries(types.map((type) => [type, mockState.sets[type]?.length ?? 0])),
+  }),
+}));
+
+// Import AFTER mocks are registered.
+import { getAllJobs, type JobListStart } from "./jobs.js";
+import { decodeListCursor, encodeListCursor } from "./list-cursor.js";
+import type { Context } from "../context.js";
+
+const ctx = {} as Context;
+
+beforeEach(() => {
+  mockState.sets = {
+    completed: [
+      ["c3", 900],
+      ["c2", 500],
+      ["c1", 100],
+    ],
+    failed: [
+      ["f2", 700],
+      ["f1", 300],
+    ],
+    waiting: [["w1", 800]],
+    prioritized: [["p1", 950]],
+  };
+});
+
+// `mock.module` is process-global in Bun; restore so the `./queues.js` stub
+// doesn't leak into later test files.
+afterAll(() => {
+  mock.restore();
+});
+
+async function readAllPages(status: "wait" | "failed" | undefined, pageSize: number) {
+  const pages: string[][] = [];
+  let start: JobListStart = {};
+  for (;;) {
+    // eslint-disable-next-line no-await-in-loop
+    const page = await getAllJobs(ctx, "email", status, pageSize, false, undefined, start);
+    pages.push(page.jobs.map((job) => job.id));
+    if (!page.next) return pages;
+    start = { offsets: page.next };
+  }
+}
+
+describe("getAllJobs paging", () => {
+  it("pages through merged sets newest first without skipping or repeating", async () => {
+    expect(await readAllPages(undefined, 3)).toEqual([
+      ["p1", "c3", "w1"],
+      ["f2", "c2", "f1"],
+      ["c1"],
+    ]);
+  });
+
+  it("lists waiting before prioritized jobs for the wait state", async () => {
+    expect(await readAllPages("wait", 1)).toEqual([["w1"], ["p1"]]);
+  });
+
+  it("returns no next offsets once the last page is read", async () => {
+    const page = await getAllJobs(ctx, "email", "failed", 2);
+
+    expect(page).toMatchObject({ total: 2, next: null });
+  });
+
+  it("skips to an offset in a single set directly", async () => {
+    const page = await getAllJobs(ctx, "email", "failed", 5, false, undefined, { offset: 1 });
+
+    expect(page.jobs.map((job) => job.id)).toEqual(["f1"]);
+  });
+
+  it("skips to an offset across merged sets", async () => {
+    const page = await getAllJobs(ctx, "email", undefined, 2, false, undefined, { offset: 4 });
+
+    expect(page.jobs.map((job) => job.id)).toEqual(["c2", "f1"]);
+    expect(page.total).toBe(7);
+    expect(page.next).toEqual({
+      active: 0,
+      waiting: 1,
+      completed: 2,
+      failed: 2,
+      delayed: 0,
+      prioritized: 1,
+    });
+  });
+});
+
+describe("list cursor tokens", () => {
+  it("round-trips and rejects tampered tokens", () => {
+    const cursor = { queue: "email", list: "all", offsets: { waiting: 3, failed: 1 } };
+
+    expect(decodeListCursor(encodeListCursor(cursor))).toEqual(cursor);
+    expect(decodeListCursor("not-a-token")).toBeNull();
+    expect(
+      decodeListCursor(
+        Buffer.from(
+          JSON.stringify({ v: 1, queue: "email", list: "all", offsets: { a: -1 } }),
+        ).toString("base64url"),
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+
+interface MockState {
+  logs: string[];
+  /** States returned by successive getJobState calls; the last one repeats. */
+  states: string[];
+  /** Lines appended to `logs` after each getJobLogs call, in order. */
+  pendingWrites: string[][];
+  logCalls: Array<[number, number]>;
+}
+
+const mockState: MockState = {
+  logs: [],
+  states: [],
+  pendingWrites: [],
+  logCalls: [],
+};
+
+// Mirrors Redis LRANGE: inclusive end, negative indices count from the tail.
+function lrange(list: string[], start: number, end: number): string[] {
+  const from = start < 0 ? Math.max(list.length + start, 0) : start;
+  const to = end < 0 ? list.length + end : Math.min(end, list.length - 1);
+  return list.slice(from, to + 1);
+}
+
+mock.module("./queues.js", () => ({
+  getQueue: (_ctx: unknown, _name: string) => ({
+    getJob: async (id: string) =>
+      id === "missing"
+        ? undefined
+        : {
+            id,
+            name: "send",
+            timestamp: 1000,
+            data: {},
+            opts: {},
+            attemptsMade: 0,
+            getState: async () => "active",
+            getDependenciesCount: async () => ({}),
+          },
+    getJobState: async () =>
+      mockState.states.length > 1 ? mockState.states.shift()! : mockState.states[0]!,
+    getJobLogs: async (_id: string, start: number, end: number) => {
+      mockState.logCalls.push([start, end]);
+      const result = { logs: lrange(mockState.logs, start, end), count: mockState.logs.length };
+      mockState.logs.push(...(mockState.pendingWrites.shift() ?? []));
+      return result;
+    },
+  }),
+}));
+
+// Import AFTER mocks are registered.
+import { DETAIL_LOG_LIMIT, followJobLogs, getJobDetail, getJobLogs } from "./jobs.js";
+import type { Context } from "../context.js";
+
+const ctx = {} as Context;
+
+async function collect(iterable: AsyncIterable<{ index: number; log: string }>) {
+  const lines: Array<[number, string]> = [];
+  for await (const { index, log } of iterable) lines.push([index, log]);
+  return lines;
+}
+
+beforeEach(() => {
+  mockState.logs = [];
+  mockState.states = ["active"];
+  mockState.pendingWrites = [];
+  mockState.logCalls = [];
+});
+
+// `mock.module` is process-global in Bun; restore so the `./queues.js` stub
+// doesn't leak into later test files.
+afterAll(() => {
+  mock.restore();
+});
+
+describe("getJobDetail logs", () => {
+  it("includes the latest log lines and the total count", async () => {
+    mockState.logs = Array.from({ length: DETAIL_LOG_LIMIT + 5 }, (_, i) => `line ${i}`);
+
+    const detail = await getJobDetail(ctx, "email", "1");
+
+    expect(detail!.logCount).toBe(DETAIL_LOG_LIMIT + 5);
+    expect(detail!.logs).toHaveLength(DETAIL_LOG_LIMIT);
+    expect(detail!.logs![0]).toBe("line 5");
+    expect(mockState.logCalls).toEqual([[-DETAIL_LOG_LIMIT, -1]]);
+  });
+});
+
+describe("getJobLogs", () => {
+  it("reads one page from the offset", async () => {
+    mockState.logs = ["a", "b", "c", "d"];
+
+    expect(await getJobLogs(ctx, "email", "1", { offset: 1, limit: 2 })).toEqual({
+      logs: ["b", "c"],
+      count: 4,
+      offset: 1,
+    });
+  });
+});
+
+describe("followJobLogs", () => {
+  it("yields new lines until the job finishes, draining the last ones", async () => {
+    mockState.logs = ["a"];
+    mockState.states = ["active", "active", "completed"];
+    mockState.pendingWrites = [["b"], ["c"]];
+
+    const lines = await collect(followJobLogs(ctx, "email", "1", { intervalMs: 0 }));
+
+    expect(lines).toEqual([
+      [0, "a"],
+      [1, "b"],
+      [2, "c"],
+    ]);
+  });
+
+  it("starts at the offset", async () => {
+    mockState.logs = ["a", "b", "c"];
+    mockState.states = ["failed"];
+
+    const lines = await collect(followJobLogs(ctx, "email", "1", { offset: 2 }));
+
+    expect(lines).toEqual([[2, "c"]]);
+  });
+
+  it("stops when the job disappears", async () => {
+    mockState.states = ["unknown"];
+
+    expect(await collect(followJobLogs(ctx, "email", "1"))).toEqual([]);
+  });
+
+  it("stops polling once the signal aborts", async () => {
+    mockState.logs = ["a"];
+    const controller = new AbortController();
+    controller.abort();
+
+    const lines = await collect(
+      followJobLogs(ctx, "email", "1", { intervalMs: 0, signal: controller.signal }),
+    );
+
+    expect(lines).toEqual([[0, "a"]]);
+    expect(mockState.logCalls).toHaveLength(1);
+  });
+});
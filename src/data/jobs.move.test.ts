@@ -0,0 +1,251 @@
+import { afterAll, beforeEach, describe, expect, it, mock, spyOn } from "bun:test";
+import { Job } from "bullmq";
+
+// Shape of the fake Job objects the mocked source queue returns.
+interface FakeJob {
+  id: string;
+  name: string;
+  data: unknown;
+  opts: Record<string, unknown>;
+  timestamp?: number;
+  finishedOn?: number;
+  state: string;
+  getState: () => Promise<string>;
+}
+
+interface MockState {
+  /** Jobs in the source queue. */
+  jobs: FakeJob[];
+  /** IDs of jobs holding a worker lock. */
+  locked: Set<string>;
+  /** Simulate a WATCHed key changing before EXEC, which discards the transaction. */
+  interruptExec: boolean;
+  removed: string[];
+  /** Jobs added to any queue, keyed by queue name. */
+  added: { queue: string; name: string; data: unknown; opts: unknown }[];
+  unwatched: number;
+}
+
+const mockState: MockState = {
+  jobs: [],
+  locked: new Set(),
+  interruptExec: false,
+  removed: [],
+  added: [],
+  unwatched: 0,
+};
+
+function jobsIn(state: string): FakeJob[] {
+  return mockState.jobs.filter((job) => job.state === state);
+}
+
+function jobIdOf(key: string): string {
+  return key.split(":")[2]!;
+}
+
+/** A MULTI that records queued scripts and applies them to mockState on exec. */
+function fakeTransaction() {
+  const queued: { name: string; args: unknown[] }[] = [];
+  const transaction = {
+    runCommand(name: string, args: unknown[]) {
+      queued.push({ name, args });
+      return transaction;
+    },
+    exec: async () => {
+      if (mockState.interruptExec) return null;
+      return queued.map(({ name, args }): [null, unknown] => {
+        if (name === "removeJob") {
+          mockState.removed.push(String(args[2]));
+          mockState.jobs = mockState.jobs.filter((job) => job.id !== args[2]);
+          return [null, 1];
+        }
+        mockState.added.push(args[0] as MockState["added"][number]);
+        return [null, `new-${mockState.added.length}`];
+      });
+    },
+  };
+  return transaction;
+}
+
+const fakeClient = {
+  watch: async () => "OK",
+  unwatch: async () => {
+    mockState.unwatched += 1;
+    return "OK";
+  },
+  get: async (key: string) => (mockState.locked.has(jobIdOf(key)) ? "worker-token" : null),
+  hget: async (key: string, field: string) => {
+    const job = mockState.jobs.find((candidate) => candidate.id === jobIdOf(key));
+    return field === "name" && job ? job.name : null;
+  },
+  zscore: async () => null,
+  multi: fakeTransaction,
+};
+
+mock.module("./queues.js", () => ({
+  getQueue: (_ctx: unknown, name: string) => ({
+    name,
+    client: Promise.resolve(fakeClient),
+    toKey: (type: string) => `bull:${name}:${type}`,
+    scripts: {
+      execCommand: (client: ReturnType<typeof fakeTransaction>, command: string, args: unknown[]) =>
+        client.runCommand(command, args),
+    },
+    getJobs: async (states: string[], start: number, end: number) =>
+      jobsIn(states[0]!).slice(start, end + 1),
+    getWaiting: async (start: number, end: number) => jobsIn("waiting").slice(start, end + 1),
+    getPrioritized: async (start: number, end: number) =>
+      jobsIn("prioritized").slice(start, end + 1),
+    getJobCounts: async (...states: string[]) =>
+      Object.fromEntries(states.map((state) => [state, jobsIn(state).length])),
+    getJob: async (id: string) => mockState.jobs.find((job) => job.id === id) ?? null,
+  }),
+}));
+
+// Queue the copy as a plain record instead of BullMQ's add script.
+spyOn(Job.prototype, "addJob").mockImplementation(function (this: Job, client) {
+  client.runCommand("addJob", [
+    { queue: this.queueName, name: this.name, data: this.data, opts: this.opts },
+  ]);
+  return Promise.resolve("");
+});
+
+// Import AFTER mocks are registered.
+import { moveJobs } from "./jobs.js";
+import type { Context } from "../context.js";
+
+const ctx = {} as Context;
+
+function makeJob(
+  id: string,
+  state: string,
+  overrides: Partial<Pick<FakeJob, "name" | "opts" | "timestamp" | "finishedOn">> = {},
+): FakeJob {
+  return {
+    id,
+    state,
+    name: overrides.name ?? "job",
+    data: { id },
+    opts: overrides.opts ?? {},
+    timestamp: overrides.timestamp,
+    finishedOn: overrides.finishedOn,
+    getState: async () => state,
+  };
+}
+
+beforeEach(() => {
+  mockState.jobs = [];
+  mockState.locked = new Set();
+  mockState.interruptExec = false;
+  mockState.removed = [];
+  mockState.added = [];
+  mockState.unwatched = 0;
+});
+
+// `mock.module` is process-global in Bun; restore so the `./queues.js` stub
+// and the Job.addJob spy don't leak into later test files.
+afterAll(() => {
+  mock.restore();
+});
+
+describe("moveJobs", () => {
+  it("copies name, data and portable options into the target, then removes the source", async () => {
+    mockState.jobs = [
+      makeJob("1", "failed", {
+        name: "send",
+        opts: { attempts: 5, backoff: { type: "fixed", delay: 100 }, delay: 60_000, jobId: "1" },
+      }),
+    ];
+
+    const result = await moveJobs(ctx, "email-dlq", "email", { jobState: "failed" });
+
+    expect(result).toEqual({
+      matched: 1,
+      moved: 1,
+      errors: [],
+      sampleJobIds: ["1"],
+      totalInState: 1,
+      truncated: false,
+    });
+    expect(mockState.added).toEqual([
+      {
+        queue: "email",
+        name: "send",
+        data: { id: "1" },
+        opts: { attempts: 5, backoff: { type: "fixed", delay: 100 } },
+      },
+    ]);
+    expect(mockState.removed).toEqual(["1"]);
+  });
+
+  it("previews on dry-run without touching either queue", async () => {
+    mockState.jobs = [makeJob("1", "failed"), makeJob("2", "failed")];
+
+    const result = await moveJobs(ctx, "email-dlq", "email", { jobState: "failed", dryRun: true });
+
+    expect(result.matched).toBe(2);
+    expect(result.moved).toBe(0);
+    expect(mockState.added).toEqual([]);
+    expect(mockState.removed).toEqual([]);
+  });
+
+  it("applies the since and name filters", async () => {
+    const now = Date.now();
+    mockState.jobs = [
+      makeJob("1", "failed", { name: "poison", finishedOn: now - 1_000 }),
+      makeJob("2", "failed", { name: "poison", finishedOn: now - 10 * 3_600_000 }),
+      makeJob("3", "failed", { name: "welcome", finishedOn: now - 1_000 }),
+    ];
+
+    const result = await moveJobs(ctx, "email-dlq", "email", {
+      jobState: "failed",
+      since: "1h",
+      name: "poison",
+    });
+
+    expect(result.moved).toBe(1);
+    expect(mockState.removed).toEqual(["1"]);
+  });
+
+  it("moves a single job by id", async () => {
+    mockState.jobs = [makeJob("42", "completed")];
+
+    const result = await moveJobs(ctx, "email-dlq", "email", { jobId: "42" });
+
+    expect(result.totalInState).toBeNull();
+    expect(mockState.removed).toEqual(["42"]);
+  });
+
+  it("leaves a job a worker holds in the source and keeps moving the rest", async () => {
+    mockState.jobs = [makeJob("1", "failed"), makeJob("2", "failed")];
+    mockState.locked.add("1");
+
+    const result = await moveJobs(ctx, "email-dlq", "email", { jobState: "failed" });
+
+    expect(result.moved).toBe(1);
+    expect(result.errors).toEqual([{ jobId: "1", error: "Job 1 is locked by a worker" }]);
+    expect(mockState.added.map((job) => job.data)).toEqual([{ id: "2" }]);
+    expect(mockState.removed).toEqual(["2"]);
+    expect(mockState.unwatched).toBe(1);
+  });
+
+  it("adds and removes nothing when the job changes before the transaction runs", async () => {
+    mockState.jobs = [makeJob("1", "failed")];
+    mockState.interruptExec = true;
+
+    const result = await moveJobs(ctx, "email-dlq", "email", { jobState: "failed" });
+
+    expect(result.moved).toBe(0);
+    expect(result.errors).toEqual([
+      { jobId: "1", error: "Job 1 changed while it was being moved and was left in place" },
+    ]);
+    expect(mockState.added).toEqual([]);
+    expect(mockState.removed).toEqual([]);
+  });
+
+  it("throws without a job ID or a job state", async () => {
+    await expect(moveJobs(ctx, "email-dlq", "email", {})).rejects.toThrow(
+      "jobs move requires a job ID or a job state",
+    );
+  });
+});
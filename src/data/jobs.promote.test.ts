@@ -0,0 +1,134 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+
+// Shape of the fake Job objects the mocked queue returns.
+interface FakeJob {
+  id: string | undefined;
+  name: string;
+  timestamp?: number;
+  state?: string;
+  getState: () => Promise<string>;
+  promote: () => Promise<void>;
+}
+
+interface MockState {
+  delayedJobs: FakeJob[];
+  totalDelayedCount: number;
+  promoted: string[];
+}
+
+const mockState: MockState = {
+  delayedJobs: [],
+  totalDelayedCount: 0,
+  promoted: [],
+};
+
+mock.module("./queues.js", () => ({
+  getQueue: (_ctx: unknown, _name: string) => ({
+    getDelayed: async (start: number, end: number) => mockState.delayedJobs.slice(start, end + 1),
+    getJobCounts: async (..._states: string[]) => ({ delayed: mockState.totalDelayedCount }),
+    getJob: async (id: string) => mockState.delayedJobs.find((job) => job.id === id) ?? null,
+  }),
+}));
+
+// Import AFTER mocks are registered.
+import { promoteDelayedJobs } from "./jobs.js";
+import type { Context } from "../context.js";
+
+const ctx = {} as Context;
+
+function makeJob(
+  id: string,
+  overrides: Partial<Omit<FakeJob, "promote">> = {},
+  promoteImpl?: () => Promise<void>,
+): FakeJob {
+  const job: FakeJob = {
+    id,
+    name: overrides.name ?? "job",
+    timestamp: overrides.timestamp,
+    state: overrides.state ?? "delayed",
+    getState: async () => job.state ?? "delayed",
+    promote:
+      promoteImpl ??
+      (async () => {
+        mockState.promoted.push(id);
+      }),
+  };
+  return job;
+}
+
+beforeEach(() => {
+  mockState.delayedJobs = [];
+  mockState.totalDelayedCount = 0;
+  mockState.promoted = [];
+});
+
+// `mock.module` is process-global in Bun; restore so the `./queues.js` stub
+// doesn't leak into later test files.
+afterAll(() => {
+  mock.restore();
+});
+
+describe("promoteDelayedJobs", () => {
+  it("previews matches on dry-run without promoting", async () => {
+    mockState.delayedJobs = [makeJob("1"), makeJob("2")];
+    mockState.totalDelayedCount = 2;
+
+    const result = await promoteDelayedJobs(ctx, "digests", { dryRun: true });
+
+    expect(result.matched).toBe(2);
+    expect(result.promoted).toBe(0);
+    expect(result.sampleJobIds).toEqual(["1", "2"]);
+    expect(mockState.promoted).toEqual([]);
+  });
+
+  it("promotes jobs matching --name and --since", async () => {
+    const now = Date.now();
+    mockState.delayedJobs = [
+      makeJob("1", { name: "nightly", timestamp: now - 1_000 }),
+      makeJob("2", { name: "nightly", timestamp: now - 10 * 3_600_000 }),
+      makeJob("3", { name: "hourly", timestamp: now - 1_000 }),
+    ];
+    mockState.totalDelayedCount = 3;
+
+    const result = await promoteDelayedJobs(ctx, "digests", { name: "nightly", since: "1h" });
+
+    expect(result.matched).toBe(1);
+    expect(result.promoted).toBe(1);
+    expect(mockState.promoted).toEqual(["1"]);
+  });
+
+  it("does not match a --job-id that is no longer delayed", async () => {
+    mockState.delayedJobs = [makeJob("7", { state: "waiting" })];
+    mockState.totalDelayedCount = 0;
+
+    const result = await promoteDelayedJobs(ctx, "digests", { jobId: "7" });
+
+    expect(result.matched).toBe(0);
+    expect(mockState.promoted).toEqual([]);
+  });
+
+  it("collects per-job errors instead of aborting the batch", async () => {
+    mockState.delayedJobs = [
+      makeJob("1", {}, async () => {
+        throw new Error("Job 1 is not in the delayed state");
+      }),
+      makeJob("2"),
+    ];
+    mockState.totalDelayedCount = 2;
+
+    const result = await promoteDelayedJobs(ctx, "digests", {});
+
+    expect(result.promoted).toBe(1);
+    expect(result.errors).toEqual([{ jobId: "1", error: "Job 1 is not in the delayed state" }]);
+  });
+
+  it("flags truncation when more delayed jobs exist than the page size", async () => {
+    mockState.delayedJobs = [makeJob("1"), makeJob("2"), makeJob("3")];
+    mockState.totalDelayedCount = 3;
+
+    const result = await promoteDelayedJobs(ctx, "digests", { pageSize: 2, dryRun: true });
+
+    expect(result.matched).toBe(2);
+    expect(result.truncated).toBe(true);
+  });
+});
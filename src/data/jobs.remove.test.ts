@@ -0,0 +1,171 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+
+// Shape of the fake Job objects the mocked queue returns.
+interface FakeJob {
+  id: string;
+  name: string;
+  timestamp?: number;
+  finishedOn?: number;
+  state: string;
+  getState: () => Promise<string>;
+  remove: () => Promise<void>;
+}
+
+interface MockState {
+  jobs: FakeJob[];
+  removed: string[];
+  requestedStates: string[][];
+}
+
+const mockState: MockState = {
+  jobs: [],
+  removed: [],
+  requestedStates: [],
+};
+
+function jobsIn(state: string): FakeJob[] {
+  return mockState.jobs.filter((job) => job.state === state);
+}
+
+mock.module("./queues.js", () => ({
+  getQueue: (_ctx: unknown, _name: string) => ({
+    getJobs: async (states: string[], start: number, end: number) => {
+      mockState.requestedStates.push(states);
+      return jobsIn(states[0]!).slice(start, end + 1);
+    },
+    getWaiting: async (start: number, end: number) => jobsIn("waiting").slice(start, end + 1),
+    getPrioritized: async (start: number, end: number) =>
+      jobsIn("prioritized").slice(start, end + 1),
+    getJobCounts: async (...states: string[]) =>
+      Object.fromEntries(states.map((state) => [state, jobsIn(state).length])),
+    getJob: async (id: string) => mockState.jobs.find((job) => job.id === id) ?? null,
+  }),
+}));
+
+// Import AFTER mocks are registered.
+import { removeJobs } from "./jobs.js";
+import type { Context } from "../context.js";
+
+const ctx = {} as Context;
+
+function makeJob(
+  id: string,
+  state: string,
+  overrides: Partial<Pick<FakeJob, "name" | "timestamp" | "finishedOn">> = {},
+  removeImpl?: () => Promise<void>,
+): FakeJob {
+  return {
+    id,
+    state,
+    name: overrides.name ?? "job",
+    timestamp: overrides.timestamp,
+    finishedOn: overrides.finishedOn,
+    getState: async () => state,
+    remove:
+      removeImpl ??
+      (async () => {
+        mockState.removed.push(id);
+      }),
+  };
+}
+
+beforeEach(() => {
+  mockState.jobs = [];
+  mockState.removed = [];
+  mockState.requestedStates = [];
+});
+
+// `mock.module` is process-global in Bun; restore so the `./queues.js` stub
+// doesn't leak into later test files.
+afterAll(() => {
+  mock.restore();
+});
+
+describe("removeJobs", () => {
+  it("previews a state batch on dry-run without removing", async () => {
+    mockState.jobs = [makeJob("1", "failed"), makeJob("2", "failed"), makeJob("3", "completed")];
+
+    const result = await removeJobs(ctx, "email", { jobState: "failed", dryRun: true });
+
+    expect(mockState.requestedStates).toEqual([["failed"]]);
+    expect(result.matched).toBe(2);
+    expect(result.removed).toBe(0);
+    expect(result.totalInState).toBe(2);
+    expect(result.sampleJobIds).toEqual(["1", "2"]);
+    expect(mockState.removed).toEqual([]);
+  });
+
+  it("filters completed jobs by finish time and name", async () => {
+    const now = Date.now();
+    mockState.jobs = [
+      makeJob("1", "completed", { name: "poison", timestamp: 0, finishedOn: now - 1_000 }),
+      makeJob("2", "completed", { name: "poison", finishedOn: now - 10 * 3_600_000 }),
+      makeJob("3", "completed", { name: "welcome", finishedOn: now - 1_000 }),
+    ];
+
+    const result = await removeJobs(ctx, "email", {
+      jobState: "completed",
+      since: "1h",
+      name: "poison",
+    });
+
+    expect(result.removed).toBe(1);
+    expect(mockState.removed).toEqual(["1"]);
+  });
+
+  it("treats wait as waiting plus prioritized jobs", async () => {
+    mockState.jobs = [makeJob("1", "waiting"), makeJob("2", "prioritized")];
+
+    const result = await removeJobs(ctx, "email", { jobState: "wait" });
+
+    expect(result.totalInState).toBe(2);
+    expect(mockState.removed).toEqual(["1", "2"]);
+  });
+
+  it("removes a single job by id without a state scan", async () => {
+    mockState.jobs = [makeJob("42", "completed")];
+
+    const result = await removeJobs(ctx, "email", { jobId: "42" });
+
+    expect(result.totalInState).toBeNull();
+    expect(mockState.removed).toEqual(["42"]);
+  });
+
+  it("skips a --job-id whose state does not match --job-state", async () => {
+    mockState.jobs = [makeJob("42", "completed")];
+
+    const result = await removeJobs(ctx, "email", { jobId: "42", jobState: "failed" });
+
+    expect(result.matched).toBe(0);
+    expect(mockState.removed).toEqual([]);
+  });
+
+  it("collects per-job errors instead of aborting the batch", async () => {
+    mockState.jobs = [
+      makeJob("1", "failed", {}, async () => {
+        throw new Error("Job 1 could not be removed because it is locked by another worker");
+      }),
+      makeJob("2", "failed"),
+    ];
+
+    const result = await removeJobs(ctx, "email", { jobState: "failed" });
+
+    expect(result.removed).toBe(1);
+    expect(result.errors).toEqual([
+      { jobId: "1", error: "Job 1 could not be removed because it is locked by another worker" },
+    ]);
+  });
+
+  it("flags truncation when more jobs exist than the page size", async () => {
+    mockState.jobs = [makeJob("1", "delayed"), makeJob("2", "delayed"), makeJob("3", "delayed")];
+
+    const result = await removeJobs(ctx, "email", {
+      jobState: "delayed",
+      pageSize: 2,
+      dryRun: true,
+    });
+
+    expect(result.matched).toBe(2);
+    expect(result.truncated).toBe(true);
+  });
+});
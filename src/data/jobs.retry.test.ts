@@ -7,6 +7,8 @@ interface FakeJob {
   finishedOn?: number;
   timestamp?: number;
   state?: string;
+  data?: unknown;
+  attemptsMade?: number;
   getState: () => Promise<string>;
   retry: (state: string) => Promise<void>;
 }
@@ -14,12 +16,14 @@ interface FakeJob {
 interface MockState {
   failedJobs: FakeJob[];
   totalFailedCount: number;
+  completedJobs: FakeJob[];
   retryBehavior: (job: FakeJob) => Promise<void>;
 }
 
 const mockState: MockState = {
   failedJobs: [],
   totalFailedCount: 0,
+  completedJobs: [],
   retryBehavior: async () => {},
 };
 
@@ -29,8 +33,14 @@ mock.module("./queues.js", () => ({
       // Match BullMQ's getFailed(0, end) contract: inclusive end index.
       return mockState.failedJobs.slice(start, end + 1);
     },
-    getJobCounts: async (..._states: string[]) => ({ failed: mockState.totalFailedCount }),
-    getJob: async (id: string) => mockState.failedJobs.find((job) => job.id === id) ?? null,
+    getCompleted: async (start: number, end: number) =>
+      mockState.completedJobs.slice(start, end + 1),
+    getJobCounts: async (..._states: string[]) => ({
+      failed: mockState.totalFailedCount,
+      completed: mockState.completedJobs.length,
+    }),
+    getJob: async (id: string) =>
+      [...mockState.failedJobs, ...mockState.completedJobs].find((job) => job.id === id) ?? null,
   }),
 }));
 
@@ -53,6 +63,8 @@ function makeJob(
     finishedOn: overrides.finishedOn,
     timestamp: overrides.timestamp,
     state: overrides.state ?? "failed",
+    data: overrides.data,
+    attemptsMade: overrides.attemptsMade,
     getState: async () => job.state ?? "failed",
     retry: retryImpl ?? (async () => mockState.retryBehavior(job)),
   };
@@ -62,6 +74,7 @@ function makeJob(
 beforeEach(() => {
   mockState.failedJobs = [];
   mockState.totalFailedCount = 0;
+  mockState.completedJobs = [];
   mockState.retryBehavior = async () => {};
 });
 
@@ -142,6 +155,22 @@ describe("retryFailedJobs — dry-run branch", () => {
 });
 
 describe("retryFailedJobs — filters", () => {
+  it("--where matches on payload and attempt fields", async () => {
+    mockState.failedJobs = [
+      makeJob("t42-retried", { data: { tenantId: 42 }, attemptsMade: 3 }),
+      makeJob("t42-fresh", { data: { tenantId: 42 }, attemptsMade: 1 }),
+      makeJob("t7", { data: { tenantId: 7 }, attemptsMade: 3 }),
+    ];
+    mockState.totalFailedCount = 3;
+
+    const result = await retryFailedJobs(ctx, "q", {
+      where: "data.tenantId == 42 && attemptsMade > 2",
+      dryRun: true,
+    });
+
+    expect(result.sampleJobIds).toEqual(["t42-retried"]);
+  });
+
   it("--since excludes jobs older than the cutoff, using finishedOn", async () => {
     const now = Date.now();
     mockState.failedJobs = [
@@ -301,6 +330,36 @@ describe("retryFailedJobs — truncation flag", () => {
   });
 });
 
+describe("retryFailedJobs — completed jobs", () => {
+  it("re-runs completed jobs and reports the completed total", async () => {
+    const retriedFrom: string[] = [];
+    mockState.completedJobs = ["a", "b"].map((id) =>
+      makeJob(id, { state: "completed" }, async (state) => {
+        retriedFrom.push(state);
+      }),
+    );
+    mockState.failedJobs = [makeJob("f")];
+    mockState.totalFailedCount = 1;
+
+    const result = await retryFailedJobs(ctx, "q", { jobState: "completed" });
+
+    expect(result.retried).toBe(2);
+    expect(result.sampleJobIds).toEqual(["a", "b"]);
+    expect(result.totalInState).toBe(2);
+    expect(result.totalFailed).toBeUndefined();
+    expect(retriedFrom).toEqual(["completed", "completed"]);
+  });
+
+  it("refuses a targeted job that is not completed", async () => {
+    mockState.failedJobs = [makeJob("f")];
+
+    const result = await retryFailedJobs(ctx, "q", { jobId: "f", jobState: "completed" });
+
+    expect(result.matched).toBe(0);
+    expect(result.retried).toBe(0);
+  });
+});
+
 describe("retryFailedJobs — validation", () => {
   it("throws on invalid --since format", async () => {
     mockState.failedJobs = [];
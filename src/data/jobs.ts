@@ -1,7 +1,16 @@
-import type { Job } from "bullmq";
+import {
+  Job,
+  type IRedisTransaction,
+  type JobsOptions,
+  type Queue,
+  type RedisClient,
+} from "bullmq";
 import type { Context } from "../context.js";
 import { getQueue } from "./queues.js";
 import { DEFAULT_RETRY_PAGE_SIZE, MAX_RETRY_PAGE_SIZE, parseDuration } from "./duration.js";
+import { compileWhere, type WherePredicate, type WhereSubject } from "./where.js";
+import { failureSignature } from "./failures.js";
+import { getJobDependencies, type JobDependencies } from "./flows.js";
 
 export type JobListView =
   | "latest"
@@ -38,6 +47,14 @@ export interface JobDetail extends JobSummary {
   progress?: number | object;
   repeatJobKey?: string;
   delay?: number;
+  /** Most recent `job.log()` lines (up to DETAIL_LOG_LIMIT), oldest first. */
+  logs?: string[];
+  /** Total number of lines the job has logged, including ones not in `logs`. */
+  logCount?: number;
+  /** Fully qualified key (`<prefix>:<queue>:<id>`) of the flow parent, if any. */
+  parentKey?: string;
+  /** Flow children, when the job is a parent. */
+  dependencies?: JobDependencies;
 }
 
 export interface JobsResult {
@@ -63,10 +80,129 @@ interface TaggedJob {
   state: string;
 }
 
+/** The fields a `--where` expression can read from a job. */
+function whereSubject(job: Job): WhereSubject {
+  return {
+    id: job.id,
+    name: job.name,
+    data: job.data,
+    opts: job.opts,
+    failedReason: job.failedReason,
+    stacktrace: job.stacktrace,
+    returnvalue: job.returnvalue,
+    progress: job.progress,
+    attemptsMade: job.attemptsMade,
+    timestamp: job.timestamp,
+    processedOn: job.processedOn,
+    finishedOn: job.finishedOn,
+    delay: job.delay,
+  };
+}
+
+function matchesWhere(job: Job, where: WherePredicate | undefined): boolean {
+  return where === undefined || where(whereSubject(job));
+}
+
+/** A BullMQ set read by the headless job listing. */
+type ListSource = "active" | "waiting" | "completed" | "failed" | "delayed" | "prioritized";
+
+/**
+ * Sets behind each `jobs list` view. Without a --job-state they are merged
+ * newest-first; `wait` lists plain waiting jobs before prioritized ones.
+ */
+const LIST_SOURCES: Record<JsonJobStatus | "all", ListSource[]> = {
+  all: ["active", "waiting", "completed", "failed", "delayed", "prioritized"],
+  wait: ["waiting", "prioritized"],
+  active: ["active"],
+  completed: ["completed"],
+  failed: ["failed"],
+  delayed: ["delayed"],
+};
+
+function readListSource(queue: Queue, source: ListSource, start: number, end: number) {
+  switch (source) {
+    case "active":
+      return queue.getActive(start, end);
+    case "waiting":
+      return queue.getWaiting(start, end);
+    case "completed":
+      return queue.getCompleted(start, end);
+    case "failed":
+      return queue.getFailed(start, end);
+    case "delayed":
+      return queue.getDelayed(start, end);
+    case "prioritized":
+      return queue.getPrioritized(start, end);
+  }
+}
+
+/**
+ * Read up to `limit` jobs from `sources`, each starting at its offset. When
+ * merging, the newest head is taken each step (ties go to the earlier set);
+ * otherwise sets are drained in order. Each set only advances past jobs that
+ * were returned, so the next page starts right after this one.
+ */
+async function readListPage(
+  queue: Queue,
+  sources: ListSource[],
+  offsets: Record<string, number>,
+  limit: number,
+  merge: boolean,
+): Promise<{ tagged: TaggedJob[]; offsets: Record<string, number>; exhausted: boolean[] }> {
+  const starts = sources.map((source) => offsets[source] ?? 0);
+  // BullMQ leaves holes for jobs removed between reading IDs and hashes.
+  const windows: Array<Array<Job | undefined>> = await Promise.all(
+    sources.map((source, i) => readListSource(queue, source, starts[i]!, starts[i]! + limit - 1)),
+  );
+  const heads = sources.map(() => 0);
+  const tagged: TaggedJob[] = [];
+
+  while (tagged.length < limit) {
+    let pick = -1;
+    for (let i = 0; i < sources.length; i++) {
+      const window = windows[i]!;
+      while (heads[i]! < window.length && !window[heads[i]!]) heads[i]! += 1;
+      const job = window[heads[i]!];
+      if (!job) continue;
+      if (pick === -1) {
+        pick = i;
+        if (!merge) break;
+      } else if ((job.timestamp || 0) > (windows[pick]![heads[pick]!]!.timestamp || 0)) {
+        pick = i;
+      }
+    }
+    if (pick === -1) break;
+    tagged.push({ job: windows[pick]![heads[pick]!]!, state: sources[pick]! });
+    heads[pick]! += 1;
+  }
+
+  return {
+    tagged,
+    offsets: Object.fromEntries(sources.map((source, i) => [source, starts[i]! + heads[i]!])),
+    // A short window that was fully consumed means the set has no more jobs.
+    exhausted: windows.map((window, i) => window.length < limit && heads[i] === window.length),
+  };
+}
+
+/** Where a `jobs list` page starts: a cursor's per-set offsets, or a position to skip to. */
+export interface JobListStart {
+  offsets?: Record<string, number>;
+  offset?: number;
+}
+
+export interface JobListPage {
+  jobs: JobSummary[];
+  total: number;
+  /** Per-set offsets to continue from; null once every set is exhausted. */
+  next: Record<string, number> | null;
+}
+
 /**
- * Get all jobs for a queue, optionally filtered by status.
- * Returns up to `maxResults` jobs (default 1000) to prevent OOM on huge queues.
- * Used by subcommand mode for bulk export.
+ * Get one page of jobs for a queue, optionally filtered by status.
+ * Returns up to `maxResults` jobs (default 1000) to prevent OOM on huge queues;
+ * pass the returned `next` offsets back in `start` for the following page.
+ * A `where` expression narrows each fetched page; `total` still counts
+ * every job in the state. Used by subcommand mode for bulk export.
  */
 export async function getAllJobs(
   ctx: Context,
@@ -74,95 +210,62 @@ export async function getAllJobs(
   status?: JsonJobStatus,
   maxResults: number = DEFAULT_MAX_RESULTS,
   includeData: boolean = false,
-): Promise<{ jobs: JobSummary[]; total: number }> {
+  where?: string,
+  start: JobListStart = {},
+): Promise<JobListPage> {
+  const predicate = where === undefined ? undefined : compileWhere(where);
   const queue = getQueue(ctx, queueName);
-  const end = maxResults - 1;
-
-  let tagged: TaggedJob[];
-  let total: number;
-
-  if (!status) {
-    // Fetch from all statuses, tag each batch with its known state
-    const counts = await queue.getJobCounts();
-    total =
-      (counts.waiting || 0) +
-      (counts.active || 0) +
-      (counts.completed || 0) +
-      (counts.failed || 0) +
-      (counts.delayed || 0) +
-      (counts.prioritized || 0);
-
-    const [active, waiting, completed, failed, delayed, prioritized] = await Promise.all([
-      queue.getActive(0, end),
-      queue.getWaiting(0, end),
-      queue.getCompleted(0, end),
-      queue.getFailed(0, end),
-      queue.getDelayed(0, end),
-      queue.getPrioritized(0, end),
-    ]);
-
-    const allTagged: TaggedJob[] = [
-      ...active.map((job) => ({ job, state: "active" })),
-      ...waiting.map((job) => ({ job, state: "waiting" })),
-      ...completed.map((job) => ({ job, state: "completed" })),
-      ...failed.map((job) => ({ job, state: "failed" })),
-      ...delayed.map((job) => ({ job, state: "delayed" })),
-      ...prioritized.map((job) => ({ job, state: "prioritized" })),
-    ];
-    allTagged.sort((a, b) => (b.job.timestamp || 0) - (a.job.timestamp || 0));
-    tagged = allTagged.slice(0, maxResults);
-  } else if (status === "wait") {
-    const waitCounts = await queue.getJobCounts("waiting", "prioritized");
-    total = (waitCounts.waiting || 0) + (waitCounts.prioritized || 0);
+  const sources = LIST_SOURCES[status ?? "all"];
+  const merge = status === undefined;
 
-    const [waitingJobs, prioritizedJobs] = await Promise.all([
-      queue.getWaiting(0, end),
-      queue.getPrioritized(0, end),
-    ]);
-
-    const combined: TaggedJob[] = [
-      ...waitingJobs.map((job) => ({ job, state: "waiting" })),
-      ...prioritizedJobs.map((job) => ({ job, state: "prioritized" })),
-    ];
-    tagged = combined.slice(0, maxResults);
-  } else {
-    switch (status) {
-      case "active":
-        tagged = (await queue.getActive(0, end)).map((job) => ({ job, state: "active" }));
-        total = (await queue.getJobCounts("active")).active || 0;
-        break;
-      case "completed":
-        tagged = (await queue.getCompleted(0, end)).map((job) => ({ job, state: "completed" }));
-        total = (await queue.getJobCounts("completed")).completed || 0;
-        break;
-      case "failed":
-        tagged = (await queue.getFailed(0, end)).map((job) => ({ job, state: "failed" }));
-        total = (await queue.getJobCounts("failed")).failed || 0;
-        break;
-      case "delayed":
-        tagged = (await queue.getDelayed(0, end)).map((job) => ({ job, state: "delayed" }));
-        total = (await queue.getJobCounts("delayed")).delayed || 0;
-        break;
-      default:
-        tagged = [];
-        total = 0;
-    }
+  let offsets = start.offsets ?? {};
+  let skip = start.offset ?? 0;
+  if (sources.length === 1) {
+    offsets = { [sources[0]!]: (offsets[sources[0]!] ?? 0) + skip };
+    skip = 0;
+  }
+  // Merged sets can't map a position to per-set offsets without reading
+  // the jobs before it.
+  while (skip > 0) {
+    // Sequential by design: each skipped page starts where the last one ended.
+    // eslint-disable-next-line no-await-in-loop
+    const skipped = await readListPage(
+      queue,
+      sources,
+      offsets,
+      Math.min(skip, DEFAULT_MAX_RESULTS),
+      merge,
+    );
+    if (skipped.tagged.length === 0) break;
+    skip -= skipped.tagged.length;
+    offsets = skipped.offsets;
   }
 
-  const jobSummaries: JobSummary[] = tagged.map(({ job, state }) => {
-    const summary: JobSummary = {
-      id: job.id || "unknown",
-      name: job.name,
-      state,
-      timestamp: job.timestamp || 0,
-    };
-    if (includeData) {
-      summary.data = job.data;
-    }
-    return summary;
-  });
+  const [counts, page] = await Promise.all([
+    queue.getJobCounts(...sources),
+    readListPage(queue, sources, offsets, maxResults, merge),
+  ]);
+  const total = sources.reduce((sum, source) => sum + (counts[source] || 0), 0);
+  const done = sources.every(
+    (source, i) => page.exhausted[i] || page.offsets[source]! >= (counts[source] || 0),
+  );
+
+  const jobSummaries: JobSummary[] = page.tagged
+    .filter(({ job }) => matchesWhere(job, predicate))
+    .map(({ job, state }) => {
+      const summary: JobSummary = {
+        id: job.id || "unknown",
+        name: job.name,
+        state,
+        timestamp: job.timestamp || 0,
+      };
+      if (includeData) {
+        summary.data = job.data;
+      }
+      return summary;
+    });
 
-  return { jobs: jobSummaries, total };
+  return { jobs: jobSummaries, total, next: done ? null : page.offsets };
 }
 
 /**
@@ -297,8 +400,13 @@ export async function getJobs(
   };
 }
 
+/** Log lines included with a job detail; older lines are paged via getJobLogs. */
+export const DETAIL_LOG_LIMIT = 100;
+export const DEFAULT_LOG_PAGE_SIZE = 1000;
+const LOG_FOLLOW_INTERVAL_MS = 1000;
+
 /**
- * Get detailed information for a single job
+ * Get detailed information for a single job, including its latest log lines
  */
 export async function getJobDetail(
   ctx: Context,
@@ -312,8 +420,86 @@ export async function getJobDetail(
     return null;
   }
 
-  const state = await job.getState();
+  // Negative indices read the tail of the log list, still in write order.
+  const [state, { logs, count }, dependencies] = await Promise.all([
+    job.getState(),
+    queue.getJobLogs(jobId, -DETAIL_LOG_LIMIT, -1),
+    getJobDependencies(job),
+  ]);
+  return { ...toJobDetail(job, state), logs, logCount: count, dependencies };
+}
+
+export interface JobLogsPage {
+  /** Log lines in write order, starting at `offset`. */
+  logs: string[];
+  /** Total number of lines the job has logged. */
+  count: number;
+  offset: number;
+}
+
+/**
+ * Read a page of a job's `job.log()` lines, oldest first. A job that doesn't
+ * exist has no logs, so callers check existence separately when it matters.
+ */
+export async function getJobLogs(
+  ctx: Context,
+  queueName: string,
+  jobId: string,
+  options: { offset?: number; limit?: number } = {},
+): Promise<JobLogsPage> {
+  const offset = options.offset ?? 0;
+  const limit = options.limit ?? DEFAULT_LOG_PAGE_SIZE;
+  const { logs, count } = await getQueue(ctx, queueName).getJobLogs(
+    jobId,
+    offset,
+    offset + limit - 1,
+  );
+  return { logs, count, offset };
+}
+
+export interface JobLogLine {
+  /** Position of the line in the job's log, starting at 0. */
+  index: number;
+  log: string;
+}
+
+/**
+ * Tail a job's logs from `offset`, polling for new lines until the job
+ * completes, fails or disappears, or `signal` aborts. The state is read
+ * before the logs on each poll, so lines written just before the job
+ * finished are still yielded.
+ */
+export async function* followJobLogs(
+  ctx: Context,
+  queueName: string,
+  jobId: string,
+  options: { offset?: number; intervalMs?: number; signal?: AbortSignal } = {},
+): AsyncGenerator<JobLogLine> {
+  const queue = getQueue(ctx, queueName);
+  const intervalMs = options.intervalMs ?? LOG_FOLLOW_INTERVAL_MS;
+  let next = options.offset ?? 0;
+
+  // Sequential by design: each poll picks up where the previous one stopped.
+  for (;;) {
+    // eslint-disable-next-line no-await-in-loop
+    const state = await queue.getJobState(jobId);
+    // eslint-disable-next-line no-await-in-loop
+    const { logs } = await queue.getJobLogs(jobId, next, -1);
+    for (const log of logs) {
+      yield { index: next, log };
+      next += 1;
+    }
 
+    if (state === "completed" || state === "failed" || state === "unknown") return;
+    if (options.signal?.aborted) return;
+    // eslint-disable-next-line no-await-in-loop
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    if (options.signal?.aborted) return;
+  }
+}
+
+/** Map a loaded BullMQ job to the public JobDetail shape. */
+export function toJobDetail(job: Job, state: string): JobDetail {
   return {
     id: job.id || "unknown",
     name: job.name,
@@ -330,6 +516,7 @@ export async function getJobDetail(
     progress: job.progress as number | object | undefined,
     repeatJobKey: job.repeatJobKey,
     delay: job.delay,
+    parentKey: job.parentKey,
   };
 }
 
@@ -348,152 +535,689 @@ export async function deleteJob(ctx: Context, queueName: string, jobId: string):
   return true;
 }
 
-// ── jobs retry ──────────────────────────────────────────────────────────
+export interface AddJobOptions {
+  name: string;
+  data: unknown;
+  delay?: number;
+  priority?: number;
+  attempts?: number;
+  jobId?: string;
+}
+
+/** Raised by addJob when a custom job ID is already taken in the queue. */
+export class DuplicateJobIdError extends Error {}
+
+/**
+ * Enqueue a new job and return it in the same shape as getJobDetail.
+ * BullMQ silently hands back the existing job when a custom jobId is already
+ * taken, so that case is rejected up front instead of looking like success.
+ */
+export async function addJob(
+  ctx: Context,
+  queueName: string,
+  options: AddJobOptions,
+): Promise<JobDetail> {
+  const queue = getQueue(ctx, queueName);
+  const { name, data, jobId, delay, priority, attempts } = options;
+
+  if (jobId !== undefined && (await queue.getJob(jobId))) {
+    throw new DuplicateJobIdError(`Job '${jobId}' already exists in queue '${queueName}'`);
+  }
+
+  const job = await queue.add(name, data, { jobId, delay, priority, attempts });
+  return toJobDetail(job, await job.getState());
+}
+
+// ── Bulk job actions ────────────────────────────────────────────────────
 
 const SAMPLE_ID_COUNT = 5;
 
+/** A per-job failure collected by bulk actions; the batch keeps going. */
+export interface JobActionError {
+  jobId: string;
+  error: string;
+}
+
+interface BatchFilterOptions {
+  since?: string;
+  name?: string;
+  /** Where-expression over job fields (see where.ts). */
+  where?: string;
+  /** Failure-group ID from `jobs failures` (see failures.ts). */
+  failureGroup?: string;
+}
+
+interface BatchOutcome {
+  matched: number;
+  applied: number;
+  errors: JobActionError[];
+  sampleJobIds: string[];
+}
+
+/**
+ * Translate a `--since` window into an absolute cutoff. The CLI validates the
+ * format up front; this guard covers the web and programmatic callers.
+ */
+function resolveSinceCutoff(since: string | undefined): number | undefined {
+  if (since === undefined) return undefined;
+  const durationMs = parseDuration(since);
+  if (durationMs === null) {
+    throw new Error(`Invalid --since value '${since}'. Expected format: 30s, 5m, 1h, 24h, 7d`);
+  }
+  return Date.now() - durationMs;
+}
+
+/** When a job completed or failed. finishedOn falls back to creation time. */
+function finishedAt(job: Job): number {
+  return job.finishedOn ?? job.timestamp ?? 0;
+}
+
+/** When a job was added to the queue. */
+function createdAt(job: Job): number {
+  return job.timestamp ?? 0;
+}
+
+function applyJobFilters(
+  jobs: Job[],
+  cutoffMs: number | undefined,
+  options: BatchFilterOptions,
+  timeOf: (job: Job) => number,
+) {
+  const where = options.where === undefined ? undefined : compileWhere(options.where);
+  return jobs.filter((job) => {
+    if (cutoffMs !== undefined && timeOf(job) < cutoffMs) return false;
+    if (options.name !== undefined && job.name !== options.name) return false;
+    if (options.failureGroup !== undefined && failureSignature(job).id !== options.failureGroup) {
+      return false;
+    }
+    return matchesWhere(job, where);
+  });
+}
+
+/**
+ * Run `action` over every matched job, collecting per-job errors instead of
+ * stopping. Dry-run never touches Redis; it only samples matched IDs.
+ */
+async function applyToMatchedJobs(
+  matched: Job[],
+  dryRun: boolean,
+  action: (job: Job) => Promise<void>,
+): Promise<BatchOutcome> {
+  const sampleJobIds = matched
+    .map((job) => job.id)
+    .filter((id): id is string => typeof id === "string" && id.length > 0)
+    .slice(0, SAMPLE_ID_COUNT);
+
+  if (dryRun) {
+    return { matched: matched.length, applied: 0, errors: [], sampleJobIds };
+  }
+
+  let applied = 0;
+  const errors: JobActionError[] = [];
+
+  for (const job of matched) {
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      await action(job);
+      applied += 1;
+    } catch (err) {
+      errors.push({
+        jobId: job.id ?? "unknown",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return { matched: matched.length, applied, errors, sampleJobIds };
+}
+
+// ── jobs retry ──────────────────────────────────────────────────────────
+
+/** States `jobs retry` can re-run jobs from. */
+export const RETRYABLE_JOB_STATES = ["failed", "completed"] as const;
+export type RetryableJobState = (typeof RETRYABLE_JOB_STATES)[number];
+
 export interface RetryResult {
   matched: number;
   retried: number;
-  errors: Array<{ jobId: string; error: string }>;
+  errors: JobActionError[];
   sampleJobIds: string[];
-  totalFailed: number;
+  /** Jobs in the retried state. */
+  totalInState: number;
+  /** Same as totalInState, set only for failed retries; kept for existing JSON consumers. */
+  totalFailed?: number;
   truncated: boolean;
 }
 
 /**
- * Retry failed jobs in a queue, either by exact job ID or as a filtered batch.
- * Operates on failed jobs only. Partial failures are best-effort: per-job
- * errors are collected into `errors[]` and the function completes. Callers
- * decide exit code based on `errors.length > 0`.
+ * Retry failed (default) or completed jobs in a queue, either by exact job ID
+ * or as a filtered batch. Completed jobs use BullMQ's retry-from-completed,
+ * which moves them back to wait to run again. Partial failures are
+ * best-effort: per-job errors are collected into `errors[]` and the function
+ * completes. Callers decide exit code based on `errors.length > 0`.
  */
 export async function retryFailedJobs(
   ctx: Context,
   queueName: string,
-  options: {
-    since?: string;
-    name?: string;
+  options: BatchFilterOptions & {
+    jobState?: RetryableJobState;
     jobId?: string;
     pageSize?: number;
     dryRun?: boolean;
   },
 ): Promise<RetryResult> {
+  const jobState = options.jobState ?? "failed";
   const pageSize = Math.min(options.pageSize ?? DEFAULT_RETRY_PAGE_SIZE, MAX_RETRY_PAGE_SIZE);
   const dryRun = options.dryRun ?? false;
+  const cutoffMs = resolveSinceCutoff(options.since);
 
-  let cutoffMs: number | undefined;
-  if (options.since !== undefined) {
-    const durationMs = parseDuration(options.since);
-    if (durationMs === null) {
-      throw new Error(
-        `Invalid --since value '${options.since}'. Expected format: 30s, 5m, 1h, 24h, 7d`,
-      );
-    }
-    cutoffMs = Date.now() - durationMs;
+  const queue = getQueue(ctx, queueName);
+  const countsPromise = queue.getJobCounts(jobState);
+
+  let candidates: Job[];
+  let totalInState: number;
+  let truncated = false;
+
+  if (options.jobId !== undefined) {
+    const [job, counts] = await Promise.all([queue.getJob(options.jobId), countsPromise]);
+    totalInState = counts[jobState] || 0;
+    candidates = job && (await job.getState()) === jobState ? [job] : [];
+  } else {
+    const [fetchedJobs, counts] = await Promise.all([
+      jobState === "failed"
+        ? queue.getFailed(0, pageSize - 1)
+        : queue.getCompleted(0, pageSize - 1),
+      countsPromise,
+    ]);
+    totalInState = counts[jobState] || 0;
+    candidates = fetchedJobs;
+    truncated = totalInState > candidates.length;
   }
 
+  // Apply client-side filters. finishedOn is when the job failed or
+  // completed; fall back to timestamp (creation) if finishedOn isn't set yet.
+  const matched = applyJobFilters(candidates, cutoffMs, options, finishedAt);
+  const outcome = await applyToMatchedJobs(matched, dryRun, (job) => job.retry(jobState));
+
+  return {
+    matched: outcome.matched,
+    retried: outcome.applied,
+    errors: outcome.errors,
+    sampleJobIds: outcome.sampleJobIds,
+    totalInState,
+    ...(jobState === "failed" ? { totalFailed: totalInState } : {}),
+    truncated,
+  };
+}
+
+// ── jobs promote ────────────────────────────────────────────────────────
+
+export interface PromoteResult {
+  matched: number;
+  promoted: number;
+  errors: JobActionError[];
+  sampleJobIds: string[];
+  totalDelayed: number;
+  truncated: boolean;
+}
+
+/**
+ * Promote delayed jobs so they run now, either by exact job ID or as a
+ * filtered batch. `since` matches jobs added within the window (delayed jobs
+ * have no finish time). Same best-effort error contract as retryFailedJobs.
+ */
+export async function promoteDelayedJobs(
+  ctx: Context,
+  queueName: string,
+  options: BatchFilterOptions & {
+    jobId?: string;
+    pageSize?: number;
+    dryRun?: boolean;
+  },
+): Promise<PromoteResult> {
+  const pageSize = Math.min(options.pageSize ?? DEFAULT_RETRY_PAGE_SIZE, MAX_RETRY_PAGE_SIZE);
+  const dryRun = options.dryRun ?? false;
+  const cutoffMs = resolveSinceCutoff(options.since);
+
   const queue = getQueue(ctx, queueName);
+  const countsPromise = queue.getJobCounts("delayed");
 
-  let failedJobs: Job[];
+  let delayedJobs: Job[];
+  let totalDelayed: number;
   let truncated = false;
-  const countsPromise = queue.getJobCounts("failed");
 
   if (options.jobId !== undefined) {
     const [job, counts] = await Promise.all([queue.getJob(options.jobId), countsPromise]);
-    const totalFailed = counts.failed || 0;
-    if (!job) {
-      return {
-        matched: 0,
-        retried: 0,
-        errors: [],
-        sampleJobIds: [],
-        totalFailed,
-        truncated: false,
-      };
-    }
-    const state = await job.getState();
-    failedJobs = state === "failed" ? [job] : [];
-    const matched = applyRetryFilters(failedJobs, cutoffMs, options.name);
-    return retryMatchedJobs(matched, totalFailed, false, dryRun);
+    totalDelayed = counts.delayed || 0;
+    delayedJobs = job && (await job.getState()) === "delayed" ? [job] : [];
+  } else {
+    const [fetchedDelayedJobs, counts] = await Promise.all([
+      queue.getDelayed(0, pageSize - 1),
+      countsPromise,
+    ]);
+    totalDelayed = counts.delayed || 0;
+    delayedJobs = fetchedDelayedJobs;
+    truncated = totalDelayed > delayedJobs.length;
+  }
+
+  const matched = applyJobFilters(delayedJobs, cutoffMs, options, createdAt);
+  const outcome = await applyToMatchedJobs(matched, dryRun, (job) => job.promote());
+
+  return {
+    matched: outcome.matched,
+    promoted: outcome.applied,
+    errors: outcome.errors,
+    sampleJobIds: outcome.sampleJobIds,
+    totalDelayed,
+    truncated,
+  };
+}
+
+// ── jobs remove ─────────────────────────────────────────────────────────
+
+/**
+ * States `jobs remove` and `jobs move` can target. Active jobs are locked by
+ * their worker and BullMQ refuses to remove them, so they are deliberately
+ * not offered.
+ */
+export const REMOVABLE_JOB_STATES = ["wait", "completed", "failed", "delayed"] as const;
+export type RemovableJobState = (typeof REMOVABLE_JOB_STATES)[number];
+
+export interface RemoveResult {
+  matched: number;
+  removed: number;
+  errors: JobActionError[];
+  sampleJobIds: string[];
+  /** Jobs in the targeted state; null when only a --job-id was given. */
+  totalInState: number | null;
+  truncated: boolean;
+}
+
+/** Fetch up to `pageSize` jobs in one removable state plus the state's total. */
+async function fetchRemovableJobs(
+  queue: Queue,
+  state: RemovableJobState,
+  pageSize: number,
+): Promise<{ jobs: Job[]; total: number }> {
+  const end = pageSize - 1;
+  if (state === "wait") {
+    // "wait" spans plain waiting and prioritized jobs, as in getAllJobs.
+    const [counts, waiting, prioritized] = await Promise.all([
+      queue.getJobCounts("waiting", "prioritized"),
+      queue.getWaiting(0, end),
+      queue.getPrioritized(0, end),
+    ]);
+    return {
+      jobs: [...waiting, ...prioritized].slice(0, pageSize),
+      total: (counts.waiting || 0) + (counts.prioritized || 0),
+    };
   }
 
-  const [fetchedFailedJobs, counts] = await Promise.all([
-    queue.getFailed(0, pageSize - 1),
-    countsPromise,
+  const [counts, jobs] = await Promise.all([
+    queue.getJobCounts(state),
+    queue.getJobs([state], 0, end),
   ]);
-  const totalFailed = counts.failed || 0;
-  failedJobs = fetchedFailedJobs;
-  truncated = totalFailed > failedJobs.length;
+  return { jobs, total: counts[state] || 0 };
+}
+
+type RemovableSelection = BatchFilterOptions & {
+  jobState?: RemovableJobState;
+  jobId?: string;
+  pageSize?: number;
+};
+
+/**
+ * Resolve the jobs a remove-style action targets: one job by ID (optionally
+ * required to be in `jobState`), or a page of one state narrowed by the
+ * `since`/`name` filters. `since` matches on finish time for completed and
+ * failed jobs and on creation time otherwise.
+ */
+async function selectRemovableJobs(
+  queue: Queue,
+  options: RemovableSelection,
+  command: string,
+): Promise<{ matched: Job[]; totalInState: number | null; truncated: boolean }> {
+  const pageSize = Math.min(options.pageSize ?? DEFAULT_RETRY_PAGE_SIZE, MAX_RETRY_PAGE_SIZE);
+  const cutoffMs = resolveSinceCutoff(options.since);
+  const timeOf =
+    options.jobState === "completed" || options.jobState === "failed" ? finishedAt : createdAt;
 
-  // Apply client-side filters. finishedOn is when the job transitioned to
-  // failed; fall back to timestamp (creation) if finishedOn isn't set yet.
-  const matched = applyRetryFilters(failedJobs, cutoffMs, options.name);
+  let candidates: Job[];
+  let totalInState: number | null = null;
+  let truncated = false;
 
-  return retryMatchedJobs(matched, totalFailed, truncated, dryRun);
+  if (options.jobId !== undefined) {
+    const job = await queue.getJob(options.jobId);
+    candidates = job ? [job] : [];
+    if (job && options.jobState !== undefined) {
+      // getState reports "waiting"/"prioritized"; both count as "wait".
+      const state = await job.getState();
+      const normalized = state === "waiting" || state === "prioritized" ? "wait" : state;
+      if (normalized !== options.jobState) candidates = [];
+    }
+  } else if (options.jobState !== undefined) {
+    const fetched = await fetchRemovableJobs(queue, options.jobState, pageSize);
+    candidates = fetched.jobs;
+    totalInState = fetched.total;
+    truncated = fetched.total > fetched.jobs.length;
+  } else {
+    throw new Error(`${command} requires a job ID or a job state`);
+  }
+
+  return {
+    matched: applyJobFilters(candidates, cutoffMs, options, timeOf),
+    totalInState,
+    truncated,
+  };
 }
 
-function applyRetryFilters(jobs: Job[], cutoffMs: number | undefined, name: string | undefined) {
-  return jobs.filter((job) => {
-    if (cutoffMs !== undefined) {
-      const whenFailed = job.finishedOn ?? job.timestamp ?? 0;
-      if (whenFailed < cutoffMs) return false;
+/**
+ * Permanently remove jobs from a queue, either by exact job ID or as a
+ * filtered batch of one state. `since` matches on finish time for completed
+ * and failed jobs and on creation time otherwise. Same best-effort error
+ * contract as retryFailedJobs.
+ */
+export async function removeJobs(
+  ctx: Context,
+  queueName: string,
+  options: RemovableSelection & { dryRun?: boolean },
+): Promise<RemoveResult> {
+  const queue = getQueue(ctx, queueName);
+  const { matched, totalInState, truncated } = await selectRemovableJobs(
+    queue,
+    options,
+    "jobs remove",
+  );
+  const outcome = await applyToMatchedJobs(matched, options.dryRun ?? false, (job) => job.remove());
+
+  return {
+    matched: outcome.matched,
+    removed: outcome.applied,
+    errors: outcome.errors,
+    sampleJobIds: outcome.sampleJobIds,
+    totalInState,
+    truncated,
+  };
+}
+
+// ── jobs move ───────────────────────────────────────────────────────────
+
+/**
+ * Job options that stay meaningful when a job is re-created elsewhere.
+ * Scheduling state (delay, timestamps, repeat, parent links, deduplication)
+ * belongs to the original enqueue and is dropped.
+ */
+const PORTABLE_JOB_OPTION_KEYS = [
+  "attempts",
+  "backoff",
+  "priority",
+  "lifo",
+  "removeOnComplete",
+  "removeOnFail",
+  "keepLogs",
+  "stackTraceLimit",
+] as const;
+
+/** Pick the portable subset of a job's options for re-creating it as a fresh job. */
+export function portableJobOptions(raw: unknown): JobsOptions {
+  const opts: Record<string, unknown> = {};
+  if (!raw || typeof raw !== "object") return opts;
+  for (const key of PORTABLE_JOB_OPTION_KEYS) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (value !== undefined) opts[key] = value;
+  }
+  return opts as JobsOptions;
+}
+
+export interface MoveResult {
+  matched: number;
+  moved: number;
+  errors: JobActionError[];
+  sampleJobIds: string[];
+  /** Jobs in the targeted source state; null when only a --job-id was given. */
+  totalInState: number | null;
+  truncated: boolean;
+}
+
+/** BullMQ's client interface leaves out WATCH/UNWATCH; ioredis has both. */
+type WatchableRedisClient = RedisClient & {
+  watch(...keys: string[]): Promise<"OK">;
+  unwatch(): Promise<"OK">;
+};
+
+/**
+ * Why BullMQ's removeJob script would refuse to remove this job right now
+ * (see its isLocked and isJobSchedulerJob checks), or null when it wouldn't.
+ */
+async function moveBlocker(
+  client: RedisClient,
+  jobId: string,
+  jobKey: string,
+  repeatKey: string,
+): Promise<string | null> {
+  const [name, lock, schedulerId] = await Promise.all([
+    client.hget(jobKey, "name"),
+    client.get(`${jobKey}:lock`),
+    client.hget(jobKey, "rjk"),
+  ]);
+  if (name === null) return "no longer exists";
+  if (lock !== null) return "is locked by a worker";
+  if (schedulerId !== null) {
+    const nextMillis = await client.zscore(repeatKey, schedulerId);
+    if (nextMillis !== null && jobId === `repeat:${schedulerId}:${nextMillis}`) {
+      return "is the next run of a job scheduler";
     }
-    if (name !== undefined && job.name !== name) return false;
-    return true;
-  });
+  }
+  return null;
 }
 
-async function retryMatchedJobs(
-  matched: Job[],
-  totalFailed: number,
-  truncated: boolean,
-  dryRun: boolean,
-): Promise<RetryResult> {
-  const matchedIds = matched
-    .map((job) => job.id)
-    .filter((id): id is string => typeof id === "string" && id.length > 0);
+/**
+ * Re-create one job in the target and remove it from the source in a single
+ * MULTI, so either both happen or neither does.
+ *
+ * Redis doesn't roll a MULTI back when one of its commands fails, so the
+ * removal must not be able to refuse. The job hash, its lock and the
+ * scheduler set are WATCHed and checked against removeJob's own conditions
+ * first; if any of them changes before EXEC, the transaction is discarded.
+ */
+async function moveJobAtomically(source: Queue, target: Queue, job: Job): Promise<void> {
+  const jobId = job.id;
+  if (!jobId) throw new Error("Job has no ID");
+  const client = (await source.client) as WatchableRedisClient;
+  const jobKey = source.toKey(jobId);
+  const repeatKey = source.toKey("repeat");
 
-  const sampleIds = matchedIds.slice(0, SAMPLE_ID_COUNT);
+  await client.watch(jobKey, `${jobKey}:lock`, repeatKey);
+  let transaction: IRedisTransaction;
+  try {
+    const blocker = await moveBlocker(client, jobId, jobKey, repeatKey);
+    if (blocker) throw new Error(`Job ${jobId} ${blocker}`);
 
-  // Dry-run: don't touch Redis, just report what would happen.
-  if (dryRun) {
-    return {
-      matched: matched.length,
-      retried: 0,
-      errors: [],
-      sampleJobIds: sampleIds,
-      totalFailed,
-      truncated,
-    };
+    transaction = client.multi();
+    const copy = new Job(target, job.name, job.data, portableJobOptions(job.opts));
+    // Both calls only queue a script on the transaction; EXEC runs them.
+    void copy.addJob(transaction);
+    source.scripts.execCommand(transaction, "removeJob", [
+      jobKey,
+      repeatKey,
+      jobId,
+      0,
+      source.toKey(""),
+    ]);
+  } catch (err) {
+    await client.unwatch();
+    throw err;
   }
 
-  // Live retry: call job.retry() per-match, collecting errors.
-  let retried = 0;
-  const errors: RetryResult["errors"] = [];
+  const results = await transaction.exec();
+  if (results === null) {
+    throw new Error(`Job ${jobId} changed while it was being moved and was left in place`);
+  }
+  const failure = results.find(([err]) => err !== null)?.[0];
+  if (failure) throw failure;
+}
 
-  for (const job of matched) {
-    try {
-      // eslint-disable-next-line no-await-in-loop
-      await job.retry("failed");
-      retried += 1;
-    } catch (err) {
-      errors.push({
-        jobId: job.id ?? "unknown",
-        error: err instanceof Error ? err.message : String(err),
-      });
+/**
+ * Move jobs to another queue: each matched job is re-created in the target
+ * with its name, data and portable options and removed from the source in
+ * one transaction. A job a worker holds, or one that changes mid-move, is
+ * reported in `errors` and stays in the source. Flow children of a moved job
+ * are not moved or removed. Target jobs get fresh IDs, so an ID already used
+ * in the target can't swallow a move. Same best-effort error contract as
+ * retryFailedJobs.
+ */
+export async function moveJobs(
+  ctx: Context,
+  queueName: string,
+  targetQueueName: string,
+  options: RemovableSelection & { dryRun?: boolean },
+): Promise<MoveResult> {
+  const source = getQueue(ctx, queueName);
+  const target = getQueue(ctx, targetQueueName);
+  const { matched, totalInState, truncated } = await selectRemovableJobs(
+    source,
+    options,
+    "jobs move",
+  );
+
+  const outcome = await applyToMatchedJobs(matched, options.dryRun ?? false, (job) =>
+    moveJobAtomically(source, target, job),
+  );
+
+  return {
+    matched: outcome.matched,
+    moved: outcome.applied,
+    errors: outcome.errors,
+    sampleJobIds: outcome.sampleJobIds,
+    totalInState,
+    truncated,
+  };
+}
+
+// ── queues clean ────────────────────────────────────────────────────────
+
+/** Job sets `queues clean` can target (a subset of what Queue.clean accepts). */
+export const CLEANABLE_JOB_STATES = ["completed", "failed", "delayed", "wait"] as const;
+export type CleanableJobState = (typeof CLEANABLE_JOB_STATES)[number];
+
+/** Upper bound on jobs a dry-run inspects, so a preview never walks millions. */
+export const CLEAN_DRY_RUN_SCAN_LIMIT = 10000;
+const CLEAN_SCAN_BATCH_SIZE = 1000;
+
+export interface CleanQueueResult {
+  /** Jobs removed, or on dry-run the jobs that would be removed. */
+  matched: number;
+  removed: number;
+  sampleJobIds: string[];
+  /** Dry-run only: the scan stopped at CLEAN_DRY_RUN_SCAN_LIMIT. */
+  truncated: boolean;
+}
+
+/**
+ * The timestamp Queue.clean compares against the grace cutoff, per set:
+ * finishedOn for completed/failed, processedOn then timestamp for delayed,
+ * and the first of finishedOn/processedOn/timestamp for wait.
+ */
+function cleanReferenceTime(job: Job, state: CleanableJobState): number | undefined {
+  switch (state) {
+    case "completed":
+    case "failed":
+      return job.finishedOn;
+    case "delayed":
+      return job.processedOn ?? job.timestamp;
+    case "wait":
+      return job.finishedOn ?? job.processedOn ?? job.timestamp;
+  }
+}
+
+/**
+ * Count the jobs Queue.clean would remove without touching Redis. Finished
+ * sets are scored by finish time, so an oldest-first scan can stop at the
+ * first job inside the grace window; other sets are scanned up to the cap.
+ */
+async function previewClean(
+  queue: Queue,
+  state: CleanableJobState,
+  cutoffMs: number,
+  limit: number | undefined,
+): Promise<CleanQueueResult> {
+  const sortedByAge = state === "completed" || state === "failed";
+  const matchedIds: string[] = [];
+  let scanned = 0;
+  let truncated = false;
+
+  let done = false;
+
+  while (!done) {
+    if (scanned >= CLEAN_DRY_RUN_SCAN_LIMIT) {
+      truncated = true;
+      break;
+    }
+    // Pages are sequential by design: each one decides whether to continue.
+    // eslint-disable-next-line no-await-in-loop
+    const page = await queue.getJobs([state], scanned, scanned + CLEAN_SCAN_BATCH_SIZE - 1, true);
+    if (page.length === 0) break;
+    scanned += page.length;
+
+    for (const job of page) {
+      const referenceTime = cleanReferenceTime(job, state);
+      const expired = referenceTime === undefined || referenceTime <= cutoffMs;
+      if (!expired) {
+        if (sortedByAge) {
+          // Everything after this job finished even more recently.
+          done = true;
+          break;
+        }
+        continue;
+      }
+      // Queue.clean leaves the current job of a job scheduler in place.
+      if (job.repeatJobKey) continue;
+      if (job.id) matchedIds.push(job.id);
+      if (limit !== undefined && matchedIds.length >= limit) {
+        done = true;
+        break;
+      }
     }
   }
 
   return {
-    matched: matched.length,
-    retried,
-    errors,
-    sampleJobIds: sampleIds,
-    totalFailed,
+    matched: matchedIds.length,
+    removed: 0,
+    sampleJobIds: matchedIds.slice(0, SAMPLE_ID_COUNT),
     truncated,
   };
 }
 
+/**
+ * Remove jobs older than a grace period from one set via Queue.clean.
+ * `limit` caps how many jobs are removed; omitted means no cap.
+ */
+export async function cleanQueue(
+  ctx: Context,
+  queueName: string,
+  options: {
+    jobState: CleanableJobState;
+    graceMs: number;
+    limit?: number;
+    dryRun?: boolean;
+  },
+): Promise<CleanQueueResult> {
+  const queue = getQueue(ctx, queueName);
+  const cutoffMs = Date.now() - options.graceMs;
+
+  if (options.dryRun) {
+    return previewClean(queue, options.jobState, cutoffMs, options.limit);
+  }
+
+  const removedIds = await queue.clean(options.graceMs, options.limit ?? 0, options.jobState);
+  return {
+    matched: removedIds.length,
+    removed: removedIds.length,
+    sampleJobIds: removedIds.slice(0, SAMPLE_ID_COUNT),
+    truncated: false,
+  };
+}
+
 /**
  * Format timestamp to relative time string
  */
@@ -0,0 +1,107 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+
+// Finished jobs as the mocked completed and failed sets return them, newest first.
+interface FakeJob {
+  name: string;
+  timestamp: number;
+  delay?: number;
+  processedOn?: number;
+  finishedOn?: number;
+}
+
+const mockState: { completed: Array<FakeJob | undefined>; failed: FakeJob[] } = {
+  completed: [],
+  failed: [],
+};
+const reads: Array<[string, number, number]> = [];
+
+mock.module("./queues.js", () => ({
+  getQueue: (_ctx: unknown, _name: string) => ({
+    getCompleted: async (start: number, end: number) => {
+      reads.push(["completed", start, end]);
+      return mockState.completed.slice(start, end + 1);
+    },
+    getFailed: async (start: number, end: number) => {
+      reads.push(["failed", start, end]);
+      return mockState.failed.slice(start, end + 1);
+    },
+  }),
+}));
+
+// Import AFTER mocks are registered.
+import { formatLatency, getQueueLatency, summarizeDurations } from "./latency.js";
+import type { Context } from "../context.js";
+
+const ctx = {} as Context;
+
+beforeEach(() => {
+  reads.length = 0;
+  mockState.completed = [
+    { name: "send", timestamp: 1000, processedOn: 1100, finishedOn: 1600 },
+    // Delayed by 5s: waiting only starts once the delay is over.
+    { name: "send", timestamp: 1000, delay: 5000, processedOn: 6300, finishedOn: 6400 },
+    // Removed between reading IDs and hashes.
+    undefined,
+    { name: "digest", timestamp: 2000, processedOn: 2000, finishedOn: 9000 },
+  ];
+  mockState.failed = [{ name: "send", timestamp: 500, processedOn: 1500, finishedOn: 1550 }];
+});
+
+// `mock.module` is process-global in Bun; restore so the `./queues.js` stub
+// doesn't leak into later test files.
+afterAll(() => {
+  mock.restore();
+});
+
+describe("summarizeDurations", () => {
+  it("uses nearest-rank percentiles", () => {
+    const durations = Array.from({ length: 100 }, (_, index) => 100 - index);
+    expect(summarizeDurations(durations)).toEqual({ samples: 100, p50: 50, p90: 90, p99: 99 });
+    expect(summarizeDurations([7])).toEqual({ samples: 1, p50: 7, p90: 7, p99: 7 });
+    expect(summarizeDurations([])).toEqual({ samples: 0, p50: null, p90: null, p99: null });
+  });
+});
+
+describe("getQueueLatency", () => {
+  it("measures wait and processing time overall and per job name", async () => {
+    const result = await getQueueLatency(ctx, "email", { sampleSize: 10 });
+
+    expect(reads).toEqual([
+      ["completed", 0, 9],
+      ["failed", 0, 9],
+    ]);
+    expect(result).toMatchObject({ sampleSize: 10, completed: 3, failed: 1, from: 1550, to: 9000 });
+    expect(result.overall.jobs).toBe(4);
+    expect(result.overall.waitMs).toMatchObject({ samples: 4, p50: 100, p99: 1000 });
+    expect(result.byName.map((group) => [group.name, group.jobs])).toEqual([
+      ["send", 3],
+      ["digest", 1],
+    ]);
+    expect(result.byName[0]!.waitMs).toEqual({ samples: 3, p50: 300, p90: 1000, p99: 1000 });
+    expect(result.byName[0]!.processingMs).toEqual({ samples: 3, p50: 100, p90: 500, p99: 500 });
+  });
+
+  it("counts unprocessed jobs without timing them", async () => {
+    mockState.completed = [{ name: "send", timestamp: 1000 }];
+    mockState.failed = [];
+
+    const result = await getQueueLatency(ctx, "email");
+
+    expect(reads[0]).toEqual(["completed", 0, 999]);
+    expect(result.overall).toEqual({
+      jobs: 1,
+      waitMs: { samples: 0, p50: null, p90: null, p99: null },
+      processingMs: { samples: 0, p50: null, p90: null, p99: null },
+    });
+    expect(result.from).toBeNull();
+  });
+});
+
+describe("formatLatency", () => {
+  it("picks a unit by magnitude", () => {
+    expect(formatLatency(null)).toBe("-");
+    expect(formatLatency(850)).toBe("850ms");
+    expect(formatLatency(1234)).toBe("1.2s");
+    expect(formatLatency(125_000)).toBe("2m 5s");
+  });
+});
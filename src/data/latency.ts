@@ -0,0 +1,147 @@
+import type { Job } from "bullmq";
+import type { Context } from "../context.js";
+import { getQueue } from "./queues.js";
+import { formatInterval } from "./schedulers.js";
+
+/** Newest completed and newest failed jobs read per latency sample. */
+export const DEFAULT_LATENCY_SAMPLE_SIZE = 1000;
+
+/** Nearest-rank percentiles in milliseconds; null when nothing was measured. */
+export interface LatencyPercentiles {
+  samples: number;
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+}
+
+export interface LatencySummary {
+  jobs: number;
+  /** Time from when the job became runnable (timestamp + delay) to processedOn. */
+  waitMs: LatencyPercentiles;
+  /** finishedOn − processedOn of the final attempt. */
+  processingMs: LatencyPercentiles;
+}
+
+export interface LatencyGroup extends LatencySummary {
+  name: string;
+}
+
+export interface QueueLatencyResult {
+  /** Jobs read from each of the completed and failed sets. */
+  sampleSize: number;
+  completed: number;
+  failed: number;
+  /** finishedOn range of the sampled jobs; null for an empty sample. */
+  from: number | null;
+  to: number | null;
+  overall: LatencySummary;
+  /** Largest groups first. */
+  byName: LatencyGroup[];
+}
+
+/** Nearest-rank percentile of an ascending list. */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(rank, 1) - 1]!;
+}
+
+export function summarizeDurations(durations: number[]): LatencyPercentiles {
+  const sorted = durations.toSorted((a, b) => a - b);
+  return {
+    samples: sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+  };
+}
+
+/**
+ * Format a latency for display: milliseconds below a second, one decimal
+ * below a minute, then formatInterval-style units.
+ */
+export function formatLatency(ms: number | null): string {
+  if (ms === null) return "-";
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return formatInterval(ms);
+}
+
+interface Timings {
+  wait: number[];
+  processing: number[];
+  jobs: number;
+}
+
+function addTimings(timings: Timings, job: Job): void {
+  timings.jobs += 1;
+  if (!job.processedOn) return;
+  // Clamp clock skew between producers and workers to zero.
+  const runnableAt = (job.timestamp || 0) + (job.delay || 0);
+  timings.wait.push(Math.max(job.processedOn - runnableAt, 0));
+  if (job.finishedOn) {
+    timings.processing.push(Math.max(job.finishedOn - job.processedOn, 0));
+  }
+}
+
+function summarize(timings: Timings): LatencySummary {
+  return {
+    jobs: timings.jobs,
+    waitMs: summarizeDurations(timings.wait),
+    processingMs: summarizeDurations(timings.processing),
+  };
+}
+
+/**
+ * Wait-time and processing-time percentiles for a queue, overall and per
+ * job name, over the newest `sampleSize` completed and failed jobs. Only
+ * finished jobs carry both processedOn and finishedOn, so active and waiting
+ * jobs are left out.
+ */
+export async function getQueueLatency(
+  ctx: Context,
+  queueName: string,
+  options: { sampleSize?: number } = {},
+): Promise<QueueLatencyResult> {
+  const sampleSize = options.sampleSize ?? DEFAULT_LATENCY_SAMPLE_SIZE;
+  const queue = getQueue(ctx, queueName);
+  const [completed, failed] = await Promise.all([
+    queue.getCompleted(0, sampleSize - 1),
+    queue.getFailed(0, sampleSize - 1),
+  ]);
+  // Jobs removed between reading IDs and hashes come back empty.
+  const jobs = [...completed, ...failed].filter((job): job is Job => Boolean(job));
+
+  const overall: Timings = { wait: [], processing: [], jobs: 0 };
+  const byName = new Map<string, Timings>();
+  let from: number | null = null;
+  let to: number | null = null;
+  for (const job of jobs) {
+    addTimings(overall, job);
+    let group = byName.get(job.name);
+    if (!group) {
+      group = { wait: [], processing: [], jobs: 0 };
+      byName.set(job.name, group);
+    }
+    addTimings(group, job);
+    if (job.finishedOn) {
+      from = from === null ? job.finishedOn : Math.min(from, job.finishedOn);
+      to = to === null ? job.finishedOn : Math.max(to, job.finishedOn);
+    }
+  }
+
+  const groups: LatencyGroup[] = [];
+  for (const [name, timings] of byName) {
+    groups.push(Object.assign({ name }, summarize(timings)));
+  }
+
+  return {
+    sampleSize,
+    completed: completed.filter(Boolean).length,
+    failed: failed.filter(Boolean).length,
+    from,
+    to,
+    overall: summarize(overall),
+    byName: groups.toSorted((a, b) => b.jobs - a.jobs || a.name.localeCompare(b.name)),
+  };
+}
@@ -0,0 +1,45 @@
+const LIST_CURSOR_VERSION = 1;
+
+/**
+ * Where a paged headless listing stopped: how many entries were read from
+ * each BullMQ set behind it. Listings that merge several sets (`jobs list`
+ * without --job-state) advance each set separately, so the next page starts
+ * exactly after the last entry returned from every set.
+ */
+export interface ListCursor {
+  queue: string;
+  /** What is listed: a --job-state value, "all", or "schedulers". */
+  list: string;
+  offsets: Record<string, number>;
+}
+
+export function encodeListCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify({ v: LIST_CURSOR_VERSION, ...cursor })).toString("base64url");
+}
+
+/** Decode a --cursor token. Returns null if it is malformed or from another version. */
+export function decodeListCursor(token: string): ListCursor | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(Buffer.from(token, "base64url").toString("utf-8"));
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== "object") return null;
+
+  const value = raw as Record<string, unknown>;
+  const offsets = value.offsets as Record<string, unknown> | null;
+  if (
+    value.v !== LIST_CURSOR_VERSION ||
+    typeof value.queue !== "string" ||
+    typeof value.list !== "string" ||
+    !offsets ||
+    typeof offsets !== "object" ||
+    Array.isArray(offsets) ||
+    !Object.values(offsets).every((offset) => Number.isInteger(offset) && (offset as number) >= 0)
+  ) {
+    return null;
+  }
+
+  return { queue: value.queue, list: value.list, offsets: offsets as Record<string, number> };
+}
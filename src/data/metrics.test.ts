@@ -1,6 +1,9 @@
 import { beforeEach, describe, expect, it } from "bun:test";
+import type { Context } from "../context.js";
 import {
   calculateGlobalMetricsFromQueueStats,
+  createMetricsState,
+  ratesSinceSample,
   resetMetricsTracker,
   updateMetricsTracker,
 } from "./metrics.js";
@@ -58,9 +61,9 @@ describe("calculateGlobalMetricsFromQueueStats", () => {
   });
 });
 
-function buildQueue(counts: Partial<QueueStats["counts"]>): QueueStats {
+function buildQueue(counts: Partial<QueueStats["counts"]>, name = "q"): QueueStats {
   return {
-    name: "q",
+    name,
     counts: {
       wait: 0,
       active: 0,
@@ -75,26 +78,92 @@ function buildQueue(counts: Partial<QueueStats["counts"]>): QueueStats {
   };
 }
 
+function metricsContext(): Context {
+  return { metrics: createMetricsState() } as Context;
+}
+
 describe("updateMetricsTracker", () => {
+  const ctx = metricsContext();
+
   beforeEach(() => {
-    resetMetricsTracker();
+    resetMetricsTracker(ctx);
   });
 
   it("returns zeroed rates on the first call (no previous sample)", () => {
-    expect(updateMetricsTracker([buildQueue({ wait: 5 })])).toEqual(zeroRates);
+    const { rates, queues } = updateMetricsTracker(ctx, [buildQueue({ wait: 5 })]);
+    expect(rates).toEqual(zeroRates);
+    expect(queues[0]?.rates).toEqual(zeroRates);
+  });
+
+  it("tracks each queue separately from the overall rate", () => {
+    updateMetricsTracker(
+      ctx,
+      [buildQueue({ wait: 10 }, "email"), buildQueue({ wait: 10 }, "payments")],
+      0,
+    );
+    const { rates, queues } = updateMetricsTracker(
+      ctx,
+      [buildQueue({ wait: 4, completed: 6 }, "email"), buildQueue({ wait: 13 }, "payments")],
+      60_000,
+    );
+
+    // 3 enqueued and 6 dequeued in a minute, eased in from zero (factor 0.3).
+    expect(rates).toMatchObject({ enqueuedPerMin: 0.9, dequeuedPerMin: 1.8 });
+    expect(queues.map((queue) => [queue.name, queue.rates])).toEqual([
+      [
+        "email",
+        { enqueuedPerMin: 0, enqueuedPerSec: 0, dequeuedPerMin: 1.8, dequeuedPerSec: 0.03 },
+      ],
+      [
+        "payments",
+        { enqueuedPerMin: 0.9, enqueuedPerSec: 0.01, dequeuedPerMin: 0, dequeuedPerSec: 0 },
+      ],
+    ]);
   });
 
-  it("updates tracker state across calls", () => {
-    updateMetricsTracker([buildQueue({ wait: 1 })]);
-    // Second call has a previous sample to diff against; we don't assert on the
-    // smoothed values (timing-dependent), only that the call doesn't throw and
-    // returns the expected shape.
-    const rates = updateMetricsTracker([buildQueue({ wait: 1, completed: 2 })]);
-    expect(rates).toMatchObject({
-      enqueuedPerMin: expect.any(Number),
-      enqueuedPerSec: expect.any(Number),
-      dequeuedPerMin: expect.any(Number),
-      dequeuedPerSec: expect.any(Number),
+  it("keeps contexts apart", () => {
+    const other = metricsContext();
+    updateMetricsTracker(ctx, [buildQueue({ wait: 1 })], 0);
+    updateMetricsTracker(other, [buildQueue({ wait: 100 })], 0);
+
+    const { rates } = updateMetricsTracker(ctx, [buildQueue({ wait: 2 })], 60_000);
+    expect(rates.enqueuedPerMin).toBe(0.3);
+  });
+
+  it("advances a separate state without touching the context's trackers", () => {
+    const scrapes = createMetricsState();
+    updateMetricsTracker(ctx, [buildQueue({ wait: 1 })], 0);
+    updateMetricsTracker(ctx, [buildQueue({ wait: 50 })], 30_000, scrapes);
+
+    const { rates } = updateMetricsTracker(ctx, [buildQueue({ wait: 2 })], 60_000);
+    expect(rates.enqueuedPerMin).toBe(0.3);
+    expect([...scrapes.queues.keys()]).toEqual(["q"]);
+  });
+
+  it("forgets queues that disappear", () => {
+    updateMetricsTracker(ctx, [buildQueue({}, "email"), buildQueue({}, "payments")], 0);
+    updateMetricsTracker(ctx, [buildQueue({}, "email")], 60_000);
+    expect([...ctx.metrics.queues.keys()]).toEqual(["email"]);
+  });
+});
+
+describe("ratesSinceSample", () => {
+  it("averages the whole interval since a recorded sample without smoothing", () => {
+    const rates = ratesSinceSample(
+      {
+        observedAt: 0,
+        counts: { wait: 5, active: 0, completed: 10, failed: 0, delayed: 0, schedulers: 0 },
+        isPaused: false,
+      },
+      buildQueue({ wait: 5, completed: 40 }).counts,
+      120_000,
+    );
+
+    expect(rates).toEqual({
+      enqueuedPerMin: 15,
+      enqueuedPerSec: 0.25,
+      dequeuedPerMin: 15,
+      dequeuedPerSec: 0.25,
     });
   });
 });
@@ -1,4 +1,6 @@
+import type { Context } from "../context.js";
 import type { QueueStats } from "./queues.js";
+import type { QueueSample } from "./sqlite.js";
 
 export interface GlobalMetrics {
   queueCount: number;
@@ -18,10 +20,30 @@ export interface GlobalMetrics {
   };
 }
 
+type TrackedCounts = Pick<
+  GlobalMetrics["jobCounts"],
+  "wait" | "active" | "delayed" | "completed" | "failed"
+>;
+
+export type ThroughputRates = GlobalMetrics["rates"];
+
+export const ZERO_RATES: ThroughputRates = {
+  enqueuedPerMin: 0,
+  enqueuedPerSec: 0,
+  dequeuedPerMin: 0,
+  dequeuedPerSec: 0,
+};
+
+/**
+ * How old a recorded sample may be and still serve as a one-shot command's
+ * rate baseline. Older than this the average says little about the queue now.
+ */
+export const RATE_PRIME_MAX_AGE_MS = 15 * 60_000;
+
 /**
  * Tracks job counts between polls to calculate enqueue/dequeue rates
  */
-class MetricsTracker {
+export class MetricsTracker {
   private lastPollTime: number | null = null;
   private lastTotalJobs: number = 0; // all jobs that entered the system
   private lastProcessedJobs: number = 0; // completed + failed
@@ -34,17 +56,10 @@ class MetricsTracker {
   /**
    * Update tracker with current counts and return calculated rates
    */
-  update(jobCounts: GlobalMetrics["jobCounts"]): GlobalMetrics["rates"] {
-    const now = Date.now();
-
+  update(jobCounts: TrackedCounts, now: number = Date.now()): ThroughputRates {
     // Total jobs = all jobs that have ever entered the system
     // (wait + active + delayed + completed + failed)
-    const currentTotalJobs =
-      jobCounts.wait +
-      jobCounts.active +
-      jobCounts.delayed +
-      jobCounts.completed +
-      jobCounts.failed;
+    const currentTotalJobs = totalJobs(jobCounts);
 
     // Processed jobs = jobs that have been dequeued and finished
     const currentProcessedJobs = jobCounts.completed + jobCounts.failed;
@@ -99,12 +114,7 @@ class MetricsTracker {
     this.lastTotalJobs = currentTotalJobs;
     this.lastProcessedJobs = currentProcessedJobs;
 
-    return {
-      enqueuedPerMin: parseFloat(this.smoothedEnqueuedPerMin.toFixed(1)),
-      enqueuedPerSec: parseFloat((this.smoothedEnqueuedPerMin / 60).toFixed(2)),
-      dequeuedPerMin: parseFloat(this.smoothedDequeuedPerMin.toFixed(1)),
-      dequeuedPerSec: parseFloat((this.smoothedDequeuedPerMin / 60).toFixed(2)),
-    };
+    return roundRates(this.smoothedEnqueuedPerMin, this.smoothedDequeuedPerMin);
   }
 
   /**
@@ -119,14 +129,61 @@ class MetricsTracker {
   }
 }
 
-// Singleton tracker instance
-const metricsTracker = new MetricsTracker();
+function roundRates(enqueuedPerMin: number, dequeuedPerMin: number): ThroughputRates {
+  return {
+    enqueuedPerMin: parseFloat(enqueuedPerMin.toFixed(1)),
+    enqueuedPerSec: parseFloat((enqueuedPerMin / 60).toFixed(2)),
+    dequeuedPerMin: parseFloat(dequeuedPerMin.toFixed(1)),
+    dequeuedPerSec: parseFloat((dequeuedPerMin / 60).toFixed(2)),
+  };
+}
+
+function totalJobs(jobCounts: TrackedCounts): number {
+  return (
+    jobCounts.wait + jobCounts.active + jobCounts.delayed + jobCounts.completed + jobCounts.failed
+  );
+}
 
 /**
- * Reset the metrics tracker (call when reconnecting or resetting state)
+ * Rate trackers for one Context: the all-queues total plus one per queue.
+ * Lives on the Context (see ADR-0002) so two contexts polling different
+ * Redis instances don't blend their rates.
  */
-export function resetMetricsTracker(): void {
-  metricsTracker.reset();
+export interface MetricsContextState {
+  readonly global: MetricsTracker;
+  readonly queues: Map<string, MetricsTracker>;
+}
+
+export function createMetricsState(): MetricsContextState {
+  return { global: new MetricsTracker(), queues: new Map() };
+}
+
+/**
+ * Reset the context's rate trackers (call when reconnecting or resetting state)
+ */
+export function resetMetricsTracker(ctx: Context): void {
+  ctx.metrics.global.reset();
+  ctx.metrics.queues.clear();
+}
+
+/**
+ * Plain average rates between a recorded sample and the current counts.
+ * One-shot commands have a single interval to go on, so there is nothing
+ * to smooth; feeding it through a tracker would report a fraction of it.
+ */
+export function ratesSinceSample(
+  sample: QueueSample,
+  jobCounts: TrackedCounts,
+  now: number,
+): ThroughputRates {
+  const elapsedMin = (now - sample.observedAt) / 60000;
+  if (elapsedMin < 0.001) return ZERO_RATES;
+  const enqueued = Math.max(0, totalJobs(jobCounts) - totalJobs(sample.counts));
+  const dequeued = Math.max(
+    0,
+    jobCounts.completed + jobCounts.failed - (sample.counts.completed + sample.counts.failed),
+  );
+  return roundRates(enqueued / elapsedMin, dequeued / elapsedMin);
 }
 
 function aggregateJobCounts(queues: QueueStats[]): GlobalMetrics["jobCounts"] {
@@ -166,10 +223,41 @@ export function calculateGlobalMetricsFromQueueStats(
   };
 }
 
+export interface RateUpdate {
+  /** Rates across every queue. */
+  rates: ThroughputRates;
+  /** The same queues, each with its own `rates`. */
+  queues: QueueStats[];
+}
+
 /**
- * Feed the singleton tracker with current counts and return the new rates.
- * Mutates tracker state — call exactly once per successful poll cycle.
+ * Feed the context's trackers with current counts and return the new rates,
+ * overall and per queue. Trackers for queues that disappeared are dropped.
+ * Mutates tracker state — call exactly once per successful poll cycle. A
+ * second poller on the same context (e.g. a scrape endpoint beside the
+ * dashboard poll) passes its own `state` so the two cadences don't mix.
  */
-export function updateMetricsTracker(queues: QueueStats[]): GlobalMetrics["rates"] {
-  return metricsTracker.update(aggregateJobCounts(queues));
+export function updateMetricsTracker(
+  ctx: Context,
+  queues: QueueStats[],
+  now: number = Date.now(),
+  state: MetricsContextState = ctx.metrics,
+): RateUpdate {
+  const trackers = state.queues;
+  const seen = new Set(queues.map((queue) => queue.name));
+  for (const name of trackers.keys()) {
+    if (!seen.has(name)) trackers.delete(name);
+  }
+
+  return {
+    rates: state.global.update(aggregateJobCounts(queues), now),
+    queues: queues.map((queue) => {
+      let tracker = trackers.get(queue.name);
+      if (!tracker) {
+        tracker = new MetricsTracker();
+        trackers.set(queue.name, tracker);
+      }
+      return Object.assign({}, queue, { rates: tracker.update(queue.counts, now) });
+    }),
+  };
 }
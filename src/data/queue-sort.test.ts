@@ -53,4 +53,18 @@ describe("sortQueues", () => {
       "zeta",
     ]);
   });
+
+  it("sorts by throughput, treating queues without rates as idle", () => {
+    const rated = (name: string, dequeuedPerMin: number) =>
+      Object.assign(queue(name), {
+        rates: { enqueuedPerMin: 0, enqueuedPerSec: 0, dequeuedPerMin, dequeuedPerSec: 0 },
+      });
+    const queues = [rated("slow", 2), queue("unrated"), rated("busy", 40)];
+
+    expect(sortQueues(queues, "throughput", "desc").map((q) => q.name)).toEqual([
+      "busy",
+      "slow",
+      "unrated",
+    ]);
+  });
 });
@@ -7,7 +7,8 @@ export type QueueSortBy =
   | "active"
   | "completed"
   | "failed"
-  | "delayed";
+  | "delayed"
+  | "throughput";
 export type SortOrder = "asc" | "desc";
 
 export const QUEUE_SORT_FIELDS: QueueSortBy[] = [
@@ -18,6 +19,7 @@ export const QUEUE_SORT_FIELDS: QueueSortBy[] = [
   "completed",
   "failed",
   "delayed",
+  "throughput",
 ];
 
 export function queueSortLabel(sortBy: QueueSortBy, order: SortOrder): string {
@@ -41,6 +43,9 @@ function metric(queue: QueueStats, sortBy: QueueSortBy): string | number {
       return queue.counts.failed;
     case "delayed":
       return queue.counts.delayed;
+    case "throughput":
+      // Jobs finished per minute; queues without a rate yet sort as idle.
+      return queue.rates?.dequeuedPerMin ?? 0;
   }
 }
 
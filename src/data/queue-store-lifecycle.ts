@@ -1,5 +1,5 @@
 import type { Context } from "../context.js";
-import { expireStaleRecords } from "./queue-store.js";
+import { downsampleQueueHistory, expireStaleRecords } from "./queue-store.js";
 
 const CLEANUP_INTERVAL_MS = 60_000;
 
@@ -13,6 +13,7 @@ export function runQueueStoreCleanupIfDue(ctx: Context, now: number = Date.now()
 
   try {
     expireStaleRecords(ctx, { now });
+    downsampleQueueHistory(ctx, { now });
   } catch (error) {
     console.warn(
       "Failed to expire stale queue-store records:",
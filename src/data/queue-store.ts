@@ -3,18 +3,35 @@ import type { QueueStats } from "./queues.js";
 import type { JobDetail, JobListView, JobsResult, JobSummary } from "./jobs.js";
 import type { JobSchedulerSummary, SchedulersResult } from "./schedulers.js";
 import {
+  downsampleQueueSamples,
   getJobFromDb,
+  getJobsByIdFromDb,
   queryJobs,
   queryQueueStats,
+  queryLatestQueueSample,
+  queryQueueSamples,
   querySchedulers,
+  insertQueueSamples,
   upsertJobs,
   upsertQueueStats,
   upsertSchedulers,
   type JobRow,
+  type QueueSample,
   type StoredJobObservation,
 } from "./sqlite.js";
 
 const DEFAULT_PAGE_SIZE = 25;
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * How queue samples thin out with age: samples older than `olderThanMs`
+ * keep one per `bucketMs`. Anything past the cache TTL is expired outright.
+ */
+const SAMPLE_RESOLUTIONS = [
+  { olderThanMs: HOUR, bucketMs: MINUTE },
+  { olderThanMs: 6 * HOUR, bucketMs: 10 * MINUTE },
+];
 
 export type ObservedJob = StoredJobObservation;
 
@@ -34,6 +51,16 @@ export interface ListJobsOptions {
 
 export interface SearchJobsOptions extends ListJobsOptions {}
 
+/** A cached job matching a search; `lastObservedAt` says how stale it is. */
+export interface JobSearchHit extends JobSummary {
+  queue: string;
+  lastObservedAt: number;
+}
+
+export interface JobSearchResult extends Omit<JobsResult, "jobs"> {
+  jobs: JobSearchHit[];
+}
+
 export interface ExpireStaleRecordsOptions {
   now?: number;
 }
@@ -42,6 +69,7 @@ export interface ExpireStaleRecordsResult {
   queuesDeleted: number;
   schedulersDeleted: number;
   jobsDeleted: number;
+  samplesDeleted: number;
 }
 
 interface CacheDimensionState {
@@ -120,6 +148,8 @@ function rowToDetail(row: JobRow): CachedJobDetail {
   if (row.progress_json !== null) detail.progress = parseJson(row.progress_json) as number | object;
   if (row.repeat_job_key !== null) detail.repeatJobKey = row.repeat_job_key;
   if (row.delay !== null) detail.delay = row.delay;
+  if (row.logs_json !== null) detail.logs = parseJson(row.logs_json) as string[];
+  if (row.log_count !== null) detail.logCount = row.log_count;
 
   return detail;
 }
@@ -152,16 +182,21 @@ export function listJobs(ctx: Context, queue: string, options: ListJobsOptions =
   };
 }
 
+/**
+ * Full-text search over cached jobs (ID, name and data preview). Pass `null`
+ * as the queue to search every cached queue. Only jobs that were observed
+ * and are still in the cache can match.
+ */
 export function searchJobs(
   ctx: Context,
-  queue: string,
+  queue: string | null,
   query: string,
   options: SearchJobsOptions = {},
-): JobsResult {
+): JobSearchResult {
   const page = options.page ?? 1;
   const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
   const result = queryJobs(ctx, {
-    queue,
+    queue: queue ?? undefined,
     search: query,
     state: stateFilter(options.state),
     sort: "timestamp",
@@ -171,7 +206,11 @@ export function searchJobs(
   });
 
   return {
-    jobs: result.jobs.map(rowToSummary),
+    jobs: result.jobs.map((row) => ({
+      ...rowToSummary(row),
+      queue: row.queue,
+      lastObservedAt: row.last_observed_at,
+    })),
     total: result.total,
     page,
     pageSize,
@@ -184,6 +223,13 @@ export function getJob(ctx: Context, queue: string, id: string): CachedJobDetail
   return row ? rowToDetail(row) : null;
 }
 
+/** Cached jobs with this ID in any queue, for lookups while Redis is unreachable. */
+export function findCachedJobs(ctx: Context, id: string): JobSearchHit[] {
+  return getJobsByIdFromDb(ctx, id).map((row) =>
+    Object.assign(rowToSummary(row), { queue: row.queue, lastObservedAt: row.last_observed_at }),
+  );
+}
+
 export function listSchedulers(
   ctx: Context,
   queue: string,
@@ -206,10 +252,31 @@ export function recordObservedQueues(
   queues: QueueStats[],
   options: ObservationOptions = {},
 ): ObservationResult {
-  upsertQueueStats(ctx, queues, options.observedAt ?? Date.now());
+  const observedAt = options.observedAt ?? Date.now();
+  upsertQueueStats(ctx, queues, observedAt);
+  insertQueueSamples(ctx, queues, observedAt);
   return { observed: queues.length };
 }
 
+/** Recorded counts for one queue since `since`, oldest first. */
+export function listQueueSamples(ctx: Context, queue: string, since: number): QueueSample[] {
+  return queryQueueSamples(ctx, queue, since);
+}
+
+/** The newest sample since `since` for each queue that has one. */
+export function latestQueueSamples(
+  ctx: Context,
+  queues: string[],
+  since: number,
+): Map<string, QueueSample> {
+  const samples = new Map<string, QueueSample>();
+  for (const queue of queues) {
+    const sample = queryLatestQueueSample(ctx, queue, since);
+    if (sample) samples.set(queue, sample);
+  }
+  return samples;
+}
+
 export function recordObservedJobs(
   ctx: Context,
   queue: string,
@@ -264,14 +331,37 @@ export function expireStaleRecords(
       .prepare("DELETE FROM jobs WHERE last_observed_at < ?")
       .run(cutoff).changes;
 
+    const staleSamples = database
+      .prepare("DELETE FROM queue_samples WHERE observed_at < ?")
+      .run(cutoff).changes;
+
     return {
       queuesDeleted: queueNames.length,
       schedulersDeleted: cascadedSchedulers + staleSchedulers,
       jobsDeleted: staleJobs,
+      samplesDeleted: staleSamples,
     };
   })();
 }
 
+/**
+ * Thin out older queue samples per `SAMPLE_RESOLUTIONS` so history stays
+ * small between TTL expiries. Returns the number of samples removed.
+ */
+export function downsampleQueueHistory(
+  ctx: Context,
+  options: ExpireStaleRecordsOptions = {},
+): number {
+  const now = options.now ?? Date.now();
+  return ctx.db.transaction(() =>
+    SAMPLE_RESOLUTIONS.reduce(
+      (removed, { olderThanMs, bucketMs }) =>
+        removed + downsampleQueueSamples(ctx, now - olderThanMs, bucketMs),
+      0,
+    ),
+  )();
+}
+
 function dimensionState(
   ctx: Context,
   table: "jobs" | "schedulers",
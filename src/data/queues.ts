@@ -1,6 +1,8 @@
 import { Queue } from "bullmq";
 import type { Context } from "../context.js";
+import type { GlobalMetrics } from "./metrics.js";
 import { redisConnectionOptions } from "../redis-options.js";
+import { QueueNotFoundError } from "../errors.js";
 
 const QUEUE_NAMES_CACHE_TTL = 5000; // 5 seconds
 const SCAN_COUNT = 1000;
@@ -18,6 +20,8 @@ export interface QueueStats {
   };
   isPaused: boolean;
   total: number;
+  /** Enqueue/dequeue rates, once a rate tracker has seen the queue. */
+  rates?: GlobalMetrics["rates"];
   lastObservedAt?: number;
 }
 
@@ -146,6 +150,45 @@ export async function closeAllQueues(ctx: Context): Promise<void> {
   ctx.queueNamesCache = null;
 }
 
+export interface QueuePauseResult {
+  name: string;
+  wasPaused: boolean;
+  isPaused: boolean;
+}
+
+/**
+ * Pause or resume a queue. A paused queue still accepts new jobs, but workers
+ * stop picking them up until it is resumed. Pausing an already-paused queue
+ * (or resuming an active one) is a no-op.
+ *
+ * Throws QueueNotFoundError for a queue discovery doesn't know: pausing
+ * writes the queue's meta key, so a typo would otherwise create a phantom
+ * queue.
+ */
+export async function setQueuePaused(
+  ctx: Context,
+  queueName: string,
+  paused: boolean,
+  dryRun: boolean = false,
+): Promise<QueuePauseResult> {
+  if (!(await discoverQueueNames(ctx)).includes(queueName)) {
+    throw new QueueNotFoundError(queueName);
+  }
+
+  const queue = getQueue(ctx, queueName);
+  const wasPaused = await queue.isPaused();
+
+  if (!dryRun && wasPaused !== paused) {
+    if (paused) {
+      await queue.pause();
+    } else {
+      await queue.resume();
+    }
+  }
+
+  return { name: queueName, wasPaused, isPaused: dryRun ? wasPaused : paused };
+}
+
 export interface DeleteQueueResult {
   name: string;
   counts: {
@@ -68,19 +68,21 @@ export interface SchedulersResult {
 const DEFAULT_MAX_RESULTS = 1000;
 
 /**
- * Get all job schedulers for a queue (up to maxResults).
+ * Get all job schedulers for a queue (up to maxResults from `offset`).
+ * `next` is the offset of the following page, or null after the last one.
  * Used by --json mode for bulk export.
  */
 export async function getAllJobSchedulers(
   ctx: Context,
   queueName: string,
   maxResults: number = DEFAULT_MAX_RESULTS,
-): Promise<{ schedulers: JobSchedulerSummary[]; total: number }> {
+  offset: number = 0,
+): Promise<{ schedulers: JobSchedulerSummary[]; total: number; next: number | null }> {
   const queue = getQueue(ctx, queueName);
-  const end = maxResults - 1;
+  const end = offset + maxResults - 1;
 
   const [schedulers, total] = await Promise.all([
-    queue.getJobSchedulers(0, end, false),
+    queue.getJobSchedulers(offset, end, false),
     queue.getJobSchedulersCount(),
   ]);
 
@@ -94,7 +96,12 @@ export async function getAllJobSchedulers(
     tz: s.tz ?? undefined,
   }));
 
-  return { schedulers: summaries, total };
+  const next = offset + schedulers.length;
+  return {
+    schedulers: summaries,
+    total,
+    next: schedulers.length > 0 && next < total ? next : null,
+  };
 }
 
 /**
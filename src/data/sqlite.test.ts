@@ -3,11 +3,13 @@ import { Database } from "bun:sqlite";
 import { unlinkSync } from "node:fs";
 import { createContext, type Context } from "../context.js";
 import type { Config } from "../config.js";
+import type { QueueStats } from "./queues.js";
 import { createSqliteDb } from "./sqlite.js";
 import {
   expireStaleRecords,
   getCacheState,
   getJob,
+  latestQueueSamples,
   listJobs,
   listQueues,
   listSchedulers,
@@ -28,6 +30,15 @@ const baseConfig: Config = {
 
 let ctx: Context;
 
+function emailStats(wait: number): QueueStats {
+  return {
+    name: "email",
+    counts: { wait, active: 0, completed: 0, failed: 0, delayed: 0, schedulers: 0 },
+    isPaused: false,
+    total: wait,
+  };
+}
+
 function cleanupDb(path = TEST_DB_PATH): void {
   for (const suffix of ["", "-wal", "-shm"]) {
     try {
@@ -116,6 +127,16 @@ describe("queue-store observations and reads", () => {
     expect(listQueues(ctx)[0]!.lastObservedAt).toBe(1000);
   });
 
+  it("returns each queue's newest sample within the window", () => {
+    recordObservedQueues(ctx, [emailStats(1)], { observedAt: 1000 });
+    recordObservedQueues(ctx, [emailStats(2)], { observedAt: 2000 });
+
+    const samples = latestQueueSamples(ctx, ["email", "payments"], 1500);
+    expect([...samples.keys()]).toEqual(["email"]);
+    expect(samples.get("email")).toMatchObject({ observedAt: 2000, counts: { wait: 2 } });
+    expect(latestQueueSamples(ctx, ["email"], 2500).size).toBe(0);
+  });
+
   it("records jobs with full details and clears omitted optional fields on latest observation", () => {
     recordObservedJobs(
       ctx,
@@ -179,6 +200,45 @@ describe("queue-store observations and reads", () => {
     expect(detail?.stacktrace).toBeUndefined();
   });
 
+  it("keeps the last observed logs when a later observation has none", () => {
+    recordObservedJobs(
+      ctx,
+      "email",
+      [
+        {
+          id: "42",
+          name: "send",
+          state: "active",
+          timestamp: 1000,
+          logs: ["connecting", "sent"],
+          logCount: 2,
+        },
+      ],
+      { observedAt: 5000 },
+    );
+    recordObservedJobs(
+      ctx,
+      "email",
+      [{ id: "42", name: "send", state: "completed", timestamp: 1000 }],
+      { observedAt: 6000 },
+    );
+
+    expect(getJob(ctx, "email", "42")).toMatchObject({
+      state: "completed",
+      logs: ["connecting", "sent"],
+      logCount: 2,
+    });
+
+    recordObservedJobs(
+      ctx,
+      "email",
+      [{ id: "42", name: "send", state: "completed", timestamp: 1000, logs: [], logCount: 0 }],
+      { observedAt: 7000 },
+    );
+
+    expect(getJob(ctx, "email", "42")).toMatchObject({ logs: [], logCount: 0 });
+  });
+
   it("lists and searches jobs from SQLite", () => {
     recordObservedJobs(
       ctx,
@@ -197,6 +257,50 @@ describe("queue-store observations and reads", () => {
     expect(searchJobs(ctx, "email", "paid").jobs.map((job) => job.id)).toEqual(["new"]);
   });
 
+  it("searches every queue with punctuation in the query and reports observation times", () => {
+    recordObservedJobs(
+      ctx,
+      "email",
+      [
+        {
+          id: "1",
+          name: "send",
+          state: "failed",
+          timestamp: 1000,
+          data: { to: "ada@example.com" },
+        },
+      ],
+      { observedAt: 3000 },
+    );
+    recordObservedJobs(
+      ctx,
+      "billing",
+      [
+        {
+          id: "2",
+          name: "charge",
+          state: "completed",
+          timestamp: 2000,
+          data: { user: "ada@example.com" },
+        },
+        { id: "3", name: "charge", state: "completed", timestamp: 2500, data: { user: "bob" } },
+      ],
+      { observedAt: 4000 },
+    );
+
+    const all = searchJobs(ctx, null, "ada@example.com");
+    expect(all.total).toBe(2);
+    expect(all.jobs.map((job) => [job.queue, job.id, job.lastObservedAt])).toEqual([
+      ["billing", "2", 4000],
+      ["email", "1", 3000],
+    ]);
+    expect(searchJobs(ctx, null, "ada", { state: "failed" }).jobs.map((job) => job.id)).toEqual([
+      "1",
+    ]);
+    expect(searchJobs(ctx, null, 'char"').total).toBe(2);
+    expect(searchJobs(ctx, null, "   ").total).toBe(0);
+  });
+
   it("records schedulers without deleting missing schedulers", () => {
     recordObservedSchedulers(ctx, "email", [{ key: "daily", name: "daily" }], {
       observedAt: 1000,
@@ -235,7 +339,12 @@ describe("queue-store TTL cleanup", () => {
 
     const result = expireStaleRecords(ctx, { now: 2101 });
 
-    expect(result).toEqual({ queuesDeleted: 1, schedulersDeleted: 1, jobsDeleted: 0 });
+    expect(result).toEqual({
+      queuesDeleted: 1,
+      schedulersDeleted: 1,
+      jobsDeleted: 0,
+      samplesDeleted: 1,
+    });
     expect(listQueues(ctx)).toEqual([]);
     expect(listSchedulers(ctx, "email").total).toBe(0);
     expect(listJobs(ctx, "email").total).toBe(1);
@@ -23,11 +23,14 @@ CREATE TABLE IF NOT EXISTS jobs (
   progress_json TEXT,
   repeat_job_key TEXT,
   delay INTEGER,
+  logs_json TEXT,
+  log_count INTEGER,
   last_observed_at INTEGER NOT NULL DEFAULT 0,
   PRIMARY KEY (queue, id)
 );
 
 CREATE INDEX IF NOT EXISTS idx_jobs_queue_state ON jobs(queue, state);
+CREATE INDEX IF NOT EXISTS idx_jobs_id ON jobs(id);
 CREATE INDEX IF NOT EXISTS idx_jobs_name ON jobs(name);
 CREATE INDEX IF NOT EXISTS idx_jobs_timestamp ON jobs(timestamp);
 CREATE INDEX IF NOT EXISTS idx_jobs_last_observed ON jobs(last_observed_at);
@@ -64,6 +67,26 @@ CREATE TABLE IF NOT EXISTS schedulers (
 );
 `;
 
+/**
+ * Queue counts over time, one row per queue per observation. Recent samples
+ * keep full resolution; cleanup thins older ones and expires them with the
+ * rest of the cache.
+ */
+const QUEUE_SAMPLES_SCHEMA = `
+CREATE TABLE IF NOT EXISTS queue_samples (
+  queue TEXT NOT NULL,
+  observed_at INTEGER NOT NULL,
+  wait_count INTEGER NOT NULL DEFAULT 0,
+  active_count INTEGER NOT NULL DEFAULT 0,
+  completed_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  delayed_count INTEGER NOT NULL DEFAULT 0,
+  schedulers_count INTEGER NOT NULL DEFAULT 0,
+  is_paused INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (queue, observed_at)
+);
+`;
+
 function tableColumns(database: Database, table: string): Set<string> {
   const cols = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
   return new Set(cols.map((c) => c.name));
@@ -108,6 +131,8 @@ function migrateCacheColumns(database: Database, now: number): void {
     addColumnIfMissing(database, "jobs", jobCols, "ADD COLUMN progress_json TEXT");
     addColumnIfMissing(database, "jobs", jobCols, "ADD COLUMN repeat_job_key TEXT");
     addColumnIfMissing(database, "jobs", jobCols, "ADD COLUMN delay INTEGER");
+    addColumnIfMissing(database, "jobs", jobCols, "ADD COLUMN logs_json TEXT");
+    addColumnIfMissing(database, "jobs", jobCols, "ADD COLUMN log_count INTEGER");
     if (
       addColumnIfMissing(
         database,
@@ -190,6 +215,7 @@ export function createSqliteDb(config: Config, dbPath?: string): Database {
   handle.exec(SCHEMA);
   handle.exec(QUEUES_SCHEMA);
   handle.exec(SCHEDULERS_SCHEMA);
+  handle.exec(QUEUE_SAMPLES_SCHEMA);
   handle.exec(FTS_SCHEMA);
   return handle;
 }
@@ -212,11 +238,14 @@ export interface JobRow {
   progress_json: string | null;
   repeat_job_key: string | null;
   delay: number | null;
+  logs_json: string | null;
+  log_count: number | null;
   last_observed_at: number;
 }
 
 export interface JobQueryParams {
-  queue: string;
+  /** Omit to query every cached queue. */
+  queue?: string;
   search?: string;
   state?: string | string[];
   sort?: string;
@@ -240,6 +269,21 @@ function appendStateClause(
   }
 }
 
+/**
+ * Turn free text into an FTS5 MATCH expression. Each whitespace-separated
+ * term is quoted so punctuation (`@`, `-`, `:`) can't be parsed as query
+ * syntax; the last term is a prefix match so partial words still hit.
+ * Returns null when there is nothing to search for.
+ */
+function toFtsMatch(search: string): string | null {
+  const terms = search
+    .split(/\s+/)
+    .filter((term) => term !== "")
+    .map((term) => `"${term.replaceAll('"', '""')}"`);
+  if (terms.length === 0) return null;
+  return `${terms.join(" ")}*`;
+}
+
 export interface JobQueryResult {
   jobs: JobRow[];
   total: number;
@@ -298,6 +342,146 @@ export function upsertQueueStats(
   runUpsert(queues);
 }
 
+export interface QueueSample {
+  observedAt: number;
+  counts: QueueStats["counts"];
+  isPaused: boolean;
+}
+
+interface QueueSampleRow {
+  observed_at: number;
+  wait_count: number;
+  active_count: number;
+  completed_count: number;
+  failed_count: number;
+  delayed_count: number;
+  schedulers_count: number;
+  is_paused: number;
+}
+
+const QUEUE_SAMPLE_COLUMNS = `
+  observed_at,
+  wait_count,
+  active_count,
+  completed_count,
+  failed_count,
+  delayed_count,
+  schedulers_count,
+  is_paused
+`;
+
+function rowToQueueSample(row: QueueSampleRow): QueueSample {
+  return {
+    observedAt: row.observed_at,
+    counts: {
+      wait: row.wait_count,
+      active: row.active_count,
+      completed: row.completed_count,
+      failed: row.failed_count,
+      delayed: row.delayed_count,
+      schedulers: row.schedulers_count,
+    },
+    isPaused: row.is_paused === 1,
+  };
+}
+
+/**
+ * SQL primitive for appending one sample per queue. Re-recording the same
+ * `observedAt` replaces the sample, so callers sharing one observation
+ * timestamp don't duplicate rows.
+ */
+export function insertQueueSamples(ctx: Context, queues: QueueStats[], observedAt: number): void {
+  const database = ctx.db;
+  const stmt = database.prepare(`
+    INSERT OR REPLACE INTO queue_samples (
+      queue,
+      ${QUEUE_SAMPLE_COLUMNS}
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const run = database.transaction((items: QueueStats[]) => {
+    for (const queue of items) {
+      stmt.run(
+        queue.name,
+        observedAt,
+        queue.counts.wait,
+        queue.counts.active,
+        queue.counts.completed,
+        queue.counts.failed,
+        queue.counts.delayed,
+        queue.counts.schedulers,
+        queue.isPaused ? 1 : 0,
+      );
+    }
+  });
+
+  run(queues);
+}
+
+/** Samples for `queue` observed at or after `since`, oldest first. */
+export function queryQueueSamples(ctx: Context, queue: string, since: number): QueueSample[] {
+  const rows = ctx.db
+    .prepare(`
+      SELECT ${QUEUE_SAMPLE_COLUMNS}
+      FROM queue_samples
+      WHERE queue = ? AND observed_at >= ?
+      ORDER BY observed_at ASC
+    `)
+    .all(queue, since) as QueueSampleRow[];
+  return rows.map(rowToQueueSample);
+}
+
+/** The oldest sample for `queue` observed at or after `since`. */
+export function queryQueueBaseline(ctx: Context, queue: string, since: number): QueueSample | null {
+  const row = ctx.db
+    .prepare(`
+      SELECT ${QUEUE_SAMPLE_COLUMNS}
+      FROM queue_samples
+      WHERE queue = ? AND observed_at >= ?
+      ORDER BY observed_at ASC
+      LIMIT 1
+    `)
+    .get(queue, since) as QueueSampleRow | null;
+  return row ? rowToQueueSample(row) : null;
+}
+
+/** The newest sample for `queue` observed at or after `since`. */
+export function queryLatestQueueSample(
+  ctx: Context,
+  queue: string,
+  since: number,
+): QueueSample | null {
+  const row = ctx.db
+    .prepare(`
+      SELECT ${QUEUE_SAMPLE_COLUMNS}
+      FROM queue_samples
+      WHERE queue = ? AND observed_at >= ?
+      ORDER BY observed_at DESC
+      LIMIT 1
+    `)
+    .get(queue, since) as QueueSampleRow | null;
+  return row ? rowToQueueSample(row) : null;
+}
+
+/**
+ * Keep only the newest sample in each `bucketMs` slot for samples observed
+ * before `before`. Returns the number of samples removed.
+ */
+export function downsampleQueueSamples(ctx: Context, before: number, bucketMs: number): number {
+  return ctx.db
+    .prepare(`
+      DELETE FROM queue_samples
+      WHERE observed_at < ?1
+        AND EXISTS (
+          SELECT 1 FROM queue_samples AS newer
+          WHERE newer.queue = queue_samples.queue
+            AND newer.observed_at > queue_samples.observed_at
+            AND newer.observed_at / ?2 = queue_samples.observed_at / ?2
+        )
+    `)
+    .run(before, bucketMs).changes;
+}
+
 export interface SchedulerQueryResult {
   schedulers: JobSchedulerSummary[];
   total: number;
@@ -472,30 +656,40 @@ export function queryJobs(ctx: Context, params: JobQueryParams): JobQueryResult
   }
 
   // When a search term is provided, use FTS5 for sub-ms full-text search.
-  // Falls back to LIKE if FTS5 table is somehow unavailable (shouldn't happen).
   if (search) {
-    const conditions: string[] = ["j.queue = ?"];
-    const values: (string | number)[] = [queue];
+    const ftsMatch = toFtsMatch(search);
+    if (ftsMatch === null) {
+      return { jobs: [], total: 0 };
+    }
+
+    const conditions: string[] = ["jobs_fts MATCH ?"];
+    const values: (string | number)[] = [ftsMatch];
+    if (queue !== undefined) {
+      conditions.push("j.queue = ?");
+      values.push(queue);
+    }
 
     appendStateClause(conditions, values, state, "j.");
 
     const where = conditions.join(" AND ");
-    // FTS5 MATCH uses implicit prefix matching with * for better UX
-    const ftsMatch = `${search}*`;
 
-    const countSql = `SELECT COUNT(*) as total FROM jobs j JOIN jobs_fts fts ON j.rowid = fts.rowid WHERE ${where} AND jobs_fts MATCH ?`;
-    const total = (database.prepare(countSql).get(...values, ftsMatch) as { total: number }).total;
+    const countSql = `SELECT COUNT(*) as total FROM jobs j JOIN jobs_fts fts ON j.rowid = fts.rowid WHERE ${where}`;
+    const total = (database.prepare(countSql).get(...values) as { total: number }).total;
 
     const qualifiedSort = `j.${sortCol}`;
-    const sql = `SELECT j.* FROM jobs j JOIN jobs_fts fts ON j.rowid = fts.rowid WHERE ${where} AND jobs_fts MATCH ? ORDER BY ${qualifiedSort} ${sortOrder} LIMIT ? OFFSET ?`;
-    const jobs = database.prepare(sql).all(...values, ftsMatch, pageSize, offset) as JobRow[];
+    const sql = `SELECT j.* FROM jobs j JOIN jobs_fts fts ON j.rowid = fts.rowid WHERE ${where} ORDER BY ${qualifiedSort} ${sortOrder} LIMIT ? OFFSET ?`;
+    const jobs = database.prepare(sql).all(...values, pageSize, offset) as JobRow[];
 
     return { jobs, total };
   }
 
   // No search term — plain query without FTS
-  const conditions: string[] = ["queue = ?"];
-  const values: (string | number)[] = [queue];
+  const conditions: string[] = [];
+  const values: (string | number)[] = [];
+  if (queue !== undefined) {
+    conditions.push("queue = ?");
+    values.push(queue);
+  }
 
   appendStateClause(conditions, values, state, "");
 
@@ -540,6 +734,12 @@ export interface StoredJobObservation {
   progress?: number | object | null;
   repeatJobKey?: string | null;
   delay?: number | null;
+  /**
+   * Logs are only loaded for single-job reads, so an observation without
+   * them keeps the previously cached logs instead of clearing them.
+   */
+  logs?: string[];
+  logCount?: number;
 }
 
 function safeJson(data: unknown): string | null {
@@ -577,9 +777,11 @@ export function upsertJobs(
       progress_json,
       repeat_job_key,
       delay,
+      logs_json,
+      log_count,
       last_observed_at
     )
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(queue, id) DO UPDATE SET
       name = excluded.name,
       state = excluded.state,
@@ -596,6 +798,8 @@ export function upsertJobs(
       progress_json = excluded.progress_json,
       repeat_job_key = excluded.repeat_job_key,
       delay = excluded.delay,
+      logs_json = COALESCE(excluded.logs_json, jobs.logs_json),
+      log_count = COALESCE(excluded.log_count, jobs.log_count),
       last_observed_at = excluded.last_observed_at
   `);
 
@@ -620,6 +824,8 @@ export function upsertJobs(
         safeJson(job.progress),
         job.repeatJobKey ?? null,
         job.delay ?? null,
+        safeJson(job.logs),
+        job.logCount ?? null,
         observedAt,
       );
     }
@@ -635,6 +841,13 @@ export function getJobFromDb(ctx: Context, queue: string, jobId: string): JobRow
     .get(queue, jobId) as JobRow | null;
 }
 
+/** Every cached row with this job ID; IDs are only unique within a queue. */
+export function getJobsByIdFromDb(ctx: Context, jobId: string): JobRow[] {
+  return ctx.db
+    .prepare("SELECT * FROM jobs WHERE id = ? ORDER BY queue ASC")
+    .all(jobId) as JobRow[];
+}
+
 /**
  * Rebuild the FTS5 index from the jobs table.
  * Useful after bulk operations or if the index gets out of sync.
@@ -0,0 +1,127 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+import type { QueueStats } from "./queues.js";
+
+/** Queued poll results; an Error makes that poll fail. */
+const polls: Array<QueueStats[] | Error> = [];
+
+mock.module("./queues.js", () => ({
+  getAllQueueStats: async () => {
+    const next = polls.shift() ?? [];
+    if (next instanceof Error) throw next;
+    return next;
+  },
+}));
+
+// Import AFTER mocks are registered.
+import { diffQueueStats, watchQueues, type TimedWatchEvent } from "./watch.js";
+import { createMetricsState, resetMetricsTracker } from "./metrics.js";
+import type { Context } from "../context.js";
+
+const ctx = { metrics: createMetricsState() } as Context;
+
+function stats(name: string, counts: Partial<QueueStats["counts"]> = {}, isPaused = false) {
+  const full = Object.assign(
+    { wait: 0, active: 0, completed: 0, failed: 0, delayed: 0, schedulers: 0 },
+    counts,
+  );
+  return { name, counts: full, isPaused, total: full.wait + full.active + full.failed };
+}
+
+beforeEach(() => {
+  polls.length = 0;
+  resetMetricsTracker(ctx);
+});
+
+// `mock.module` is process-global in Bun; restore so the `./queues.js` stub
+// doesn't leak into later test files.
+afterAll(() => {
+  mock.restore();
+});
+
+describe("diffQueueStats", () => {
+  it("reports per-state count deltas", () => {
+    const events = diffQueueStats(
+      [stats("email", { wait: 5, failed: 1 })],
+      [stats("email", { wait: 2, failed: 1, completed: 3 })],
+    );
+    expect(events).toEqual([
+      { type: "count", queue: "email", state: "wait", previous: 5, current: 2, delta: -3 },
+      { type: "count", queue: "email", state: "completed", previous: 0, current: 3, delta: 3 },
+    ]);
+  });
+
+  it("reports queues appearing, disappearing and pausing, in name order", () => {
+    const events = diffQueueStats(
+      [stats("email"), stats("reports")],
+      [stats("reports", {}, true), stats("billing", { wait: 1 })],
+    );
+    expect(events).toEqual([
+      {
+        type: "queue-added",
+        queue: "billing",
+        counts: stats("billing", { wait: 1 }).counts,
+        isPaused: false,
+      },
+      { type: "queue-removed", queue: "email" },
+      { type: "pause", queue: "reports", isPaused: true },
+    ]);
+  });
+
+  it("reports nothing when nothing changed", () => {
+    expect(diffQueueStats([stats("email", { wait: 1 })], [stats("email", { wait: 1 })])).toEqual(
+      [],
+    );
+  });
+});
+
+describe("watchQueues", () => {
+  it("starts with a snapshot and then streams changes until aborted", async () => {
+    polls.push([stats("email", { wait: 1 })], [stats("email", { wait: 3 })]);
+    const controller = new AbortController();
+    const events: TimedWatchEvent[] = [];
+
+    for await (const event of watchQueues(ctx, { intervalMs: 1, signal: controller.signal })) {
+      events.push(event);
+      if (event.type === "count") controller.abort();
+    }
+
+    expect(events.map((event) => event.type)).toEqual(["snapshot", "count"]);
+    expect(events[0]).toMatchObject({
+      queues: [{ name: "email", counts: { wait: 1 }, isPaused: false, total: 1 }],
+    });
+    expect(events[1]).toMatchObject({ queue: "email", state: "wait", delta: 2 });
+    expect(typeof events[0]!.timestamp).toBe("string");
+  });
+
+  it("reports a failed poll and keeps watching", async () => {
+    polls.push([stats("email", { wait: 1 })], new Error("Connection is closed."), [
+      stats("email", { wait: 4 }),
+    ]);
+    const controller = new AbortController();
+    const events: TimedWatchEvent[] = [];
+
+    for await (const event of watchQueues(ctx, { intervalMs: 1, signal: controller.signal })) {
+      events.push(event);
+      if (event.type === "count") controller.abort();
+    }
+
+    expect(events.map((event) => event.type)).toEqual(["snapshot", "error", "count"]);
+    expect(events[1]).toMatchObject({ error: "Connection is closed." });
+    // Diffed against the last successful poll.
+    expect(events[2]).toMatchObject({ previous: 1, current: 4, delta: 3 });
+  });
+
+  it("stops without polling again once the signal aborts", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    polls.push([stats("email")], [stats("email", { wait: 1 })]);
+
+    const events: TimedWatchEvent[] = [];
+    for await (const event of watchQueues(ctx, { intervalMs: 1, signal: controller.signal })) {
+      events.push(event);
+    }
+
+    expect(events.map((event) => event.type)).toEqual(["snapshot"]);
+    expect(polls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,161 @@
+import type { Context } from "../context.js";
+import { updateMetricsTracker, type GlobalMetrics } from "./metrics.js";
+import { getAllQueueStats, type QueueStats } from "./queues.js";
+
+export type QueueCountState = keyof QueueStats["counts"];
+
+/**
+ * One line of `watch` output. The first poll emits a snapshot of every
+ * queue; later polls emit only what changed since the previous one.
+ */
+export type WatchEvent =
+  | { type: "snapshot"; queues: Array<Omit<QueueStats, "lastObservedAt">> }
+  | {
+      type: "count";
+      queue: string;
+      state: QueueCountState;
+      previous: number;
+      current: number;
+      delta: number;
+    }
+  | { type: "queue-added"; queue: string; counts: QueueStats["counts"]; isPaused: boolean }
+  | { type: "queue-removed"; queue: string }
+  | { type: "pause"; queue: string; isPaused: boolean }
+  | ({ type: "rates" } & GlobalMetrics["rates"])
+  | { type: "error"; error: string };
+
+export type TimedWatchEvent = WatchEvent & { timestamp: string };
+
+const COUNT_STATES: QueueCountState[] = [
+  "wait",
+  "active",
+  "completed",
+  "failed",
+  "delayed",
+  "schedulers",
+];
+
+/**
+ * What changed between two polls: queues that appeared or disappeared,
+ * pause toggles, and per-state count deltas. Queues are compared by name;
+ * events come out in queue-name order so the stream is stable.
+ */
+export function diffQueueStats(previous: QueueStats[], current: QueueStats[]): WatchEvent[] {
+  const before = new Map(previous.map((queue) => [queue.name, queue]));
+  const after = new Map(current.map((queue) => [queue.name, queue]));
+  const names = [...new Set([...before.keys(), ...after.keys()])].toSorted();
+  const events: WatchEvent[] = [];
+
+  for (const name of names) {
+    const old = before.get(name);
+    const now = after.get(name);
+    if (!now) {
+      events.push({ type: "queue-removed", queue: name });
+      continue;
+    }
+    if (!old) {
+      events.push({ type: "queue-added", queue: name, counts: now.counts, isPaused: now.isPaused });
+      continue;
+    }
+    if (old.isPaused !== now.isPaused) {
+      events.push({ type: "pause", queue: name, isPaused: now.isPaused });
+    }
+    for (const state of COUNT_STATES) {
+      const delta = now.counts[state] - old.counts[state];
+      if (delta !== 0) {
+        events.push({
+          type: "count",
+          queue: name,
+          state,
+          previous: old.counts[state],
+          current: now.counts[state],
+          delta,
+        });
+      }
+    }
+  }
+  return events;
+}
+
+function sameRates(a: GlobalMetrics["rates"], b: GlobalMetrics["rates"]): boolean {
+  return a.enqueuedPerMin === b.enqueuedPerMin && a.dequeuedPerMin === b.dequeuedPerMin;
+}
+
+/**
+ * Poll every discovered queue at `intervalMs` and yield the changes as they
+ * happen, until `signal` aborts. Rates come from the context's metrics
+ * tracker and are only emitted when they move. A failed poll yields an
+ * `error` event and the watch carries on; the next successful poll is diffed
+ * against the last one that worked.
+ */
+export async function* watchQueues(
+  ctx: Context,
+  options: { intervalMs: number; signal?: AbortSignal },
+): AsyncGenerator<TimedWatchEvent> {
+  let previous: QueueStats[] | null = null;
+  let previousRates: GlobalMetrics["rates"] | null = null;
+
+  // Sequential by design: each poll is diffed against the previous one.
+  for (;;) {
+    let current: QueueStats[];
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      current = await getAllQueueStats(ctx);
+    } catch (error) {
+      yield {
+        timestamp: new Date().toISOString(),
+        type: "error",
+        error: error instanceof Error ? error.message : String(error),
+      };
+      // eslint-disable-next-line no-await-in-loop
+      if (!(await pause(options))) return;
+      continue;
+    }
+    const { rates } = updateMetricsTracker(ctx, current);
+    const timestamp = new Date().toISOString();
+
+    const events: WatchEvent[] = previous
+      ? diffQueueStats(previous, current)
+      : [
+          {
+            type: "snapshot",
+            queues: current.map(({ name, counts, isPaused, total }) => ({
+              name,
+              counts,
+              isPaused,
+              total,
+            })),
+          },
+        ];
+    // The first poll only seeds the tracker; its zero rates mean nothing.
+    if (previousRates && !sameRates(previousRates, rates)) {
+      events.push(Object.assign({ type: "rates" as const }, rates));
+    }
+    for (const event of events) yield Object.assign({ timestamp }, event);
+
+    previous = current;
+    previousRates = rates;
+    // eslint-disable-next-line no-await-in-loop
+    if (!(await pause(options))) return;
+  }
+}
+
+/** Wait out one interval; false once the watch has been aborted. */
+async function pause(options: { intervalMs: number; signal?: AbortSignal }): Promise<boolean> {
+  if (options.signal?.aborted) return false;
+  await sleep(options.intervalMs, options.signal);
+  return !options.signal?.aborted;
+}
+
+/** Resolve after `ms`, or as soon as `signal` aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
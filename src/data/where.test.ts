@@ -0,0 +1,57 @@
+import { describe, expect, it } from "bun:test";
+import { compileWhere, WhereSyntaxError, type WhereSubject } from "./where.js";
+
+const job: WhereSubject = {
+  id: "7",
+  name: "charge",
+  data: { tenantId: "42", plan: "pro", tags: ["vip", "eu"], items: [{ sku: "A1" }] },
+  opts: { attempts: 5 },
+  failedReason: "Request TIMEOUT after 30s",
+  attemptsMade: 3,
+  timestamp: 1000,
+};
+
+function matches(expression: string, subject: WhereSubject = job): boolean {
+  return compileWhere(expression)(subject);
+}
+
+describe("compileWhere", () => {
+  it("compares payload fields, coercing numeric strings", () => {
+    expect(matches("data.tenantId == 42")).toBe(true);
+    expect(matches("data.tenantId == '42' && attemptsMade > 2")).toBe(true);
+    expect(matches("data.tenantId != 42 || attemptsMade >= 4")).toBe(false);
+    expect(matches("opts.attempts <= 5 && timestamp < 2000")).toBe(true);
+  });
+
+  it("supports contains, indexing, negation and grouping", () => {
+    expect(matches('failedReason contains "timeout"')).toBe(true);
+    expect(matches("data.tags contains 'vip'")).toBe(true);
+    expect(matches('data.items[0].sku == "A1" && data["plan"] == "pro"')).toBe(true);
+    expect(matches("!(data.plan == 'pro' || name == 'x')")).toBe(false);
+    expect(matches("attemptsMade > -1")).toBe(true);
+  });
+
+  it("treats missing fields as null and never reads inherited properties", () => {
+    expect(matches("data.missing == null")).toBe(true);
+    expect(matches("data.missing > 1")).toBe(false);
+    expect(matches("finishedOn")).toBe(false);
+    expect(matches("data.constructor == null")).toBe(true);
+    expect(matches("data.plan.length == null")).toBe(true);
+  });
+
+  it("reports the position of syntax errors", () => {
+    expect(() => compileWhere("data.x == ")).toThrow(
+      new WhereSyntaxError("Unexpected end of expression", 11),
+    );
+    expect(() => compileWhere("attemptsMade > 2 &&& name == 'a'")).toThrow(
+      "Unexpected character '&' at position 20",
+    );
+    expect(() => compileWhere("data.x == 'open")).toThrow("Unterminated string at position 11");
+    expect(() => compileWhere("(data.x == 1")).toThrow("Expected ')' but found end of expression");
+  });
+
+  it("rejects unknown top-level fields and empty expressions", () => {
+    expect(() => compileWhere("tenantId == 42")).toThrow("Unknown field 'tenantId'");
+    expect(() => compileWhere("   ")).toThrow("Empty expression");
+  });
+});
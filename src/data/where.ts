@@ -0,0 +1,339 @@
+/**
+ * A small, side-effect-free filter language for `--where`:
+ *
+ *   data.tenantId == 42 && attemptsMade > 2
+ *   failedReason contains "timeout" || !opts.attempts
+ *
+ * Expressions are parsed into a tree and interpreted; nothing is ever passed
+ * to `eval`. Paths only read own properties, so prototype members such as
+ * `constructor` resolve to undefined.
+ */
+
+/** Top-level fields a where-expression can read from a job. */
+export const WHERE_FIELDS = [
+  "id",
+  "name",
+  "data",
+  "opts",
+  "failedReason",
+  "stacktrace",
+  "returnvalue",
+  "progress",
+  "attemptsMade",
+  "timestamp",
+  "processedOn",
+  "finishedOn",
+  "delay",
+] as const;
+export type WhereField = (typeof WHERE_FIELDS)[number];
+
+export type WhereSubject = Partial<Record<WhereField, unknown>>;
+export type WherePredicate = (subject: WhereSubject) => boolean;
+
+/** Thrown for malformed expressions; `position` is a 1-based column. */
+export class WhereSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly position: number,
+  ) {
+    super(`${message} at position ${position}`);
+  }
+}
+
+type CompareOp = "==" | "!=" | ">" | ">=" | "<" | "<=" | "contains";
+type Literal = string | number | boolean | null;
+
+type WhereNode =
+  | { kind: "or" | "and"; left: WhereNode; right: WhereNode }
+  | { kind: "not"; operand: WhereNode }
+  | { kind: "compare"; op: CompareOp; left: WhereNode; right: WhereNode }
+  | { kind: "path"; segments: Array<string | number> }
+  | { kind: "literal"; value: Literal };
+
+type Token =
+  | { type: "number"; value: number; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "ident"; value: string; pos: number }
+  | { type: "op"; value: string; pos: number }
+  | { type: "end"; pos: number };
+
+const SYMBOLS = ["==", "!=", ">=", "<=", "&&", "||", ">", "<", "!", "(", ")", ".", "[", "]", "-"];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i]!;
+    const pos = i + 1;
+
+    if (/\s/.test(char)) {
+      i += 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ type: "number", value: Number(match[0]), pos });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = "";
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === "\\" && j + 1 < source.length) j += 1;
+        value += source[j];
+        j += 1;
+      }
+      if (j >= source.length) throw new WhereSyntaxError("Unterminated string", pos);
+      tokens.push({ type: "string", value, pos });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      tokens.push({ type: "ident", value: match[0], pos });
+      i += match[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((candidate) => source.startsWith(candidate, i));
+    if (!symbol) throw new WhereSyntaxError(`Unexpected character '${char}'`, pos);
+    tokens.push({ type: "op", value: symbol, pos });
+    i += symbol.length;
+  }
+
+  tokens.push({ type: "end", pos: source.length + 1 });
+  return tokens;
+}
+
+function describe(token: Token): string {
+  if (token.type === "end") return "end of expression";
+  if (token.type === "string") return `"${token.value}"`;
+  return `'${token.value}'`;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): WhereNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== "end") throw new WhereSyntaxError(`Unexpected ${describe(next)}`, next.pos);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]!;
+    if (token.type !== "end") this.index += 1;
+    return token;
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.type === "op" && token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    const token = this.next();
+    if (token.type !== "op" || token.value !== value) {
+      throw new WhereSyntaxError(`Expected '${value}' but found ${describe(token)}`, token.pos);
+    }
+  }
+
+  private parseOr(): WhereNode {
+    let left = this.parseAnd();
+    while (this.isOp("||")) {
+      this.next();
+      left = { kind: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): WhereNode {
+    let left = this.parseNot();
+    while (this.isOp("&&")) {
+      this.next();
+      left = { kind: "and", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): WhereNode {
+    if (this.isOp("!")) {
+      this.next();
+      return { kind: "not", operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): WhereNode {
+    const left = this.parseOperand();
+    const token = this.peek();
+    const isCompare =
+      (token.type === "op" && ["==", "!=", ">", ">=", "<", "<="].includes(token.value)) ||
+      (token.type === "ident" && token.value === "contains");
+    if (!isCompare) return left;
+
+    this.next();
+    return { kind: "compare", op: token.value as CompareOp, left, right: this.parseOperand() };
+  }
+
+  private parseOperand(): WhereNode {
+    const token = this.next();
+
+    if (token.type === "op" && token.value === "(") {
+      const inner = this.parseOr();
+      this.expectOp(")");
+      return inner;
+    }
+    if (token.type === "op" && token.value === "-") {
+      const number = this.next();
+      if (number.type !== "number") {
+        throw new WhereSyntaxError(`Expected a number after '-'`, number.pos);
+      }
+      return { kind: "literal", value: -number.value };
+    }
+    if (token.type === "number" || token.type === "string") {
+      return { kind: "literal", value: token.value };
+    }
+    if (token.type === "ident") {
+      if (token.value === "true") return { kind: "literal", value: true };
+      if (token.value === "false") return { kind: "literal", value: false };
+      if (token.value === "null") return { kind: "literal", value: null };
+      if (!(WHERE_FIELDS as readonly string[]).includes(token.value)) {
+        throw new WhereSyntaxError(
+          `Unknown field '${token.value}' (use one of: ${WHERE_FIELDS.join(", ")})`,
+          token.pos,
+        );
+      }
+      return this.parsePath(token.value);
+    }
+
+    throw new WhereSyntaxError(`Unexpected ${describe(token)}`, token.pos);
+  }
+
+  private parsePath(root: string): WhereNode {
+    const segments: Array<string | number> = [root];
+    for (;;) {
+      if (this.isOp(".")) {
+        this.next();
+        const key = this.next();
+        if (key.type !== "ident") {
+          throw new WhereSyntaxError(`Expected a field name after '.'`, key.pos);
+        }
+        segments.push(key.value);
+      } else if (this.isOp("[")) {
+        this.next();
+        const key = this.next();
+        if (key.type !== "number" && key.type !== "string") {
+          throw new WhereSyntaxError(`Expected an index or quoted key inside '[]'`, key.pos);
+        }
+        segments.push(key.value);
+        this.expectOp("]");
+      } else {
+        return { kind: "path", segments };
+      }
+    }
+  }
+}
+
+function resolvePath(subject: WhereSubject, segments: Array<string | number>): unknown {
+  let current: unknown = subject;
+  for (const segment of segments) {
+    if (current === null || typeof current !== "object") return undefined;
+    if (!Object.hasOwn(current, segment)) return undefined;
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+function numericString(value: string): number | null {
+  if (value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Coerce a pair for comparison. Payloads often carry IDs as strings, so a
+ * numeric string compared against a number is compared as a number.
+ */
+function coercePair(left: unknown, right: unknown): [unknown, unknown] {
+  if (typeof left === "number" && typeof right === "string") {
+    return [left, numericString(right) ?? right];
+  }
+  if (typeof left === "string" && typeof right === "number") {
+    return [numericString(left) ?? left, right];
+  }
+  return [left, right];
+}
+
+function looseEquals(left: unknown, right: unknown): boolean {
+  // null matches both null and a missing field.
+  if (left === null || left === undefined) return right === null || right === undefined;
+  const [a, b] = coercePair(left, right);
+  return a === b;
+}
+
+function compare(op: CompareOp, left: unknown, right: unknown): boolean {
+  switch (op) {
+    case "==":
+      return looseEquals(left, right);
+    case "!=":
+      return !looseEquals(left, right);
+    case "contains":
+      if (Array.isArray(left)) return left.some((item) => looseEquals(item, right));
+      if (typeof left === "string" && typeof right === "string") {
+        return left.toLowerCase().includes(right.toLowerCase());
+      }
+      return false;
+    default: {
+      const [a, b] = coercePair(left, right);
+      const comparable =
+        (typeof a === "number" && typeof b === "number") ||
+        (typeof a === "string" && typeof b === "string");
+      if (!comparable) return false;
+      const [x, y] = [a as number | string, b as number | string];
+      if (op === ">") return x > y;
+      if (op === ">=") return x >= y;
+      if (op === "<") return x < y;
+      return x <= y;
+    }
+  }
+}
+
+function evaluate(node: WhereNode, subject: WhereSubject): unknown {
+  switch (node.kind) {
+    case "or":
+      return Boolean(evaluate(node.left, subject)) || Boolean(evaluate(node.right, subject));
+    case "and":
+      return Boolean(evaluate(node.left, subject)) && Boolean(evaluate(node.right, subject));
+    case "not":
+      return !evaluate(node.operand, subject);
+    case "compare":
+      return compare(node.op, evaluate(node.left, subject), evaluate(node.right, subject));
+    case "path":
+      return resolvePath(subject, node.segments);
+    case "literal":
+      return node.value;
+  }
+}
+
+/**
+ * Parse a where-expression into a predicate. Throws WhereSyntaxError with the
+ * offending position so callers can surface it as a config/input error.
+ */
+export function compileWhere(source: string): WherePredicate {
+  if (source.trim() === "") throw new WhereSyntaxError("Empty expression", 1);
+  const tree = new Parser(tokenize(source)).parse();
+  return (subject) => Boolean(evaluate(tree, subject));
+}
@@ -5,6 +5,7 @@ import type { Config } from "./config.js";
 import { closeContext, createContext } from "./context.js";
 import { discoverQueueNames } from "./data/queues.js";
 import { formatDoctorReport } from "./formatters.js";
+import { renderStructuredOutput } from "./output-format.js";
 import {
   expandEnvRefs,
   parseRedisUrl,
@@ -431,7 +432,11 @@ export async function runDoctorMode(cliArgs: CliArgs): Promise<void> {
     ...(cliArgs.prefix !== undefined && { prefix: cliArgs.prefix }),
   });
 
-  const output = cliArgs.humanFriendly ? formatDoctorReport(report) : JSON.stringify(report);
+  const format = cliArgs.output ?? "json";
+  const output =
+    format === "table"
+      ? formatDoctorReport(report)
+      : renderStructuredOutput(report, "doctor", format);
   process.stdout.write(output + "\n");
   process.exit(report.ok ? 0 : 1);
 }
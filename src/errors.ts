@@ -1,3 +1,12 @@
 export function writeError(message: string, code: string, details?: string): void {
   process.stderr.write(JSON.stringify({ error: message, code, details }) + "\n");
 }
+
+/** A single-queue command named a queue that discovery doesn't know. */
+export class QueueNotFoundError extends Error {
+  readonly code = "QUEUE_NOT_FOUND";
+
+  constructor(readonly queue: string) {
+    super(`Queue '${queue}' not found`);
+  }
+}
@@ -1,7 +1,29 @@
 import { describe, expect, it } from "bun:test";
-import { formatJobsRetry } from "./formatters.js";
+import {
+  formatAlertsCheck,
+  formatJobDetail,
+  formatJobsExport,
+  formatJobsFailures,
+  formatJobsFind,
+  formatJobsImport,
+  formatJobsList,
+  formatJobsLogs,
+  formatJobsMove,
+  formatJobsRemove,
+  formatJobsRetry,
+  formatJobsSearch,
+  formatJobsTree,
+  formatQueuesStats,
+  formatQueuesHistory,
+} from "./formatters.js";
 import { computeRetryExitCode } from "./json-reporter.js";
-import type { JobsRetryOutput } from "./json-reporter.js";
+import type {
+  JobsExportOutput,
+  JobsImportOutput,
+  JobsMoveOutput,
+  JobsRemoveOutput,
+  JobsRetryOutput,
+} from "./json-reporter.js";
 
 function baseOutput(overrides: Partial<JobsRetryOutput> = {}): JobsRetryOutput {
   return {
@@ -14,6 +36,7 @@ function baseOutput(overrides: Partial<JobsRetryOutput> = {}): JobsRetryOutput {
     retried: 0,
     errors: [],
     sampleJobIds: [],
+    totalInState: 0,
     totalFailed: 0,
     truncated: false,
     ...overrides,
@@ -27,7 +50,7 @@ describe("formatJobsRetry — dry-run output", () => {
         dryRun: true,
         matched: 3,
         sampleJobIds: ["a", "b", "c"],
-        totalFailed: 3,
+        totalInState: 3,
       }),
     );
     expect(out).toContain("DRY RUN: would retry 3 jobs in queue 'payments'");
@@ -46,6 +69,13 @@ describe("formatJobsRetry — dry-run output", () => {
     expect(out).toContain("state=failed, since=1h, name=welcome");
   });
 
+  it("includes the where expression in the filter summary", () => {
+    const out = formatJobsRetry(
+      baseOutput({ dryRun: true, filter: { jobState: "failed", where: "data.tenantId == 42" } }),
+    );
+    expect(out).toContain("state=failed, where=data.tenantId == 42");
+  });
+
   it("renders targeted job-id filters", () => {
     const out = formatJobsRetry(
       baseOutput({
@@ -69,7 +99,7 @@ describe("formatJobsRetry — live output", () => {
       baseOutput({
         matched: 5,
         retried: 5,
-        totalFailed: 5,
+        totalInState: 5,
         sampleJobIds: ["a", "b"],
       }),
     );
@@ -89,7 +119,7 @@ describe("formatJobsRetry — live output", () => {
         matched: 15,
         retried: 0,
         errors: manyErrors,
-        totalFailed: 15,
+        totalInState: 15,
       }),
     );
     // Table contains the first 10 job IDs
@@ -111,7 +141,7 @@ describe("formatJobsRetry — live output", () => {
           { jobId: "x", error: "nope" },
           { jobId: "y", error: "nope" },
         ],
-        totalFailed: 3,
+        totalInState: 3,
       }),
     );
     expect(out).toContain("Errors:");
@@ -121,7 +151,7 @@ describe("formatJobsRetry — live output", () => {
 
 describe("formatJobsRetry — edge cases", () => {
   it("appends truncation note when truncated is true", () => {
-    const out = formatJobsRetry(baseOutput({ truncated: true, totalFailed: 50000 }));
+    const out = formatJobsRetry(baseOutput({ truncated: true, totalInState: 50000 }));
     expect(out).toContain("more failed jobs exist than were fetched");
   });
 
@@ -129,6 +159,177 @@ describe("formatJobsRetry — edge cases", () => {
     const out = formatJobsRetry(baseOutput({ dryRun: true, matched: 0 }));
     expect(out).not.toContain("Sample matched IDs:");
   });
+
+  it("names the completed state when retrying completed jobs", () => {
+    const out = formatJobsRetry(
+      baseOutput({ filter: { jobState: "completed" }, truncated: true, totalInState: 2000 }),
+    );
+    expect(out).toContain("state=completed");
+    expect(out).toContain("more completed jobs exist than were fetched");
+  });
+});
+
+function removeOutput(overrides: Partial<JobsRemoveOutput> = {}): JobsRemoveOutput {
+  return {
+    timestamp: "2026-04-21T00:00:00.000Z",
+    command: "jobs-remove",
+    dryRun: false,
+    queue: "email",
+    filter: { jobState: "failed" },
+    matched: 0,
+    removed: 0,
+    errors: [],
+    sampleJobIds: [],
+    totalInState: 0,
+    truncated: false,
+    ...overrides,
+  };
+}
+
+describe("formatJobsRemove", () => {
+  it("renders the dry-run preview with the state total", () => {
+    const out = formatJobsRemove(
+      removeOutput({ dryRun: true, matched: 2, totalInState: 40, sampleJobIds: ["1", "2"] }),
+    );
+    expect(out).toContain("DRY RUN: would remove 2 jobs in queue 'email'");
+    expect(out).toContain("Total failed: 40");
+    expect(out).toContain(
+      "Run with --yes and without --dry-run to remove these jobs from scripts.",
+    );
+  });
+
+  it("omits the state total for a single --job-id removal", () => {
+    const out = formatJobsRemove(
+      removeOutput({ filter: { jobId: "42" }, matched: 1, removed: 1, totalInState: null }),
+    );
+    expect(out).toContain("Remove complete for queue 'email'");
+    expect(out).toContain("Filter:  jobId=42");
+    expect(out).toContain("Removed: 1");
+    expect(out).not.toContain("Total");
+  });
+});
+
+function moveOutput(overrides: Partial<JobsMoveOutput> = {}): JobsMoveOutput {
+  return {
+    timestamp: "2026-04-21T00:00:00.000Z",
+    command: "jobs-move",
+    dryRun: false,
+    queue: "email-dlq",
+    targetQueue: "email",
+    filter: { jobState: "failed" },
+    matched: 0,
+    moved: 0,
+    errors: [],
+    sampleJobIds: [],
+    totalInState: 0,
+    truncated: false,
+    ...overrides,
+  };
+}
+
+describe("formatJobsMove", () => {
+  it("names the target queue in the dry-run preview", () => {
+    const out = formatJobsMove(moveOutput({ dryRun: true, matched: 2, totalInState: 2 }));
+    expect(out).toContain("DRY RUN: would move 2 jobs in queue 'email-dlq' to 'email'");
+    expect(out).toContain("Target queue:");
+    expect(out).toContain("Run with --yes and without --dry-run to move these jobs from scripts.");
+  });
+
+  it("reports moved jobs and per-job errors", () => {
+    const out = formatJobsMove(
+      moveOutput({
+        matched: 2,
+        moved: 1,
+        errors: [{ jobId: "7", error: "Job 7 is locked" }],
+      }),
+    );
+    expect(out).toContain("Move complete for queue 'email-dlq'");
+    expect(out).toMatch(/Moved:\s+1/);
+    expect(out).toContain("Job 7 is locked");
+  });
+});
+
+function exportOutput(overrides: Partial<JobsExportOutput> = {}): JobsExportOutput {
+  return {
+    timestamp: "2026-04-21T00:00:00.000Z",
+    command: "jobs-export",
+    queue: "email",
+    jobState: "failed",
+    includeData: false,
+    out: null,
+    exported: 0,
+    complete: true,
+    resumeToken: null,
+    error: null,
+    ...overrides,
+  };
+}
+
+describe("formatJobsExport", () => {
+  it("summarises a complete export", () => {
+    const out = formatJobsExport(exportOutput({ exported: 1200, out: "failed.ndjson" }));
+    expect(out).toBe("Exported 1200 failed jobs from queue 'email' to failed.ndjson");
+  });
+
+  it("shows the error and resume token for an interrupted export", () => {
+    const out = formatJobsExport(
+      exportOutput({
+        jobState: "all",
+        exported: 500,
+        complete: false,
+        resumeToken: "abc123",
+        error: "Connection is closed.",
+      }),
+    );
+    expect(out).toContain("Export of queue 'email' stopped after 500 jobs");
+    expect(out).toContain("Error: Connection is closed.");
+    expect(out).toContain("--resume abc123");
+  });
+});
+
+function importOutput(overrides: Partial<JobsImportOutput> = {}): JobsImportOutput {
+  return {
+    timestamp: "2026-04-21T00:00:00.000Z",
+    command: "jobs-import",
+    dryRun: false,
+    queue: "email",
+    targetQueue: "email",
+    file: "failed.ndjson",
+    ids: "new",
+    read: 0,
+    created: 0,
+    skipped: 0,
+    errored: 0,
+    errors: [],
+    sampleJobIds: [],
+    ...overrides,
+  };
+}
+
+describe("formatJobsImport", () => {
+  it("names the source queue when importing under a new name", () => {
+    const out = formatJobsImport(
+      importOutput({ dryRun: true, targetQueue: "email-replay", read: 3, created: 3 }),
+    );
+    expect(out).toContain(
+      "DRY RUN: would import jobs from failed.ndjson into queue 'email-replay' (exported from 'email')",
+    );
+    expect(out).toContain("Would create: 3");
+    expect(out).toContain("(dry run - no changes made)");
+  });
+
+  it("lists per-line errors", () => {
+    const out = formatJobsImport(
+      importOutput({
+        read: 2,
+        created: 1,
+        errored: 1,
+        errors: [{ line: 2, jobId: "7", error: "Missing job name" }],
+      }),
+    );
+    expect(out).toContain("Import complete for queue 'email' from failed.ndjson");
+    expect(out).toContain("line 2 (job 7): Missing job name");
+  });
 });
 
 describe("computeRetryExitCode", () => {
@@ -161,3 +362,397 @@ describe("computeRetryExitCode", () => {
     ).toBe(3);
   });
 });
+
+describe("formatJobDetail — logs", () => {
+  const job = {
+    id: "42",
+    name: "send",
+    state: "active",
+    timestamp: 0,
+    data: {},
+    opts: {},
+    attemptsMade: 0,
+  };
+
+  it("says how many lines are hidden when only the tail is included", () => {
+    const out = formatJobDetail({
+      timestamp: "2026-04-21T00:00:00.000Z",
+      queue: "email",
+      job: { ...job, logs: ["step 2", "step 3"], logCount: 3 },
+    });
+    expect(out).toContain("Logs (last 2 of 3):\n  step 2\n  step 3");
+  });
+
+  it("omits the section for jobs without logs", () => {
+    const out = formatJobDetail({
+      timestamp: "2026-04-21T00:00:00.000Z",
+      queue: "email",
+      job: { ...job, logs: [], logCount: 0 },
+    });
+    expect(out).not.toContain("Logs");
+  });
+});
+
+describe("formatJobDetail — flows", () => {
+  it("shows the parent key and child counts", () => {
+    const out = formatJobDetail({
+      timestamp: "2026-04-21T00:00:00.000Z",
+      queue: "shipping",
+      job: {
+        id: "20",
+        name: "ship",
+        state: "waiting-children",
+        timestamp: 0,
+        data: {},
+        opts: {},
+        attemptsMade: 0,
+        parentKey: "bull:orders:1",
+        dependencies: {
+          counts: { unprocessed: 1, processed: 2, failed: 0, ignored: 0 },
+          unprocessed: ["bull:labels:41"],
+          processed: ["bull:labels:40", "bull:labels:39"],
+          failed: [],
+          ignored: [],
+        },
+      },
+    });
+    expect(out).toContain("Parent:         bull:orders:1");
+    expect(out).toContain("Children:       1 unprocessed, 2 processed");
+  });
+});
+
+describe("formatJobsTree", () => {
+  const leaf = { children: [], omittedChildren: 0 };
+
+  it("draws the tree and marks the requested job", () => {
+    const out = formatJobsTree({
+      queue: "shipping",
+      jobId: "20",
+      jobKey: "bull:shipping:20",
+      nodeCount: 4,
+      truncated: false,
+      root: {
+        key: "bull:orders:1",
+        queue: "orders",
+        id: "1",
+        name: "checkout",
+        state: "waiting-children",
+        omittedChildren: 0,
+        children: [
+          {
+            ...leaf,
+            key: "bull:shipping:20",
+            queue: "shipping",
+            id: "20",
+            name: "ship",
+            state: "waiting-children",
+            dependency: "unprocessed",
+            omittedChildren: 3,
+            children: [
+              {
+                ...leaf,
+                key: "bull:labels:41",
+                queue: "labels",
+                id: "41",
+                name: null,
+                state: "missing",
+                dependency: "unprocessed",
+              },
+            ],
+          },
+          {
+            ...leaf,
+            key: "bull:payments:10",
+            queue: "payments",
+            id: "10",
+            name: "charge",
+            state: "completed",
+            dependency: "processed",
+          },
+        ],
+      },
+    });
+    expect(out).toBe(
+      [
+        "Queue: shipping | Job: 20 | Flow: 4 jobs",
+        "",
+        "orders:1 checkout [waiting-children]",
+        "├─ shipping:20 ship [waiting-children] (+3 more children)  <-",
+        "│  └─ labels:41 [missing]",
+        "└─ payments:10 charge [completed]",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("formatJobsLogs", () => {
+  const base = { queue: "email", jobId: "42", state: "active" };
+
+  it("numbers lines from the offset and points at the next page", () => {
+    const out = formatJobsLogs({ ...base, offset: 8, count: 12, logs: ["i", "j"] });
+    expect(out).toContain("Lines 9-10 of 12");
+    expect(out).toContain(" 9  i\n10  j");
+    expect(out).toContain("... 2 more (use --offset 10)");
+  });
+
+  it("summarizes a follow session", () => {
+    const out = formatJobsLogs({ ...base, state: "completed", offset: 0, count: 7, logs: null });
+    expect(out).toBe("Stopped following job 42 in queue 'email' (state: completed, 7 log lines)");
+  });
+});
+
+describe("formatJobsSearch", () => {
+  const hit = {
+    queue: "billing",
+    id: "7",
+    name: "charge",
+    state: "failed",
+    timestamp: Date.UTC(2026, 0, 1),
+    lastObservedAt: Date.UTC(2026, 0, 2),
+  };
+  const base = { query: "ada", jobState: "all", total: 1, page: 1, totalPages: 1 };
+
+  it("adds a queue column and observation time when searching every queue", () => {
+    const out = formatJobsSearch({ ...base, queue: null, observed: 40, jobs: [hit] });
+    expect(out).toContain("Search: ada | all queues | State: all | 1 matches");
+    expect(out).toContain("Observed 40 jobs from Redis before searching");
+    expect(out).toContain("Queue    ID  Name    State   Timestamp            Last Observed");
+    expect(out).toContain("billing  7   charge  failed  2026-01-01 00:00:00  2026-01-02 00:00:00");
+  });
+
+  it("suggests --observe when nothing matches", () => {
+    const out = formatJobsSearch({ ...base, queue: "email", observed: null, jobs: [], total: 0 });
+    expect(out).not.toContain("Queue ");
+    expect(out).toContain("Run with --observe");
+  });
+});
+
+describe("formatJobsList — paging", () => {
+  it("points at the next page when one exists", () => {
+    const base = {
+      timestamp: "2026-04-21T00:00:00.000Z",
+      queue: "email",
+      jobState: "failed",
+      jobs: [{ id: "1", name: "send", state: "failed", timestamp: 0 }],
+      total: 2,
+    };
+    expect(formatJobsList({ ...base, nextCursor: "abc" })).toEndWith(
+      "\n\nMore results: --cursor abc",
+    );
+    expect(formatJobsList({ ...base, nextCursor: null })).not.toContain("More results");
+  });
+});
+
+describe("formatJobsFind", () => {
+  const match = {
+    queue: "email",
+    id: "42",
+    name: "welcome",
+    state: "failed",
+    timestamp: Date.UTC(2026, 0, 1),
+  };
+
+  it("lists live matches by queue", () => {
+    const out = formatJobsFind({
+      jobId: "42",
+      source: "redis",
+      queuesSearched: 3,
+      matches: [match],
+    });
+    expect(out).toContain("Job: 42 | 1 matches in 3 queues");
+    expect(out).toContain("email  welcome  failed  2026-01-01 00:00:00");
+    expect(out).not.toContain("Last Observed");
+  });
+
+  it("flags cache fallback results", () => {
+    const out = formatJobsFind({
+      jobId: "42",
+      source: "cache",
+      queuesSearched: 2,
+      matches: [{ ...match, lastObservedAt: Date.UTC(2026, 0, 2) }],
+      redisError: "connect ECONNREFUSED",
+    });
+    expect(out).toContain("1 matches in 2 cached queues");
+    expect(out).toContain("Redis unreachable (connect ECONNREFUSED); showing cached jobs");
+    expect(out).toContain("2026-01-02 00:00:00");
+  });
+
+  it("says when no queue has the job", () => {
+    const out = formatJobsFind({ jobId: "42", source: "redis", queuesSearched: 3, matches: [] });
+    expect(out).toContain("No queue has a job with this ID.");
+  });
+});
+
+function percentiles(p50: number | null, p90: number | null, p99: number | null) {
+  return { samples: p50 === null ? 0 : 10, p50, p90, p99 };
+}
+
+describe("formatQueuesStats", () => {
+  it("prints the overall row first, then one row per job name", () => {
+    const send = {
+      jobs: 8,
+      waitMs: percentiles(40, 900, 1500),
+      processingMs: percentiles(1200, 65_000, 90_000),
+    };
+    const out = formatQueuesStats({
+      queue: "email",
+      sampleSize: 1000,
+      completed: 7,
+      failed: 1,
+      from: Date.UTC(2026, 0, 1),
+      to: Date.UTC(2026, 0, 2),
+      overall: send,
+      byName: [{ name: "send", ...send }],
+    });
+    expect(out).toContain("Queue: email | 8 jobs sampled (7 completed, 1 failed)");
+    expect(out).toContain("Window: 2026-01-01 00:00:00 → 2026-01-02 00:00:00");
+    const rows = out.split("\n").filter((line) => /^\(all\)|^send/.test(line));
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatch(/^\(all\)\s+8\s+40ms\s+900ms\s+1\.5s\s+1\.2s\s+1m 5s\s+1m 30s$/);
+  });
+
+  it("handles a queue with no finished jobs", () => {
+    const empty = {
+      jobs: 0,
+      waitMs: percentiles(null, null, null),
+      processingMs: percentiles(null, null, null),
+    };
+    const out = formatQueuesStats({
+      queue: "email",
+      sampleSize: 1000,
+      completed: 0,
+      failed: 0,
+      from: null,
+      to: null,
+      overall: empty,
+      byName: [],
+    });
+    expect(out).toContain("No finished jobs to measure.");
+    expect(out).not.toContain("Window:");
+  });
+});
+
+describe("formatQueuesHistory", () => {
+  const from = Date.UTC(2026, 0, 1);
+
+  function sample(minutes: number, wait: number, failed: number) {
+    return {
+      observedAt: from + minutes * 60_000,
+      counts: { wait, active: 0, completed: 0, failed, delayed: 0, schedulers: 0 },
+      isPaused: false,
+    };
+  }
+
+  it("prints waiting and failed sparklines and a table of samples", () => {
+    const out = formatQueuesHistory({
+      queue: "email",
+      windowMs: 3_600_000,
+      from,
+      to: from + 3_600_000,
+      samples: [sample(0, 10, 0), sample(30, 50, 0), sample(59, 90, 4)],
+    });
+    expect(out).toContain("Queue: email | 3 samples in the last 1h 0m");
+    expect(out).toMatch(/^Waiting [▁-█]+ {2}10 → 90 \(max 90\)$/m);
+    expect(out).toMatch(/^Failed {2}[▁-█]+ {2}0 → 4 \(max 4\)$/m);
+    expect(out).toMatch(/^2026-01-01 00:30:00\s+50\s+0\s+0\s+0\s+0\s+no\s*$/m);
+  });
+
+  it("explains an empty history", () => {
+    const out = formatQueuesHistory({
+      queue: "email",
+      windowMs: 3_600_000,
+      from,
+      to: from + 3_600_000,
+      samples: [],
+    });
+    expect(out).toContain("No samples recorded yet.");
+  });
+});
+
+describe("formatJobsFailures", () => {
+  const group = {
+    id: "3fa9c0d2e1",
+    reason: "Timeout after <n>ms",
+    frames: ["at send (mailer.ts)"],
+    count: 12,
+    firstSeen: Date.UTC(2026, 0, 1),
+    lastSeen: Date.UTC(2026, 0, 2),
+    sampleJobIds: ["41", "40"],
+    names: [
+      { name: "send", count: 10 },
+      { name: "welcome", count: 2 },
+    ],
+    exampleReason: "Timeout after 3000ms",
+  };
+
+  it("lists groups with a retry hint", () => {
+    const out = formatJobsFailures({
+      queue: "email",
+      scanned: 12,
+      totalFailed: 12,
+      truncated: false,
+      groups: [group],
+    });
+    expect(out).toContain("Queue: email | 1 failure groups in 12 of 12 failed jobs");
+    expect(out).toContain(
+      "3fa9c0d2e1     12  2026-01-01 00:00:00  2026-01-02 00:00:00  send (10), welcome (2)  Timeout after <n>ms",
+    );
+    expect(out).toContain("--job-state failed --failure-group <group> --dry-run");
+    expect(out).not.toContain("NOTE:");
+  });
+
+  it("notes a truncated scan and handles an empty queue", () => {
+    const base = { queue: "email", scanned: 0, totalFailed: 0, truncated: false, groups: [] };
+    expect(formatJobsFailures(base)).toContain("No failed jobs.");
+    expect(
+      formatJobsFailures({
+        ...base,
+        scanned: 12,
+        totalFailed: 50,
+        truncated: true,
+        groups: [group],
+      }),
+    ).toContain("NOTE: only the newest failed jobs were scanned");
+  });
+});
+
+describe("formatAlertsCheck", () => {
+  it("lists firing rules with their messages", () => {
+    const output = formatAlertsCheck({
+      rules: 2,
+      queues: 3,
+      firing: [
+        {
+          rule: "failed > 100 in payments",
+          queue: "payments",
+          state: "failed",
+          kind: "threshold",
+          count: 142,
+          threshold: 100,
+          baseline: null,
+          baselineAt: null,
+          growth: null,
+          window: null,
+          message: "payments: failed is 142 (above 100)",
+        },
+      ],
+    });
+    expect(output).toBe(
+      [
+        "✗ 1 alert(s) firing (2 rules, 3 queues)",
+        "",
+        "  failed > 100 in payments",
+        "    payments: failed is 142 (above 100)",
+      ].join("\n"),
+    );
+  });
+
+  it("says when nothing fires or no rules exist", () => {
+    expect(formatAlertsCheck({ rules: 2, queues: 3, firing: [] })).toBe(
+      "✓ No alerts firing (2 rules, 3 queues)",
+    );
+    expect(formatAlertsCheck({ rules: 0, queues: 3, firing: [] })).toContain(
+      "No alert rules configured",
+    );
+  });
+});
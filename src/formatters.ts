@@ -1,8 +1,13 @@
 import type { QueueStats } from "./data/queues.js";
 import type { JobSummary, JobDetail, RetryResult } from "./data/jobs.js";
+import type { FailureGroup } from "./data/failures.js";
+import { formatLatency, type LatencySummary, type QueueLatencyResult } from "./data/latency.js";
+import { DEPENDENCY_STATES, flattenFlowTree, type FlowTreeResult } from "./data/flows.js";
 import type { JobSchedulerSummary, JobSchedulerDetail, RecentJobInfo } from "./data/schedulers.js";
 import type { DoctorCheckStatus, DoctorReport } from "./doctor.js";
+import type { FiringAlert } from "./data/alerts.js";
 import { formatInterval } from "./data/schedulers.js";
+import { bucketSamples, formatSparkline, type QueueHistoryResult } from "./data/history.js";
 
 // ── Helpers ─────────────────────────────────────────────────────────────
 
@@ -65,8 +70,19 @@ interface QueuesOverviewData {
 }
 
 export function formatQueuesOverview(data: QueuesOverviewData): string {
-  const headers = ["Queue", "Wait", "Active", "Completed", "Failed", "Delayed", "Total", "Paused"];
-  const align: ("l" | "r")[] = ["l", "r", "r", "r", "r", "r", "r", "l"];
+  const headers = [
+    "Queue",
+    "Wait",
+    "Active",
+    "Completed",
+    "Failed",
+    "Delayed",
+    "Total",
+    "In/min",
+    "Out/min",
+    "Paused",
+  ];
+  const align: ("l" | "r")[] = ["l", "r", "r", "r", "r", "r", "r", "r", "r", "l"];
 
   const rows = data.queues.map((q) => [
     q.name,
@@ -76,6 +92,8 @@ export function formatQueuesOverview(data: QueuesOverviewData): string {
     String(q.counts.failed),
     String(q.counts.delayed),
     String(q.total),
+    q.rates ? String(q.rates.enqueuedPerMin) : "-",
+    q.rates ? String(q.rates.dequeuedPerMin) : "-",
     q.isPaused ? "yes" : "no",
   ]);
 
@@ -89,6 +107,8 @@ export function formatQueuesOverview(data: QueuesOverviewData): string {
     String(jc.delayed),
     String(jc.total),
     "",
+    "",
+    "",
   ];
 
   const allRows = [...rows, totals];
@@ -143,24 +163,458 @@ export function formatQueuesDelete(data: QueuesDeleteData): string {
   return lines.join("\n");
 }
 
+interface QueuesPauseData {
+  timestamp: string;
+  command: "queues-pause" | "queues-resume";
+  dryRun: boolean;
+  queue: string;
+  wasPaused: boolean;
+  isPaused: boolean;
+  changed: boolean;
+}
+
+export function formatQueuesPause(data: QueuesPauseData): string {
+  const pausing = data.command === "queues-pause";
+  const verb = pausing ? "pause" : "resume";
+  const current = data.wasPaused ? "paused" : "active";
+
+  if (data.dryRun) {
+    const noop = data.wasPaused === pausing;
+    return [
+      noop
+        ? `[DRY RUN] Queue '${data.queue}' is already ${current}; ${verb} would be a no-op.`
+        : `[DRY RUN] Would ${verb} queue '${data.queue}' (currently ${current}).`,
+      "",
+      "(dry run - no changes made)",
+    ].join("\n");
+  }
+
+  if (!data.changed) {
+    return `Queue '${data.queue}' was already ${current}; nothing changed.`;
+  }
+  return pausing
+    ? `Paused queue '${data.queue}'. Workers will not pick up new jobs until it is resumed.`
+    : `Resumed queue '${data.queue}'.`;
+}
+
+interface QueuesCleanData {
+  timestamp: string;
+  dryRun: boolean;
+  queue: string;
+  jobState: string;
+  olderThan: string;
+  limit: number | null;
+  matched: number;
+  removed: number;
+  sampleJobIds: string[];
+  truncated: boolean;
+}
+
+export function formatQueuesClean(data: QueuesCleanData): string {
+  const lines: string[] = [];
+  const what = `${data.jobState} jobs older than ${data.olderThan}`;
+
+  if (data.dryRun) {
+    lines.push(`[DRY RUN] Would clean ${data.matched} ${what} from queue '${data.queue}'`);
+  } else {
+    lines.push(`Cleaned ${data.removed} ${what} from queue '${data.queue}'`);
+  }
+  if (data.limit !== null) {
+    lines.push(`  Limit: ${data.limit}`);
+  }
+
+  if (data.truncated) {
+    lines.push("");
+    lines.push(
+      "NOTE: the dry-run stopped after scanning 10000 jobs; the live clean may remove more.",
+    );
+  }
+
+  if (data.sampleJobIds.length > 0) {
+    lines.push("");
+    lines.push(data.dryRun ? "Sample matched IDs:" : "Sample removed IDs:");
+    for (const id of data.sampleJobIds) {
+      lines.push(`  ${id}`);
+    }
+  }
+
+  if (data.dryRun) {
+    lines.push("");
+    lines.push("(dry run - no changes made)");
+  }
+
+  return lines.join("\n");
+}
+
+// ── Queues stats ────────────────────────────────────────────────────────
+
+interface QueuesStatsData extends QueueLatencyResult {
+  queue: string;
+}
+
+function latencyCells(summary: LatencySummary): string[] {
+  const { waitMs: wait, processingMs: proc } = summary;
+  return [wait.p50, wait.p90, wait.p99, proc.p50, proc.p90, proc.p99].map(formatLatency);
+}
+
+export function formatQueuesStats(data: QueuesStatsData): string {
+  const sampled = data.completed + data.failed;
+  const lines = [
+    `Queue: ${data.queue} | ${sampled} jobs sampled (${data.completed} completed, ${data.failed} failed)`,
+  ];
+  if (data.from !== null && data.to !== null) {
+    lines.push(`Window: ${formatTs(data.from)} → ${formatTs(data.to)}`);
+  }
+  lines.push("");
+  if (sampled === 0) {
+    lines.push("No finished jobs to measure.");
+    return lines.join("\n");
+  }
+
+  const columns = ["Name", "Jobs", "Wait p50", "p90", "p99", "Proc p50", "p90", "p99"];
+  const align: ("l" | "r")[] = ["l", "r", "r", "r", "r", "r", "r", "r"];
+  const rows = [
+    ["(all)", String(data.overall.jobs), ...latencyCells(data.overall)],
+    ...data.byName.map((group) => [group.name, String(group.jobs), ...latencyCells(group)]),
+  ];
+  lines.push(table(columns, rows, align));
+  lines.push("");
+  lines.push(
+    `Sampled the newest ${data.sampleSize} completed and ${data.sampleSize} failed jobs; raise --page-size to widen the window.`,
+  );
+  return lines.join("\n");
+}
+
+// ── Queues history ──────────────────────────────────────────────────────
+
+const HISTORY_SPARK_POINTS = 40;
+const HISTORY_TABLE_ROWS = 12;
+
+export function formatQueuesHistory(data: QueueHistoryResult): string {
+  const { samples } = data;
+  const lines = [
+    `Queue: ${data.queue} | ${samples.length} samples in the last ${formatInterval(data.windowMs)}`,
+    `Window: ${formatTs(data.from)} → ${formatTs(data.to)}`,
+    "",
+  ];
+  if (samples.length === 0) {
+    lines.push("No samples recorded yet. Open the TUI or web dashboard, or run 'queues list'.");
+    return lines.join("\n");
+  }
+
+  const first = samples[0]!.counts;
+  const last = samples.at(-1)!.counts;
+  const spark = bucketSamples(samples, data.from, data.to, HISTORY_SPARK_POINTS);
+  for (const [label, state] of [
+    ["Waiting", "wait"],
+    ["Failed ", "failed"],
+  ] as const) {
+    const values = spark.map((sample) => sample.counts[state]);
+    lines.push(
+      `${label} ${formatSparkline(values)}  ${first[state]} → ${last[state]} (max ${Math.max(...values)})`,
+    );
+  }
+  lines.push("");
+
+  const rows = bucketSamples(samples, data.from, data.to, HISTORY_TABLE_ROWS).filter(
+    (sample, index, all) => index === 0 || sample !== all[index - 1],
+  );
+  lines.push(
+    table(
+      ["Observed", "Wait", "Active", "Completed", "Failed", "Delayed", "Paused"],
+      rows.map((sample) => [
+        formatTs(sample.observedAt),
+        String(sample.counts.wait),
+        String(sample.counts.active),
+        String(sample.counts.completed),
+        String(sample.counts.failed),
+        String(sample.counts.delayed),
+        sample.isPaused ? "yes" : "no",
+      ]),
+      ["l", "r", "r", "r", "r", "r", "l"],
+    ),
+  );
+  if (rows.length < samples.length) {
+    lines.push("");
+    lines.push(`Showing ${rows.length} of ${samples.length} samples; JSON output has all of them.`);
+  }
+  return lines.join("\n");
+}
+
 // ── Jobs list ───────────────────────────────────────────────────────────
 
 interface JobsListData {
   timestamp: string;
   queue: string;
   jobState: string;
+  where?: string;
   jobs: JobSummary[];
   total: number;
+  nextCursor?: string | null;
+}
+
+/** Point at the next page, so a human can continue where the output stopped. */
+function nextPageHint(nextCursor: string | null | undefined): string[] {
+  return nextCursor ? ["", `More results: --cursor ${nextCursor}`] : [];
 }
 
 export function formatJobsList(data: JobsListData): string {
-  const header = `Queue: ${data.queue} | State: ${data.jobState} | ${data.total} jobs`;
+  const header =
+    data.where === undefined
+      ? `Queue: ${data.queue} | State: ${data.jobState} | ${data.total} jobs`
+      : `Queue: ${data.queue} | State: ${data.jobState} | Where: ${data.where} | ${data.jobs.length} of ${data.total} jobs match`;
   const columns = ["ID", "Name", "State", "Timestamp"];
   const align: ("l" | "r")[] = ["l", "l", "l", "l"];
 
   const rows = data.jobs.map((j) => [j.id, j.name, j.state, formatTs(j.timestamp)]);
 
-  return [header, "", table(columns, rows, align)].join("\n");
+  return [header, "", table(columns, rows, align), ...nextPageHint(data.nextCursor)].join("\n");
+}
+
+// ── Jobs failures ───────────────────────────────────────────────────────
+
+interface JobsFailuresData {
+  queue: string;
+  scanned: number;
+  totalFailed: number;
+  truncated: boolean;
+  groups: FailureGroup[];
+}
+
+export function formatJobsFailures(data: JobsFailuresData): string {
+  const lines = [
+    `Queue: ${data.queue} | ${data.groups.length} failure groups in ${data.scanned} of ${data.totalFailed} failed jobs`,
+    "",
+  ];
+  if (data.groups.length === 0) {
+    lines.push("No failed jobs.");
+    return lines.join("\n");
+  }
+
+  const columns = ["Group", "Count", "First Seen", "Last Seen", "Names", "Reason"];
+  const align: ("l" | "r")[] = ["l", "r", "l", "l", "l", "l"];
+  const rows = data.groups.map((g) => [
+    g.id,
+    String(g.count),
+    formatTs(g.firstSeen),
+    formatTs(g.lastSeen),
+    g.names.map((n) => `${n.name} (${n.count})`).join(", "),
+    g.reason,
+  ]);
+  lines.push(table(columns, rows, align));
+
+  if (data.truncated) {
+    lines.push("");
+    lines.push("NOTE: only the newest failed jobs were scanned; raise --page-size to group more.");
+  }
+  lines.push("");
+  lines.push(
+    `Retry a group:  bullmq-dash jobs retry ${data.queue} --job-state failed --failure-group <group> --dry-run`,
+  );
+  return lines.join("\n");
+}
+
+// ── Jobs find ───────────────────────────────────────────────────────────
+
+interface JobsFindData {
+  jobId: string;
+  source: "redis" | "cache";
+  queuesSearched: number;
+  matches: Array<JobSummary & { queue: string }>;
+  redisError?: string;
+}
+
+export function formatJobsFind(data: JobsFindData): string {
+  const fromCache = data.source === "cache";
+  const where = fromCache
+    ? `${data.queuesSearched} cached queues`
+    : `${data.queuesSearched} queues`;
+  const lines = [`Job: ${data.jobId} | ${data.matches.length} matches in ${where}`];
+  if (fromCache) {
+    lines.push(`Redis unreachable (${data.redisError ?? "unknown error"}); showing cached jobs`);
+  }
+  lines.push("");
+
+  if (data.matches.length === 0) {
+    lines.push(fromCache ? "No cached job has this ID." : "No queue has a job with this ID.");
+    return lines.join("\n");
+  }
+
+  const columns = ["Queue", "Name", "State", "Timestamp"];
+  const rows = data.matches.map((m) => [m.queue, m.name, m.state, formatTs(m.timestamp)]);
+  if (fromCache) {
+    columns.push("Last Observed");
+    data.matches.forEach((m, i) => rows[i]!.push(formatTs(m.lastObservedAt)));
+  }
+  lines.push(table(columns, rows));
+  return lines.join("\n");
+}
+
+// ── Jobs tree ───────────────────────────────────────────────────────────
+
+interface JobsTreeData extends FlowTreeResult {
+  queue: string;
+  jobId: string;
+}
+
+export function formatJobsTree(data: JobsTreeData): string {
+  const lines = [`Queue: ${data.queue} | Job: ${data.jobId} | Flow: ${data.nodeCount} jobs`, ""];
+
+  for (const { node, guide } of flattenFlowTree(data.root)) {
+    const label = node.queue ? `${node.queue}:${node.id}` : node.id;
+    const name = node.name === null ? "" : ` ${node.name}`;
+    const omitted = node.omittedChildren > 0 ? ` (+${node.omittedChildren} more children)` : "";
+    const marker = node.key === data.jobKey ? "  <-" : "";
+    lines.push(`${guide}${label}${name} [${node.state}]${omitted}${marker}`);
+  }
+
+  if (data.truncated) {
+    lines.push("");
+    lines.push("NOTE: the flow is larger than this walk loads; some children were not fetched.");
+  }
+  return lines.join("\n");
+}
+
+// ── Jobs search ─────────────────────────────────────────────────────────
+
+interface JobsSearchData {
+  queue: string | null;
+  query: string;
+  jobState: string;
+  observed: number | null;
+  jobs: Array<JobSummary & { queue: string; lastObservedAt: number }>;
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export function formatJobsSearch(data: JobsSearchData): string {
+  const scope = data.queue === null ? "all queues" : `Queue: ${data.queue}`;
+  const pages = data.totalPages > 1 ? ` (page ${data.page} of ${data.totalPages})` : "";
+  const lines = [
+    `Search: ${data.query} | ${scope} | State: ${data.jobState} | ${data.total} matches${pages}`,
+  ];
+  if (data.observed !== null) {
+    lines.push(`Observed ${data.observed} jobs from Redis before searching`);
+  }
+  lines.push("");
+
+  if (data.jobs.length === 0) {
+    lines.push("No cached jobs match. Run with --observe to refresh the cache from Redis.");
+    return lines.join("\n");
+  }
+
+  const columns = ["ID", "Name", "State", "Timestamp", "Last Observed"];
+  const align: ("l" | "r")[] = ["l", "l", "l", "l", "l"];
+  const rows = data.jobs.map((j) => [
+    j.id,
+    j.name,
+    j.state,
+    formatTs(j.timestamp),
+    formatTs(j.lastObservedAt),
+  ]);
+  if (data.queue === null) {
+    columns.unshift("Queue");
+    align.unshift("l");
+    data.jobs.forEach((j, i) => rows[i]!.unshift(j.queue));
+  }
+  lines.push(table(columns, rows, align));
+  return lines.join("\n");
+}
+
+// ── Jobs export ─────────────────────────────────────────────────────────
+
+interface JobsExportData {
+  timestamp: string;
+  queue: string;
+  jobState: string;
+  includeData: boolean;
+  out: string | null;
+  exported: number;
+  complete: boolean;
+  resumeToken: string | null;
+  error: string | null;
+}
+
+export function formatJobsExport(data: JobsExportData): string {
+  const lines: string[] = [];
+  const target = data.out ? ` to ${data.out}` : "";
+  const what = data.jobState === "all" ? "jobs" : `${data.jobState} jobs`;
+
+  if (data.complete) {
+    lines.push(`Exported ${data.exported} ${what} from queue '${data.queue}'${target}`);
+    return lines.join("\n");
+  }
+
+  lines.push(`Export of queue '${data.queue}' stopped after ${data.exported} ${what}${target}`);
+  if (data.error) {
+    lines.push(`  Error: ${data.error}`);
+  }
+  lines.push("");
+  lines.push("Resume with:");
+  lines.push(`  --resume ${data.resumeToken}`);
+
+  return lines.join("\n");
+}
+
+// ── Jobs import ─────────────────────────────────────────────────────────
+
+interface JobsImportData {
+  timestamp: string;
+  dryRun: boolean;
+  queue: string;
+  targetQueue: string;
+  file: string;
+  ids: string;
+  read: number;
+  created: number;
+  skipped: number;
+  errored: number;
+  errors: { line: number; jobId: string | null; error: string }[];
+  sampleJobIds: string[];
+}
+
+export function formatJobsImport(data: JobsImportData): string {
+  const lines: string[] = [];
+  const target =
+    data.targetQueue === data.queue
+      ? `queue '${data.targetQueue}'`
+      : `queue '${data.targetQueue}' (exported from '${data.queue}')`;
+
+  lines.push(
+    data.dryRun
+      ? `DRY RUN: would import jobs from ${data.file} into ${target}`
+      : `Import complete for ${target} from ${data.file}`,
+  );
+  lines.push(`  IDs:     ${data.ids === "preserve" ? "preserved" : "new"}`);
+  lines.push(`  Read:    ${data.read}`);
+  lines.push(`  ${data.dryRun ? "Would create" : "Created"}: ${data.created}`);
+  lines.push(`  Skipped: ${data.skipped}`);
+  lines.push(`  Errors:  ${data.errored}`);
+
+  if (data.sampleJobIds.length > 0) {
+    lines.push("");
+    lines.push(data.dryRun ? "Sample exported IDs:" : "Sample created IDs:");
+    for (const id of data.sampleJobIds) {
+      lines.push(`  ${id}`);
+    }
+  }
+
+  if (data.errors.length > 0) {
+    lines.push("");
+    lines.push("Errors:");
+    for (const e of data.errors) {
+      const job = e.jobId ? ` (job ${e.jobId})` : "";
+      lines.push(`  line ${e.line}${job}: ${e.error}`);
+    }
+  }
+
+  if (data.dryRun) {
+    lines.push("");
+    lines.push("(dry run - no changes made)");
+  }
+
+  return lines.join("\n");
 }
 
 // ── Job detail ──────────────────────────────────────────────────────────
@@ -187,6 +641,13 @@ export function formatJobDetail(data: JobDetailData): string {
   if (j.progress !== undefined) lines.push(`Progress:       ${prettyJson(j.progress)}`);
   if (j.failedReason) lines.push(`Failed Reason:  ${j.failedReason}`);
   if (j.repeatJobKey) lines.push(`Repeat Key:     ${j.repeatJobKey}`);
+  if (j.parentKey) lines.push(`Parent:         ${j.parentKey}`);
+  if (j.dependencies) {
+    const counts = DEPENDENCY_STATES.filter((state) => j.dependencies!.counts[state] > 0).map(
+      (state) => `${j.dependencies!.counts[state]} ${state}`,
+    );
+    lines.push(`Children:       ${counts.join(", ")}`);
+  }
 
   lines.push("");
   lines.push("Data:");
@@ -212,9 +673,91 @@ export function formatJobDetail(data: JobDetailData): string {
     lines.push(prettyJson(j.opts));
   }
 
+  if (j.logs && j.logs.length > 0) {
+    lines.push("");
+    const count = j.logCount ?? j.logs.length;
+    lines.push(
+      count > j.logs.length ? `Logs (last ${j.logs.length} of ${count}):` : `Logs (${count}):`,
+    );
+    for (const line of j.logs) {
+      lines.push(`  ${line}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ── Jobs logs ───────────────────────────────────────────────────────────
+
+interface JobsLogsInput {
+  queue: string;
+  jobId: string;
+  state: string;
+  offset: number;
+  count: number;
+  logs: string[] | null;
+}
+
+export function formatJobsLogs(r: JobsLogsInput): string {
+  if (r.logs === null) {
+    return `Stopped following job ${r.jobId} in queue '${r.queue}' (state: ${r.state}, ${r.count} log lines)`;
+  }
+
+  const header = `Queue: ${r.queue} | Job: ${r.jobId} | State: ${r.state}`;
+  if (r.logs.length === 0) {
+    return `${header}\n\nNo log lines${r.count > 0 ? ` at offset ${r.offset} (${r.count} total)` : ""}.`;
+  }
+
+  const last = r.offset + r.logs.length;
+  const lines = [`${header} | Lines ${r.offset + 1}-${last} of ${r.count}`, ""];
+  const width = String(last).length;
+  r.logs.forEach((log, i) => {
+    lines.push(`${String(r.offset + i + 1).padStart(width)}  ${log}`);
+  });
+  if (last < r.count) {
+    lines.push("");
+    lines.push(`... ${r.count - last} more (use --offset ${last})`);
+  }
+  return lines.join("\n");
+}
+
+// ── Alerts check ────────────────────────────────────────────────────────
+
+interface AlertsCheckInput {
+  rules: number;
+  queues: number;
+  firing: FiringAlert[];
+}
+
+export function formatAlertsCheck(r: AlertsCheckInput): string {
+  if (r.rules === 0) {
+    return 'No alert rules configured. Add an "alerts" array to the profile.';
+  }
+  const scope = `${r.rules} rules, ${r.queues} queues`;
+  if (r.firing.length === 0) return `✓ No alerts firing (${scope})`;
+
+  const lines = [`✗ ${r.firing.length} alert(s) firing (${scope})`, ""];
+  for (const alert of r.firing) {
+    lines.push(`  ${alert.rule}`);
+    lines.push(`    ${alert.message}`);
+  }
   return lines.join("\n");
 }
 
+// ── Watch ───────────────────────────────────────────────────────────────
+
+interface WatchInput {
+  pollInterval: number;
+  duration: number | null;
+  events: number;
+  stoppedBy: "duration" | "signal";
+}
+
+export function formatWatch(r: WatchInput): string {
+  const reason = r.stoppedBy === "duration" ? `after ${formatLatency(r.duration)}` : "on signal";
+  return `Stopped watching ${reason} (${r.events} events, polled every ${formatLatency(r.pollInterval)})`;
+}
+
 // ── Schedulers list ─────────────────────────────────────────────────────
 
 interface SchedulersListData {
@@ -222,6 +765,7 @@ interface SchedulersListData {
   queue: string;
   schedulers: JobSchedulerSummary[];
   total: number;
+  nextCursor?: string | null;
 }
 
 function scheduleStr(s: JobSchedulerSummary): string {
@@ -244,7 +788,7 @@ export function formatSchedulersList(data: SchedulersListData): string {
     s.tz ?? "-",
   ]);
 
-  return [header, "", table(columns, rows, align)].join("\n");
+  return [header, "", table(columns, rows, align), ...nextPageHint(data.nextCursor)].join("\n");
 }
 
 // ── Scheduler detail ────────────────────────────────────────────────────
@@ -314,46 +858,79 @@ export function formatSchedulerDetail(data: SchedulerDetailData): string {
   return lines.join("\n");
 }
 
-// ── Jobs retry ──────────────────────────────────────────────────────────
+// ── Bulk job actions (retry, promote, remove) ──────────────────────────
 
 const MAX_DISPLAYED_ERRORS = 10;
 
-interface JobsRetryInput {
+interface BulkJobActionInput {
   dryRun: boolean;
   queue: string;
-  filter: { jobState: string; jobId?: string; since?: string; name?: string };
+  filter: {
+    jobState?: string;
+    jobId?: string;
+    since?: string;
+    name?: string;
+    where?: string;
+    failureGroup?: string;
+  };
   matched: number;
-  retried: number;
   errors: RetryResult["errors"];
   sampleJobIds: string[];
-  totalFailed: number;
   truncated: boolean;
 }
 
-export function formatJobsRetry(r: JobsRetryInput): string {
+interface BulkJobActionLabels {
+  /** Imperative verb: "retry", "promote", "remove", "move". */
+  verb: string;
+  /** Past-tense count label: "Retried", "Promoted", "Removed", "Moved". */
+  done: string;
+  /** Count of jobs that actually had the action applied. */
+  applied: number;
+  /** State the action reads from, used in "Total <state>". */
+  sourceState: string;
+  /** Total jobs in the source state; null hides the row (single-ID actions). */
+  sourceTotal: number | null;
+  /** Queue the jobs end up in, for actions that move them elsewhere. */
+  targetQueue?: string;
+}
+
+function formatBulkJobAction(r: BulkJobActionInput, labels: BulkJobActionLabels): string {
   const lines: string[] = [];
 
-  const filterParts: string[] = [`state=${r.filter.jobState}`];
+  const filterParts: string[] = [];
+  if (r.filter.jobState) filterParts.push(`state=${r.filter.jobState}`);
   if (r.filter.jobId) filterParts.push(`jobId=${r.filter.jobId}`);
   if (r.filter.since) filterParts.push(`since=${r.filter.since}`);
   if (r.filter.name) filterParts.push(`name=${r.filter.name}`);
+  if (r.filter.where) filterParts.push(`where=${r.filter.where}`);
+  if (r.filter.failureGroup) filterParts.push(`failureGroup=${r.filter.failureGroup}`);
+
+  const rows: Array<[string, string]> = [["Filter:", filterParts.join(", ")]];
+  if (labels.targetQueue !== undefined) rows.push(["Target queue:", labels.targetQueue]);
+  if (labels.sourceTotal !== null) {
+    rows.push([`Total ${labels.sourceState}:`, String(labels.sourceTotal)]);
+  }
+  rows.push(["Matched:", String(r.matched)]);
+  if (!r.dryRun) {
+    rows.push([`${labels.done}:`, String(labels.applied)]);
+    rows.push(["Errors:", String(r.errors.length)]);
+  }
+  const labelWidth = Math.max(...rows.map(([label]) => label.length)) + 1;
 
   if (r.dryRun) {
-    lines.push(`DRY RUN: would retry ${r.matched} jobs in queue '${r.queue}'`);
+    const target = labels.targetQueue !== undefined ? ` to '${labels.targetQueue}'` : "";
+    lines.push(`DRY RUN: would ${labels.verb} ${r.matched} jobs in queue '${r.queue}'${target}`);
   } else {
-    lines.push(`Retry complete for queue '${r.queue}'`);
+    const title = labels.verb.charAt(0).toUpperCase() + labels.verb.slice(1);
+    lines.push(`${title} complete for queue '${r.queue}'`);
   }
-  lines.push(`Filter:       ${filterParts.join(", ")}`);
-  lines.push(`Total failed: ${r.totalFailed}`);
-  lines.push(`Matched:      ${r.matched}`);
-  if (!r.dryRun) {
-    lines.push(`Retried:      ${r.retried}`);
-    lines.push(`Errors:       ${r.errors.length}`);
+  for (const [label, value] of rows) {
+    lines.push(`${label.padEnd(labelWidth)}${value}`);
   }
   if (r.truncated) {
     lines.push("");
     lines.push(
-      "NOTE: more failed jobs exist than were fetched. Narrow with --since/--name or raise --page-size (max 10000).",
+      `NOTE: more ${labels.sourceState} jobs exist than were fetched. Narrow with --since/--name or raise --page-size (max 10000).`,
     );
   }
 
@@ -368,8 +945,8 @@ export function formatJobsRetry(r: JobsRetryInput): string {
   if (!r.dryRun && r.errors.length > 0) {
     lines.push("");
     lines.push("Errors:");
-    const rows = r.errors.slice(0, MAX_DISPLAYED_ERRORS).map((e) => [e.jobId, e.error]);
-    lines.push(table(["JOB ID", "ERROR"], rows));
+    const errorRows = r.errors.slice(0, MAX_DISPLAYED_ERRORS).map((e) => [e.jobId, e.error]);
+    lines.push(table(["JOB ID", "ERROR"], errorRows));
     if (r.errors.length > MAX_DISPLAYED_ERRORS) {
       lines.push(
         `  ... and ${r.errors.length - MAX_DISPLAYED_ERRORS} more (see JSON output with --human-friendly off)`,
@@ -379,12 +956,74 @@ export function formatJobsRetry(r: JobsRetryInput): string {
 
   if (r.dryRun) {
     lines.push("");
-    lines.push("Run with --yes and without --dry-run to retry these jobs from scripts.");
+    lines.push(`Run with --yes and without --dry-run to ${labels.verb} these jobs from scripts.`);
   }
 
   return lines.join("\n");
 }
 
+interface JobsRetryInput extends BulkJobActionInput {
+  retried: number;
+  totalInState: number;
+}
+
+export function formatJobsRetry(r: JobsRetryInput): string {
+  return formatBulkJobAction(r, {
+    verb: "retry",
+    done: "Retried",
+    applied: r.retried,
+    sourceState: r.filter.jobState ?? "failed",
+    sourceTotal: r.totalInState,
+  });
+}
+
+interface JobsPromoteInput extends BulkJobActionInput {
+  promoted: number;
+  totalDelayed: number;
+}
+
+export function formatJobsPromote(r: JobsPromoteInput): string {
+  return formatBulkJobAction(r, {
+    verb: "promote",
+    done: "Promoted",
+    applied: r.promoted,
+    sourceState: "delayed",
+    sourceTotal: r.totalDelayed,
+  });
+}
+
+interface JobsRemoveInput extends BulkJobActionInput {
+  removed: number;
+  totalInState: number | null;
+}
+
+export function formatJobsRemove(r: JobsRemoveInput): string {
+  return formatBulkJobAction(r, {
+    verb: "remove",
+    done: "Removed",
+    applied: r.removed,
+    sourceState: r.filter.jobState ?? "",
+    sourceTotal: r.totalInState,
+  });
+}
+
+interface JobsMoveInput extends BulkJobActionInput {
+  targetQueue: string;
+  moved: number;
+  totalInState: number | null;
+}
+
+export function formatJobsMove(r: JobsMoveInput): string {
+  return formatBulkJobAction(r, {
+    verb: "move",
+    done: "Moved",
+    applied: r.moved,
+    sourceState: r.filter.jobState ?? "",
+    sourceTotal: r.totalInState,
+    targetQueue: r.targetQueue,
+  });
+}
+
 // ── Doctor report ───────────────────────────────────────────────────────
 
 const DOCTOR_STATUS_SYMBOLS: Record<DoctorCheckStatus, string> = {
@@ -60,7 +60,7 @@ async function main() {
 
     const config = loadConfig(cliArgs, profile);
     const ctx = createContext(config);
-    await runJsonMode(ctx, cliArgs.subcommand, cliArgs.humanFriendly, cliArgs.yes);
+    await runJsonMode(ctx, cliArgs.subcommand, cliArgs.output, cliArgs.yes, cliArgs.fields);
     return;
   }
 
@@ -81,6 +81,7 @@ async function main() {
         host: cliArgs.webHost ?? "127.0.0.1",
         port: cliArgs.webPort ?? 3000,
         readOnly: cliArgs.webReadOnly ?? false,
+        metricsOnly: cliArgs.webMetricsOnly ?? false,
       });
     } catch (error) {
       if (error instanceof WebRedisConnectionError) {
@@ -1,6 +1,8 @@
 import { describe, expect, it, spyOn } from "bun:test";
+import { unlinkSync } from "node:fs";
 import { omitObservationMetadata, publicJobSummary, runJsonMode } from "./json-reporter.js";
-import type { Context } from "./context.js";
+import { createContext, type Context } from "./context.js";
+import { recordObservedJobs } from "./data/queue-store.js";
 
 describe("omitObservationMetadata", () => {
   it("removes cache observation metadata from public JSON records", () => {
@@ -55,7 +57,7 @@ describe("runJsonMode destructive confirmation", () => {
     const subcommand = {
       kind: "jobs-retry" as const,
       queue: "payments",
-      jobState: "failed",
+      jobState: "failed" as const,
       jobId: "42",
       dryRun: false,
     };
@@ -68,7 +70,7 @@ describe("runJsonMode destructive confirmation", () => {
     const stderrSpy = spyOn(process.stderr, "write").mockImplementation(() => true);
 
     try {
-      await expect(runJsonMode(ctx, subcommand, false, false)).rejects.toThrow("process.exit(2)");
+      await expect(runJsonMode(ctx, subcommand, "json", false)).rejects.toThrow("process.exit(2)");
       expect(connected).toBe(false);
     } finally {
       exitSpy.mockRestore();
@@ -81,3 +83,177 @@ describe("runJsonMode destructive confirmation", () => {
     }
   });
 });
+
+describe("runJsonMode jobs search", () => {
+  it("answers from the SQLite cache without connecting to Redis", async () => {
+    const dbPath = `${import.meta.dirname}/json-reporter-search.db`;
+    const ctx = createContext(
+      {
+        redis: { host: "localhost", port: 6379, db: 0 },
+        pollInterval: 3000,
+        prefix: "bull",
+        cacheTtlMs: 24 * 60 * 60 * 1000,
+      },
+      { dbPath },
+    );
+    recordObservedJobs(
+      ctx,
+      "email",
+      [{ id: "1", name: "send", state: "failed", timestamp: 1000, data: { to: "ada" } }],
+      { observedAt: 2000 },
+    );
+    const connectSpy = spyOn(ctx.redis, "connect");
+    const exitSpy = spyOn(process, "exit").mockImplementation((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    });
+    let written = "";
+    const stdoutSpy = spyOn(process.stdout, "write").mockImplementation((chunk) => {
+      written += String(chunk);
+      return true;
+    });
+
+    try {
+      await expect(
+        runJsonMode(
+          ctx,
+          { kind: "jobs-search", queue: "email", query: "ada", page: 1, observe: false },
+          "json",
+          false,
+        ),
+      ).rejects.toThrow("process.exit(0)");
+      expect(connectSpy).not.toHaveBeenCalled();
+      expect(JSON.parse(written)).toMatchObject({
+        queue: "email",
+        observed: null,
+        total: 1,
+        jobs: [{ queue: "email", id: "1", lastObservedAt: 2000 }],
+      });
+    } finally {
+      exitSpy.mockRestore();
+      stdoutSpy.mockRestore();
+      for (const suffix of ["", "-wal", "-shm"]) {
+        try {
+          unlinkSync(`${dbPath}${suffix}`);
+        } catch {
+          // ignore
+        }
+      }
+    }
+  });
+});
+
+describe("runJsonMode jobs export", () => {
+  it("reports an unwritable --out path with a resume token instead of crashing", async () => {
+    const dbPath = `${import.meta.dirname}/json-reporter-export.db`;
+    const ctx = createContext(
+      {
+        redis: { host: "localhost", port: 6379, db: 0 },
+        pollInterval: 3000,
+        prefix: "bull",
+        cacheTtlMs: 24 * 60 * 60 * 1000,
+      },
+      { dbPath },
+    );
+    spyOn(ctx.redis, "connect").mockImplementation(async () => {});
+    spyOn(ctx.redis, "quit").mockImplementation(async () => {});
+    const exitSpy = spyOn(process, "exit").mockImplementation((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    });
+    let written = "";
+    const stdoutSpy = spyOn(process.stdout, "write").mockImplementation((chunk) => {
+      written += String(chunk);
+      return true;
+    });
+
+    try {
+      await expect(
+        runJsonMode(
+          ctx,
+          {
+            kind: "jobs-export",
+            queue: "email",
+            includeData: false,
+            out: `${import.meta.dirname}/missing-dir/email.ndjson`,
+          },
+          "json",
+          false,
+        ),
+      ).rejects.toThrow("process.exit(1)");
+      expect(JSON.parse(written)).toMatchObject({
+        command: "jobs-export",
+        exported: 0,
+        complete: false,
+        resumeToken: expect.any(String),
+        error: expect.stringContaining("ENOENT"),
+      });
+    } finally {
+      exitSpy.mockRestore();
+      stdoutSpy.mockRestore();
+      for (const suffix of ["", "-wal", "-shm"]) {
+        try {
+          unlinkSync(`${dbPath}${suffix}`);
+        } catch {
+          // ignore
+        }
+      }
+    }
+  });
+});
+
+describe("runJsonMode jobs import", () => {
+  it("reports an unreadable import file instead of crashing", async () => {
+    const dbPath = `${import.meta.dirname}/json-reporter-import.db`;
+    const ctx = createContext(
+      {
+        redis: { host: "localhost", port: 6379, db: 0 },
+        pollInterval: 3000,
+        prefix: "bull",
+        cacheTtlMs: 24 * 60 * 60 * 1000,
+      },
+      { dbPath },
+    );
+    spyOn(ctx.redis, "connect").mockImplementation(async () => {});
+    spyOn(ctx.redis, "quit").mockImplementation(async () => {});
+    const exitSpy = spyOn(process, "exit").mockImplementation((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    });
+    let errors = "";
+    const stderrSpy = spyOn(process.stderr, "write").mockImplementation((chunk) => {
+      errors += String(chunk);
+      return true;
+    });
+
+    try {
+      await expect(
+        runJsonMode(
+          ctx,
+          // A directory passes an existence check but fails on read (EISDIR).
+          {
+            kind: "jobs-import",
+            queue: "email",
+            file: import.meta.dirname,
+            targetQueue: "email",
+            ids: "new",
+            dryRun: true,
+          },
+          "json",
+          false,
+        ),
+      ).rejects.toThrow("process.exit(1)");
+      expect(JSON.parse(errors)).toMatchObject({
+        code: "RUNTIME_ERROR",
+        details: expect.stringContaining("EISDIR"),
+      });
+    } finally {
+      exitSpy.mockRestore();
+      stderrSpy.mockRestore();
+      for (const suffix of ["", "-wal", "-shm"]) {
+        try {
+          unlinkSync(`${dbPath}${suffix}`);
+        } catch {
+          // ignore
+        }
+      }
+    }
+  });
+});
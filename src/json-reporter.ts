@@ -1,28 +1,99 @@
-import { discoverQueueNames, getQueueStats, deleteQueue } from "./data/queues.js";
-import { getAllJobs, getJobDetail, retryFailedJobs, VALID_JOB_STATUSES } from "./data/jobs.js";
-import type { JobSummary, JsonJobStatus, RetryResult } from "./data/jobs.js";
-import { getAllJobSchedulers, getJobSchedulerDetail } from "./data/schedulers.js";
-import { writeError } from "./errors.js";
 import {
+  discoverQueueNames,
+  getAllQueueStats,
+  getQueueStats,
+  deleteQueue,
+  setQueuePaused,
+} from "./data/queues.js";
+import { parseDuration } from "./data/duration.js";
+import {
+  addJob,
+  cleanQueue,
+  followJobLogs,
+  getAllJobs,
+  getJobDetail,
+  getJobLogs,
+  moveJobs,
+  promoteDelayedJobs,
+  removeJobs,
+  retryFailedJobs,
+  VALID_JOB_STATUSES,
+} from "./data/jobs.js";
+import type {
+  JobDetail,
+  JobListStart,
+  JobSummary,
+  JsonJobStatus,
+  MoveResult,
+  PromoteResult,
+  RemoveResult,
+  RetryResult,
+} from "./data/jobs.js";
+import {
+  encodeResumeToken,
+  exportJobs,
+  initialExportCursor,
+  type ExportCursor,
+} from "./data/job-export.js";
+import { importJobs, type ImportIdMode, type ImportResult } from "./data/job-import.js";
+import { getFailureGroups, type FailureGroupsResult } from "./data/failures.js";
+import { findJob, type JobFindResult } from "./data/job-find.js";
+import { encodeListCursor } from "./data/list-cursor.js";
+import { getFlowTree, type FlowTreeResult } from "./data/flows.js";
+import { getQueueLatency, type QueueLatencyResult } from "./data/latency.js";
+import { watchQueues } from "./data/watch.js";
+import { getQueueHistory, type QueueHistoryResult } from "./data/history.js";
+import { checkAlerts, type FiringAlert } from "./data/alerts.js";
+import {
+  getAllJobSchedulers,
+  getJobSchedulerDetail,
+  type JobSchedulerSummary,
+} from "./data/schedulers.js";
+import { QueueNotFoundError, writeError } from "./errors.js";
+import { RATE_PRIME_MAX_AGE_MS, ratesSinceSample, ZERO_RATES } from "./data/metrics.js";
+import {
+  latestQueueSamples,
   recordObservedJobs,
   recordObservedQueues,
   recordObservedSchedulers,
+  searchJobs,
+  type JobSearchHit,
 } from "./data/queue-store.js";
 import { runQueueStoreCleanupIfDue } from "./data/queue-store-lifecycle.js";
+import type { QueueSample } from "./data/sqlite.js";
 import { defaultSortOrder, sortQueues } from "./data/queue-sort.js";
 import type { QueueSortBy, SortOrder } from "./data/queue-sort.js";
 import type { Subcommand } from "./cli.js";
+import { projectFields, renderStructuredOutput, type OutputFormat } from "./output-format.js";
 import { closeContext, type Context } from "./context.js";
 import {
   formatQueuesOverview,
   formatJobsList,
+  formatJobsFailures,
+  formatJobsFind,
+  formatJobsTree,
+  formatJobsSearch,
   formatJobDetail,
+  formatJobsExport,
+  formatJobsImport,
   formatJobsRetry,
+  formatJobsPromote,
+  formatJobsRemove,
+  formatJobsMove,
+  formatJobsLogs,
+  formatWatch,
+  formatAlertsCheck,
   formatSchedulersList,
   formatSchedulerDetail,
   formatQueuesDelete,
+  formatQueuesPause,
+  formatQueuesClean,
+  formatQueuesStats,
+  formatQueuesHistory,
 } from "./formatters.js";
 
+import { createReadStream, createWriteStream } from "node:fs";
+import { once } from "node:events";
 import readline from "node:readline";
 
 /** Subcommands served by runJsonMode. `doctor` is routed earlier in index.ts. */
@@ -62,10 +133,25 @@ async function fetchQueuesOverview(
   sortOrder: SortOrder = defaultSortOrder(sortBy),
 ) {
   const queueNames = await discoverQueueNames(ctx);
-  const queues = await Promise.all(queueNames.map((name) => getQueueStats(ctx, name)));
-  const sortedQueues = sortQueues(queues, sortBy, sortOrder);
+  const observed = await Promise.all(queueNames.map((name) => getQueueStats(ctx, name)));
   const observedAt = Date.now();
 
+  let samples = new Map<string, QueueSample>();
+  try {
+    // A single run has no previous poll; measure rates against the last
+    // time any dashboard or `queues list` recorded each queue.
+    samples = latestQueueSamples(ctx, queueNames, observedAt - RATE_PRIME_MAX_AGE_MS);
+  } catch {
+    // Without history the rates stay at zero.
+  }
+  const queues = observed.map((queue) => {
+    const sample = samples.get(queue.name);
+    return Object.assign({}, queue, {
+      rates: sample ? ratesSinceSample(sample, queue.counts, observedAt) : ZERO_RATES,
+    });
+  });
+  const sortedQueues = sortQueues(queues, sortBy, sortOrder);
+
   try {
     recordObservedQueues(ctx, sortedQueues, { observedAt });
   } catch {
@@ -110,29 +196,197 @@ async function fetchQueuesDelete(ctx: Context, queueName: string, dryRun: boolea
   });
 }
 
+async function fetchQueuesPause(
+  ctx: Context,
+  subcommand: Extract<Subcommand, { kind: "queues-pause" | "queues-resume" }>,
+) {
+  const paused = subcommand.kind === "queues-pause";
+  const result = await setQueuePaused(ctx, subcommand.queue, paused, subcommand.dryRun);
+
+  return createResponse({
+    command: subcommand.kind,
+    dryRun: subcommand.dryRun,
+    queue: subcommand.queue,
+    wasPaused: result.wasPaused,
+    isPaused: result.isPaused,
+    changed: !subcommand.dryRun && result.wasPaused !== result.isPaused,
+  });
+}
+
+async function fetchQueuesClean(
+  ctx: Context,
+  subcommand: Extract<Subcommand, { kind: "queues-clean" }>,
+) {
+  const { queue: queueName, jobState, olderThan, limit, dryRun } = subcommand;
+  const graceMs = parseDuration(olderThan);
+  if (graceMs === null) throw new Error(`Invalid --older-than value '${olderThan}'`);
+
+  const result = await cleanQueue(ctx, queueName, { jobState, graceMs, limit, dryRun });
+
+  return createResponse({
+    command: "queues-clean",
+    dryRun,
+    queue: queueName,
+    jobState,
+    olderThan,
+    limit: limit ?? null,
+    ...result,
+  });
+}
+
+// ── Queues stats ────────────────────────────────────────────────────────
+
+export interface QueuesStatsOutput extends QueueLatencyResult {
+  timestamp: string;
+  queue: string;
+}
+
+async function fetchQueuesStats(
+  ctx: Context,
+  subcommand: Extract<HeadlessSubcommand, { kind: "queues-stats" }>,
+): Promise<QueuesStatsOutput> {
+  const result = await getQueueLatency(ctx, subcommand.queue, {
+    sampleSize: subcommand.pageSize,
+  });
+  return createResponse({ queue: subcommand.queue, ...result });
+}
+
+// ── Queues history ──────────────────────────────────────────────────────
+
+export interface QueuesHistoryOutput extends QueueHistoryResult {
+  timestamp: string;
+}
+
+function fetchQueuesHistory(
+  ctx: Context,
+  subcommand: Extract<HeadlessSubcommand, { kind: "queues-history" }>,
+): QueuesHistoryOutput {
+  return createResponse(getQueueHistory(ctx, subcommand.queue, subcommand.window));
+}
+
 // ── Jobs list ───────────────────────────────────────────────────────────
 
 async function fetchJobsList(
   ctx: Context,
-  queueName: string,
+  subcommand: Extract<HeadlessSubcommand, { kind: "jobs-list" }>,
   jobState?: JsonJobStatus,
-  maxResults?: number,
 ) {
-  const { jobs, total } = await getAllJobs(ctx, queueName, jobState, maxResults, true);
-  const observedAt = Date.now();
+  const { queue: queueName, pageSize, where, cursor, all, includeData } = subcommand;
+  const list = jobState ?? "all";
+  let start: JobListStart = cursor ? { offsets: cursor.offsets } : { offset: subcommand.offset };
+  const jobs: Array<ReturnType<typeof publicJobSummary> & { data?: unknown }> = [];
+  let total = 0;
+  let next: Record<string, number> | null;
+
+  // One page unless --all; each page is recorded and trimmed before the next
+  // is read, so --all holds summaries, not payloads (unless --include-data).
+  for (;;) {
+    // Sequential by design: each page starts where the previous one ended.
+    // eslint-disable-next-line no-await-in-loop
+    const page = await getAllJobs(ctx, queueName, jobState, pageSize, true, where, start);
+
+    // Side effect: populate SQLite cache with fetched jobs (best-effort).
+    try {
+      recordObservedJobs(ctx, queueName, page.jobs, { observedAt: Date.now() });
+    } catch {
+      // SQLite upsert is best-effort; don't break CLI output on failure
+    }
 
-  // Side effect: populate SQLite cache with fetched jobs (best-effort).
-  try {
-    recordObservedJobs(ctx, queueName, jobs, { observedAt });
-  } catch {
-    // SQLite upsert is best-effort; don't break CLI output on failure
+    for (const job of page.jobs) {
+      jobs.push(
+        includeData
+          ? Object.assign(publicJobSummary(job), { data: job.data })
+          : publicJobSummary(job),
+      );
+    }
+    total = page.total;
+    next = page.next;
+    if (!all || !next) break;
+    start = { offsets: next };
   }
 
   return createResponse({
     queue: queueName,
-    jobState: jobState ?? "all",
-    jobs: jobs.map(publicJobSummary),
+    jobState: list,
+    // With --where, `jobs` holds the matches from the fetched pages and
+    // `total` still counts every job in the state.
+    ...(where !== undefined ? { where } : {}),
+    jobs,
     total,
+    nextCursor: next ? encodeListCursor({ queue: queueName, list, offsets: next }) : null,
+  });
+}
+
+// ── Jobs failures ───────────────────────────────────────────────────────
+
+export interface JobsFailuresOutput extends FailureGroupsResult {
+  timestamp: string;
+  queue: string;
+}
+
+async function fetchJobsFailures(
+  ctx: Context,
+  subcommand: Extract<HeadlessSubcommand, { kind: "jobs-failures" }>,
+): Promise<JobsFailuresOutput> {
+  const result = await getFailureGroups(ctx, subcommand.queue, {
+    pageSize: subcommand.pageSize,
+  });
+  return createResponse({ queue: subcommand.queue, ...result });
+}
+
+// ── Jobs search ─────────────────────────────────────────────────────────
+
+export interface JobsSearchOutput {
+  timestamp: string;
+  /** null when searching every cached queue. */
+  queue: string | null;
+  query: string;
+  jobState: string;
+  /** Jobs fetched from Redis by --observe before searching; null without it. */
+  observed: number | null;
+  jobs: Array<Omit<JobSearchHit, "data">>;
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+async function fetchJobsSearch(
+  ctx: Context,
+  subcommand: Extract<HeadlessSubcommand, { kind: "jobs-search" }>,
+): Promise<JobsSearchOutput> {
+  const { queue, query, jobState, page, pageSize, observe } = subcommand;
+
+  let observed: number | null = null;
+  if (observe) {
+    observed = 0;
+    const queueNames = queue === null ? await discoverQueueNames(ctx) : [queue];
+    for (const queueName of queueNames) {
+      // Sequential by design: one queue's page of payloads in memory at a time.
+      // eslint-disable-next-line no-await-in-loop
+      const { jobs } = await getAllJobs(ctx, queueName, jobState, undefined, true);
+      observed += recordObservedJobs(ctx, queueName, jobs).observed;
+    }
+  }
+
+  const result = searchJobs(ctx, queue, query, { state: jobState, page, pageSize });
+  return createResponse({
+    queue,
+    query,
+    jobState: jobState ?? "all",
+    observed,
+    jobs: result.jobs.map(({ queue: hitQueue, id, name, state, timestamp, lastObservedAt }) => ({
+      queue: hitQueue,
+      id,
+      name,
+      state,
+      timestamp,
+      lastObservedAt,
+    })),
+    total: result.total,
+    page: result.page,
+    pageSize: result.pageSize,
+    totalPages: result.totalPages,
   });
 }
 
@@ -143,40 +397,66 @@ export interface JobsRetryOutput {
   command: "jobs-retry";
   dryRun: boolean;
   queue: string;
-  filter: { jobState: string; jobId?: string; since?: string; name?: string };
+  filter: {
+    jobState: string;
+    jobId?: string;
+    since?: string;
+    name?: string;
+    where?: string;
+    failureGroup?: string;
+  };
   matched: number;
   retried: number;
   errors: RetryResult["errors"];
   sampleJobIds: string[];
-  totalFailed: number;
+  totalInState: number;
+  /** Present for failed retries only; same as totalInState. */
+  totalFailed?: number;
   truncated: boolean;
 }
 
 /**
- * Exit-code contract for `jobs retry`: 3 on real partial failure, 0 otherwise.
- * Dry-run always exits 0 — it's informational by definition.
+ * Exit-code contract for `jobs retry` and the other bulk job actions: 3 on
+ * real partial failure, 0 otherwise. Dry-run always exits 0 — it's
+ * informational by definition.
  */
-export function computeRetryExitCode(result: JobsRetryOutput): number {
+export function computeRetryExitCode(result: { dryRun: boolean; errors: unknown[] }): number {
   if (!result.dryRun && result.errors.length > 0) return 3;
   return 0;
 }
 
 async function fetchJobsRetry(
   ctx: Context,
-  queueName: string,
-  jobState: string,
-  jobId: string | undefined,
-  since: string | undefined,
-  name: string | undefined,
-  pageSize: number | undefined,
-  dryRun: boolean,
+  subcommand: Extract<Subcommand, { kind: "jobs-retry" }>,
 ): Promise<JobsRetryOutput> {
-  const result = await retryFailedJobs(ctx, queueName, { jobId, since, name, pageSize, dryRun });
+  const {
+    queue: queueName,
+    jobState,
+    jobId,
+    since,
+    name,
+    where,
+    failureGroup,
+    pageSize,
+    dryRun,
+  } = subcommand;
+  const result = await retryFailedJobs(ctx, queueName, {
+    jobState,
+    jobId,
+    since,
+    name,
+    where,
+    failureGroup,
+    pageSize,
+    dryRun,
+  });
 
   const filter: JobsRetryOutput["filter"] = { jobState };
   if (jobId !== undefined) filter.jobId = jobId;
   if (since !== undefined) filter.since = since;
   if (name !== undefined) filter.name = name;
+  if (where !== undefined) filter.where = where;
+  if (failureGroup !== undefined) filter.failureGroup = failureGroup;
 
   return createResponse({
     command: "jobs-retry",
@@ -187,14 +467,171 @@ async function fetchJobsRetry(
     retried: result.retried,
     errors: result.errors,
     sampleJobIds: result.sampleJobIds,
-    totalFailed: result.totalFailed,
+    totalInState: result.totalInState,
+    ...(result.totalFailed !== undefined ? { totalFailed: result.totalFailed } : {}),
     truncated: result.truncated,
   });
 }
 
+// ── Jobs promote ────────────────────────────────────────────────────────
+
+export interface JobsPromoteOutput {
+  timestamp: string;
+  command: "jobs-promote";
+  dryRun: boolean;
+  queue: string;
+  filter: { jobState: "delayed"; jobId?: string; since?: string; name?: string };
+  matched: number;
+  promoted: number;
+  errors: PromoteResult["errors"];
+  sampleJobIds: string[];
+  totalDelayed: number;
+  truncated: boolean;
+}
+
+async function fetchJobsPromote(
+  ctx: Context,
+  subcommand: Extract<Subcommand, { kind: "jobs-promote" }>,
+): Promise<JobsPromoteOutput> {
+  const { queue: queueName, jobId, since, name, pageSize, dryRun } = subcommand;
+  const result = await promoteDelayedJobs(ctx, queueName, { jobId, since, name, pageSize, dryRun });
+
+  const filter: JobsPromoteOutput["filter"] = { jobState: "delayed" };
+  if (jobId !== undefined) filter.jobId = jobId;
+  if (since !== undefined) filter.since = since;
+  if (name !== undefined) filter.name = name;
+
+  return createResponse({
+    command: "jobs-promote",
+    dryRun,
+    queue: queueName,
+    filter,
+    ...result,
+  });
+}
+
+// ── Jobs remove ─────────────────────────────────────────────────────────
+
+export interface JobsRemoveOutput {
+  timestamp: string;
+  command: "jobs-remove";
+  dryRun: boolean;
+  queue: string;
+  filter: {
+    jobState?: string;
+    jobId?: string;
+    since?: string;
+    name?: string;
+    failureGroup?: string;
+  };
+  matched: number;
+  removed: number;
+  errors: RemoveResult["errors"];
+  sampleJobIds: string[];
+  totalInState: number | null;
+  truncated: boolean;
+}
+
+async function fetchJobsRemove(
+  ctx: Context,
+  subcommand: Extract<Subcommand, { kind: "jobs-remove" }>,
+): Promise<JobsRemoveOutput> {
+  const {
+    queue: queueName,
+    jobState,
+    jobId,
+    since,
+    name,
+    failureGroup,
+    pageSize,
+    dryRun,
+  } = subcommand;
+  const result = await removeJobs(ctx, queueName, {
+    jobState,
+    jobId,
+    since,
+    name,
+    failureGroup,
+    pageSize,
+    dryRun,
+  });
+
+  const filter: JobsRemoveOutput["filter"] = {};
+  if (jobState !== undefined) filter.jobState = jobState;
+  if (jobId !== undefined) filter.jobId = jobId;
+  if (since !== undefined) filter.since = since;
+  if (name !== undefined) filter.name = name;
+  if (failureGroup !== undefined) filter.failureGroup = failureGroup;
+
+  return createResponse({
+    command: "jobs-remove",
+    dryRun,
+    queue: queueName,
+    filter,
+    ...result,
+  });
+}
+
+// ── Jobs move ───────────────────────────────────────────────────────────
+
+export interface JobsMoveOutput {
+  timestamp: string;
+  command: "jobs-move";
+  dryRun: boolean;
+  queue: string;
+  targetQueue: string;
+  filter: { jobState?: string; jobId?: string; since?: string; name?: string };
+  matched: number;
+  moved: number;
+  errors: MoveResult["errors"];
+  sampleJobIds: string[];
+  totalInState: number | null;
+  truncated: boolean;
+}
+
+async function fetchJobsMove(
+  ctx: Context,
+  subcommand: Extract<Subcommand, { kind: "jobs-move" }>,
+): Promise<JobsMoveOutput> {
+  const {
+    queue: queueName,
+    targetQueue,
+    jobState,
+    jobId,
+    since,
+    name,
+    pageSize,
+    dryRun,
+  } = subcommand;
+  const result = await moveJobs(ctx, queueName, targetQueue, {
+    jobState,
+    jobId,
+    since,
+    name,
+    pageSize,
+    dryRun,
+  });
+
+  const filter: JobsMoveOutput["filter"] = {};
+  if (jobState !== undefined) filter.jobState = jobState;
+  if (jobId !== undefined) filter.jobId = jobId;
+  if (since !== undefined) filter.since = since;
+  if (name !== undefined) filter.name = name;
+
+  return createResponse({
+    command: "jobs-move",
+    dryRun,
+    queue: queueName,
+    targetQueue,
+    filter,
+    ...result,
+  });
+}
+
 // ── Job detail ──────────────────────────────────────────────────────────
 
-async function fetchJobDetail(ctx: Context, queueName: string, jobId: string) {
+/** Load a job and cache the observation, exiting with RUNTIME_ERROR if it doesn't exist. */
+async function requireJobDetail(ctx: Context, queueName: string, jobId: string) {
   const job = await getJobDetail(ctx, queueName, jobId);
 
   if (!job) {
@@ -206,13 +643,20 @@ async function fetchJobDetail(ctx: Context, queueName: string, jobId: string) {
     }
     process.exit(1);
   }
-  const observedAt = Date.now();
+  recordJobDetail(ctx, queueName, job);
+  return job;
+}
 
+function recordJobDetail(ctx: Context, queueName: string, job: JobDetail): void {
   try {
-    recordObservedJobs(ctx, queueName, [job], { observedAt });
+    recordObservedJobs(ctx, queueName, [job], { observedAt: Date.now() });
   } catch {
     // SQLite upsert is best-effort; don't break CLI output on failure
   }
+}
+
+async function fetchJobDetail(ctx: Context, queueName: string, jobId: string) {
+  const job = await requireJobDetail(ctx, queueName, jobId);
 
   return createResponse({
     queue: queueName,
@@ -220,22 +664,318 @@ async function fetchJobDetail(ctx: Context, queueName: string, jobId: string) {
   });
 }
 
-// ── Schedulers list ─────────────────────────────────────────────────────
+// ── Jobs find ───────────────────────────────────────────────────────────
+
+export interface JobsFindOutput extends JobFindResult {
+  timestamp: string;
+}
+
+async function fetchJobsFind(ctx: Context, jobId: string): Promise<JobsFindOutput> {
+  return createResponse(await findJob(ctx, jobId));
+}
+
+// ── Jobs tree ───────────────────────────────────────────────────────────
+
+export interface JobsTreeOutput extends FlowTreeResult {
+  timestamp: string;
+  queue: string;
+  jobId: string;
+}
+
+async function fetchJobsTree(ctx: Context, queueName: string, jobId: string) {
+  const tree = await getFlowTree(ctx, queueName, jobId);
+
+  if (!tree) {
+    writeError(`Job '${jobId}' not found in queue '${queueName}'`, "RUNTIME_ERROR");
+    try {
+      await closeContext(ctx);
+    } catch {
+      // Ignore cleanup errors
+    }
+    process.exit(1);
+  }
+  return createResponse({ queue: queueName, jobId, ...tree });
+}
+
+// ── Jobs logs ───────────────────────────────────────────────────────────
+
+export interface JobsLogsOutput {
+  timestamp: string;
+  command: "jobs-logs";
+  queue: string;
+  jobId: string;
+  /** Job state when the command finished; "unknown" if it was removed meanwhile. */
+  state: string;
+  offset: number;
+  /** Total lines the job has logged. */
+  count: number;
+  /** The requested page; null with --follow, where lines stream to stdout instead. */
+  logs: string[] | null;
+}
+
+async function fetchJobsLogs(
+  ctx: Context,
+  subcommand: Extract<Subcommand, { kind: "jobs-logs" }>,
+): Promise<JobsLogsOutput> {
+  const { queue: queueName, jobId, offset, limit, follow } = subcommand;
+  const job = await requireJobDetail(ctx, queueName, jobId);
+
+  if (!follow) {
+    const page = await getJobLogs(ctx, queueName, jobId, { offset, limit });
+    return createResponse({
+      command: "jobs-logs",
+      queue: queueName,
+      jobId,
+      state: job.state,
+      offset,
+      count: page.count,
+      logs: page.logs,
+    });
+  }
+
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+  try {
+    for await (const line of followJobLogs(ctx, queueName, jobId, {
+      offset,
+      signal: controller.signal,
+    })) {
+      if (!process.stdout.write(JSON.stringify(line) + "\n")) await once(process.stdout, "drain");
+    }
+  } finally {
+    process.off("SIGINT", stop);
+    process.off("SIGTERM", stop);
+  }
+
+  // Re-read the job so the summary (and the cache) reflect where it ended up.
+  const final = await getJobDetail(ctx, queueName, jobId);
+  if (final) recordJobDetail(ctx, queueName, final);
+  return createResponse({
+    command: "jobs-logs",
+    queue: queueName,
+    jobId,
+    state: final?.state ?? "unknown",
+    offset,
+    count: final?.logCount ?? job.logCount ?? 0,
+    logs: null,
+  });
+}
+
+// ── Jobs export ─────────────────────────────────────────────────────────
+
+export interface JobsExportOutput {
+  timestamp: string;
+  command: "jobs-export";
+  queue: string;
+  jobState: string;
+  includeData: boolean;
+  out: string | null;
+  exported: number;
+  complete: boolean;
+  resumeToken: string | null;
+  error: string | null;
+}
+
+/**
+ * Stream jobs as NDJSON to stdout or --out. Ctrl+C stops after the line being
+ * written and, like a Redis failure mid-export or an --out file that can't be
+ * opened or written, still produces a summary with a resume token instead of
+ * losing track of progress.
+ */
+async function fetchJobsExport(
+  ctx: Context,
+  subcommand: Extract<Subcommand, { kind: "jobs-export" }>,
+): Promise<JobsExportOutput> {
+  const { queue: queueName, jobState, includeData, out, resume } = subcommand;
+  // Resuming into a file appends, so the file ends up with one copy of each job.
+  const file = out ? createWriteStream(out, { flags: resume ? "a" : "w" }) : null;
+  // Without a listener a bad path or a failed write would crash the process
+  // before the summary is written.
+  let sinkError: Error | null = null;
+  file?.on("error", (err) => {
+    sinkError ??= err;
+  });
+  const sink = file ?? process.stdout;
+
+  let cursor: ExportCursor = resume ?? initialExportCursor(queueName, jobState, includeData);
+  // The last job the file accepted; after a write error, resume from there.
+  let flushed = cursor;
+  let stopRequested = false;
+  const stop = () => {
+    stopRequested = true;
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  let error: string | null = null;
+  try {
+    if (file) await once(file, "open");
+    for await (const { job, cursor: next } of exportJobs(ctx, queueName, {
+      jobState,
+      includeData,
+      resume,
+    })) {
+      if (sinkError) throw sinkError;
+      const written = sink.write(JSON.stringify(job) + "\n", (err) => {
+        if (!err) flushed = next;
+      });
+      if (!written) await once(sink, "drain");
+      cursor = next;
+      if (stopRequested) break;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  } finally {
+    process.off("SIGINT", stop);
+    process.off("SIGTERM", stop);
+    if (file) {
+      if (sinkError) {
+        file.destroy();
+      } else {
+        await new Promise<void>((resolve) => file.end(resolve));
+      }
+    }
+  }
+  // A write that failed while the file was flushing still leaves it short.
+  error ??= (sinkError as Error | null)?.message ?? null;
+  if (sinkError) cursor = flushed;
+
+  const complete = !stopRequested && error === null;
+  return createResponse({
+    command: "jobs-export",
+    queue: queueName,
+    jobState: jobState ?? "all",
+    includeData,
+    out: out ?? null,
+    exported: cursor.exported,
+    complete,
+    resumeToken: complete ? null : encodeResumeToken(cursor),
+    error,
+  });
+}
+
+// ── Jobs import ─────────────────────────────────────────────────────────
 
-async function fetchSchedulersList(ctx: Context, queueName: string, maxResults?: number) {
-  const { schedulers, total } = await getAllJobSchedulers(ctx, queueName, maxResults);
+export interface JobsImportOutput {
+  timestamp: string;
+  command: "jobs-import";
+  dryRun: boolean;
+  queue: string;
+  targetQueue: string;
+  file: string;
+  ids: ImportIdMode;
+  read: number;
+  created: number;
+  skipped: number;
+  errored: number;
+  errors: ImportResult["errors"];
+  sampleJobIds: string[];
+}
+
+async function fetchJobsImport(
+  ctx: Context,
+  subcommand: Extract<Subcommand, { kind: "jobs-import" }>,
+): Promise<JobsImportOutput> {
+  const { queue: queueName, targetQueue, file, ids, dryRun } = subcommand;
+  const input = createReadStream(file, "utf-8");
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  // A read error (the file vanished, EACCES, EIO) ends the line stream
+  // instead of crashing the process; it is reported once the import stops.
+  let readError: unknown = null;
+  input.on("error", (err) => {
+    readError ??= err;
+    lines.close();
+  });
+
+  let result: ImportResult;
+  try {
+    result = await importJobs(ctx, targetQueue, lines, { ids, dryRun });
+  } finally {
+    lines.close();
+  }
+  if (readError !== null) {
+    throw new Error(
+      `Failed to read '${file}' after ${result.read} lines (${result.created} jobs ${
+        dryRun ? "would be created" : "created"
+      }): ${readError instanceof Error ? readError.message : String(readError)}`,
+    );
+  }
+
+  return createResponse({
+    command: "jobs-import",
+    dryRun,
+    queue: queueName,
+    targetQueue,
+    file,
+    ids,
+    read: result.read,
+    created: result.created,
+    skipped: result.skipped,
+    errored: result.errors.length,
+    errors: result.errors,
+    sampleJobIds: result.sampleJobIds,
+  });
+}
+
+// ── Jobs add ────────────────────────────────────────────────────────────
+
+async function fetchJobsAdd(ctx: Context, subcommand: Extract<Subcommand, { kind: "jobs-add" }>) {
+  const { queue: queueName, name, data, delay, priority, attempts, jobId } = subcommand;
+  const job = await addJob(ctx, queueName, { name, data, delay, priority, attempts, jobId });
   const observedAt = Date.now();
 
   try {
-    recordObservedSchedulers(ctx, queueName, schedulers, { observedAt });
+    recordObservedJobs(ctx, queueName, [job], { observedAt });
   } catch {
     // SQLite upsert is best-effort; don't break CLI output on failure
   }
 
+  return createResponse({
+    queue: queueName,
+    job: omitObservationMetadata(job),
+  });
+}
+
+// ── Schedulers list ─────────────────────────────────────────────────────
+
+async function fetchSchedulersList(
+  ctx: Context,
+  subcommand: Extract<HeadlessSubcommand, { kind: "schedulers-list" }>,
+) {
+  const { queue: queueName, pageSize, cursor, all } = subcommand;
+  let offset = cursor?.offsets.schedulers ?? subcommand.offset ?? 0;
+  const schedulers: JobSchedulerSummary[] = [];
+  let total = 0;
+  let next: number | null;
+
+  for (;;) {
+    // Sequential by design: each page starts where the previous one ended.
+    // eslint-disable-next-line no-await-in-loop
+    const page = await getAllJobSchedulers(ctx, queueName, pageSize, offset);
+
+    try {
+      recordObservedSchedulers(ctx, queueName, page.schedulers, { observedAt: Date.now() });
+    } catch {
+      // SQLite upsert is best-effort; don't break CLI output on failure
+    }
+
+    schedulers.push(...page.schedulers);
+    total = page.total;
+    next = page.next;
+    if (!all || next === null) break;
+    offset = next;
+  }
+
   return createResponse({
     queue: queueName,
     schedulers: schedulers.map(omitObservationMetadata),
     total,
+    nextCursor:
+      next === null
+        ? null
+        : encodeListCursor({ queue: queueName, list: "schedulers", offsets: { schedulers: next } }),
   });
 }
 
@@ -267,6 +1007,90 @@ async function fetchSchedulerDetail(ctx: Context, queueName: string, schedulerKe
   });
 }
 
+// ── Alerts check ────────────────────────────────────────────────────────
+
+export interface AlertsCheckOutput {
+  timestamp: string;
+  command: "alerts-check";
+  /** Rules in the profile. */
+  rules: number;
+  /** Queues the rules were evaluated against. */
+  queues: number;
+  firing: FiringAlert[];
+}
+
+async function fetchAlertsCheck(ctx: Context): Promise<AlertsCheckOutput> {
+  const queues = await getAllQueueStats(ctx);
+  const observedAt = Date.now();
+  // Growth rules compare against recorded samples, this one included.
+  try {
+    recordObservedQueues(ctx, queues, { observedAt });
+  } catch {
+    // SQLite upsert is best-effort; threshold rules still evaluate.
+  }
+  const firing = checkAlerts(ctx, queues, observedAt);
+  return createResponse({
+    command: "alerts-check",
+    rules: ctx.config.alerts?.length ?? 0,
+    queues: queues.length,
+    firing,
+  });
+}
+
+// ── Watch ───────────────────────────────────────────────────────────────
+
+export interface WatchOutput {
+  timestamp: string;
+  command: "watch";
+  pollInterval: number;
+  /** --duration in ms; null when watching until interrupted. */
+  duration: number | null;
+  events: number;
+  stoppedBy: "duration" | "signal";
+}
+
+/**
+ * Stream queue change events to stdout as NDJSON until Ctrl+C or --duration.
+ * The summary goes to stderr like a log tail's.
+ */
+async function fetchWatch(
+  ctx: Context,
+  subcommand: Extract<Subcommand, { kind: "watch" }>,
+): Promise<WatchOutput> {
+  const pollInterval = ctx.config.pollInterval;
+  const duration = subcommand.duration ?? null;
+
+  const controller = new AbortController();
+  let stoppedBy: WatchOutput["stoppedBy"] = "signal";
+  const stop = () => controller.abort();
+  const timer =
+    duration === null
+      ? undefined
+      : setTimeout(() => {
+          stoppedBy = "duration";
+          controller.abort();
+        }, duration);
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  let events = 0;
+  try {
+    for await (const event of watchQueues(ctx, {
+      intervalMs: pollInterval,
+      signal: controller.signal,
+    })) {
+      if (!process.stdout.write(JSON.stringify(event) + "\n")) await once(process.stdout, "drain");
+      events++;
+    }
+  } finally {
+    clearTimeout(timer);
+    process.off("SIGINT", stop);
+    process.off("SIGTERM", stop);
+  }
+
+  return createResponse({ command: "watch", pollInterval, duration, events, stoppedBy });
+}
+
 // ── Validation ──────────────────────────────────────────────────────────
 
 function validateJobState(jobState: string | undefined): JsonJobStatus | undefined {
@@ -299,14 +1123,75 @@ function promptConfirmation(message: string): Promise<boolean> {
 
 function jobsRetryConfirmationMessage(subcommand: Extract<Subcommand, { kind: "jobs-retry" }>) {
   if (subcommand.jobId) {
-    return `Retry failed job '${subcommand.jobId}' in queue '${subcommand.queue}'?`;
+    return `Retry ${subcommand.jobState} job '${subcommand.jobId}' in queue '${subcommand.queue}'?`;
   }
 
   const filters: string[] = [];
   if (subcommand.since) filters.push(`since=${subcommand.since}`);
   if (subcommand.name) filters.push(`name=${subcommand.name}`);
+  if (subcommand.where) filters.push(`where=${subcommand.where}`);
+  if (subcommand.failureGroup) filters.push(`failure-group=${subcommand.failureGroup}`);
   const suffix = filters.length > 0 ? ` matching ${filters.join(", ")}` : "";
-  return `Retry failed jobs in queue '${subcommand.queue}'${suffix}?`;
+  return `Retry ${subcommand.jobState} jobs in queue '${subcommand.queue}'${suffix}?`;
+}
+
+function jobsPromoteConfirmationMessage(subcommand: Extract<Subcommand, { kind: "jobs-promote" }>) {
+  if (subcommand.jobId) {
+    return `Promote delayed job '${subcommand.jobId}' in queue '${subcommand.queue}' to run now?`;
+  }
+
+  const filters: string[] = [];
+  if (subcommand.since) filters.push(`since=${subcommand.since}`);
+  if (subcommand.name) filters.push(`name=${subcommand.name}`);
+  const suffix = filters.length > 0 ? ` matching ${filters.join(", ")}` : "";
+  return `Promote delayed jobs in queue '${subcommand.queue}'${suffix} to run now?`;
+}
+
+function jobsRemoveConfirmationMessage(subcommand: Extract<Subcommand, { kind: "jobs-remove" }>) {
+  if (subcommand.jobId) {
+    return `Permanently remove job '${subcommand.jobId}' from queue '${subcommand.queue}'? This cannot be undone.`;
+  }
+
+  const filters: string[] = [];
+  if (subcommand.since) filters.push(`since=${subcommand.since}`);
+  if (subcommand.name) filters.push(`name=${subcommand.name}`);
+  if (subcommand.failureGroup) filters.push(`failure-group=${subcommand.failureGroup}`);
+  const suffix = filters.length > 0 ? ` matching ${filters.join(", ")}` : "";
+  return `Permanently remove ${subcommand.jobState} jobs from queue '${subcommand.queue}'${suffix}? This cannot be undone.`;
+}
+
+function jobsMoveConfirmationMessage(subcommand: Extract<Subcommand, { kind: "jobs-move" }>) {
+  if (subcommand.jobId) {
+    return `Move job '${subcommand.jobId}' from queue '${subcommand.queue}' to '${subcommand.targetQueue}'?`;
+  }
+
+  const filters: string[] = [];
+  if (subcommand.since) filters.push(`since=${subcommand.since}`);
+  if (subcommand.name) filters.push(`name=${subcommand.name}`);
+  const suffix = filters.length > 0 ? ` matching ${filters.join(", ")}` : "";
+  return `Move ${subcommand.jobState} jobs${suffix} from queue '${subcommand.queue}' to '${subcommand.targetQueue}'? Workers on the target will process them as new jobs.`;
+}
+
+/**
+ * Gate a live destructive command: prompt on a TTY, otherwise require --yes.
+ * Exits the process when the user declines or no confirmation is possible.
+ */
+async function requireConfirmation(ctx: Context, message: string, yesHint: string): Promise<void> {
+  if (process.stdin.isTTY) {
+    const confirmed = await promptConfirmation(message);
+    if (!confirmed) {
+      process.stderr.write("Cancelled.\n");
+      await closeContext(ctx);
+      process.exit(1);
+    }
+  } else {
+    writeError(
+      "Confirmation required: run with --yes flag in non-interactive mode",
+      "CONFIG_ERROR",
+      yesHint,
+    );
+    process.exit(2);
+  }
 }
 
 // ── Route and execute ───────────────────────────────────────────────────
@@ -319,35 +1204,73 @@ async function routeAndFetch(ctx: Context, subcommand: HeadlessSubcommand): Prom
     case "queues-delete":
       return fetchQueuesDelete(ctx, subcommand.queue, subcommand.dryRun ?? false);
 
+    case "queues-pause":
+    case "queues-resume":
+      return fetchQueuesPause(ctx, subcommand);
+
+    case "queues-clean":
+      return fetchQueuesClean(ctx, subcommand);
+
+    case "queues-stats":
+      return fetchQueuesStats(ctx, subcommand);
+
+    case "queues-history":
+      return fetchQueuesHistory(ctx, subcommand);
+
     case "jobs-list": {
-      const validState = validateJobState(subcommand.jobState);
-      return fetchJobsList(ctx, subcommand.queue, validState, subcommand.pageSize);
+      return fetchJobsList(ctx, subcommand, validateJobState(subcommand.jobState));
     }
 
     case "jobs-get":
       return fetchJobDetail(ctx, subcommand.queue, subcommand.jobId);
 
-    case "jobs-retry": {
-      const validState = validateJobState(subcommand.jobState);
-      if (!validState) throw new Error("jobs retry requires --job-state");
-      return fetchJobsRetry(
-        ctx,
-        subcommand.queue,
-        validState,
-        subcommand.jobId,
-        subcommand.since,
-        subcommand.name,
-        subcommand.pageSize,
-        subcommand.dryRun,
-      );
-    }
+    case "jobs-find":
+      return fetchJobsFind(ctx, subcommand.jobId);
+
+    case "jobs-tree":
+      return fetchJobsTree(ctx, subcommand.queue, subcommand.jobId);
+
+    case "jobs-failures":
+      return fetchJobsFailures(ctx, subcommand);
+
+    case "jobs-search":
+      return fetchJobsSearch(ctx, subcommand);
+
+    case "jobs-logs":
+      return fetchJobsLogs(ctx, subcommand);
+
+    case "jobs-add":
+      return fetchJobsAdd(ctx, subcommand);
+
+    case "jobs-export":
+      return fetchJobsExport(ctx, subcommand);
+
+    case "jobs-import":
+      return fetchJobsImport(ctx, subcommand);
+
+    case "jobs-retry":
+      return fetchJobsRetry(ctx, subcommand);
+
+    case "jobs-promote":
+      return fetchJobsPromote(ctx, subcommand);
+
+    case "jobs-remove":
+      return fetchJobsRemove(ctx, subcommand);
+    case "jobs-move":
+      return fetchJobsMove(ctx, subcommand);
 
     case "schedulers-list":
-      return fetchSchedulersList(ctx, subcommand.queue, subcommand.pageSize);
+      return fetchSchedulersList(ctx, subcommand);
 
     case "schedulers-get":
       return fetchSchedulerDetail(ctx, subcommand.queue, subcommand.schedulerId);
 
+    case "alerts-check":
+      return fetchAlertsCheck(ctx);
+
+    case "watch":
+      return fetchWatch(ctx, subcommand);
+
     default: {
       const _exhaustive: never = subcommand;
       throw new Error(`Unhandled subcommand: ${(_exhaustive as Subcommand).kind}`);
@@ -360,10 +1283,12 @@ async function routeAndFetch(ctx: Context, subcommand: HeadlessSubcommand): Prom
 function formatOutput(
   result: unknown,
   subcommand: HeadlessSubcommand,
-  humanFriendly: boolean,
+  output: OutputFormat,
+  fields?: string[],
 ): string {
-  if (!humanFriendly) {
-    return JSON.stringify(result);
+  if (output !== "table") {
+    const projected = fields ? projectFields(result, subcommand.kind, fields) : result;
+    return renderStructuredOutput(projected, subcommand.kind, output, fields);
   }
 
   switch (subcommand.kind) {
@@ -371,16 +1296,50 @@ function formatOutput(
       return formatQueuesOverview(result as Parameters<typeof formatQueuesOverview>[0]);
     case "queues-delete":
       return formatQueuesDelete(result as Parameters<typeof formatQueuesDelete>[0]);
+    case "queues-pause":
+    case "queues-resume":
+      return formatQueuesPause(result as Parameters<typeof formatQueuesPause>[0]);
+    case "queues-clean":
+      return formatQueuesClean(result as Parameters<typeof formatQueuesClean>[0]);
+    case "queues-stats":
+      return formatQueuesStats(result as QueuesStatsOutput);
+    case "queues-history":
+      return formatQueuesHistory(result as QueuesHistoryOutput);
     case "jobs-list":
       return formatJobsList(result as Parameters<typeof formatJobsList>[0]);
+    case "jobs-failures":
+      return formatJobsFailures(result as JobsFailuresOutput);
+    case "jobs-find":
+      return formatJobsFind(result as JobsFindOutput);
+    case "jobs-tree":
+      return formatJobsTree(result as JobsTreeOutput);
+    case "jobs-search":
+      return formatJobsSearch(result as JobsSearchOutput);
     case "jobs-get":
+    case "jobs-add":
       return formatJobDetail(result as Parameters<typeof formatJobDetail>[0]);
+    case "jobs-logs":
+      return formatJobsLogs(result as JobsLogsOutput);
+    case "jobs-export":
+      return formatJobsExport(result as Parameters<typeof formatJobsExport>[0]);
+    case "jobs-import":
+      return formatJobsImport(result as Parameters<typeof formatJobsImport>[0]);
     case "jobs-retry":
       return formatJobsRetry(result as Parameters<typeof formatJobsRetry>[0]);
+    case "jobs-promote":
+      return formatJobsPromote(result as Parameters<typeof formatJobsPromote>[0]);
+    case "jobs-remove":
+      return formatJobsRemove(result as Parameters<typeof formatJobsRemove>[0]);
+    case "jobs-move":
+      return formatJobsMove(result as Parameters<typeof formatJobsMove>[0]);
     case "schedulers-list":
       return formatSchedulersList(result as Parameters<typeof formatSchedulersList>[0]);
     case "schedulers-get":
       return formatSchedulerDetail(result as Parameters<typeof formatSchedulerDetail>[0]);
+    case "alerts-check":
+      return formatAlertsCheck(result as AlertsCheckOutput);
+    case "watch":
+      return formatWatch(result as WatchOutput);
 
     default: {
       const _exhaustive: never = subcommand;
@@ -394,49 +1353,92 @@ function formatOutput(
 export async function runJsonMode(
   ctx: Context,
   subcommand: HeadlessSubcommand,
-  humanFriendly: boolean = false,
+  output: OutputFormat = "json",
   yes: boolean = false,
+  fields?: string[],
 ): Promise<void> {
   if (subcommand.kind === "queues-delete" && !yes && !(subcommand.dryRun ?? false)) {
-    if (process.stdin.isTTY) {
-      const confirmed = await promptConfirmation(
-        `Delete queue '${subcommand.queue}' and all its jobs? This cannot be undone.`,
-      );
-      if (!confirmed) {
-        process.stderr.write("Cancelled.\n");
-        await closeContext(ctx);
-        process.exit(1);
-      }
-    } else {
-      writeError(
-        "Confirmation required: run with --yes flag in non-interactive mode",
-        "CONFIG_ERROR",
-        "Use --yes to skip confirmation in scripts, or run in interactive terminal.",
-      );
-      process.exit(2);
-    }
+    await requireConfirmation(
+      ctx,
+      `Delete queue '${subcommand.queue}' and all its jobs? This cannot be undone.`,
+      "Use --yes to skip confirmation in scripts, or run in interactive terminal.",
+    );
+  }
+
+  if (subcommand.kind === "queues-pause" && !yes && !subcommand.dryRun) {
+    await requireConfirmation(
+      ctx,
+      `Pause queue '${subcommand.queue}'? Workers will stop picking up new jobs until it is resumed.`,
+      "Use --yes to pause queues in scripts, or run in interactive terminal.",
+    );
+  }
+
+  if (subcommand.kind === "queues-resume" && !yes && !subcommand.dryRun) {
+    await requireConfirmation(
+      ctx,
+      `Resume queue '${subcommand.queue}'? Workers will start picking up waiting jobs again.`,
+      "Use --yes to resume queues in scripts, or run in interactive terminal.",
+    );
+  }
+
+  if (subcommand.kind === "queues-clean" && !yes && !subcommand.dryRun) {
+    const scope = subcommand.limit ? `up to ${subcommand.limit} ` : "all ";
+    await requireConfirmation(
+      ctx,
+      `Remove ${scope}${subcommand.jobState} jobs older than ${subcommand.olderThan} from queue '${subcommand.queue}'? This cannot be undone.`,
+      "Use --yes to clean queues in scripts, or run in interactive terminal.",
+    );
   }
 
   if (subcommand.kind === "jobs-retry" && !yes && !subcommand.dryRun) {
-    if (process.stdin.isTTY) {
-      const confirmed = await promptConfirmation(jobsRetryConfirmationMessage(subcommand));
-      if (!confirmed) {
-        process.stderr.write("Cancelled.\n");
-        await closeContext(ctx);
-        process.exit(1);
-      }
-    } else {
-      writeError(
-        "Confirmation required: run with --yes flag in non-interactive mode",
-        "CONFIG_ERROR",
-        "Use --yes to retry failed jobs in scripts, or run in interactive terminal.",
-      );
-      process.exit(2);
-    }
+    await requireConfirmation(
+      ctx,
+      jobsRetryConfirmationMessage(subcommand),
+      `Use --yes to retry ${subcommand.jobState} jobs in scripts, or run in interactive terminal.`,
+    );
+  }
+
+  if (subcommand.kind === "jobs-promote" && !yes && !subcommand.dryRun) {
+    await requireConfirmation(
+      ctx,
+      jobsPromoteConfirmationMessage(subcommand),
+      "Use --yes to promote delayed jobs in scripts, or run in interactive terminal.",
+    );
+  }
+
+  if (subcommand.kind === "jobs-remove" && !yes && !subcommand.dryRun) {
+    await requireConfirmation(
+      ctx,
+      jobsRemoveConfirmationMessage(subcommand),
+      "Use --yes to remove jobs in scripts, or run in interactive terminal.",
+    );
+  }
+
+  if (subcommand.kind === "jobs-move" && !yes && !subcommand.dryRun) {
+    await requireConfirmation(
+      ctx,
+      jobsMoveConfirmationMessage(subcommand),
+      "Use --yes to move jobs in scripts, or run in interactive terminal.",
+    );
+  }
+
+  if (subcommand.kind === "jobs-import" && !yes && !subcommand.dryRun) {
+    await requireConfirmation(
+      ctx,
+      `Import jobs from '${subcommand.file}' into queue '${subcommand.targetQueue}'? Workers will process them as new jobs.`,
+      "Use --yes to import jobs in scripts, or run in interactive terminal.",
+    );
   }
 
+  // A search without --observe and `queues history` only read the SQLite
+  // cache, so they work even when Redis is unreachable. `jobs find` connects
+  // itself and falls back to the cache instead of failing.
+  const needsRedis =
+    subcommand.kind === "jobs-search"
+      ? subcommand.observe
+      : subcommand.kind !== "jobs-find" && subcommand.kind !== "queues-history";
   try {
-    await ctx.redis.connect();
+    if (needsRedis) await ctx.redis.connect();
   } catch (error) {
     writeError(
       "Redis connection failed",
@@ -455,21 +1457,49 @@ export async function runJsonMode(
   try {
     const result = await routeAndFetch(ctx, subcommand);
     runQueueStoreCleanupIfDue(ctx);
-    const output = formatOutput(result, subcommand, humanFriendly);
-    process.stdout.write(output + "\n");
-
-    // jobs-retry has a richer exit-code contract: non-zero when the caller
-    // needs to know a real live retry ran into per-job errors. Dry-run always
-    // returns 0 — it's informational by definition.
+    const rendered = formatOutput(result, subcommand, output, fields);
+    // An export, log tail or watch streaming to stdout reports its summary on stderr
+    // so the NDJSON stays clean for pipes.
+    const summaryStream =
+      (subcommand.kind === "jobs-export" && !subcommand.out) ||
+      (subcommand.kind === "jobs-logs" && subcommand.follow) ||
+      subcommand.kind === "watch"
+        ? process.stderr
+        : process.stdout;
+    // ndjson of an empty listing has no records, so print nothing.
+    if (rendered) summaryStream.write(rendered + "\n");
+
+    // Bulk job actions have a richer exit-code contract: non-zero when the
+    // caller needs to know a real live run ran into per-job errors. Dry-run
+    // always returns 0 — it's informational by definition.
     if (subcommand.kind === "jobs-retry") {
       exitCode = computeRetryExitCode(result as JobsRetryOutput);
+    } else if (subcommand.kind === "jobs-promote") {
+      exitCode = computeRetryExitCode(result as JobsPromoteOutput);
+    } else if (subcommand.kind === "jobs-remove") {
+      exitCode = computeRetryExitCode(result as JobsRemoveOutput);
+    } else if (subcommand.kind === "jobs-move") {
+      exitCode = computeRetryExitCode(result as JobsMoveOutput);
+    } else if (subcommand.kind === "jobs-import") {
+      exitCode = computeRetryExitCode(result as JobsImportOutput);
+    } else if (subcommand.kind === "jobs-export") {
+      exitCode = (result as JobsExportOutput).complete ? 0 : 1;
+    } else if (subcommand.kind === "jobs-find") {
+      exitCode = (result as JobsFindOutput).matches.length > 0 ? 0 : 1;
+    } else if (subcommand.kind === "alerts-check") {
+      // Like doctor: exit 1 so cron and CI treat firing rules as a failure.
+      exitCode = (result as AlertsCheckOutput).firing.length > 0 ? 1 : 0;
     }
   } catch (error) {
-    writeError(
-      "Failed to fetch data",
-      "RUNTIME_ERROR",
-      error instanceof Error ? error.message : String(error),
-    );
+    if (error instanceof QueueNotFoundError) {
+      writeError(error.message, error.code);
+    } else {
+      writeError(
+        "Failed to fetch data",
+        "RUNTIME_ERROR",
+        error instanceof Error ? error.message : String(error),
+      );
+    }
     try {
       await closeContext(ctx);
     } catch {
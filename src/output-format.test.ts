@@ -0,0 +1,158 @@
+import { describe, expect, it } from "bun:test";
+import {
+  projectFields,
+  recordHeaders,
+  renderStructuredOutput,
+  toCsv,
+  toRecords,
+} from "./output-format.js";
+
+const jobsList = {
+  timestamp: "2026-01-01T00:00:00.000Z",
+  queue: "email",
+  jobState: "failed",
+  jobs: [
+    { id: "1", name: "send", state: "failed", timestamp: 1000 },
+    { id: "2", name: 'say "hi", twice', state: "failed", timestamp: 2000 },
+  ],
+  total: 2,
+  nextCursor: null,
+};
+
+describe("toRecords", () => {
+  it("projects list rows onto the command's columns", () => {
+    expect(toRecords(jobsList, "jobs-list")).toEqual([
+      { queue: "email", id: "1", name: "send", state: "failed", timestamp: 1000 },
+      { queue: "email", id: "2", name: 'say "hi", twice', state: "failed", timestamp: 2000 },
+    ]);
+  });
+
+  it("fills missing fields with null so every record has every column", () => {
+    const records = toRecords(
+      { queue: "email", schedulers: [{ key: "nightly", name: "digest", every: 60_000 }] },
+      "schedulers-list",
+    );
+    expect(records).toEqual([
+      {
+        queue: "email",
+        key: "nightly",
+        name: "digest",
+        pattern: null,
+        every: 60_000,
+        next: null,
+        iterationCount: null,
+        tz: null,
+      },
+    ]);
+  });
+
+  it("shares one summary column set across bulk actions", () => {
+    const base = { dryRun: true, queue: "email", matched: 3, errors: [], truncated: false };
+    const retry = toRecords(
+      Object.assign(
+        { command: "jobs-retry", filter: { jobState: "failed" }, retried: 0, totalInState: 9 },
+        base,
+      ),
+      "jobs-retry",
+    );
+    const promote = toRecords(
+      Object.assign(
+        { command: "jobs-promote", filter: { jobState: "delayed" }, promoted: 0, totalDelayed: 4 },
+        base,
+      ),
+      "jobs-promote",
+    );
+    expect(Object.keys(retry[0]!)).toEqual(Object.keys(promote[0]!));
+    expect(promote[0]).toMatchObject({ jobState: "delayed", affected: 0, totalInState: 4 });
+  });
+
+  it("flattens results without a row set into one record", () => {
+    const records = toRecords(
+      { queue: "email", deleted: true, jobCounts: { wait: 1, failed: 2 }, sample: ["a"] },
+      "queues-delete",
+    );
+    expect(records).toEqual([
+      { queue: "email", deleted: true, "jobCounts.wait": 1, "jobCounts.failed": 2, sample: ["a"] },
+    ]);
+    expect(recordHeaders("queues-delete")).toBeNull();
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes cells with separators, quotes or newlines", () => {
+    expect(toCsv(toRecords(jobsList, "jobs-list"), recordHeaders("jobs-list")!)).toBe(
+      [
+        "queue,id,name,state,timestamp",
+        "email,1,send,failed,1000",
+        'email,2,"say ""hi"", twice",failed,2000',
+      ].join("\n"),
+    );
+    expect(toCsv([{ a: "x\ny", b: null, c: ["z"] }], ["a", "b", "c"])).toBe(
+      'a,b,c\n"x\ny",,"[""z""]"',
+    );
+  });
+});
+
+describe("renderStructuredOutput", () => {
+  it("prints a header-only csv and no ndjson records for an empty listing", () => {
+    const empty = Object.assign({}, jobsList, { jobs: [], total: 0 });
+    expect(renderStructuredOutput(empty, "jobs-list", "csv")).toBe("queue,id,name,state,timestamp");
+    expect(renderStructuredOutput(empty, "jobs-list", "ndjson")).toBe("");
+  });
+
+  it("prints one JSON object per row as ndjson", () => {
+    const lines = renderStructuredOutput(jobsList, "jobs-list", "ndjson").split("\n");
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual(["1", "2"]);
+  });
+
+  it("prints the whole result as yaml", () => {
+    const yaml = renderStructuredOutput(
+      { queue: "email", total: 2, ids: ["1"] },
+      "jobs-get",
+      "yaml",
+    );
+    expect(Bun.YAML.parse(yaml)).toEqual({ queue: "email", total: 2, ids: ["1"] });
+  });
+});
+
+describe("projectFields", () => {
+  const detail = {
+    timestamp: "2026-01-01T00:00:00.000Z",
+    queue: "email",
+    job: {
+      id: "1",
+      name: "send",
+      state: "failed",
+      data: { userId: 42, body: "x".repeat(1000) },
+      opts: { attempts: 3 },
+      failedReason: "boom",
+    },
+  };
+
+  it("keeps dotted paths of the reported object and the whole envelope", () => {
+    expect(projectFields(detail, "jobs-get", ["id", "data.userId", "opts.attempts"])).toEqual({
+      timestamp: "2026-01-01T00:00:00.000Z",
+      queue: "email",
+      job: { id: "1", data: { userId: 42 }, opts: { attempts: 3 } },
+    });
+  });
+
+  it("projects every object of a listing and nulls missing fields", () => {
+    const projected = projectFields(jobsList, "jobs-list", ["id", "data.userId"]) as {
+      jobs: unknown[];
+      total: number;
+    };
+    expect(projected.total).toBe(2);
+    expect(projected.jobs).toEqual([
+      { id: "1", data: { userId: null } },
+      { id: "2", data: { userId: null } },
+    ]);
+  });
+
+  it("uses the fields as csv columns", () => {
+    const fields = ["id", "data.userId", "failedReason"];
+    expect(
+      renderStructuredOutput(projectFields(detail, "jobs-get", fields), "jobs-get", "csv", fields),
+    ).toBe("id,data.userId,failedReason\n1,42,boom");
+  });
+});
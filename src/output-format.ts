@@ -0,0 +1,331 @@
+import type { Subcommand } from "./cli.js";
+
+/** Values accepted by --output. "table" is what --human-friendly prints. */
+export const OUTPUT_FORMATS = ["json", "ndjson", "csv", "yaml", "table"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** Formats rendered from the JSON result rather than by a command's own formatter. */
+export type StructuredOutputFormat = Exclude<OutputFormat, "table">;
+
+type Row = Record<string, unknown>;
+
+interface Column {
+  header: string;
+  value: (row: Row, result: Row) => unknown;
+}
+
+/**
+ * How a list command's result becomes records for ndjson and csv: which
+ * array holds the rows, and a fixed column set so the header line doesn't
+ * change with the data.
+ */
+interface RowSet {
+  rows: (result: Row) => Row[];
+  columns: Column[];
+}
+
+function readPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Row)[key];
+  }
+  return current;
+}
+
+/** A column read from the row; `path` may reach into nested objects. */
+function column(header: string, path: string = header): Column {
+  return { header, value: (row) => readPath(row, path) };
+}
+
+/** A column repeated from the top-level result, e.g. the queue a listing is for. */
+function resultColumn(header: string, path: string = header): Column {
+  return { header, value: (_row, result) => readPath(result, path) };
+}
+
+function rowsAt(path: string): (result: Row) => Row[] {
+  return (result) => {
+    const rows = readPath(result, path);
+    return Array.isArray(rows) ? (rows as Row[]) : [];
+  };
+}
+
+const JOB_COLUMNS = [column("id"), column("name"), column("state"), column("timestamp")];
+
+const PERCENTILE_COLUMNS = (["waitMs", "processingMs"] as const).flatMap((metric) =>
+  (["p50", "p90", "p99"] as const).map((p) => column(`${metric}.${p}`)),
+);
+
+/**
+ * Bulk actions report one summary record. The columns are shared across
+ * retry, promote, remove and move so their results can land in one sheet.
+ */
+const BULK_ACTION_ROW_SET: RowSet = {
+  rows: (result) => [result],
+  columns: [
+    column("command"),
+    column("queue"),
+    column("targetQueue"),
+    column("dryRun"),
+    column("jobState", "filter.jobState"),
+    column("matched"),
+    {
+      header: "affected",
+      value: (row) => row.retried ?? row.promoted ?? row.removed ?? row.moved,
+    },
+    { header: "errors", value: (row) => (row.errors as unknown[]).length },
+    { header: "totalInState", value: (row) => row.totalInState ?? row.totalDelayed },
+    column("truncated"),
+  ],
+};
+
+const ROW_SETS: Partial<Record<Subcommand["kind"], RowSet>> = {
+  "queues-list": {
+    rows: rowsAt("queues"),
+    columns: [
+      column("name"),
+      column("isPaused"),
+      column("wait", "counts.wait"),
+      column("active", "counts.active"),
+      column("completed", "counts.completed"),
+      column("failed", "counts.failed"),
+      column("delayed", "counts.delayed"),
+      column("schedulers", "counts.schedulers"),
+      column("total"),
+      column("enqueuedPerMin", "rates.enqueuedPerMin"),
+      column("dequeuedPerMin", "rates.dequeuedPerMin"),
+    ],
+  },
+  "queues-stats": {
+    rows: (result) => [
+      Object.assign({ name: "(all)" }, result.overall as Row),
+      ...rowsAt("byName")(result),
+    ],
+    columns: [resultColumn("queue"), column("name"), column("jobs"), ...PERCENTILE_COLUMNS],
+  },
+  "queues-history": {
+    rows: rowsAt("samples"),
+    columns: [
+      resultColumn("queue"),
+      column("observedAt"),
+      column("isPaused"),
+      column("wait", "counts.wait"),
+      column("active", "counts.active"),
+      column("completed", "counts.completed"),
+      column("failed", "counts.failed"),
+      column("delayed", "counts.delayed"),
+      column("schedulers", "counts.schedulers"),
+    ],
+  },
+  "jobs-list": { rows: rowsAt("jobs"), columns: [resultColumn("queue"), ...JOB_COLUMNS] },
+  "jobs-search": { rows: rowsAt("jobs"), columns: [column("queue"), ...JOB_COLUMNS] },
+  "jobs-find": { rows: rowsAt("matches"), columns: [column("queue"), ...JOB_COLUMNS] },
+  "jobs-failures": {
+    rows: rowsAt("groups"),
+    columns: [
+      resultColumn("queue"),
+      column("id"),
+      column("count"),
+      column("firstSeen"),
+      column("lastSeen"),
+      {
+        header: "names",
+        value: (row) =>
+          (row.names as Array<{ name: string; count: number }>)
+            .map((entry) => `${entry.name} (${entry.count})`)
+            .join("; "),
+      },
+      column("reason"),
+    ],
+  },
+  "jobs-logs": {
+    rows: (result) =>
+      rowsAt("logs")(result).map((log, index) => ({
+        line: (result.offset as number) + index,
+        log,
+      })),
+    columns: [resultColumn("queue"), resultColumn("jobId"), column("line"), column("log")],
+  },
+  "jobs-retry": BULK_ACTION_ROW_SET,
+  "jobs-promote": BULK_ACTION_ROW_SET,
+  "jobs-remove": BULK_ACTION_ROW_SET,
+  "jobs-move": BULK_ACTION_ROW_SET,
+  "schedulers-list": {
+    rows: rowsAt("schedulers"),
+    columns: [
+      resultColumn("queue"),
+      column("key"),
+      column("name"),
+      column("pattern"),
+      column("every"),
+      column("next"),
+      column("iterationCount"),
+      column("tz"),
+    ],
+  },
+  "alerts-check": {
+    rows: rowsAt("firing"),
+    columns: [
+      column("rule"),
+      column("queue"),
+      column("state"),
+      column("kind"),
+      column("count"),
+      column("threshold"),
+      column("baseline"),
+      column("growth"),
+      column("window"),
+      column("message"),
+    ],
+  },
+  doctor: {
+    rows: rowsAt("checks"),
+    columns: [column("name"), column("status"), column("detail"), column("hint")],
+  },
+};
+
+/**
+ * Where --fields applies for each command that accepts it: the array of
+ * objects (or the single object) the command reports on. The envelope
+ * around it (timestamp, queue, totals, cursors) is always kept.
+ */
+export const FIELD_TARGETS: Partial<Record<Subcommand["kind"], string>> = {
+  "queues-list": "queues",
+  "jobs-list": "jobs",
+  "jobs-get": "job",
+  "jobs-find": "matches",
+  "jobs-search": "jobs",
+  "jobs-failures": "groups",
+  "schedulers-list": "schedulers",
+  "schedulers-get": "scheduler",
+};
+
+function setPath(target: Row, path: string, value: unknown): void {
+  const keys = path.split(".");
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    const next = current[key];
+    if (next === null || typeof next !== "object") current[key] = {};
+    current = current[key] as Row;
+  }
+  current[keys.at(-1)!] = value;
+}
+
+/** Keep only `fields` (dotted paths) of one object; missing fields become null. */
+export function pickFields(value: Row, fields: string[]): Row {
+  const picked: Row = {};
+  for (const field of fields) setPath(picked, field, readPath(value, field) ?? null);
+  return picked;
+}
+
+/** Apply --fields to the objects a command reports on, keeping the envelope. */
+export function projectFields(
+  result: unknown,
+  kind: Subcommand["kind"],
+  fields: string[],
+): unknown {
+  const target = FIELD_TARGETS[kind];
+  const data = result as Row;
+  if (!target || !(target in data)) return result;
+  const value = data[target];
+  const projected = Array.isArray(value)
+    ? value.map((entry) => pickFields(entry as Row, fields))
+    : value !== null && typeof value === "object"
+      ? pickFields(value as Row, fields)
+      : value;
+  return Object.assign({}, data, { [target]: projected });
+}
+
+/**
+ * Flatten a result without a row set into one record: nested objects become
+ * dotted keys, arrays stay whole (JSON-encoded in csv).
+ */
+function flattenRecord(value: Row, prefix: string = "", into: Row = {}): Row {
+  for (const [key, entry] of Object.entries(value)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (entry !== null && typeof entry === "object" && !Array.isArray(entry)) {
+      flattenRecord(entry as Row, name, into);
+    } else {
+      into[name] = entry;
+    }
+  }
+  return into;
+}
+
+/** With --fields, the records are the projected objects and the fields are the columns. */
+function fieldRowSet(kind: Subcommand["kind"], fields: string[]): RowSet | undefined {
+  const target = FIELD_TARGETS[kind];
+  if (!target) return undefined;
+  return {
+    rows: (result) => {
+      const value = result[target];
+      if (Array.isArray(value)) return value as Row[];
+      return value !== null && typeof value === "object" ? [value as Row] : [];
+    },
+    columns: fields.map((field) => column(field)),
+  };
+}
+
+/** The records ndjson and csv print: one per row, or the flattened result. */
+export function toRecords(result: unknown, kind: Subcommand["kind"], fields?: string[]): Row[] {
+  const rowSet = (fields && fieldRowSet(kind, fields)) || ROW_SETS[kind];
+  const data = result as Row;
+  if (!rowSet) return [flattenRecord(data)];
+  return rowSet.rows(data).map((row) => {
+    const record: Row = {};
+    for (const { header, value } of rowSet.columns) {
+      record[header] = value(row, data) ?? null;
+    }
+    return record;
+  });
+}
+
+/** The csv header for a command, or null when it depends on the result. */
+export function recordHeaders(kind: Subcommand["kind"], fields?: string[]): string[] | null {
+  if (fields && FIELD_TARGETS[kind]) return fields;
+  return ROW_SETS[kind]?.columns.map((entry) => entry.header) ?? null;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/** RFC 4180 csv with a header line; the header is printed even with no rows. */
+export function toCsv(records: Row[], headers: string[]): string {
+  return [headers, ...records.map((record) => headers.map((header) => record[header]))]
+    .map((cells) => cells.map(csvCell).join(","))
+    .join("\n");
+}
+
+/**
+ * Render a command's result in a structured format. json and yaml print the
+ * whole result; ndjson and csv print the command's records. With `fields`,
+ * the result is already projected and the fields become the columns.
+ */
+export function renderStructuredOutput(
+  result: unknown,
+  kind: Subcommand["kind"],
+  format: StructuredOutputFormat,
+  fields?: string[],
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(result);
+    case "yaml":
+      return Bun.YAML.stringify(result, null, 2).trimEnd();
+    case "ndjson":
+      return toRecords(result, kind, fields)
+        .map((record) => JSON.stringify(record))
+        .join("\n");
+    case "csv": {
+      const records = toRecords(result, kind, fields);
+      return toCsv(records, recordHeaders(kind, fields) ?? Object.keys(records[0] ?? {}));
+    }
+    default: {
+      const _exhaustive: never = format;
+      throw new Error(`Unhandled output format: ${String(_exhaustive)}`);
+    }
+  }
+}
@@ -24,6 +24,7 @@ import {
   calculateGlobalMetricsFromQueueStats,
   resetMetricsTracker,
   updateMetricsTracker,
+  ZERO_RATES,
 } from "./data/metrics.js";
 import { stateManager, type AppState } from "./state.js";
 import {
@@ -35,16 +36,11 @@ import {
   recordObservedSchedulers,
 } from "./data/queue-store.js";
 import { runQueueStoreCleanupIfDue } from "./data/queue-store-lifecycle.js";
+import { checkAlerts } from "./data/alerts.js";
+import { getQueueTrends } from "./data/history.js";
 
 const SCHEDULER_PAGE_SIZE = 25;
 
-const ZERO_RATES = {
-  enqueuedPerMin: 0,
-  enqueuedPerSec: 0,
-  dequeuedPerMin: 0,
-  dequeuedPerSec: 0,
-} as const;
-
 function jobsViewState(result: JobsResult): Partial<AppState> {
   return {
     jobs: result.jobs,
@@ -145,14 +141,12 @@ class PollingManager {
       // Redis is the writer/source of observations; the queue-data store is
       // the read path used to render state.
       const observedQueues = await getAllQueueStats(ctx);
-      recordObservedQueues(ctx, observedQueues);
+      const observedAt = Date.now();
+      recordObservedQueues(ctx, observedQueues, { observedAt });
+      const firingAlerts = checkAlerts(ctx, observedQueues, observedAt);
       const currentState = stateManager.getState();
-      const queues = sortQueues(
-        listQueues(ctx),
-        currentState.queueSortBy,
-        currentState.queueSortOrder,
-      );
-      const rates = updateMetricsTracker(queues);
+      const { rates, queues: ratedQueues } = updateMetricsTracker(ctx, listQueues(ctx));
+      const queues = sortQueues(ratedQueues, currentState.queueSortBy, currentState.queueSortOrder);
       // Global metrics reflect every queue, not just the ones a `/` filter
       // keeps visible.
       const globalMetrics = calculateGlobalMetricsFromQueueStats(queues, rates);
@@ -162,6 +156,12 @@ class PollingManager {
       stateManager.applyQueues(queues);
       stateManager.setState({
         globalMetrics,
+        firingAlerts,
+        queueTrends: getQueueTrends(
+          ctx,
+          queues.map((queue) => queue.name),
+          observedAt,
+        ),
         connected: true,
         error: null,
       });
@@ -201,7 +201,7 @@ class PollingManager {
 
       // Reset metrics tracker when disconnecting to avoid stale rate data on reconnect
       if (wasConnected) {
-        resetMetricsTracker();
+        resetMetricsTracker(ctx);
       }
 
       await this.applyDisconnectedFallback(ctx, errorMessage);
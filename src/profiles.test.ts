@@ -2,7 +2,14 @@ import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
 import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { expandEnvRefs, loadProfile, parseRedisUrl, resolveConfigPath } from "./profiles.js";
+import {
+  type AlertRule,
+  expandEnvRefs,
+  loadProfile,
+  parseRedisUrl,
+  resolveConfigPath,
+  validateProfilesFile,
+} from "./profiles.js";
 
 const mockExit = (code?: number) => {
   throw new Error(`process.exit(${code})`);
@@ -262,6 +269,42 @@ describe("loadProfile", () => {
   });
 });
 
+function withAlerts(alerts: unknown) {
+  return validateProfilesFile({ profiles: { prod: { alerts } } });
+}
+
+describe("validateProfilesFile — alerts", () => {
+  it("accepts threshold and growth rules", () => {
+    const rules: AlertRule[] = [
+      { name: "payments failing", queue: "payments", state: "failed", above: 100 },
+      { state: "wait", growth: 5, window: "10m", minCount: 50 },
+    ];
+    expect(withAlerts(rules)).toEqual({ profiles: { prod: { alerts: rules } } });
+  });
+
+  it("reports every invalid rule by path", () => {
+    expect(
+      withAlerts([
+        { state: "waiting", above: 10 },
+        { state: "failed", above: 10, growth: 2, window: "1h" },
+        { state: "wait", growth: 0.5, window: "soon" },
+        { state: "failed", above: 10, window: "1h" },
+        { state: "failed", above: 10, severity: "page" },
+      ]),
+    ).toEqual([
+      "profiles.prod.alerts[0].state must be one of: wait, active, completed, failed, delayed, schedulers",
+      "profiles.prod.alerts[1] must set exactly one of 'above' or 'growth'",
+      "profiles.prod.alerts[2].growth must be a number greater than 1",
+      "profiles.prod.alerts[2].window must be a duration like 10m or 1h",
+      "profiles.prod.alerts[3].window and profiles.prod.alerts[3].minCount only apply to growth rules",
+      "unknown key 'severity' in profiles.prod.alerts[4] (allowed: name, queue, state, above, growth, window, minCount)",
+    ]);
+    expect(withAlerts({ state: "failed" })).toEqual([
+      "profiles.prod.alerts must be an array of rules",
+    ]);
+  });
+});
+
 describe("parseRedisUrl", () => {
   it("parses a minimal redis:// URL with defaults", () => {
     expect(parseRedisUrl("redis://localhost")).toEqual({
@@ -2,6 +2,7 @@ import { existsSync, readFileSync } from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
 import { writeError } from "./errors.js";
+import { parseDuration } from "./data/duration.js";
 
 // ── Profile shape ───────────────────────────────────────────────────────
 //
@@ -17,6 +18,8 @@ export interface Profile {
    * older than this are physically removed by queue-store cleanup.
    */
   cacheTtlMs?: number;
+  /** Rules `alerts check`, the TUI and the web dashboard evaluate. */
+  alerts?: AlertRule[];
 }
 
 export interface ProfilesFile {
@@ -24,6 +27,36 @@ export interface ProfilesFile {
   profiles: Record<string, Profile>;
 }
 
+/** Queue count states an alert rule can watch. */
+export const ALERT_STATES = [
+  "wait",
+  "active",
+  "completed",
+  "failed",
+  "delayed",
+  "schedulers",
+] as const;
+export type AlertState = (typeof ALERT_STATES)[number];
+
+/**
+ * A threshold rule (`above`) or a growth rule (`growth` within `window`) on
+ * one count state, for one queue or every queue when `queue` is omitted.
+ */
+export interface AlertRule {
+  /** Label in the firing list; defaults to a description of the rule. */
+  name?: string;
+  queue?: string;
+  state: AlertState;
+  /** Fire while the count is above this. */
+  above?: number;
+  /** Fire when the count is at least this many times what it was within `window`. */
+  growth?: number;
+  /** Growth window as a duration: 30s, 10m, 1h, 7d. */
+  window?: string;
+  /** Growth rules stay quiet until the count reaches this. */
+  minCount?: number;
+}
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return !!value && typeof value === "object" && !Array.isArray(value);
 }
@@ -35,13 +68,88 @@ function coerceOptionalPositiveInt(value: unknown): number | undefined | null {
   return numberValue;
 }
 
-const PROFILE_ALLOWED_KEYS = ["redis", "pollInterval", "prefix", "queues", "cacheTtlMs"] as const;
+const PROFILE_ALLOWED_KEYS = [
+  "redis",
+  "pollInterval",
+  "prefix",
+  "queues",
+  "cacheTtlMs",
+  "alerts",
+] as const;
+const ALERT_RULE_ALLOWED_KEYS = [
+  "name",
+  "queue",
+  "state",
+  "above",
+  "growth",
+  "window",
+  "minCount",
+] as const;
 const PROFILES_FILE_ALLOWED_KEYS = ["defaultProfile", "profiles"] as const;
 
 function unknownKeyMessage(path: string, key: string, allowed: readonly string[]): string {
   return `unknown key '${key}' in ${path} (allowed: ${allowed.join(", ")})`;
 }
 
+function validateAlertRule(value: unknown, path: string, errors: string[]): AlertRule | null {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!(ALERT_RULE_ALLOWED_KEYS as readonly string[]).includes(key)) {
+      errors.push(unknownKeyMessage(path, key, ALERT_RULE_ALLOWED_KEYS));
+    }
+  }
+
+  const before = errors.length;
+
+  if (value.name !== undefined && typeof value.name !== "string") {
+    errors.push(`${path}.name must be a string`);
+  }
+  if (value.queue !== undefined && typeof value.queue !== "string") {
+    errors.push(`${path}.queue must be a string`);
+  }
+  if (!(ALERT_STATES as readonly unknown[]).includes(value.state)) {
+    errors.push(`${path}.state must be one of: ${ALERT_STATES.join(", ")}`);
+  }
+
+  if ((value.above === undefined) === (value.growth === undefined)) {
+    errors.push(`${path} must set exactly one of 'above' or 'growth'`);
+  }
+  if (
+    value.above !== undefined &&
+    (!Number.isInteger(value.above) || (value.above as number) < 0)
+  ) {
+    errors.push(`${path}.above must be a non-negative integer`);
+  }
+  if (value.growth !== undefined) {
+    if (typeof value.growth !== "number" || !(value.growth > 1)) {
+      errors.push(`${path}.growth must be a number greater than 1`);
+    }
+    if (typeof value.window !== "string" || parseDuration(value.window) === null) {
+      errors.push(`${path}.window must be a duration like 10m or 1h`);
+    }
+  } else if (value.window !== undefined || value.minCount !== undefined) {
+    errors.push(`${path}.window and ${path}.minCount only apply to growth rules`);
+  }
+  if (value.minCount !== undefined && coerceOptionalPositiveInt(value.minCount) === null) {
+    errors.push(`${path}.minCount must be a positive integer`);
+  }
+
+  if (errors.length > before) return null;
+
+  const rule: AlertRule = { state: value.state as AlertState };
+  if (value.name !== undefined) rule.name = value.name as string;
+  if (value.queue !== undefined) rule.queue = value.queue as string;
+  if (value.above !== undefined) rule.above = value.above as number;
+  if (value.growth !== undefined) rule.growth = value.growth as number;
+  if (value.window !== undefined) rule.window = value.window as string;
+  if (value.minCount !== undefined) rule.minCount = value.minCount as number;
+  return rule;
+}
+
 function validateProfile(value: unknown, path: string, errors: string[]): Profile | null {
   if (!isRecord(value)) {
     errors.push(`${path} must be an object`);
@@ -92,6 +200,17 @@ function validateProfile(value: unknown, path: string, errors: string[]): Profil
   if (cacheTtlMs === null) errors.push(`${path}.cacheTtlMs must be a positive integer`);
   else if (cacheTtlMs !== undefined) profile.cacheTtlMs = cacheTtlMs;
 
+  if (value.alerts !== undefined) {
+    if (!Array.isArray(value.alerts)) {
+      errors.push(`${path}.alerts must be an array of rules`);
+    } else {
+      const rules = value.alerts.map((rule, index) =>
+        validateAlertRule(rule, `${path}.alerts[${index}]`, errors),
+      );
+      if (rules.every((rule) => rule !== null)) profile.alerts = rules as AlertRule[];
+    }
+  }
+
   return profile;
 }
 
@@ -1,4 +1,6 @@
 import { afterAll, beforeEach, describe, expect, it } from "bun:test";
+import type { FailureGroupsResult } from "./data/failures.js";
+import type { FlowNode } from "./data/flows.js";
 import type { QueueStats } from "./data/queues.js";
 import { filterQueues, stateManager } from "./state.js";
 
@@ -34,6 +36,18 @@ function resetSharedState(): void {
     showCommandPalette: false,
     paletteQuery: "",
     paletteIndex: 0,
+    confirmQueuePause: null,
+    failureGroups: null,
+    showFailureGroups: false,
+    selectedFailureGroupIndex: 0,
+    confirmFailureGroupRetry: null,
+    queueLatency: null,
+    showQueueLatency: false,
+    jobFindResult: null,
+    jobDetail: null,
+    showJobDetail: false,
+    jobFlowTree: null,
+    selectedFlowNodeIndex: 0,
   });
 }
 
@@ -217,6 +231,171 @@ describe("command palette state", () => {
   });
 });
 
+describe("find job by ID", () => {
+  it("reopens the palette on the looked-up ID", () => {
+    stateManager.openCommandPalette();
+    stateManager.setPaletteQuery("42");
+    stateManager.movePaletteSelection(2, 5);
+    stateManager.closeCommandPalette();
+
+    stateManager.showJobFindResult({
+      jobId: "42",
+      source: "redis",
+      queuesSearched: 3,
+      matches: [],
+    });
+
+    const state = stateManager.getState();
+    expect(state.showCommandPalette).toBe(true);
+    expect(state.paletteQuery).toBe("42");
+    expect(state.paletteIndex).toBe(0);
+    expect(state.jobFindResult?.jobId).toBe("42");
+  });
+
+  it("selects a queue by name, clearing a filter that hides it", () => {
+    stateManager.applyQueues([EMAIL, PAYMENTS, NOTIFICATIONS]);
+    stateManager.setQueueFilter("pay");
+    stateManager.setState({ jobsPage: 3 });
+
+    expect(stateManager.selectQueueByName("notifications")).toBe(true);
+    const state = stateManager.getState();
+    expect(state.queueFilter).toBe("");
+    expect(stateManager.getSelectedQueue()?.name).toBe("notifications");
+    expect(state.jobsPage).toBe(1);
+  });
+
+  it("leaves the selection alone for an unknown queue", () => {
+    stateManager.applyQueues([EMAIL, PAYMENTS]);
+    stateManager.setState({ selectedQueueIndex: 1 });
+
+    expect(stateManager.selectQueueByName("missing")).toBe(false);
+    expect(stateManager.getSelectedQueue()?.name).toBe("payments");
+  });
+});
+
+function flowNode(id: string, children: FlowNode[] = []): FlowNode {
+  return {
+    key: `bull:orders:${id}`,
+    queue: "orders",
+    id,
+    name: "step",
+    state: "completed",
+    children,
+    omittedChildren: 0,
+  };
+}
+
+describe("job detail flow tree", () => {
+  const detail = {
+    id: "2",
+    name: "step",
+    state: "completed",
+    timestamp: 0,
+    data: {},
+    opts: {},
+    attemptsMade: 0,
+  };
+  const tree = {
+    jobKey: "bull:orders:2",
+    nodeCount: 3,
+    truncated: false,
+    root: flowNode("1", [flowNode("2"), flowNode("3")]),
+  };
+
+  it("selects the open job's row and clamps movement to the tree", () => {
+    stateManager.openJobDetail(detail);
+    stateManager.setJobFlowTree(tree);
+    expect(stateManager.getState().selectedFlowNodeIndex).toBe(1);
+
+    stateManager.moveFlowSelection(5);
+    expect(stateManager.getState().selectedFlowNodeIndex).toBe(2);
+    stateManager.moveFlowSelection(-5);
+    expect(stateManager.getState().selectedFlowNodeIndex).toBe(0);
+  });
+
+  it("drops the tree when another job opens", () => {
+    stateManager.openJobDetail(detail);
+    stateManager.setJobFlowTree(tree);
+    stateManager.openJobDetail({ ...detail, id: "3" });
+
+    expect(stateManager.getState().jobFlowTree).toBeNull();
+    expect(stateManager.getState().selectedFlowNodeIndex).toBe(0);
+  });
+});
+
+describe("queue pause confirmation", () => {
+  it("tracks the pending action until hidden", () => {
+    stateManager.showQueuePauseConfirm("resume");
+    expect(stateManager.getState().confirmQueuePause).toBe("resume");
+    stateManager.hideQueuePauseConfirm();
+    expect(stateManager.getState().confirmQueuePause).toBeNull();
+  });
+});
+
+function groupsResult(count: number): FailureGroupsResult {
+  return {
+    scanned: count,
+    totalFailed: count,
+    truncated: false,
+    groups: Array.from({ length: count }, (_, i) => ({
+      id: `00000000${i}`.slice(-10),
+      reason: `Error ${i}`,
+      frames: [],
+      count: 1,
+      firstSeen: 0,
+      lastSeen: 0,
+      sampleJobIds: [String(i)],
+      names: [{ name: "send", count: 1 }],
+      exampleReason: `Error ${i}`,
+    })),
+  };
+}
+
+describe("failure groups view", () => {
+  it("clamps the selection when a refresh returns fewer groups", () => {
+    stateManager.openFailureGroups(groupsResult(3));
+    stateManager.moveFailureGroupSelection(5);
+    expect(stateManager.getState().selectedFailureGroupIndex).toBe(2);
+
+    stateManager.updateFailureGroups(groupsResult(1));
+    expect(stateManager.getState().selectedFailureGroupIndex).toBe(0);
+  });
+
+  it("drops the groups and any pending retry on close", () => {
+    stateManager.openFailureGroups(groupsResult(2));
+    stateManager.showFailureGroupRetryConfirm("0000000001");
+    stateManager.closeFailureGroups();
+    const state = stateManager.getState();
+    expect(state.showFailureGroups).toBe(false);
+    expect(state.failureGroups).toBeNull();
+    expect(state.confirmFailureGroupRetry).toBeNull();
+  });
+});
+
+describe("latency view", () => {
+  it("drops the sample on close", () => {
+    stateManager.openQueueLatency({
+      sampleSize: 1000,
+      completed: 0,
+      failed: 0,
+      from: null,
+      to: null,
+      overall: {
+        jobs: 0,
+        waitMs: { samples: 0, p50: null, p90: null, p99: null },
+        processingMs: { samples: 0, p50: null, p90: null, p99: null },
+      },
+      byName: [],
+    });
+    expect(stateManager.getState().showQueueLatency).toBe(true);
+
+    stateManager.closeQueueLatency();
+    const state = stateManager.getState();
+    expect(state.showQueueLatency).toBe(false);
+    expect(state.queueLatency).toBeNull();
+  });
+});
+
 describe("cycleQueueSort with a filter active", () => {
   it("sorts allQueues and reapplies the filter", () => {
     stateManager.applyQueues([EMAIL, NOTIFICATIONS, PAYMENTS]);
@@ -8,14 +8,24 @@ import {
 import type { JobSummary, JobDetail, JobListView } from "./data/jobs.js";
 import type { GlobalMetrics } from "./data/metrics.js";
 import type { JobSchedulerSummary, JobSchedulerDetail } from "./data/schedulers.js";
+import type { FailureGroupsResult } from "./data/failures.js";
+import type { QueueLatencyResult } from "./data/latency.js";
+import type { FiringAlert } from "./data/alerts.js";
+import type { QueueTrend } from "./data/history.js";
+import type { JobFindResult } from "./data/job-find.js";
+import { flattenFlowTree, type FlowTreeResult } from "./data/flows.js";
 
 export type FocusedPane = "queues" | "jobs";
 
+/** A pending pause/resume of the selected queue, awaiting y/n. */
+export type QueuePauseAction = "pause" | "resume";
+
 const QUEUE_SORT_SEQUENCE: Array<{ sortBy: QueueSortBy; sortOrder: SortOrder }> = [
   { sortBy: "name", sortOrder: "asc" },
   { sortBy: "task-size", sortOrder: "desc" },
   { sortBy: "failed", sortOrder: "desc" },
   { sortBy: "waiting", sortOrder: "desc" },
+  { sortBy: "throughput", sortOrder: "desc" },
 ];
 
 export interface AppState {
@@ -26,6 +36,9 @@ export interface AppState {
   // Global metrics
   globalMetrics: GlobalMetrics | null;
 
+  // Profile alert rules firing as of the last successful poll
+  firingAlerts: FiringAlert[];
+
   // Queues. `queues` is the visible list (queueFilter applied); `allQueues`
   // is the full sorted observation the filter selects from. Selection indexes
   // (`selectedQueueIndex`) always refer to the visible list.
@@ -36,6 +49,8 @@ export interface AppState {
   selectedQueueIndex: number;
   queueSortBy: QueueSortBy;
   queueSortOrder: SortOrder;
+  // Waiting/failed sparkline series over the last hour, by queue name
+  queueTrends: Map<string, QueueTrend>;
 
   // Jobs
   jobs: JobSummary[];
@@ -48,6 +63,10 @@ export interface AppState {
   // Detail view
   jobDetail: JobDetail | null;
   showJobDetail: boolean;
+  /** Flow tree of the open job, when it has a parent or children. */
+  jobFlowTree: FlowTreeResult | null;
+  /** Row of the flattened flow tree selected in the detail overlay. */
+  selectedFlowNodeIndex: number;
 
   // Schedulers (for repeatable jobs)
   schedulers: JobSchedulerSummary[];
@@ -58,14 +77,28 @@ export interface AppState {
   schedulerDetail: JobSchedulerDetail | null;
   showSchedulerDetail: boolean;
 
+  // Failure groups of the selected queue (`f`)
+  failureGroups: FailureGroupsResult | null;
+  showFailureGroups: boolean;
+  selectedFailureGroupIndex: number;
+  /** Group id awaiting y/n before its failed jobs are retried. */
+  confirmFailureGroupRetry: string | null;
+
+  // Latency percentiles of the selected queue (`l`)
+  queueLatency: QueueLatencyResult | null;
+  showQueueLatency: boolean;
+
   // UI state
   focusedPane: FocusedPane;
   showConfirmDelete: boolean;
+  confirmQueuePause: QueuePauseAction | null;
   showPageJump: boolean;
   pageJumpInput: string;
   showCommandPalette: boolean;
   paletteQuery: string;
   paletteIndex: number;
+  /** Last "find job by ID" lookup; listed in the palette while its ID is the query. */
+  jobFindResult: JobFindResult | null;
   isLoading: boolean;
 }
 
@@ -87,6 +120,7 @@ class StateManager {
       connected: false,
       error: null,
       globalMetrics: null,
+      firingAlerts: [],
       queues: [],
       allQueues: [],
       queueFilter: "",
@@ -94,6 +128,7 @@ class StateManager {
       selectedQueueIndex: 0,
       queueSortBy: "name",
       queueSortOrder: "asc",
+      queueTrends: new Map(),
       jobs: [],
       jobsTotal: 0,
       jobsPage: 1,
@@ -102,6 +137,8 @@ class StateManager {
       selectedJobIndex: 0,
       jobDetail: null,
       showJobDetail: false,
+      jobFlowTree: null,
+      selectedFlowNodeIndex: 0,
       schedulers: [],
       schedulersTotal: 0,
       schedulersPage: 1,
@@ -109,13 +146,21 @@ class StateManager {
       selectedSchedulerIndex: 0,
       schedulerDetail: null,
       showSchedulerDetail: false,
+      failureGroups: null,
+      showFailureGroups: false,
+      selectedFailureGroupIndex: 0,
+      confirmFailureGroupRetry: null,
+      queueLatency: null,
+      showQueueLatency: false,
       focusedPane: "queues",
       showConfirmDelete: false,
+      confirmQueuePause: null,
       showPageJump: false,
       pageJumpInput: "",
       showCommandPalette: false,
       paletteQuery: "",
       paletteIndex: 0,
+      jobFindResult: null,
       isLoading: false,
     };
   }
@@ -288,6 +333,32 @@ class StateManager {
     this.setState({ paletteQuery: query, paletteIndex: 0 });
   }
 
+  /** Reopen the palette on a lookup's job ID so its matches are listed. */
+  showJobFindResult(result: JobFindResult): void {
+    this.setState({
+      jobFindResult: result,
+      showCommandPalette: true,
+      paletteQuery: result.jobId,
+      paletteIndex: 0,
+    });
+  }
+
+  /**
+   * Select a queue by name, clearing the `/` filter if it hides the queue.
+   * Returns false when the queue isn't in the current observation.
+   */
+  selectQueueByName(name: string): boolean {
+    if (!this.state.allQueues.some((queue) => queue.name === name)) return false;
+    if (!this.state.queues.some((queue) => queue.name === name)) {
+      this.setQueueFilter("");
+    }
+    const index = this.state.queues.findIndex((queue) => queue.name === name);
+    if (index !== this.state.selectedQueueIndex) {
+      this.setState({ selectedQueueIndex: index, selectedJobIndex: 0, jobsPage: 1 });
+    }
+    return true;
+  }
+
   movePaletteSelection(delta: number, listLength: number): void {
     if (listLength <= 0) return;
     const next = Math.max(0, Math.min(this.state.paletteIndex + delta, listLength - 1));
@@ -361,6 +432,8 @@ class StateManager {
     this.setState({
       jobDetail: detail,
       showJobDetail: true,
+      jobFlowTree: null,
+      selectedFlowNodeIndex: 0,
     });
   }
 
@@ -368,9 +441,25 @@ class StateManager {
     this.setState({
       jobDetail: null,
       showJobDetail: false,
+      jobFlowTree: null,
+      selectedFlowNodeIndex: 0,
     });
   }
 
+  /** Show the open job's flow tree, selecting the job's own row. */
+  setJobFlowTree(tree: FlowTreeResult): void {
+    const index = flattenFlowTree(tree.root).findIndex((row) => row.node.key === tree.jobKey);
+    this.setState({ jobFlowTree: tree, selectedFlowNodeIndex: Math.max(index, 0) });
+  }
+
+  moveFlowSelection(delta: number): void {
+    const { jobFlowTree, selectedFlowNodeIndex } = this.state;
+    if (!jobFlowTree) return;
+    const last = flattenFlowTree(jobFlowTree.root).length - 1;
+    const next = Math.max(0, Math.min(selectedFlowNodeIndex + delta, last));
+    this.setState({ selectedFlowNodeIndex: next });
+  }
+
   // Delete confirmation
   showDeleteConfirm(): void {
     this.setState({ showConfirmDelete: true });
@@ -380,6 +469,15 @@ class StateManager {
     this.setState({ showConfirmDelete: false });
   }
 
+  // Queue pause/resume confirmation
+  showQueuePauseConfirm(action: QueuePauseAction): void {
+    this.setState({ confirmQueuePause: action });
+  }
+
+  hideQueuePauseConfirm(): void {
+    this.setState({ confirmQueuePause: null });
+  }
+
   // Page jump
   showPageJumpModal(): void {
     this.setState({ showPageJump: true, pageJumpInput: "" });
@@ -471,6 +569,57 @@ class StateManager {
       showSchedulerDetail: false,
     });
   }
+
+  // Failure groups view
+  openFailureGroups(result: FailureGroupsResult): void {
+    this.setState({
+      failureGroups: result,
+      showFailureGroups: true,
+      selectedFailureGroupIndex: 0,
+    });
+  }
+
+  /** Replace the groups after a refresh, keeping the selection in range. */
+  updateFailureGroups(result: FailureGroupsResult): void {
+    const last = Math.max(result.groups.length - 1, 0);
+    this.setState({
+      failureGroups: result,
+      selectedFailureGroupIndex: Math.min(this.state.selectedFailureGroupIndex, last),
+    });
+  }
+
+  closeFailureGroups(): void {
+    this.setState({
+      failureGroups: null,
+      showFailureGroups: false,
+      selectedFailureGroupIndex: 0,
+      confirmFailureGroupRetry: null,
+    });
+  }
+
+  moveFailureGroupSelection(delta: number): void {
+    const count = this.state.failureGroups?.groups.length ?? 0;
+    if (count === 0) return;
+    const next = Math.max(0, Math.min(this.state.selectedFailureGroupIndex + delta, count - 1));
+    this.setState({ selectedFailureGroupIndex: next });
+  }
+
+  showFailureGroupRetryConfirm(groupId: string): void {
+    this.setState({ confirmFailureGroupRetry: groupId });
+  }
+
+  hideFailureGroupRetryConfirm(): void {
+    this.setState({ confirmFailureGroupRetry: null });
+  }
+
+  // Latency view
+  openQueueLatency(result: QueueLatencyResult): void {
+    this.setState({ queueLatency: result, showQueueLatency: true });
+  }
+
+  closeQueueLatency(): void {
+    this.setState({ queueLatency: null, showQueueLatency: false });
+  }
 }
 
 // Singleton state manager
@@ -1,5 +1,10 @@
 import { describe, expect, it } from "bun:test";
-import { clampPaletteIndex, filterPaletteActions, type PaletteAction } from "./command-palette.js";
+import {
+  clampPaletteIndex,
+  filterPaletteActions,
+  looksLikeJobId,
+  type PaletteAction,
+} from "./command-palette.js";
 
 const ACTIONS: PaletteAction[] = [
   { id: "refresh", title: "Refresh data now", hint: "r" },
@@ -25,6 +30,19 @@ describe("filterPaletteActions", () => {
   });
 });
 
+describe("looksLikeJobId", () => {
+  it("accepts one word with a digit in it", () => {
+    expect(looksLikeJobId("42")).toBe(true);
+    expect(looksLikeJobId(" order-42 ")).toBe(true);
+  });
+
+  it("rejects action names and multi-word queries", () => {
+    expect(looksLikeJobId("refresh")).toBe(false);
+    expect(looksLikeJobId("job 42")).toBe(false);
+    expect(looksLikeJobId("")).toBe(false);
+  });
+});
+
 describe("clampPaletteIndex", () => {
   it("clamps into the list bounds", () => {
     expect(clampPaletteIndex(0, 4)).toBe(0);
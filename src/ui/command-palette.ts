@@ -19,6 +19,15 @@ export function filterPaletteActions<T extends PaletteAction>(actions: T[], quer
   return actions.filter((action) => action.title.toLowerCase().includes(needle));
 }
 
+/**
+ * Whether a palette query reads as a job ID rather than an action name:
+ * one word with a digit in it, like BullMQ's numeric IDs or `order-42`.
+ */
+export function looksLikeJobId(query: string): boolean {
+  const text = query.trim();
+  return /\d/.test(text) && !/\s/.test(text);
+}
+
 /**
  * Clamp a selection index to a filtered list, returning 0 for empty lists.
  * Exported so the key handler and the renderer agree on the effective index.
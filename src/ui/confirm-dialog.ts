@@ -64,10 +64,10 @@ export function createConfirmDialog(renderer: CliRenderer): ConfirmDialogElement
   return { overlay, container, message, buttons };
 }
 
-export function showConfirmDialog(elements: ConfirmDialogElements, jobId: string): void {
+export function showConfirmDialog(elements: ConfirmDialogElements, prompt: string): void {
   const { overlay, container, message } = elements;
 
-  message.content = t`${bold(fg(colors.text)(`Delete job ${jobId}?`))}`;
+  message.content = t`${bold(fg(colors.text)(prompt))}`;
 
   overlay.visible = true;
   container.visible = true;
@@ -0,0 +1,147 @@
+import {
+  type CliRenderer,
+  BoxRenderable,
+  TextRenderable,
+  t,
+  fg,
+  bold,
+  StyledText,
+} from "@opentui/core";
+import type { FailureGroup, FailureGroupsResult } from "../data/failures.js";
+import { formatRelativeTime } from "../data/jobs.js";
+import { colors } from "./colors.js";
+import { concatStyledText } from "./utils.js";
+
+export interface FailureGroupsElements {
+  overlay: BoxRenderable;
+  container: BoxRenderable;
+  title: TextRenderable;
+  content: TextRenderable;
+  footer: TextRenderable;
+}
+
+export function createFailureGroups(renderer: CliRenderer): FailureGroupsElements {
+  // Semi-transparent overlay
+  const overlay = new BoxRenderable(renderer, {
+    id: "failure-groups-overlay",
+    position: "absolute",
+    left: 0,
+    top: 0,
+    width: "100%",
+    height: "100%",
+    backgroundColor: colors.crust,
+    zIndex: 100,
+  });
+  overlay.visible = false;
+  renderer.root.add(overlay);
+
+  // Modal container
+  const container = new BoxRenderable(renderer, {
+    id: "failure-groups-container",
+    position: "absolute",
+    left: 5,
+    top: 2,
+    width: "90%",
+    height: "90%",
+    backgroundColor: colors.base,
+    borderStyle: "double",
+    borderColor: colors.red,
+    flexDirection: "column",
+    zIndex: 101,
+    border: true,
+  });
+  container.visible = false;
+  renderer.root.add(container);
+
+  // Title bar
+  const title = new TextRenderable(renderer, {
+    id: "failure-groups-title",
+    content: "Failure Groups",
+    fg: colors.text,
+    bg: colors.surface0,
+    width: "100%",
+    height: 1,
+    paddingLeft: 1,
+  });
+  container.add(title);
+
+  // Content area
+  const content = new TextRenderable(renderer, {
+    id: "failure-groups-content",
+    content: "",
+    fg: colors.text,
+    flexGrow: 1,
+    paddingLeft: 1,
+    paddingTop: 1,
+  });
+  container.add(content);
+
+  // Footer
+  const footer = new TextRenderable(renderer, {
+    id: "failure-groups-footer",
+    content: "j/k: select | r: retry group | Esc: close",
+    fg: colors.overlay0,
+    bg: colors.surface0,
+    width: "100%",
+    height: 1,
+    paddingLeft: 1,
+  });
+  container.add(footer);
+
+  return { overlay, container, title, content, footer };
+}
+
+function formatGroup(group: FailureGroup, selected: boolean): StyledText {
+  const marker = selected ? fg(colors.peach)("▶") : " ";
+  const names = group.names.map((entry) => `${entry.name} (${entry.count})`).join(", ");
+  const parts: (StyledText | string)[] = [
+    t`${marker} ${bold(fg(colors.red)(String(group.count).padStart(5)))}  ${fg(colors.overlay0)(group.id)}  ${group.reason}`,
+    "\n",
+    t`         ${fg(colors.subtext0)(`last ${formatRelativeTime(group.lastSeen)}, first ${formatRelativeTime(group.firstSeen)} | ${names}`)}`,
+  ];
+
+  // Frames and samples only for the selected group, to keep the list scannable.
+  if (selected) {
+    for (const frame of group.frames) {
+      parts.push("\n");
+      parts.push(t`         ${fg(colors.overlay1)(frame)}`);
+    }
+    parts.push("\n");
+    parts.push(t`         ${fg(colors.overlay0)(`sample jobs: ${group.sampleJobIds.join(", ")}`)}`);
+  }
+  return concatStyledText(...parts);
+}
+
+export function updateFailureGroups(
+  elements: FailureGroupsElements,
+  queueName: string | null,
+  result: FailureGroupsResult | null,
+  selectedIndex: number,
+  visible: boolean,
+): void {
+  const { overlay, container, title, content } = elements;
+
+  overlay.visible = visible;
+  container.visible = visible;
+
+  if (!result || !visible) {
+    return;
+  }
+
+  const scope = result.truncated
+    ? `newest ${result.scanned} of ${result.totalFailed} failed`
+    : `${result.totalFailed} failed`;
+  title.content = t` Failure groups: ${bold(fg(colors.text)(queueName ?? "unknown"))} ${fg(colors.overlay0)(`(${result.groups.length} groups in ${scope})`)}`;
+
+  if (result.groups.length === 0) {
+    content.content = t`${fg(colors.overlay0)("No failed jobs")}`;
+    return;
+  }
+
+  const parts: (StyledText | string)[] = [];
+  result.groups.forEach((group, index) => {
+    if (index > 0) parts.push("\n");
+    parts.push(formatGroup(group, index === selectedIndex));
+  });
+  content.content = concatStyledText(...parts);
+}
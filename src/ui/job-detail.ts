@@ -10,6 +10,7 @@ import {
 import type { JobDetail } from "../data/jobs.js";
 import { formatTimestamp } from "../data/jobs.js";
 import { formatInterval } from "../data/schedulers.js";
+import { flattenFlowTree, type FlowTreeResult } from "../data/flows.js";
 import { colors } from "./colors.js";
 import { concatStyledText } from "./utils.js";
 
@@ -17,10 +18,16 @@ export interface JobDetailElements {
   overlay: BoxRenderable;
   container: BoxRenderable;
   title: TextRenderable;
+  flow: TextRenderable;
   content: TextRenderable;
   footer: TextRenderable;
 }
 
+const FOOTER_HINT = "d: delete job | Esc: close";
+const FLOW_FOOTER_HINT = "j/k: select flow job | Enter: open it | d: delete job | Esc: close";
+/** Flow tree rows shown at once; the window follows the selection. */
+const FLOW_WINDOW_ROWS = 10;
+
 export function createJobDetail(renderer: CliRenderer): JobDetailElements {
   // Semi-transparent overlay
   const overlay = new BoxRenderable(renderer, {
@@ -66,6 +73,17 @@ export function createJobDetail(renderer: CliRenderer): JobDetailElements {
   });
   container.add(title);
 
+  // Flow tree panel, shown for jobs with a parent or children
+  const flow = new TextRenderable(renderer, {
+    id: "job-detail-flow",
+    content: "",
+    fg: colors.text,
+    paddingLeft: 1,
+    paddingTop: 1,
+  });
+  flow.visible = false;
+  container.add(flow);
+
   // Content area
   const content = new TextRenderable(renderer, {
     id: "job-detail-content",
@@ -80,7 +98,7 @@ export function createJobDetail(renderer: CliRenderer): JobDetailElements {
   // Footer
   const footer = new TextRenderable(renderer, {
     id: "job-detail-footer",
-    content: "d: delete job | Esc: close",
+    content: FOOTER_HINT,
     fg: colors.overlay0,
     bg: colors.surface0,
     width: "100%",
@@ -89,7 +107,7 @@ export function createJobDetail(renderer: CliRenderer): JobDetailElements {
   });
   container.add(footer);
 
-  return { overlay, container, title, content, footer };
+  return { overlay, container, title, flow, content, footer };
 }
 
 function formatData(data: unknown): string {
@@ -118,12 +136,44 @@ function getStateColor(state: string): string {
   }
 }
 
+function formatFlowTree(tree: FlowTreeResult, selectedIndex: number): StyledText {
+  const rows = flattenFlowTree(tree.root);
+  const start = Math.max(
+    0,
+    Math.min(selectedIndex - Math.floor(FLOW_WINDOW_ROWS / 2), rows.length - FLOW_WINDOW_ROWS),
+  );
+  const visibleRows = rows.slice(start, start + FLOW_WINDOW_ROWS);
+  const summary = tree.truncated ? `${tree.nodeCount}+ jobs` : `${tree.nodeCount} jobs`;
+  const range =
+    rows.length > FLOW_WINDOW_ROWS ? `, ${start + 1}-${start + visibleRows.length} shown` : "";
+  const parts: (StyledText | string)[] = [
+    t`${bold(fg(colors.teal)("Flow:"))} ${fg(colors.overlay0)(`(${summary}${range})`)}`,
+  ];
+
+  visibleRows.forEach(({ node, guide }, offset) => {
+    const selected = start + offset === selectedIndex;
+    const marker = selected ? fg(colors.peach)("▶") : " ";
+    const label = node.queue ? `${node.queue}:${node.id}` : node.id;
+    const name = node.name === null ? "" : ` ${node.name}`;
+    const current = node.key === tree.jobKey ? fg(colors.peach)(" ◀ this job") : "";
+    const omitted =
+      node.omittedChildren > 0 ? fg(colors.overlay0)(` +${node.omittedChildren} more`) : "";
+    parts.push("\n");
+    parts.push(
+      t`${marker} ${fg(colors.overlay0)(guide)}${selected ? bold(label) : label}${name} ${fg(getStateColor(node.state))(node.state)}${omitted}${current}`,
+    );
+  });
+  return concatStyledText(...parts);
+}
+
 export function updateJobDetail(
   elements: JobDetailElements,
   job: JobDetail | null,
   visible: boolean,
+  flowTree: FlowTreeResult | null = null,
+  selectedFlowIndex = 0,
 ): void {
-  const { overlay, container, title, content } = elements;
+  const { overlay, container, title, flow, content, footer } = elements;
 
   overlay.visible = visible;
   container.visible = visible;
@@ -135,6 +185,12 @@ export function updateJobDetail(
   // Update title
   title.content = t` Job: ${bold(fg(colors.text)(job.id))}`;
 
+  flow.visible = flowTree !== null;
+  if (flowTree) {
+    flow.content = formatFlowTree(flowTree, selectedFlowIndex);
+  }
+  footer.content = flowTree ? FLOW_FOOTER_HINT : FOOTER_HINT;
+
   // Build content using StyledText concatenation
   const stateColor = getStateColor(job.state);
   const parts: (StyledText | string)[] = [];
@@ -187,6 +243,22 @@ export function updateJobDetail(
     parts.push(t`${bold("Delay:")}       ${formatInterval(job.delay)}`);
   }
 
+  if (job.parentKey) {
+    parts.push("\n");
+    parts.push(t`${bold("Parent:")}      ${fg(colors.teal)(job.parentKey)}`);
+  }
+
+  if (job.dependencies) {
+    const { counts } = job.dependencies;
+    parts.push("\n");
+    parts.push(
+      t`${bold("Children:")}    ${fg(colors.blue)(`${counts.processed} processed`)}, ${fg(colors.yellow)(`${counts.unprocessed} unprocessed`)}, ${fg(colors.red)(`${counts.failed} failed`)}`,
+    );
+    if (counts.ignored > 0) {
+      parts.push(t`, ${fg(colors.overlay0)(`${counts.ignored} ignored`)}`);
+    }
+  }
+
   parts.push("\n\n");
   parts.push(t`${bold("Data:")}`);
   parts.push("\n");
@@ -215,6 +287,18 @@ export function updateJobDetail(
     }
   }
 
+  if (job.logs && job.logs.length > 0) {
+    const count = job.logCount ?? job.logs.length;
+    const label =
+      count > job.logs.length ? `Logs (last ${job.logs.length} of ${count}):` : `Logs (${count}):`;
+    parts.push("\n\n");
+    parts.push(t`${bold(label)}`);
+    for (const line of job.logs) {
+      parts.push("\n");
+      parts.push(t`${fg(colors.subtext0)(line)}`);
+    }
+  }
+
   content.content = concatStyledText(...parts);
 }
 
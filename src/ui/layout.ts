@@ -1,5 +1,6 @@
 import { type CliRenderer, BoxRenderable, TextRenderable, t, fg, bold } from "@opentui/core";
 import { colors } from "./colors.js";
+import type { FiringAlert } from "../data/alerts.js";
 
 export interface LayoutElements {
   // Root containers
@@ -11,6 +12,9 @@ export interface LayoutElements {
   // Metrics bar
   metricsBar: BoxRenderable;
 
+  // Firing alerts, hidden while none fire
+  alertBanner: TextRenderable;
+
   // Main content area
   mainContent: BoxRenderable;
 
@@ -76,6 +80,19 @@ export function createLayout(renderer: CliRenderer): LayoutElements {
   });
   root.add(metricsBar);
 
+  // Alert banner - one line under the metrics, only while rules fire
+  const alertBanner = new TextRenderable(renderer, {
+    id: "alert-banner",
+    content: "",
+    fg: colors.crust,
+    bg: colors.red,
+    width: "100%",
+    height: 1,
+    paddingLeft: 1,
+  });
+  alertBanner.visible = false;
+  root.add(alertBanner);
+
   // Main content area (horizontal split)
   const mainContent = new BoxRenderable(renderer, {
     id: "main-content",
@@ -128,7 +145,7 @@ export function createLayout(renderer: CliRenderer): LayoutElements {
   const footerText = new TextRenderable(renderer, {
     id: "footer-text",
     content:
-      "j/k: navigate | Tab: switch pane | Enter: select | /: search | ^p: commands | d: delete | r: refresh | q: quit",
+      "j/k: navigate | Tab: switch pane | Enter: select | /: search | ^p: commands | d: delete | p: pause | f: failures | l: latency | r: refresh | q: quit",
     fg: colors.overlay0,
   });
   footer.add(footerText);
@@ -139,6 +156,7 @@ export function createLayout(renderer: CliRenderer): LayoutElements {
     headerTitle,
     headerStatus,
     metricsBar,
+    alertBanner,
     mainContent,
     leftPane,
     rightPane,
@@ -168,3 +186,10 @@ export function updateHeaderStatus(
     headerStatus.fg = colors.yellow;
   }
 }
+
+export function updateAlertBanner(alertBanner: TextRenderable, alerts: FiringAlert[]): void {
+  alertBanner.visible = alerts.length > 0;
+  if (alerts.length === 0) return;
+  const label = alerts.length === 1 ? "1 alert firing" : `${alerts.length} alerts firing`;
+  alertBanner.content = `▲ ${label}: ${alerts.map((alert) => alert.message).join(" · ")}`;
+}
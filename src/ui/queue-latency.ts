@@ -0,0 +1,157 @@
+import {
+  type CliRenderer,
+  BoxRenderable,
+  TextRenderable,
+  t,
+  fg,
+  bold,
+  StyledText,
+} from "@opentui/core";
+import {
+  formatLatency,
+  type LatencyPercentiles,
+  type LatencySummary,
+  type QueueLatencyResult,
+} from "../data/latency.js";
+import { formatRelativeTime } from "../data/jobs.js";
+import { colors } from "./colors.js";
+import { concatStyledText } from "./utils.js";
+
+export interface QueueLatencyElements {
+  overlay: BoxRenderable;
+  container: BoxRenderable;
+  title: TextRenderable;
+  content: TextRenderable;
+  footer: TextRenderable;
+}
+
+export function createQueueLatency(renderer: CliRenderer): QueueLatencyElements {
+  // Semi-transparent overlay
+  const overlay = new BoxRenderable(renderer, {
+    id: "queue-latency-overlay",
+    position: "absolute",
+    left: 0,
+    top: 0,
+    width: "100%",
+    height: "100%",
+    backgroundColor: colors.crust,
+    zIndex: 100,
+  });
+  overlay.visible = false;
+  renderer.root.add(overlay);
+
+  // Modal container
+  const container = new BoxRenderable(renderer, {
+    id: "queue-latency-container",
+    position: "absolute",
+    left: 5,
+    top: 2,
+    width: "90%",
+    height: "90%",
+    backgroundColor: colors.base,
+    borderStyle: "double",
+    borderColor: colors.sky,
+    flexDirection: "column",
+    zIndex: 101,
+    border: true,
+  });
+  container.visible = false;
+  renderer.root.add(container);
+
+  // Title bar
+  const title = new TextRenderable(renderer, {
+    id: "queue-latency-title",
+    content: "Latency",
+    fg: colors.text,
+    bg: colors.surface0,
+    width: "100%",
+    height: 1,
+    paddingLeft: 1,
+  });
+  container.add(title);
+
+  // Content area
+  const content = new TextRenderable(renderer, {
+    id: "queue-latency-content",
+    content: "",
+    fg: colors.text,
+    flexGrow: 1,
+    paddingLeft: 1,
+    paddingTop: 1,
+  });
+  container.add(content);
+
+  // Footer
+  const footer = new TextRenderable(renderer, {
+    id: "queue-latency-footer",
+    content: "r: resample | Esc: close",
+    fg: colors.overlay0,
+    bg: colors.surface0,
+    width: "100%",
+    height: 1,
+    paddingLeft: 1,
+  });
+  container.add(footer);
+
+  return { overlay, container, title, content, footer };
+}
+
+const NAME_WIDTH = 24;
+const CELL_WIDTH = 8;
+
+function cells(percentiles: LatencyPercentiles): string {
+  return [percentiles.p50, percentiles.p90, percentiles.p99]
+    .map((ms) => formatLatency(ms).padStart(CELL_WIDTH))
+    .join("");
+}
+
+function formatRow(name: string, summary: LatencySummary, highlight: boolean): StyledText {
+  const label = name.length > NAME_WIDTH ? `${name.slice(0, NAME_WIDTH - 1)}…` : name;
+  const jobs = String(summary.jobs).padStart(6);
+  const row = `${label.padEnd(NAME_WIDTH)}${jobs}  ${cells(summary.waitMs)}  ${cells(summary.processingMs)}`;
+  return highlight ? t`${bold(fg(colors.text)(row))}` : t`${fg(colors.subtext0)(row)}`;
+}
+
+export function updateQueueLatency(
+  elements: QueueLatencyElements,
+  queueName: string | null,
+  result: QueueLatencyResult | null,
+  visible: boolean,
+): void {
+  const { overlay, container, title, content } = elements;
+
+  overlay.visible = visible;
+  container.visible = visible;
+
+  if (!result || !visible) {
+    return;
+  }
+
+  const sampled = result.completed + result.failed;
+  const window =
+    result.from !== null && result.to !== null
+      ? `, finished ${formatRelativeTime(result.from)} to ${formatRelativeTime(result.to)}`
+      : "";
+  title.content = t` Latency: ${bold(fg(colors.text)(queueName ?? "unknown"))} ${fg(colors.overlay0)(`(${sampled} jobs sampled${window})`)}`;
+
+  if (sampled === 0) {
+    content.content = t`${fg(colors.overlay0)("No finished jobs to measure")}`;
+    return;
+  }
+
+  const groupHeader = `${"".padEnd(NAME_WIDTH + 8)}${"wait".padEnd(CELL_WIDTH * 3 + 2)}processing`;
+  const percentiles = ["p50", "p90", "p99"].map((p) => p.padStart(CELL_WIDTH)).join("");
+  const columnHeader = `${"Name".padEnd(NAME_WIDTH)}${"Jobs".padStart(6)}  ${percentiles}  ${percentiles}`;
+  const parts: (StyledText | string)[] = [
+    t`${fg(colors.overlay0)(groupHeader)}`,
+    "\n",
+    t`${fg(colors.overlay0)(columnHeader)}`,
+    "\n",
+    formatRow("(all)", result.overall, true),
+  ];
+  for (const group of result.byName) {
+    parts.push("\n");
+    parts.push(formatRow(group.name, group, false));
+  }
+  content.content = concatStyledText(...parts);
+}
@@ -6,7 +6,9 @@ import {
   SelectRenderableEvents,
   type SelectOption,
 } from "@opentui/core";
+import type { ThroughputRates } from "../data/metrics.js";
 import type { QueueStats } from "../data/queues.js";
+import { formatSparkline, type QueueTrend } from "../data/history.js";
 import { queueSortLabel, type QueueSortBy, type SortOrder } from "../data/queue-sort.js";
 import { stateManager } from "../state.js";
 import { pollingManager } from "../polling.js";
@@ -26,6 +28,18 @@ export function formatQueueTaskBar(total: number, maxTotal: number, width: numbe
   return "#".repeat(filled).padEnd(width, ".");
 }
 
+/** Jobs in and out per minute; omitted for cached stats shown while disconnected. */
+export function formatQueueRate(rates: ThroughputRates | undefined): string {
+  if (!rates) return "";
+  return ` | in ${Math.round(rates.enqueuedPerMin)}/m out ${Math.round(rates.dequeuedPerMin)}/m`;
+}
+
+/** Waiting and failed sparklines, once there are at least two points to draw. */
+export function formatQueueTrend(trend: QueueTrend | undefined): string {
+  if (!trend || trend.wait.length < 2) return "";
+  return ` | wait ${formatSparkline(trend.wait)} fail ${formatSparkline(trend.failed)}`;
+}
+
 export function createQueueList(renderer: CliRenderer, parent: BoxRenderable): QueueListElements {
   // Container
   const container = new BoxRenderable(renderer, {
@@ -104,6 +118,7 @@ export function updateQueueList(
   sortOrder: SortOrder = "asc",
   queueFilter: string = "",
   searchActive: boolean = false,
+  trends: Map<string, QueueTrend> = new Map(),
 ): void {
   const { select, emptyText, title } = elements;
 
@@ -135,7 +150,7 @@ export function updateQueueList(
     name: queue.name,
     description: `${formatQueueTaskBar(queue.total, maxTotal)} ${queue.total} jobs | fail ${queue.counts.failed} | ${
       queue.isPaused ? "PAUSED" : "active"
-    }`,
+    }${formatQueueRate(queue.rates)}${formatQueueTrend(trends.get(queue.name))}`,
     value: queue,
   }));
 
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "bun:test";
+import type { QueueStats } from "../data/queues.js";
+import { invalidatedQueues, QueueEventHub, type OverviewSnapshot } from "./events.js";
+
+function queue(name: string, wait: number, isPaused = false): QueueStats {
+  return {
+    name,
+    counts: { wait, active: 0, completed: 0, failed: 0, delayed: 0, schedulers: 0 },
+    isPaused,
+    total: wait,
+  };
+}
+
+function snapshots(...polls: QueueStats[][]): () => Promise<OverviewSnapshot> {
+  let index = 0;
+  return async () => {
+    const queues = polls[Math.min(index, polls.length - 1)]!;
+    index += 1;
+    return {
+      queues,
+      alerts: [],
+      trends: new Map(),
+      rates: { enqueuedPerMin: 0, enqueuedPerSec: 0, dequeuedPerMin: 0, dequeuedPerSec: 0 },
+      observedAt: index,
+    };
+  };
+}
+
+/** Read `count` SSE messages (skipping the leading `retry:` hint). */
+async function readEvents(
+  response: Response,
+  count: number,
+): Promise<Array<{ event: string; data: unknown }>> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const events: Array<{ event: string; data: unknown }> = [];
+  let buffer = "";
+  while (events.length < count) {
+    // eslint-disable-next-line no-await-in-loop
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop() ?? "";
+    for (const message of messages) {
+      const event = /^event: (.+)$/m.exec(message)?.[1];
+      const data = /^data: (.+)$/m.exec(message)?.[1];
+      if (event && data) events.push({ event, data: JSON.parse(data) });
+    }
+  }
+  reader.releaseLock();
+  return events;
+}
+
+describe("invalidatedQueues", () => {
+  it("lists queues whose counts or membership changed, not pause toggles", () => {
+    expect(
+      invalidatedQueues([
+        { type: "pause", queue: "a", isPaused: true },
+        { type: "count", queue: "b", state: "wait", previous: 1, current: 2, delta: 1 },
+        { type: "count", queue: "b", state: "active", previous: 0, current: 1, delta: 1 },
+        { type: "queue-removed", queue: "c" },
+      ]),
+    ).toEqual(["b", "c"]);
+  });
+});
+
+describe("QueueEventHub", () => {
+  it("streams overviews, count changes and job invalidations from one shared poll", async () => {
+    let polls = 0;
+    const observe = snapshots([queue("email", 1)], [queue("email", 3)]);
+    const hub = new QueueEventHub<string>({
+      intervalMs: 5,
+      observe: () => {
+        polls += 1;
+        return observe();
+      },
+      render: (snapshot, view) => ({ view, names: snapshot.queues.map((q) => q.name) }),
+    });
+    const abort = new AbortController();
+
+    const first = hub.connect("a", abort.signal);
+    const second = hub.connect("b", abort.signal);
+    expect(first.headers.get("content-type")).toContain("text/event-stream");
+
+    const events = await readEvents(first, 4);
+    expect(events).toEqual([
+      { event: "overview", data: { view: "a", names: ["email"] } },
+      { event: "overview", data: { view: "a", names: ["email"] } },
+      {
+        event: "counts",
+        data: {
+          changes: [
+            { type: "count", queue: "email", state: "wait", previous: 1, current: 3, delta: 2 },
+          ],
+        },
+      },
+      { event: "jobs", data: { queues: ["email"] } },
+    ]);
+    expect((await readEvents(second, 1))[0]).toEqual({
+      event: "overview",
+      data: { view: "b", names: ["email"] },
+    });
+    // Both clients were served by the same polls.
+    expect(polls).toBeLessThanOrEqual(3);
+
+    abort.abort();
+    expect(hub.clientCount).toBe(0);
+  });
+
+  it("reports poll failures without closing the stream", async () => {
+    const hub = new QueueEventHub<null>({
+      intervalMs: 5,
+      observe: async () => {
+        throw new Error("Redis unavailable");
+      },
+      render: () => null,
+    });
+    const abort = new AbortController();
+
+    const events = await readEvents(hub.connect(null, abort.signal), 1);
+    expect(events).toEqual([{ event: "poll-error", data: { error: "Redis unavailable" } }]);
+    expect(hub.clientCount).toBe(1);
+    abort.abort();
+  });
+});
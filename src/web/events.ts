@@ -0,0 +1,159 @@
+import type { FiringAlert } from "../data/alerts.js";
+import type { QueueTrend } from "../data/history.js";
+import type { ThroughputRates } from "../data/metrics.js";
+import type { QueueStats } from "../data/queues.js";
+import { diffQueueStats, type WatchEvent } from "../data/watch.js";
+
+/** One Redis observation, shared by every connected dashboard tab. */
+export interface OverviewSnapshot {
+  queues: QueueStats[];
+  alerts: FiringAlert[];
+  trends: Map<string, QueueTrend>;
+  /** Rates across every queue; each queue carries its own `rates`. */
+  rates: ThroughputRates;
+  observedAt: number;
+}
+
+export interface QueueEventHubOptions<View> {
+  intervalMs: number;
+  /** Poll Redis once; called at most once per interval, however many clients are connected. */
+  observe: () => Promise<OverviewSnapshot>;
+  /** Shape the snapshot for one client, e.g. in its chosen queue sort. */
+  render: (snapshot: OverviewSnapshot, view: View) => unknown;
+}
+
+interface Subscriber<View> {
+  view: View;
+  controller: ReadableStreamDefaultController<Uint8Array>;
+}
+
+const encoder = new TextEncoder();
+
+function encodeEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/** Queues whose job lists may have changed between two polls. */
+export function invalidatedQueues(changes: WatchEvent[]): string[] {
+  const names = new Set<string>();
+  for (const change of changes) {
+    if (
+      change.type === "count" ||
+      change.type === "queue-added" ||
+      change.type === "queue-removed"
+    ) {
+      names.add(change.queue);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Server-Sent Events fan-out for `GET /api/events`. While at least one
+ * client is connected the hub polls Redis once per interval and pushes:
+ *
+ * - `overview`: the same payload as `/api/overview`, every poll
+ * - `counts`: per-queue count and pause changes since the previous poll
+ * - `jobs`: queues whose job lists should be refetched
+ * - `poll-error`: the poll failed; clients keep the last overview
+ *
+ * Polling stops when the last client disconnects.
+ */
+export class QueueEventHub<View> {
+  private subscribers = new Set<Subscriber<View>>();
+  private polling = false;
+  private previous: OverviewSnapshot | null = null;
+
+  constructor(private options: QueueEventHubOptions<View>) {}
+
+  get clientCount(): number {
+    return this.subscribers.size;
+  }
+
+  /** Open an event stream for one client; it ends when `signal` aborts. */
+  connect(view: View, signal?: AbortSignal): Response {
+    let subscriber: Subscriber<View>;
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        subscriber = { view, controller };
+        this.subscribers.add(subscriber);
+        // Tell EventSource to reconnect on the dashboard's own cadence, and
+        // flush the headers so `onopen` fires before the first poll lands.
+        controller.enqueue(encoder.encode(`retry: ${this.options.intervalMs}\n\n`));
+        if (this.previous) {
+          controller.enqueue(
+            encodeEvent("overview", this.options.render(this.previous, subscriber.view)),
+          );
+        }
+        this.start();
+      },
+      cancel: () => {
+        this.subscribers.delete(subscriber);
+      },
+    });
+    signal?.addEventListener(
+      "abort",
+      () => {
+        this.disconnect(subscriber);
+      },
+      { once: true },
+    );
+
+    return new Response(stream, {
+      headers: {
+        "content-type": "text/event-stream; charset=utf-8",
+        "cache-control": "no-store",
+      },
+    });
+  }
+
+  private disconnect(subscriber: Subscriber<View>): void {
+    if (!this.subscribers.delete(subscriber)) return;
+    try {
+      subscriber.controller.close();
+    } catch {
+      // Already closed by the client.
+    }
+  }
+
+  private start(): void {
+    if (this.polling) return;
+    this.polling = true;
+    void this.tick();
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      const snapshot = await this.options.observe();
+      const changes = this.previous ? diffQueueStats(this.previous.queues, snapshot.queues) : [];
+      this.previous = snapshot;
+      this.broadcast("overview", (view) => this.options.render(snapshot, view));
+      if (changes.length > 0) {
+        this.broadcast("counts", () => ({ changes }));
+        const queues = invalidatedQueues(changes);
+        if (queues.length > 0) this.broadcast("jobs", () => ({ queues }));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.broadcast("poll-error", () => ({ error: message }));
+    }
+
+    if (this.subscribers.size === 0) {
+      // Nobody is listening; the next client starts from a fresh poll.
+      this.polling = false;
+      this.previous = null;
+      return;
+    }
+    setTimeout(() => void this.tick(), this.options.intervalMs);
+  }
+
+  private broadcast(event: string, data: (view: View) => unknown): void {
+    for (const subscriber of this.subscribers) {
+      try {
+        subscriber.controller.enqueue(encodeEvent(event, data(subscriber.view)));
+      } catch {
+        this.subscribers.delete(subscriber);
+      }
+    }
+  }
+}
@@ -207,6 +207,21 @@ export function renderWebIndex(options: WebIndexOptions): string {
       background: var(--base);
     }
 
+    .alert-banner {
+      padding: 8px 16px;
+      border-bottom: 1px solid var(--border);
+      background: rgba(243, 139, 168, 0.14);
+      color: var(--red);
+    }
+
+    .alert-banner[hidden] {
+      display: none;
+    }
+
+    .alert-banner strong {
+      margin-right: 8px;
+    }
+
     .focus-item {
       min-width: 0;
       border: 1px solid var(--border);
@@ -338,6 +353,13 @@ export function renderWebIndex(options: WebIndexOptions): string {
       font-size: 11px;
     }
 
+    .trend {
+      display: flex;
+      gap: 12px;
+      margin-top: 5px;
+      white-space: nowrap;
+    }
+
     .bar {
       height: 6px;
       border-radius: 2px;
@@ -548,6 +570,7 @@ export function renderWebIndex(options: WebIndexOptions): string {
           <option value="active">rank: active</option>
           <option value="completed">rank: completed</option>
           <option value="delayed">rank: delayed</option>
+          <option value="throughput">rank: throughput</option>
           <option value="name">rank: name</option>
         </select>
         <button id="refreshButton" type="button">refresh</button>
@@ -555,6 +578,7 @@ export function renderWebIndex(options: WebIndexOptions): string {
     </header>
 
     <section class="metrics" id="metrics"></section>
+    <section class="alert-banner" id="alertBanner" role="alert" hidden></section>
     <section class="focus-strip" id="focusStrip"></section>
 
     <main class="workspace">
@@ -562,6 +586,7 @@ export function renderWebIndex(options: WebIndexOptions): string {
         <div class="panel-head">
           <span class="panel-title">queues</span>
           <span class="meta" id="queueCount">0 queues</span>
+          ${options.readOnly ? "" : '<button id="pauseToggle" type="button" disabled>pause</button>'}
         </div>
         <div class="panel-body">
           <div class="panel-tools">
@@ -590,6 +615,8 @@ export function renderWebIndex(options: WebIndexOptions): string {
               <option value="500">500</option>
               <option value="1000">1000</option>
             </select>
+            <button id="failureGroupsButton" type="button">failure groups</button>
+            <button id="latencyButton" type="button">latency</button>
             <button id="retryBatchPreview" type="button">preview retry</button>
             ${options.readOnly ? "" : '<button id="retryBatch" class="danger" type="button">retry failed</button>'}
           </div>
@@ -633,10 +660,16 @@ const boot = window.__BULLMQ_DASH__;
 const state = {
   queues: [],
   metrics: null,
+  alerts: [],
   selectedQueue: null,
   jobs: [],
   selectedJob: null,
   jobDetail: null,
+  // "job" shows the selected job; "failures" shows failureGroups and
+  // "latency" shows queueLatency for the queue.
+  detailMode: "job",
+  failureGroups: null,
+  queueLatency: null,
   jobState: "failed",
   pageSize: 100,
   queueFilter: "",
@@ -646,8 +679,16 @@ const state = {
   loading: false,
 };
 
+// The /api/events stream, and the polling timer used while it is unavailable.
+const live = {
+  source: null,
+  pollTimer: null,
+  jobsLoaded: false,
+};
+
 const el = {
   metrics: document.getElementById("metrics"),
+  alertBanner: document.getElementById("alertBanner"),
   focusStrip: document.getElementById("focusStrip"),
   queueList: document.getElementById("queueList"),
   jobList: document.getElementById("jobList"),
@@ -662,8 +703,11 @@ const el = {
   queueCount: document.getElementById("queueCount"),
   lastUpdated: document.getElementById("lastUpdated"),
   refreshButton: document.getElementById("refreshButton"),
+  failureGroupsButton: document.getElementById("failureGroupsButton"),
+  latencyButton: document.getElementById("latencyButton"),
   retryBatchPreview: document.getElementById("retryBatchPreview"),
   retryBatch: document.getElementById("retryBatch"),
+  pauseToggle: document.getElementById("pauseToggle"),
   toast: document.getElementById("toast"),
 };
 
@@ -764,6 +808,15 @@ function renderMetrics() {
   }));
 }
 
+function renderAlerts() {
+  el.alertBanner.hidden = state.alerts.length === 0;
+  const title = document.createElement("strong");
+  setText(title, state.alerts.length === 1 ? "1 alert firing" : state.alerts.length + " alerts firing");
+  const messages = document.createElement("span");
+  setText(messages, state.alerts.map((alert) => alert.message).join(" · "));
+  el.alertBanner.replaceChildren(title, messages);
+}
+
 function renderFocusStrip() {
   const counts = state.metrics ? state.metrics.jobCounts : {};
   const failedQueues = state.queues.filter((queue) => queue.counts.failed > 0);
@@ -834,7 +887,7 @@ function renderQueues() {
 
     const meta = document.createElement("div");
     meta.className = "meta";
-    setText(meta, queue.rankReason);
+    setText(meta, queue.rankReason + formatRate(queue.rates));
 
     const bar = document.createElement("div");
     bar.className = "bar";
@@ -855,11 +908,44 @@ function renderQueues() {
     if (queue.isPaused) counts.append(pill("paused", 1));
 
     body.append(line, meta, bar, counts);
+    const trend = renderTrend(queue.trend);
+    if (trend) body.append(trend);
     row.append(rank, body);
     return row;
   }));
 }
 
+// Smoothed jobs in/out per minute; blank until the queue has been polled twice.
+function formatRate(rates) {
+  if (!rates || (rates.enqueuedPerMin === 0 && rates.dequeuedPerMin === 0)) return "";
+  return " · in " + fmt(rates.enqueuedPerMin) + "/m out " + fmt(rates.dequeuedPerMin) + "/m";
+}
+
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+
+function sparkline(values) {
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min;
+  return values
+    .map((value) => SPARK_CHARS[range === 0 ? 0 : Math.round(((value - min) / range) * (SPARK_CHARS.length - 1))])
+    .join("");
+}
+
+// Last hour of waiting/failed counts; hidden until there are two points to draw.
+function renderTrend(trend) {
+  if (!trend || trend.wait.length < 2) return null;
+  const row = document.createElement("div");
+  row.className = "trend meta";
+  for (const [label, values, cls] of [["wait", trend.wait, "state-waiting"], ["fail", trend.failed, "state-failed"]]) {
+    const span = document.createElement("span");
+    span.className = cls;
+    span.title = label + " " + values[0] + " → " + values[values.length - 1] + " over the last hour";
+    setText(span, label + " " + sparkline(values));
+    row.append(span);
+  }
+  return row;
+}
+
 function pill(label, value) {
   const span = document.createElement("span");
   span.className = "pill " + label;
@@ -876,6 +962,13 @@ function renderJobs() {
       ? "jobs / " + state.selectedQueue + " · " + jobs.length + suffix
       : "jobs",
   );
+  if (el.pauseToggle) {
+    const queue = selectedQueue();
+    el.pauseToggle.disabled = !queue;
+    setText(el.pauseToggle, queue && queue.isPaused ? "resume" : "pause");
+  }
+  el.failureGroupsButton.disabled = !state.selectedQueue;
+  el.latencyButton.disabled = !state.selectedQueue;
   el.retryBatchPreview.disabled = !state.selectedQueue || state.jobState !== "failed";
   if (el.retryBatch) {
     el.retryBatch.disabled = !state.selectedQueue || state.jobState !== "failed" || boot.readOnly;
@@ -899,7 +992,10 @@ function renderJobs() {
     const row = document.createElement("button");
     row.type = "button";
     row.className = "job-row" + (state.selectedJob && state.selectedJob.id === job.id ? " active" : "");
-    row.addEventListener("click", () => selectJob(job));
+    row.addEventListener("click", () => {
+      state.detailMode = "job";
+      selectJob(job);
+    });
 
     const main = document.createElement("div");
     const line = document.createElement("div");
@@ -950,6 +1046,14 @@ function appendDetailBlock(parent, label, value) {
 
 function renderDetail() {
   el.detail.replaceChildren();
+  if (state.detailMode === "failures") {
+    renderFailureGroups();
+    return;
+  }
+  if (state.detailMode === "latency") {
+    renderQueueLatency();
+    return;
+  }
   if (!state.jobDetail) {
     setText(el.detailState, "idle");
     const empty = document.createElement("div");
@@ -998,16 +1102,17 @@ function renderDetail() {
   const preview = document.createElement("button");
   preview.type = "button";
   setText(preview, "preview retry");
-  preview.disabled = job.state !== "failed";
-  preview.addEventListener("click", () => retryJob(job.id, true));
+  const retryable = job.state === "failed" || job.state === "completed";
+  preview.disabled = !retryable;
+  preview.addEventListener("click", () => retryJob(job.id, true, job.state));
   actions.append(copyId, preview);
   if (!boot.readOnly) {
     const retry = document.createElement("button");
     retry.type = "button";
     retry.className = "danger";
     setText(retry, "retry");
-    retry.disabled = job.state !== "failed";
-    retry.addEventListener("click", () => retryJob(job.id, false));
+    retry.disabled = !retryable;
+    retry.addEventListener("click", () => retryJob(job.id, false, job.state));
     actions.append(retry);
   }
 
@@ -1017,6 +1122,140 @@ function renderDetail() {
   appendDetailBlock(el.detail, "opts", job.opts);
   appendDetailBlock(el.detail, "progress", job.progress);
   appendDetailBlock(el.detail, "returnvalue", job.returnvalue);
+  appendLogsBlock(el.detail, job);
+}
+
+function renderFailureGroups() {
+  const result = state.failureGroups;
+  setText(el.detailState, "failure groups");
+  const summary = document.createElement("div");
+  summary.className = "notice";
+  setText(
+    summary,
+    result
+      ? result.groups.length + " groups in " + result.scanned + " of " + result.totalFailed + " failed jobs"
+      : "loading failure groups",
+  );
+  el.detail.append(summary);
+  if (!result) return;
+
+  result.groups.forEach((group) => {
+    const grid = document.createElement("div");
+    grid.className = "detail-grid";
+    [
+      ["group", group.id],
+      ["count", group.count],
+      ["first seen", ts(group.firstSeen)],
+      ["last seen", ts(group.lastSeen)],
+      ["names", group.names.map((entry) => entry.name + " (" + entry.count + ")").join(", ")],
+      ["samples", group.sampleJobIds.join(", ") || "-"],
+    ].forEach(([key, value]) => {
+      const k = document.createElement("div");
+      k.className = "key";
+      setText(k, key);
+      const v = document.createElement("div");
+      v.className = "value";
+      setText(v, value);
+      grid.append(k, v);
+    });
+    const pre = document.createElement("pre");
+    setText(pre, [group.reason, ...group.frames].join("\n"));
+
+    const actions = document.createElement("div");
+    actions.className = "detail-actions";
+    const preview = document.createElement("button");
+    preview.type = "button";
+    setText(preview, "preview retry group");
+    preview.addEventListener("click", () => retryFailureGroup(group.id, true));
+    actions.append(preview);
+    if (!boot.readOnly) {
+      const retry = document.createElement("button");
+      retry.type = "button";
+      retry.className = "danger";
+      setText(retry, "retry group");
+      retry.addEventListener("click", () => retryFailureGroup(group.id, false));
+      actions.append(retry);
+    }
+    el.detail.append(grid, pre, actions);
+  });
+}
+
+function latency(ms) {
+  if (ms === null || ms === undefined) return "-";
+  if (ms < 1000) return Math.round(ms) + "ms";
+  if (ms < 60000) return (ms / 1000).toFixed(1) + "s";
+  if (ms < 3600000) return Math.floor(ms / 60000) + "m " + Math.floor((ms % 60000) / 1000) + "s";
+  return Math.floor(ms / 3600000) + "h " + Math.floor((ms % 3600000) / 60000) + "m";
+}
+
+function renderQueueLatency() {
+  const result = state.queueLatency;
+  setText(el.detailState, "latency");
+  const summary = document.createElement("div");
+  summary.className = "notice";
+  setText(
+    summary,
+    result
+      ? (result.completed + result.failed) + " jobs sampled (" + result.completed + " completed, " +
+          result.failed + " failed)" + (result.from ? " · " + ts(result.from) + " to " + ts(result.to) : "")
+      : "loading latency",
+  );
+  el.detail.append(summary);
+  if (!result) return;
+
+  [{ name: "(all)", ...result.overall }, ...result.byName].forEach((group) => {
+    const grid = document.createElement("div");
+    grid.className = "detail-grid";
+    [
+      ["name", group.name],
+      ["jobs", group.jobs],
+      ["wait", "p50 " + latency(group.waitMs.p50) + " · p90 " + latency(group.waitMs.p90) + " · p99 " + latency(group.waitMs.p99)],
+      ["processing", "p50 " + latency(group.processingMs.p50) + " · p90 " + latency(group.processingMs.p90) + " · p99 " + latency(group.processingMs.p99)],
+    ].forEach(([key, value]) => {
+      const k = document.createElement("div");
+      k.className = "key";
+      setText(k, key);
+      const v = document.createElement("div");
+      v.className = "value";
+      setText(v, value);
+      grid.append(k, v);
+    });
+    el.detail.append(grid);
+  });
+}
+
+function appendLogsBlock(parent, job) {
+  if (!hasDetailValue(job.logs)) return;
+  const count = job.logCount ?? job.logs.length;
+  const title = document.createElement("div");
+  title.className = "key pre-title";
+  setText(title, count > job.logs.length ? "logs (last " + job.logs.length + " of " + count + ")" : "logs");
+  const pre = document.createElement("pre");
+  setText(pre, job.logs.join("\\n"));
+  parent.append(title, pre);
+}
+
+function applyOverview(overview) {
+  const previousQueue = state.selectedQueue;
+  state.queues = overview.queues;
+  state.metrics = overview.metrics;
+  state.alerts = overview.alerts || [];
+  const stillExists = state.queues.some((queue) => queue.name === state.selectedQueue);
+  if (!stillExists) {
+    state.selectedQueue = state.queues[0] ? state.queues[0].name : null;
+    state.jobs = [];
+    state.jobsTotal = 0;
+    state.selectedJob = null;
+    state.jobDetail = null;
+  }
+  renderMetrics();
+  renderAlerts();
+  renderFocusStrip();
+  renderQueues();
+  renderJobs();
+  renderDetail();
+  setText(el.lastUpdated, new Date(overview.timestamp).toLocaleTimeString());
+  return state.selectedQueue !== previousQueue;
 }
 
 async function refreshOverview() {
@@ -1024,23 +1263,7 @@ async function refreshOverview() {
   state.loading = true;
   el.refreshButton.disabled = true;
   try {
-    const overview = await api("/api/overview?sortBy=" + encodeURIComponent(state.sortBy));
-    state.queues = overview.queues;
-    state.metrics = overview.metrics;
-    const stillExists = state.queues.some((queue) => queue.name === state.selectedQueue);
-    if (!stillExists) {
-      state.selectedQueue = state.queues[0] ? state.queues[0].name : null;
-      state.jobs = [];
-      state.jobsTotal = 0;
-      state.selectedJob = null;
-      state.jobDetail = null;
-    }
-    renderMetrics();
-    renderFocusStrip();
-    renderQueues();
-    renderJobs();
-    renderDetail();
-    setText(el.lastUpdated, new Date(overview.timestamp).toLocaleTimeString());
+    applyOverview(await api("/api/overview?sortBy=" + encodeURIComponent(state.sortBy)));
     if (state.selectedQueue) await refreshJobs();
   } catch (error) {
     toast(error.message, true);
@@ -1078,8 +1301,41 @@ async function refreshJobs() {
   }
 }
 
+async function showFailureGroups() {
+  if (!state.selectedQueue) return;
+  state.detailMode = "failures";
+  state.failureGroups = null;
+  renderDetail();
+  try {
+    state.failureGroups = await api("/api/queues/" + encodeURIComponent(state.selectedQueue) + "/failures");
+    renderDetail();
+  } catch (error) {
+    state.detailMode = "job";
+    renderDetail();
+    toast(error.message, true);
+  }
+}
+
+async function showQueueLatency() {
+  if (!state.selectedQueue) return;
+  state.detailMode = "latency";
+  state.queueLatency = null;
+  renderDetail();
+  try {
+    state.queueLatency = await api("/api/queues/" + encodeURIComponent(state.selectedQueue) + "/stats");
+    renderDetail();
+  } catch (error) {
+    state.detailMode = "job";
+    renderDetail();
+    toast(error.message, true);
+  }
+}
+
 async function selectQueue(name) {
   state.selectedQueue = name;
+  state.detailMode = "job";
+  state.failureGroups = null;
+  state.queueLatency = null;
   state.selectedJob = null;
   state.jobDetail = null;
   renderQueues();
@@ -1101,7 +1357,7 @@ async function selectJob(job) {
   }
 }
 
-async function retryJob(jobId, dryRun) {
+async function retryJob(jobId, dryRun, jobState) {
   if (!state.selectedQueue || !jobId) return;
   if (!dryRun && boot.readOnly) {
     toast("Read-only mode blocks live retry", true);
@@ -1112,10 +1368,14 @@ async function retryJob(jobId, dryRun) {
       "/api/queues/" + encodeURIComponent(state.selectedQueue) + "/jobs/" + encodeURIComponent(jobId) + "/retry",
       {
         method: "POST",
-        body: JSON.stringify({ dryRun, confirm: !dryRun }),
+        body: JSON.stringify({ dryRun, confirm: !dryRun, jobState }),
       },
     );
-    toast(dryRun ? "Matched " + result.matched + " failed job" : "Retried " + result.retried + " failed job");
+    toast(
+      dryRun
+        ? "Matched " + result.matched + " " + jobState + " job"
+        : "Retried " + result.retried + " " + jobState + " job",
+    );
     if (!dryRun) await refreshOverview();
   } catch (error) {
     toast(error.message, true);
@@ -1155,10 +1415,98 @@ async function retryBatchFailed() {
   }
 }
 
+async function retryFailureGroup(groupId, dryRun) {
+  if (!state.selectedQueue) return;
+  if (!dryRun) {
+    if (boot.readOnly) {
+      toast("Read-only mode blocks live retry", true);
+      return;
+    }
+    if (!window.confirm("Retry failure group " + groupId + " in " + state.selectedQueue + "?")) return;
+  }
+  try {
+    const result = await api("/api/queues/" + encodeURIComponent(state.selectedQueue) + "/retry-failed", {
+      method: "POST",
+      body: JSON.stringify({ dryRun, confirm: !dryRun, pageSize: 1000, failureGroup: groupId }),
+    });
+    toast(
+      dryRun
+        ? "Matched " + result.matched + " failed jobs; sample " + (result.sampleJobIds.join(", ") || "-")
+        : "Retried " + result.retried + " failed jobs",
+    );
+    if (!dryRun) {
+      await refreshOverview();
+      await showFailureGroups();
+    }
+  } catch (error) {
+    toast(error.message, true);
+  }
+}
+
+async function togglePause() {
+  const queue = selectedQueue();
+  if (!queue) return;
+  if (boot.readOnly) {
+    toast("Read-only mode blocks pause/resume", true);
+    return;
+  }
+  const action = queue.isPaused ? "resume" : "pause";
+  const prompt = action === "pause"
+    ? "Pause " + queue.name + "? Workers will stop picking up new jobs."
+    : "Resume " + queue.name + "?";
+  if (!window.confirm(prompt)) return;
+  try {
+    await api("/api/queues/" + encodeURIComponent(queue.name) + "/" + action, {
+      method: "POST",
+      body: JSON.stringify({ dryRun: false, confirm: true }),
+    });
+    toast((action === "pause" ? "Paused " : "Resumed ") + queue.name);
+    await refreshOverview();
+  } catch (error) {
+    toast(error.message, true);
+  }
+}
+
+function startPolling() {
+  if (live.pollTimer) return;
+  refreshOverview();
+  live.pollTimer = setInterval(refreshOverview, Math.max(boot.pollIntervalMs || 3000, 1500));
+}
+
+function stopPolling() {
+  clearInterval(live.pollTimer);
+  live.pollTimer = null;
+}
+
+function connectEvents() {
+  if (!window.EventSource) {
+    startPolling();
+    return;
+  }
+  if (live.source) live.source.close();
+  const source = new EventSource("/api/events?sortBy=" + encodeURIComponent(state.sortBy));
+  live.source = source;
+  source.addEventListener("open", stopPolling);
+  // EventSource reconnects on its own; poll in the meantime so the page stays live.
+  source.addEventListener("error", startPolling);
+  source.addEventListener("overview", (event) => {
+    const selectionChanged = applyOverview(JSON.parse(event.data));
+    if (state.selectedQueue && (selectionChanged || !live.jobsLoaded)) {
+      live.jobsLoaded = true;
+      refreshJobs();
+    }
+  });
+  source.addEventListener("jobs", (event) => {
+    if (JSON.parse(event.data).queues.includes(state.selectedQueue)) refreshJobs();
+  });
+  source.addEventListener("poll-error", (event) => toast(JSON.parse(event.data).error, true));
+}
+
 el.refreshButton.addEventListener("click", refreshOverview);
 el.sortBy.addEventListener("change", () => {
   state.sortBy = el.sortBy.value;
-  refreshOverview();
+  if (live.source) connectEvents();
+  else refreshOverview();
 });
 el.jobState.addEventListener("change", () => {
   state.jobState = el.jobState.value;
@@ -1176,10 +1524,12 @@ el.jobFilter.addEventListener("input", () => {
   state.jobFilter = el.jobFilter.value;
   renderJobs();
 });
+el.failureGroupsButton.addEventListener("click", showFailureGroups);
+el.latencyButton.addEventListener("click", showQueueLatency);
 el.retryBatchPreview.addEventListener("click", previewBatchRetry);
 if (el.retryBatch) el.retryBatch.addEventListener("click", retryBatchFailed);
+if (el.pauseToggle) el.pauseToggle.addEventListener("click", togglePause);
 
-refreshOverview();
-setInterval(refreshOverview, Math.max(boot.pollIntervalMs || 3000, 1500));
+connectEvents();
 `;
 }
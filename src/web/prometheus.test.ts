@@ -0,0 +1,59 @@
+import { describe, expect, it } from "bun:test";
+import type { QueueStats } from "../data/queues.js";
+import { formatPrometheusMetrics } from "./prometheus.js";
+
+const rates = { enqueuedPerMin: 90, enqueuedPerSec: 1.5, dequeuedPerMin: 60, dequeuedPerSec: 1 };
+
+function queue(name: string, isPaused = false, queueRates?: QueueStats["rates"]): QueueStats {
+  return {
+    name,
+    counts: { wait: 3, active: 1, completed: 20, failed: 2, delayed: 0, schedulers: 4 },
+    isPaused,
+    total: 26,
+    rates: queueRates,
+  };
+}
+
+describe("formatPrometheusMetrics", () => {
+  it("renders one gauge family per metric with queue and prefix labels", () => {
+    const text = formatPrometheusMetrics([queue("reports", true), queue("email")], rates, "bull");
+    const lines = text.split("\n");
+
+    expect(lines.slice(0, 4)).toEqual([
+      "# HELP bullmq_queue_jobs Jobs in a queue by state.",
+      "# TYPE bullmq_queue_jobs gauge",
+      'bullmq_queue_jobs{prefix="bull",queue="email",state="wait"} 3',
+      'bullmq_queue_jobs{prefix="bull",queue="email",state="active"} 1',
+    ]);
+    expect(lines).toContain('bullmq_queue_paused{prefix="bull",queue="reports"} 1');
+    expect(lines).toContain('bullmq_queue_paused{prefix="bull",queue="email"} 0');
+    expect(lines).toContain('bullmq_queue_schedulers{prefix="bull",queue="email"} 4');
+    expect(lines).toContain('bullmq_queues{prefix="bull"} 2');
+    expect(lines).toContain('bullmq_enqueued_per_second{prefix="bull"} 1.5');
+    expect(lines).toContain('bullmq_dequeued_per_second{prefix="bull"} 1');
+    expect(text.endsWith("\n")).toBe(true);
+  });
+
+  it("renders per-queue rates, zero for queues without any yet", () => {
+    const text = formatPrometheusMetrics(
+      [
+        queue("email", false, { ...rates, enqueuedPerSec: 0.5, dequeuedPerSec: 0.25 }),
+        queue("reports"),
+      ],
+      rates,
+      "bull",
+    );
+    const lines = text.split("\n");
+
+    expect(lines).toContain("# TYPE bullmq_queue_enqueued_per_second gauge");
+    expect(lines).toContain('bullmq_queue_enqueued_per_second{prefix="bull",queue="email"} 0.5');
+    expect(lines).toContain('bullmq_queue_dequeued_per_second{prefix="bull",queue="email"} 0.25');
+    expect(lines).toContain('bullmq_queue_enqueued_per_second{prefix="bull",queue="reports"} 0');
+    expect(lines).toContain('bullmq_queue_dequeued_per_second{prefix="bull",queue="reports"} 0');
+  });
+
+  it("escapes label values", () => {
+    const text = formatPrometheusMetrics([queue('odd"name\\x')], rates, "my\nprefix");
+    expect(text).toContain('bullmq_queue_paused{prefix="my\\nprefix",queue="odd\\"name\\\\x"} 0');
+  });
+});
@@ -0,0 +1,98 @@
+import { ZERO_RATES, type GlobalMetrics } from "../data/metrics.js";
+import type { QueueStats } from "../data/queues.js";
+
+/** Prometheus text exposition format, version 0.0.4. */
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+const JOB_STATES = ["wait", "active", "completed", "failed", "delayed"] as const;
+
+type Labels = Record<string, string>;
+
+function escapeLabelValue(value: string): string {
+  return value.replaceAll("\\", "\\\\").replaceAll('"', '\\"').replaceAll("\n", "\\n");
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  const rendered = Object.entries(labels)
+    .map(([key, labelValue]) => `${key}="${escapeLabelValue(labelValue)}"`)
+    .join(",");
+  return `${name}{${rendered}} ${Number.isFinite(value) ? value : 0}`;
+}
+
+function gauge(name: string, help: string, samples: string[]): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} gauge`, ...samples];
+}
+
+/**
+ * Render queue counts, pause state, scheduler counts and the per-queue and
+ * global enqueue/dequeue rates as Prometheus gauges. Every series carries the
+ * BullMQ key prefix so several dashboards can share one Prometheus.
+ */
+export function formatPrometheusMetrics(
+  queues: QueueStats[],
+  rates: GlobalMetrics["rates"],
+  prefix: string,
+): string {
+  const byName = queues.toSorted((a, b) => a.name.localeCompare(b.name));
+  const lines = [
+    ...gauge(
+      "bullmq_queue_jobs",
+      "Jobs in a queue by state.",
+      byName.flatMap((queue) =>
+        JOB_STATES.map((state) =>
+          sample("bullmq_queue_jobs", { prefix, queue: queue.name, state }, queue.counts[state]),
+        ),
+      ),
+    ),
+    ...gauge(
+      "bullmq_queue_paused",
+      "1 when the queue is paused, 0 otherwise.",
+      byName.map((queue) =>
+        sample("bullmq_queue_paused", { prefix, queue: queue.name }, queue.isPaused ? 1 : 0),
+      ),
+    ),
+    ...gauge(
+      "bullmq_queue_schedulers",
+      "Job schedulers registered on the queue.",
+      byName.map((queue) =>
+        sample("bullmq_queue_schedulers", { prefix, queue: queue.name }, queue.counts.schedulers),
+      ),
+    ),
+    ...gauge(
+      "bullmq_queue_enqueued_per_second",
+      "Jobs added to the queue per second, averaged over recent scrapes.",
+      byName.map((queue) =>
+        sample(
+          "bullmq_queue_enqueued_per_second",
+          { prefix, queue: queue.name },
+          (queue.rates ?? ZERO_RATES).enqueuedPerSec,
+        ),
+      ),
+    ),
+    ...gauge(
+      "bullmq_queue_dequeued_per_second",
+      "Jobs finished in the queue per second, averaged over recent scrapes.",
+      byName.map((queue) =>
+        sample(
+          "bullmq_queue_dequeued_per_second",
+          { prefix, queue: queue.name },
+          (queue.rates ?? ZERO_RATES).dequeuedPerSec,
+        ),
+      ),
+    ),
+    ...gauge("bullmq_queues", "Queues discovered under the prefix.", [
+      sample("bullmq_queues", { prefix }, queues.length),
+    ]),
+    ...gauge(
+      "bullmq_enqueued_per_second",
+      "Jobs added per second across all queues, averaged over recent scrapes.",
+      [sample("bullmq_enqueued_per_second", { prefix }, rates.enqueuedPerSec)],
+    ),
+    ...gauge(
+      "bullmq_dequeued_per_second",
+      "Jobs finished per second across all queues, averaged over recent scrapes.",
+      [sample("bullmq_dequeued_per_second", { prefix }, rates.dequeuedPerSec)],
+    ),
+  ];
+  return lines.join("\n") + "\n";
+}
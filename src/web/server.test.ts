@@ -1,5 +1,6 @@
-import { describe, expect, it } from "bun:test";
+import { describe, expect, it, spyOn } from "bun:test";
 import type { Context } from "../context.js";
+import { createMetricsState } from "../data/metrics.js";
 import { createWebHandler } from "./server.js";
 
 function fakeContext(prefix: string = "bull"): Context {
@@ -23,6 +24,7 @@ function fakeContext(prefix: string = "bull"): Context {
     queueCache: new Map(),
     queueNamesCache: null,
     queueStore: { lastCleanupAt: null },
+    metrics: createMetricsState(),
   };
 }
 
@@ -39,6 +41,8 @@ describe("createWebHandler", () => {
     expect(html).toContain("filter queues");
     expect(html).toContain("filter jobs");
     expect(html).toContain("retry failed");
+    expect(html).toContain('id="pauseToggle"');
+    expect(html).toContain("failure groups");
     expect(html).not.toContain("localhost:6379");
   });
 
@@ -52,6 +56,7 @@ describe("createWebHandler", () => {
     expect(html).toContain("read-only");
     expect(html).toContain("preview retry");
     expect(html).not.toContain("retry failed");
+    expect(html).not.toContain('id="pauseToggle"');
   });
 
   it("escapes the configured Redis key prefix in the dashboard shell", async () => {
@@ -66,6 +71,88 @@ describe("createWebHandler", () => {
     expect(html).toContain("\\u003cscript>alert(1)");
   });
 
+  it("serves Prometheus metrics alongside the dashboard", async () => {
+    const response = await createWebHandler(fakeContext())(
+      new Request("http://localhost:3000/metrics"),
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("version=0.0.4");
+    expect(await response.text()).toContain("# TYPE bullmq_queue_jobs gauge");
+  });
+
+  it("serves only /metrics in metrics-only mode", async () => {
+    const handler = createWebHandler(fakeContext(), { metricsOnly: true });
+
+    expect((await handler(new Request("http://localhost:3000/metrics"))).status).toBe(200);
+    expect((await handler(new Request("http://localhost:3000/"))).status).toBe(404);
+    const api = await handler(new Request("http://localhost:3000/api/overview"));
+    expect(api.status).toBe(404);
+    expect(await api.json()).toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("returns CONFIG_ERROR for an invalid job log offset", async () => {
+    const response = await createWebHandler(fakeContext())(
+      new Request("http://localhost:3000/api/queues/email/jobs/42/logs?offset=-1"),
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: "Invalid offset. Use an integer >= 0.",
+      code: "CONFIG_ERROR",
+    });
+  });
+
+  it("returns CONFIG_ERROR for a malformed where expression", async () => {
+    const response = await createWebHandler(fakeContext())(
+      new Request(
+        `http://localhost:3000/api/queues/email/jobs?where=${encodeURIComponent("data.x ==")}`,
+      ),
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: "Invalid where expression: Unexpected end of expression at position 10",
+      code: "CONFIG_ERROR",
+    });
+  });
+
+  it("rejects a failureGroup outside failed retries before touching Redis", async () => {
+    const handler = createWebHandler(fakeContext());
+    const retry = (body: unknown) =>
+      handler(
+        new Request("http://localhost:3000/api/queues/email/retry-failed", {
+          method: "POST",
+          body: JSON.stringify(body),
+          headers: { "content-type": "application/json" },
+        }),
+      );
+
+    const malformed = await retry({ failureGroup: "nope" });
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toMatchObject({ code: "CONFIG_ERROR" });
+
+    const completed = await retry({ failureGroup: "3fa9c0d2e1", jobState: "completed" });
+    expect(completed.status).toBe(400);
+    expect(await completed.json()).toMatchObject({
+      error: "failureGroup can only be used with jobState failed.",
+    });
+  });
+
+  it("looks a job ID up across every discovered queue", async () => {
+    const response = await createWebHandler(fakeContext())(
+      new Request("http://localhost:3000/api/jobs/123"),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      jobId: "123",
+      source: "redis",
+      queuesSearched: 0,
+      matches: [],
+    });
+  });
+
   it("returns CONFIG_ERROR for invalid queue ranking input", async () => {
     const response = await createWebHandler(fakeContext())(
       new Request("http://localhost:3000/api/overview?sortBy=bogus"),
@@ -77,6 +164,47 @@ describe("createWebHandler", () => {
     });
   });
 
+  it("streams the overview over Server-Sent Events", async () => {
+    const abort = new AbortController();
+    const timeouts: number[] = [];
+    const ctx = fakeContext();
+    ctx.queueStore.lastCleanupAt = Date.now();
+    const overviewRates = spyOn(ctx.metrics.global, "update");
+    const response = await createWebHandler(ctx)(
+      new Request("http://localhost:3000/api/events?sortBy=name", { signal: abort.signal }),
+      { timeout: (_request, seconds) => timeouts.push(seconds) },
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/event-stream");
+    expect(timeouts).toEqual([0]);
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = "";
+    while (!text.includes("event: overview")) {
+      // eslint-disable-next-line no-await-in-loop
+      const { value, done } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value);
+    }
+    reader.releaseLock();
+    abort.abort();
+
+    expect(text).toContain("event: overview");
+    expect(text).toContain('"sort":{"by":"name","order":"asc"}');
+    // The stream keeps its own rate trackers; ctx.metrics is left to /api/overview.
+    expect(overviewRates).not.toHaveBeenCalled();
+  });
+
+  it("rejects invalid event stream sort input", async () => {
+    const response = await createWebHandler(fakeContext())(
+      new Request("http://localhost:3000/api/events?sortBy=bogus"),
+    );
+
+    expect(response.status).toBe(400);
+  });
+
   it("rejects live retry requests that are not JSON before touching Redis", async () => {
     const response = await createWebHandler(fakeContext())(
       new Request("http://localhost:3000/api/queues/email/jobs/42/retry", {
@@ -121,4 +249,112 @@ describe("createWebHandler", () => {
       code: "READ_ONLY",
     });
   });
+
+  it("requires explicit confirmation for live queue pause requests", async () => {
+    const response = await createWebHandler(fakeContext())(
+      new Request("http://localhost:3000/api/queues/email/pause", {
+        method: "POST",
+        body: JSON.stringify({ dryRun: false }),
+        headers: { "content-type": "application/json" },
+      }),
+    );
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({
+      error: "Live pause requires confirm=true",
+      code: "CONFIG_ERROR",
+    });
+  });
+
+  it("returns QUEUE_NOT_FOUND instead of pausing an unknown queue", async () => {
+    const response = await createWebHandler(fakeContext())(
+      new Request("http://localhost:3000/api/queues/emial/pause", {
+        method: "POST",
+        body: JSON.stringify({ dryRun: true }),
+        headers: { "content-type": "application/json" },
+      }),
+    );
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({
+      error: "Queue 'emial' not found",
+      code: "QUEUE_NOT_FOUND",
+    });
+  });
+
+  it("blocks live queue resume requests when web mode is read-only", async () => {
+    const response = await createWebHandler(fakeContext(), { readOnly: true })(
+      new Request("http://localhost:3000/api/queues/email/resume", {
+        method: "POST",
+        body: JSON.stringify({ dryRun: false, confirm: true }),
+        headers: { "content-type": "application/json" },
+      }),
+    );
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({
+      code: "READ_ONLY",
+    });
+  });
+
+  it("previews a job add without touching Redis by default", async () => {
+    const response = await createWebHandler(fakeContext())(
+      new Request("http://localhost:3000/api/queues/email/jobs", {
+        method: "POST",
+        body: JSON.stringify({ name: "welcome", data: { to: "a@example.com" }, attempts: 3 }),
+        headers: { "content-type": "application/json" },
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      command: "jobs-add",
+      dryRun: true,
+      queue: "email",
+      job: null,
+      request: { name: "welcome", data: { to: "a@example.com" }, attempts: 3 },
+    });
+  });
+
+  it("rejects job add requests without a name", async () => {
+    const response = await createWebHandler(fakeContext())(
+      new Request("http://localhost:3000/api/queues/email/jobs", {
+        method: "POST",
+        body: JSON.stringify({ data: {} }),
+        headers: { "content-type": "application/json" },
+      }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "CONFIG_ERROR" });
+  });
+
+  it("requires explicit confirmation for live job add requests", async () => {
+    const response = await createWebHandler(fakeContext())(
+      new Request("http://localhost:3000/api/queues/email/jobs", {
+        method: "POST",
+        body: JSON.stringify({ name: "welcome", dryRun: false }),
+        headers: { "content-type": "application/json" },
+      }),
+    );
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({
+      error: "Live add requires confirm=true",
+      code: "CONFIG_ERROR",
+    });
+  });
+
+  it("blocks live job add requests when web mode is read-only", async () => {
+    const response = await createWebHandler(fakeContext(), { readOnly: true })(
+      new Request("http://localhost:3000/api/queues/email/jobs", {
+        method: "POST",
+        body: JSON.stringify({ name: "welcome", dryRun: false, confirm: true }),
+        headers: { "content-type": "application/json" },
+      }),
+    );
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: "READ_ONLY" });
+  });
 });
@@ -1,13 +1,41 @@
 import { closeContext, type Context } from "../context.js";
-import { discoverQueueNames, getQueueStats, type QueueStats } from "../data/queues.js";
 import {
+  discoverQueueNames,
+  getAllQueueStats,
+  getQueueStats,
+  setQueuePaused,
+  type QueueStats,
+} from "../data/queues.js";
+import {
+  addJob,
+  DuplicateJobIdError,
   getAllJobs,
   getJobDetail,
+  getJobLogs,
+  DEFAULT_LOG_PAGE_SIZE,
   retryFailedJobs,
+  RETRYABLE_JOB_STATES,
   VALID_JOB_STATUSES,
+  type AddJobOptions,
+  type JobDetail,
   type JsonJobStatus,
+  type RetryableJobState,
 } from "../data/jobs.js";
-import { calculateGlobalMetricsFromQueueStats } from "../data/metrics.js";
+import {
+  calculateGlobalMetricsFromQueueStats,
+  createMetricsState,
+  updateMetricsTracker,
+  ZERO_RATES,
+  type MetricsContextState,
+  type ThroughputRates,
+} from "../data/metrics.js";
+import { compileWhere, WhereSyntaxError } from "../data/where.js";
+import { QueueNotFoundError } from "../errors.js";
+import { getFailureGroups, isFailureGroupId } from "../data/failures.js";
+import { findJob } from "../data/job-find.js";
+import { DEFAULT_LATENCY_SAMPLE_SIZE, getQueueLatency } from "../data/latency.js";
+import { checkAlerts } from "../data/alerts.js";
+import { getQueueTrends, type QueueTrend } from "../data/history.js";
 import { recordObservedJobs, recordObservedQueues } from "../data/queue-store.js";
 import { runQueueStoreCleanupIfDue } from "../data/queue-store-lifecycle.js";
 import {
@@ -16,7 +44,9 @@ import {
   type QueueSortBy,
   type SortOrder,
 } from "../data/queue-sort.js";
+import { QueueEventHub, type OverviewSnapshot } from "./events.js";
 import { renderWebIndex } from "./html.js";
+import { formatPrometheusMetrics, PROMETHEUS_CONTENT_TYPE } from "./prometheus.js";
 
 const WEB_SORT_ALIASES = new Map<string, QueueSortBy>([
   ["name", "name"],
@@ -29,6 +59,7 @@ const WEB_SORT_ALIASES = new Map<string, QueueSortBy>([
   ["completed", "completed"],
   ["failed", "failed"],
   ["delayed", "delayed"],
+  ["throughput", "throughput"],
 ]);
 
 const WEB_MAX_PAGE_SIZE = 1000;
@@ -41,22 +72,40 @@ export interface WebServerOptions {
   host: string;
   port: number;
   readOnly: boolean;
+  metricsOnly: boolean;
 }
 
 export interface WebHandlerOptions {
   readOnly?: boolean;
+  /** Serve only GET /metrics: no dashboard shell and no API. */
+  metricsOnly?: boolean;
 }
 
-interface RetryRequestBody {
+interface ActionRequestBody {
   dryRun?: unknown;
   confirm?: unknown;
   pageSize?: unknown;
+  jobState?: unknown;
+  failureGroup?: unknown;
+}
+
+interface AddJobRequestBody extends ActionRequestBody {
+  name?: unknown;
+  data?: unknown;
+  delay?: unknown;
+  priority?: unknown;
+  attempts?: unknown;
+  jobId?: unknown;
 }
 
 interface RankedQueue extends Omit<QueueStats, "lastObservedAt"> {
   rank: number;
   rankScore: number;
   rankReason: string;
+  /** Waiting/failed counts over the last hour, for the queue row sparklines. */
+  trend: QueueTrend;
+  /** Smoothed enqueue/dequeue rates; zero until the queue has been polled twice. */
+  rates: ThroughputRates;
 }
 
 function jsonResponse(data: unknown, status: number = 200): Response {
@@ -102,7 +151,7 @@ function parseQueueSort(rawValue: string | null): QueueSortBy {
   const sortBy = WEB_SORT_ALIASES.get(rawValue);
   if (!sortBy) {
     throw new WebInputError(
-      "Invalid sortBy. Use name, task-size, waiting, active, completed, failed, or delayed.",
+      "Invalid sortBy. Use name, task-size, waiting, active, completed, failed, delayed, or throughput.",
     );
   }
   return sortBy;
@@ -120,15 +169,85 @@ function parseJobState(rawValue: string | null): JsonJobStatus | undefined {
   throw new WebInputError(`Invalid state. Use all, ${VALID_JOB_STATUSES.join(", ")}.`);
 }
 
-function parsePageSize(rawValue: string | null | undefined, fallback: number): number {
+function parsePageSize(
+  rawValue: string | null | undefined,
+  fallback: number,
+  field: string = "pageSize",
+): number {
   if (!rawValue) return fallback;
   const parsed = Number(rawValue);
   if (!Number.isInteger(parsed) || parsed < 1) {
-    throw new WebInputError("Invalid pageSize. Use a positive integer.");
+    throw new WebInputError(`Invalid ${field}. Use a positive integer.`);
   }
   return Math.min(parsed, WEB_MAX_PAGE_SIZE);
 }
 
+function parseLogOffset(rawValue: string | null): number {
+  if (!rawValue) return 0;
+  const parsed = Number(rawValue);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new WebInputError("Invalid offset. Use an integer >= 0.");
+  }
+  return parsed;
+}
+
+function parseWhere(rawValue: string | null): string | undefined {
+  if (rawValue === null || rawValue.trim() === "") return undefined;
+  try {
+    compileWhere(rawValue);
+  } catch (error) {
+    if (error instanceof WhereSyntaxError) {
+      throw new WebInputError(`Invalid where expression: ${error.message}`);
+    }
+    throw error;
+  }
+  return rawValue;
+}
+
+function parseRetryState(value: unknown): RetryableJobState {
+  if (value === undefined || value === null) return "failed";
+  if (!RETRYABLE_JOB_STATES.includes(value as RetryableJobState)) {
+    throw new WebInputError(`Invalid jobState. Use one of: ${RETRYABLE_JOB_STATES.join(", ")}.`);
+  }
+  return value as RetryableJobState;
+}
+
+function parseFailureGroup(value: unknown, jobState: RetryableJobState): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string" || !isFailureGroupId(value)) {
+    throw new WebInputError("Invalid failureGroup. Use a group id from the failures endpoint.");
+  }
+  if (jobState !== "failed") {
+    throw new WebInputError("failureGroup can only be used with jobState failed.");
+  }
+  return value;
+}
+
+function parseOptionalInteger(value: unknown, field: string, min: number): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+    throw new WebInputError(`Invalid ${field}. Use an integer >= ${min}.`);
+  }
+  return value;
+}
+
+function parseAddJobBody(body: AddJobRequestBody): AddJobOptions {
+  if (typeof body.name !== "string" || body.name.trim() === "") {
+    throw new WebInputError("Invalid name. Use a non-empty string.");
+  }
+  if (body.jobId !== undefined && (typeof body.jobId !== "string" || body.jobId === "")) {
+    throw new WebInputError("Invalid jobId. Use a non-empty string.");
+  }
+  return {
+    name: body.name,
+    data: body.data ?? {},
+    delay: parseOptionalInteger(body.delay, "delay", 0),
+    priority: parseOptionalInteger(body.priority, "priority", 0),
+    attempts: parseOptionalInteger(body.attempts, "attempts", 1),
+    jobId: body.jobId,
+  };
+}
+
 function rankScore(queue: QueueStats): number {
   return (
     queue.total +
@@ -149,7 +268,7 @@ function rankReason(queue: QueueStats): string {
   return parts.length > 0 ? parts.join(" / ") : "idle";
 }
 
-function publicQueue(queue: QueueStats, rank: number): RankedQueue {
+function publicQueue(queue: QueueStats, rank: number, trend: QueueTrend | undefined): RankedQueue {
   return {
     name: queue.name,
     counts: queue.counts,
@@ -158,25 +277,27 @@ function publicQueue(queue: QueueStats, rank: number): RankedQueue {
     rank,
     rankScore: Number(rankScore(queue).toFixed(2)),
     rankReason: rankReason(queue),
+    trend: trend ?? { wait: [], failed: [] },
+    rates: queue.rates ?? ZERO_RATES,
   };
 }
 
-async function fetchOverview(ctx: Context, url: URL): Promise<Response> {
-  const sortBy = parseQueueSort(url.searchParams.get("sortBy"));
-  const sortOrder = parseSortOrder(url.searchParams.get("sortOrder"), sortBy);
+/**
+ * Poll every queue once and run the per-observation side effects: the
+ * SQLite cache, its cleanup, and alert evaluation. Shared by
+ * `/api/overview` and the event stream so both see the same snapshot.
+ * Each caller passes the rate trackers only it advances: the stream polls
+ * on a fixed interval, while `/api/overview` is fetched whenever a tab
+ * asks, and one tracker fed by both would average over uneven gaps.
+ */
+async function observeOverview(
+  ctx: Context,
+  rateState: MetricsContextState,
+): Promise<OverviewSnapshot> {
   const queueNames = await discoverQueueNames(ctx);
-  const queues = sortQueues(
-    await Promise.all(queueNames.map((name) => getQueueStats(ctx, name))),
-    sortBy,
-    sortOrder,
-  );
+  const observed = await Promise.all(queueNames.map((name) => getQueueStats(ctx, name)));
   const observedAt = Date.now();
-  const zeroRates = {
-    enqueuedPerMin: 0,
-    enqueuedPerSec: 0,
-    dequeuedPerMin: 0,
-    dequeuedPerSec: 0,
-  };
+  const { rates, queues } = updateMetricsTracker(ctx, observed, observedAt, rateState);
 
   try {
     recordObservedQueues(ctx, queues, { observedAt });
@@ -186,18 +307,71 @@ async function fetchOverview(ctx: Context, url: URL): Promise<Response> {
 
   runQueueStoreCleanupIfDue(ctx);
 
-  return jsonResponse({
-    timestamp: new Date(observedAt).toISOString(),
-    sort: { by: sortBy, order: sortOrder },
-    queues: queues.map((queue, index) => publicQueue(queue, index + 1)),
-    metrics: calculateGlobalMetricsFromQueueStats(queues, zeroRates),
+  return {
+    queues,
+    alerts: checkAlerts(ctx, queues, observedAt),
+    trends: getQueueTrends(
+      ctx,
+      queues.map((queue) => queue.name),
+      observedAt,
+    ),
+    rates,
+    observedAt,
+  };
+}
+
+interface OverviewView {
+  sortBy: QueueSortBy;
+  sortOrder: SortOrder;
+}
+
+function parseOverviewView(url: URL): OverviewView {
+  const sortBy = parseQueueSort(url.searchParams.get("sortBy"));
+  return { sortBy, sortOrder: parseSortOrder(url.searchParams.get("sortOrder"), sortBy) };
+}
+
+function overviewBody(snapshot: OverviewSnapshot, view: OverviewView) {
+  const queues = sortQueues(snapshot.queues, view.sortBy, view.sortOrder);
+  return {
+    timestamp: new Date(snapshot.observedAt).toISOString(),
+    sort: { by: view.sortBy, order: view.sortOrder },
+    queues: queues.map((queue, index) =>
+      publicQueue(queue, index + 1, snapshot.trends.get(queue.name)),
+    ),
+    metrics: calculateGlobalMetricsFromQueueStats(queues, snapshot.rates),
+    alerts: snapshot.alerts,
+  };
+}
+
+async function fetchOverview(ctx: Context, url: URL): Promise<Response> {
+  const view = parseOverviewView(url);
+  return jsonResponse(overviewBody(await observeOverview(ctx, ctx.metrics), view));
+}
+
+/**
+ * Prometheus scrape target. Rates come from `scrapeRates`, trackers only
+ * scrapes advance, so they are smoothed across scrapes and don't depend on
+ * how often dashboard tabs poll.
+ */
+async function fetchPrometheusMetrics(
+  ctx: Context,
+  scrapeRates: MetricsContextState,
+): Promise<Response> {
+  const observed = await getAllQueueStats(ctx);
+  const { rates, queues } = updateMetricsTracker(ctx, observed, Date.now(), scrapeRates);
+  return new Response(formatPrometheusMetrics(queues, rates, ctx.config.prefix), {
+    headers: {
+      "content-type": PROMETHEUS_CONTENT_TYPE,
+      "cache-control": "no-store",
+    },
   });
 }
 
 async function fetchJobs(ctx: Context, queueName: string, url: URL): Promise<Response> {
   const state = parseJobState(url.searchParams.get("state"));
   const pageSize = parsePageSize(url.searchParams.get("pageSize"), 100);
-  const result = await getAllJobs(ctx, queueName, state, pageSize, false);
+  const where = parseWhere(url.searchParams.get("where"));
+  const result = await getAllJobs(ctx, queueName, state, pageSize, false, where);
   const observedAt = Date.now();
 
   try {
@@ -210,6 +384,7 @@ async function fetchJobs(ctx: Context, queueName: string, url: URL): Promise<Res
     timestamp: new Date(observedAt).toISOString(),
     queue: queueName,
     jobState: state ?? "all",
+    ...(where !== undefined ? { where } : {}),
     jobs: result.jobs.map((job) => ({
       id: job.id,
       name: job.name,
@@ -220,6 +395,32 @@ async function fetchJobs(ctx: Context, queueName: string, url: URL): Promise<Res
   });
 }
 
+async function fetchFailureGroups(ctx: Context, queueName: string, url: URL): Promise<Response> {
+  const pageSize = parsePageSize(url.searchParams.get("pageSize"), WEB_MAX_PAGE_SIZE);
+  const result = await getFailureGroups(ctx, queueName, { pageSize });
+  return jsonResponse({
+    timestamp: new Date().toISOString(),
+    queue: queueName,
+    ...result,
+  });
+}
+
+async function fetchQueueLatency(ctx: Context, queueName: string, url: URL): Promise<Response> {
+  const sampleSize = parsePageSize(url.searchParams.get("pageSize"), DEFAULT_LATENCY_SAMPLE_SIZE);
+  const result = await getQueueLatency(ctx, queueName, { sampleSize });
+  return jsonResponse({
+    timestamp: new Date().toISOString(),
+    queue: queueName,
+    ...result,
+  });
+}
+
+/** Look a job ID up in every queue; falls back to the SQLite cache when Redis is down. */
+async function fetchJobMatches(ctx: Context, jobId: string): Promise<Response> {
+  const result = await findJob(ctx, jobId);
+  return jsonResponse({ timestamp: new Date().toISOString(), ...result });
+}
+
 async function fetchJobDetail(ctx: Context, queueName: string, jobId: string): Promise<Response> {
   const job = await getJobDetail(ctx, queueName, jobId);
   if (!job) {
@@ -240,7 +441,37 @@ async function fetchJobDetail(ctx: Context, queueName: string, jobId: string): P
   });
 }
 
-async function parseRetryBody(request: Request): Promise<RetryRequestBody | Response> {
+async function fetchJobLogs(
+  ctx: Context,
+  queueName: string,
+  jobId: string,
+  url: URL,
+): Promise<Response> {
+  const offset = parseLogOffset(url.searchParams.get("offset"));
+  const limit = parsePageSize(url.searchParams.get("limit"), DEFAULT_LOG_PAGE_SIZE, "limit");
+  const job = await getJobDetail(ctx, queueName, jobId);
+  if (!job) {
+    return errorResponse("Job not found", "NOT_FOUND", 404);
+  }
+  const observedAt = Date.now();
+
+  try {
+    recordObservedJobs(ctx, queueName, [job], { observedAt });
+  } catch {
+    // Cache observations are best-effort; live dashboard data should still render.
+  }
+
+  const page = await getJobLogs(ctx, queueName, jobId, { offset, limit });
+  return jsonResponse({
+    timestamp: new Date(observedAt).toISOString(),
+    queue: queueName,
+    jobId,
+    state: job.state,
+    ...page,
+  });
+}
+
+async function parseActionBody(request: Request): Promise<ActionRequestBody | Response> {
   const contentType = request.headers.get("content-type") ?? "";
   if (!contentType.toLowerCase().includes("application/json")) {
     return errorResponse("Expected application/json request body", "CONFIG_ERROR", 415);
@@ -251,7 +482,7 @@ async function parseRetryBody(request: Request): Promise<RetryRequestBody | Resp
     if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
       return errorResponse("Expected a JSON object body", "CONFIG_ERROR", 400);
     }
-    return parsed as RetryRequestBody;
+    return parsed as ActionRequestBody;
   } catch (error) {
     return errorResponse(
       "Invalid JSON request body",
@@ -262,6 +493,26 @@ async function parseRetryBody(request: Request): Promise<RetryRequestBody | Resp
   }
 }
 
+/**
+ * POST actions default to dry-run. A live run is refused in read-only mode and
+ * must carry confirm=true, so a stray request can't mutate Redis.
+ */
+function guardLiveAction(
+  body: ActionRequestBody,
+  dryRun: boolean,
+  readOnly: boolean,
+  action: string,
+): Response | null {
+  if (dryRun) return null;
+  if (readOnly) {
+    return errorResponse("Web mode is read-only", "READ_ONLY", 403);
+  }
+  if (body.confirm !== true) {
+    return errorResponse(`Live ${action} requires confirm=true`, "CONFIG_ERROR", 409);
+  }
+  return null;
+}
+
 async function retryOneJob(
   ctx: Context,
   request: Request,
@@ -269,19 +520,17 @@ async function retryOneJob(
   jobId: string,
   readOnly: boolean,
 ) {
-  const body = await parseRetryBody(request);
+  const body = await parseActionBody(request);
   if (body instanceof Response) return body;
 
   const dryRun = body.dryRun !== false;
-  if (readOnly && !dryRun) {
-    return errorResponse("Web mode is read-only", "READ_ONLY", 403);
-  }
-  if (!dryRun && body.confirm !== true) {
-    return errorResponse("Live retry requires confirm=true", "CONFIG_ERROR", 409);
-  }
+  const blocked = guardLiveAction(body, dryRun, readOnly, "retry");
+  if (blocked) return blocked;
 
+  const jobState = parseRetryState(body.jobState);
   const result = await retryFailedJobs(ctx, queueName, {
     jobId,
+    jobState,
     dryRun,
   });
 
@@ -290,7 +539,7 @@ async function retryOneJob(
     command: "jobs-retry",
     dryRun,
     queue: queueName,
-    filter: { jobState: "failed", jobId },
+    filter: { jobState, jobId },
     ...result,
   });
 }
@@ -301,18 +550,18 @@ async function retryFailedBatch(
   queueName: string,
   readOnly: boolean,
 ) {
-  const body = await parseRetryBody(request);
+  const body = await parseActionBody(request);
   if (body instanceof Response) return body;
 
   const dryRun = body.dryRun !== false;
-  if (readOnly && !dryRun) {
-    return errorResponse("Web mode is read-only", "READ_ONLY", 403);
-  }
-  if (!dryRun && body.confirm !== true) {
-    return errorResponse("Live retry requires confirm=true", "CONFIG_ERROR", 409);
-  }
+  const blocked = guardLiveAction(body, dryRun, readOnly, "retry");
+  if (blocked) return blocked;
 
+  const jobState = parseRetryState(body.jobState);
+  const failureGroup = parseFailureGroup(body.failureGroup, jobState);
   const result = await retryFailedJobs(ctx, queueName, {
+    jobState,
+    failureGroup,
     pageSize: parsePageSize(String(body.pageSize ?? ""), 1000),
     dryRun,
   });
@@ -322,11 +571,87 @@ async function retryFailedBatch(
     command: "jobs-retry",
     dryRun,
     queue: queueName,
-    filter: { jobState: "failed" },
+    filter: { jobState, ...(failureGroup !== undefined ? { failureGroup } : {}) },
     ...result,
   });
 }
 
+async function pauseOrResumeQueue(
+  ctx: Context,
+  request: Request,
+  queueName: string,
+  action: "pause" | "resume",
+  readOnly: boolean,
+) {
+  const body = await parseActionBody(request);
+  if (body instanceof Response) return body;
+
+  const dryRun = body.dryRun !== false;
+  const blocked = guardLiveAction(body, dryRun, readOnly, action);
+  if (blocked) return blocked;
+
+  const result = await setQueuePaused(ctx, queueName, action === "pause", dryRun);
+
+  return jsonResponse({
+    timestamp: new Date().toISOString(),
+    command: action === "pause" ? "queues-pause" : "queues-resume",
+    dryRun,
+    queue: queueName,
+    wasPaused: result.wasPaused,
+    isPaused: result.isPaused,
+    changed: !dryRun && result.wasPaused !== result.isPaused,
+  });
+}
+
+async function addJobToQueue(ctx: Context, request: Request, queueName: string, readOnly: boolean) {
+  const body = await parseActionBody(request);
+  if (body instanceof Response) return body;
+
+  const options = parseAddJobBody(body);
+  const dryRun = body.dryRun !== false;
+  const blocked = guardLiveAction(body, dryRun, readOnly, "add");
+  if (blocked) return blocked;
+
+  if (dryRun) {
+    return jsonResponse({
+      timestamp: new Date().toISOString(),
+      command: "jobs-add",
+      dryRun,
+      queue: queueName,
+      job: null,
+      request: options,
+    });
+  }
+
+  let job: JobDetail;
+  try {
+    job = await addJob(ctx, queueName, options);
+  } catch (error) {
+    if (error instanceof DuplicateJobIdError) {
+      return errorResponse(error.message, "CONFIG_ERROR", 409);
+    }
+    throw error;
+  }
+  const observedAt = Date.now();
+
+  try {
+    recordObservedJobs(ctx, queueName, [job], { observedAt });
+  } catch {
+    // Cache observations are best-effort; live dashboard data should still render.
+  }
+
+  return jsonResponse(
+    {
+      timestamp: new Date(observedAt).toISOString(),
+      command: "jobs-add",
+      dryRun,
+      queue: queueName,
+      job,
+    },
+    201,
+  );
+}
+
 async function routeApi(
   ctx: Context,
   request: Request,
@@ -338,6 +663,10 @@ async function routeApi(
     return fetchOverview(ctx, url);
   }
 
+  if (request.method === "GET" && segments.length === 3 && segments[1] === "jobs") {
+    return fetchJobMatches(ctx, segments[2]!);
+  }
+
   if (segments[1] !== "queues" || segments.length < 4) {
     return errorResponse("API route not found", "NOT_FOUND", 404);
   }
@@ -349,10 +678,31 @@ async function routeApi(
     return fetchJobs(ctx, queueName, url);
   }
 
+  if (request.method === "POST" && resource === "jobs" && segments.length === 4) {
+    return addJobToQueue(ctx, request, queueName, options.readOnly);
+  }
+
+  if (request.method === "GET" && resource === "failures" && segments.length === 4) {
+    return fetchFailureGroups(ctx, queueName, url);
+  }
+
+  if (request.method === "GET" && resource === "stats" && segments.length === 4) {
+    return fetchQueueLatency(ctx, queueName, url);
+  }
+
   if (request.method === "GET" && resource === "jobs" && segments.length === 5) {
     return fetchJobDetail(ctx, queueName, segments[4]!);
   }
 
+  if (
+    request.method === "GET" &&
+    resource === "jobs" &&
+    segments.length === 6 &&
+    segments[5] === "logs"
+  ) {
+    return fetchJobLogs(ctx, queueName, segments[4]!, url);
+  }
+
   if (
     request.method === "POST" &&
     resource === "jobs" &&
@@ -366,24 +716,57 @@ async function routeApi(
     return retryFailedBatch(ctx, request, queueName, options.readOnly);
   }
 
+  if (
+    request.method === "POST" &&
+    (resource === "pause" || resource === "resume") &&
+    segments.length === 4
+  ) {
+    return pauseOrResumeQueue(ctx, request, queueName, resource, options.readOnly);
+  }
+
   return errorResponse("API route not found", "NOT_FOUND", 404);
 }
 
 export function createWebHandler(
   ctx: Context,
   options: WebHandlerOptions = {},
-): (request: Request) => Promise<Response> {
+): (request: Request, server?: Pick<Bun.Server<unknown>, "timeout">) => Promise<Response> {
   const handlerOptions: Required<WebHandlerOptions> = {
     readOnly: options.readOnly ?? false,
+    metricsOnly: options.metricsOnly ?? false,
   };
+  const streamRates = createMetricsState();
+  const events = new QueueEventHub<OverviewView>({
+    intervalMs: ctx.config.pollInterval,
+    observe: () => observeOverview(ctx, streamRates),
+    render: overviewBody,
+  });
+  const scrapeRates = createMetricsState();
 
-  return async (request: Request): Promise<Response> => {
+  return async (request, server): Promise<Response> => {
     const url = new URL(request.url);
     const segments = splitPath(url.pathname);
     if (!segments) {
       return errorResponse("Malformed request path", "CONFIG_ERROR", 400);
     }
 
+    if (request.method === "GET" && url.pathname === "/metrics") {
+      try {
+        return await fetchPrometheusMetrics(ctx, scrapeRates);
+      } catch (error) {
+        return errorResponse(
+          "Metrics scrape failed",
+          "RUNTIME_ERROR",
+          500,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+
+    if (handlerOptions.metricsOnly) {
+      return errorResponse("Route not found", "NOT_FOUND", 404);
+    }
+
     if (request.method === "GET" && (url.pathname === "/" || url.pathname === "/index.html")) {
       return htmlResponse(
         renderWebIndex({
@@ -399,11 +782,20 @@ export function createWebHandler(
     }
 
     try {
+      if (request.method === "GET" && segments.length === 2 && segments[1] === "events") {
+        const view = parseOverviewView(url);
+        // Event streams stay open between polls; don't let the idle timeout cut them.
+        server?.timeout(request, 0);
+        return events.connect(view, request.signal);
+      }
       return await routeApi(ctx, request, url, segments, handlerOptions);
     } catch (error) {
       if (error instanceof WebInputError) {
         return errorResponse(error.message, "CONFIG_ERROR", 400);
       }
+      if (error instanceof QueueNotFoundError) {
+        return errorResponse(error.message, error.code, 404);
+      }
       return errorResponse(
         "Web request failed",
         "RUNTIME_ERROR",
@@ -431,7 +823,10 @@ export async function runWebMode(ctx: Context, options: WebServerOptions): Promi
     server = Bun.serve({
       hostname: options.host,
       port: options.port,
-      fetch: createWebHandler(ctx, { readOnly: options.readOnly }),
+      fetch: createWebHandler(ctx, {
+        readOnly: options.readOnly,
+        metricsOnly: options.metricsOnly,
+      }),
     });
   } catch (error) {
     try {
@@ -443,8 +838,12 @@ export async function runWebMode(ctx: Context, options: WebServerOptions): Promi
   }
 
   const displayHost = options.host === "0.0.0.0" ? "localhost" : options.host;
-  const mode = options.readOnly ? "read-only" : "live-actions";
-  console.log(`bullmq-dash web UI (${mode}): http://${displayHost}:${server.port}`);
+  if (options.metricsOnly) {
+    console.log(`bullmq-dash metrics: http://${displayHost}:${server.port}/metrics`);
+  } else {
+    const mode = options.readOnly ? "read-only" : "live-actions";
+    console.log(`bullmq-dash web UI (${mode}): http://${displayHost}:${server.port}`);
+  }
   if (!isLoopbackHost(options.host)) {
     console.warn(
       "Warning: web mode has no built-in authentication; expose it only on trusted networks.",